@@ -0,0 +1,10 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  testMatch: ["<rootDir>/tests/**/*.spec.ts"],
+  transform: {
+    // Specs live outside src, the tsconfig's rootDir
+    "^.+\\.ts$": ["ts-jest", { tsconfig: { rootDir: "." } }],
+  },
+};
@@ -1,9 +1,17 @@
 import * as THREE from "three";
 import { STLLoader } from "three/examples/jsm/loaders/STLLoader";
+import { DXFReadOptions, DXFReader } from "../core/dxf-reader";
 
 export class AutoCADAdapter {
-  async importModel(file: File): Promise<THREE.Object3D> {
-    // Assuming AutoCAD export to STL
+  async importModel(
+    file: File,
+    options: DXFReadOptions = {}
+  ): Promise<THREE.Object3D> {
+    if (file.name.toLowerCase().endsWith(".dxf")) {
+      return DXFReader.read(await file.text(), file.name, options);
+    }
+
+    // Anything else is taken to be an STL export
     return new Promise((resolve, reject) => {
       const loader = new STLLoader();
       const url = URL.createObjectURL(file);
@@ -1,6 +1,12 @@
 import * as THREE from "three";
 import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
 
+/**
+ * Reads glTF exported from Blender. Objects keep their Blender names and
+ * custom properties, which the exporter writes as extras and which end up
+ * in userData, so BoundaryTags can read inlets, outlets and walls from
+ * them.
+ */
 export class BlenderAdapter {
   async importModel(file: File): Promise<THREE.Object3D> {
     return new Promise((resolve, reject) => {
@@ -12,7 +18,7 @@ export class BlenderAdapter {
         url,
         (gltf) => {
           URL.revokeObjectURL(url);
-          resolve(gltf.scene);
+          resolve(this.restoreNames(gltf.scene));
         },
         undefined,
         (error) => {
@@ -23,4 +29,16 @@ export class BlenderAdapter {
       );
     });
   }
+
+  // GLTFLoader strips characters such as "." from node names, so
+  // "Inlet.001" becomes "Inlet001", and keeps the original in
+  // userData.name. Blender names are unique already.
+  private restoreNames(scene: THREE.Object3D): THREE.Object3D {
+    scene.traverse((node) => {
+      if (typeof node.userData.name !== "string") return;
+      node.name = node.userData.name;
+      delete node.userData.name;
+    });
+    return scene;
+  }
 }
@@ -0,0 +1,260 @@
+import * as THREE from "three";
+import { unzipSync } from "fflate";
+import * as xml2js from "xml2js";
+import { CADReadOptions, CADReader } from "../core/cad-reader";
+
+// An element as xml2js gives it: attributes under "$", and each kind of
+// child element as an array
+interface XMLElement {
+  $?: Record<string, string>;
+  [child: string]: XMLElement[] | Record<string, string> | undefined;
+}
+
+interface FreeCADObject {
+  name: string;
+  type: string;
+  label: string;
+  placement?: THREE.Matrix4;
+  // Archive entry holding the object's B-rep, for objects with a shape
+  shapeFile?: string;
+  visible: boolean;
+  // Internal names of the objects it groups
+  group: string[];
+}
+
+// Construction geometry with a shape that is not part of the model
+const DATUM_TYPES =
+  /^(Sketcher::|PartDesign::(Plane|Line|Point|CoordinateSystem)$)/;
+
+/**
+ * Reads FreeCAD documents. An FCStd file is a zip of Document.xml, which
+ * lists the objects and their properties, and one BREP file per shape.
+ * FreeCAD writes each shape in its container's coordinates with the
+ * object's placement applied, so meshes are moved back by their placement
+ * and carry it as their transform instead.
+ */
+export class FreeCADAdapter {
+  // Where the browser fetches OpenCascade's WebAssembly from
+  private wasmUrl?: string;
+
+  constructor(wasmUrl?: string) {
+    this.wasmUrl = wasmUrl;
+  }
+
+  /**
+   * The document's visible parts, in metres, under groups for App::Part
+   * containers and plain groups. Every node is named after its FreeCAD
+   * label; userData.freecadName and userData.freecadType hold the object's
+   * internal name and type.
+   */
+  async importModel(
+    file: File,
+    options: CADReadOptions = {}
+  ): Promise<THREE.Group> {
+    const archive = unzipSync(new Uint8Array(await file.arrayBuffer()));
+    const documentXML = archive["Document.xml"];
+    if (!documentXML) {
+      throw new Error(`${file.name} has no Document.xml`);
+    }
+
+    const document: XMLElement = (
+      await xml2js.parseStringPromise(new TextDecoder().decode(documentXML))
+    ).Document;
+    const guiXML = archive["GuiDocument.xml"];
+    const guiDocument: XMLElement | undefined = guiXML
+      ? (await xml2js.parseStringPromise(new TextDecoder().decode(guiXML)))
+          .Document
+      : undefined;
+    const objects = this.readObjects(document, guiDocument);
+
+    // Objects that no group lists are at the top of the tree
+    const grouped = new Set(objects.flatMap((object) => object.group));
+    const byName = new Map(objects.map((object) => [object.name, object]));
+    const readOptions = {
+      ...options,
+      wasmUrl: options.wasmUrl ?? this.wasmUrl,
+    };
+
+    const root = new THREE.Group();
+    root.name =
+      propertyValue(document, "Label", "String") ??
+      file.name.replace(/\.fcstd$/i, "");
+    for (const object of objects) {
+      if (grouped.has(object.name)) continue;
+      const node = await this.importObject(
+        object,
+        byName,
+        archive,
+        readOptions
+      );
+      if (node) root.add(node);
+    }
+    if (root.children.length === 0) {
+      throw new Error(`No visible shapes found in ${file.name}`);
+    }
+    return root;
+  }
+
+  private readObjects(
+    document: XMLElement,
+    guiDocument: XMLElement | undefined
+  ): FreeCADObject[] {
+    const types = new Map(
+      children(children(document, "Objects")[0], "Object").map((object) => [
+        object.$?.name,
+        object.$?.type ?? "",
+      ])
+    );
+    // FreeCAD before 0.19 only saved visibility with the view providers
+    const guiVisibility = new Map(
+      children(
+        children(guiDocument, "ViewProviderData")[0],
+        "ViewProvider"
+      ).map((provider) => [
+        provider.$?.name,
+        propertyValue(provider, "Visibility", "Bool") !== "false",
+      ])
+    );
+
+    return children(children(document, "ObjectData")[0], "Object").map(
+      (object) => {
+        const name = object.$?.name ?? "";
+        const visibility = propertyValue(object, "Visibility", "Bool");
+        const placement = children(
+          property(object, "Placement"),
+          "PropertyPlacement"
+        )[0]?.$;
+        return {
+          name,
+          type: types.get(name) ?? "",
+          label: propertyValue(object, "Label", "String") ?? name,
+          placement: placement && placementMatrix(placement),
+          shapeFile: children(property(object, "Shape"), "Part")[0]?.$?.file,
+          visible:
+            visibility !== undefined
+              ? visibility === "true"
+              : (guiVisibility.get(name) ?? true),
+          group: children(
+            children(property(object, "Group"), "LinkList")[0],
+            "Link"
+          )
+            .map((link) => link.$?.value ?? "")
+            .filter((link) => link !== ""),
+        };
+      }
+    );
+  }
+
+  // A mesh for an object with a shape, or a group for a container with
+  // visible children. Shaped containers such as PartDesign bodies hold the
+  // features they are built from, so those are not descended into.
+  private async importObject(
+    object: FreeCADObject,
+    objects: Map<string, FreeCADObject>,
+    archive: Record<string, Uint8Array>,
+    options: CADReadOptions
+  ): Promise<THREE.Object3D | undefined> {
+    if (!object.visible || DATUM_TYPES.test(object.type)) return undefined;
+
+    let node: THREE.Object3D | undefined;
+    if (object.shapeFile) {
+      const data = archive[object.shapeFile];
+      if (!data || data.length === 0) return undefined;
+      node = await this.importShape(object, data, options);
+    } else if (object.group.length > 0) {
+      const group = new THREE.Group();
+      for (const child of object.group) {
+        const member = objects.get(child);
+        if (!member) continue;
+        const childNode = await this.importObject(
+          member,
+          objects,
+          archive,
+          options
+        );
+        if (childNode) group.add(childNode);
+      }
+      if (group.children.length === 0) return undefined;
+      object.placement?.decompose(
+        group.position,
+        group.quaternion,
+        group.scale
+      );
+      node = group;
+    }
+    if (!node) return undefined;
+
+    node.name = object.label;
+    node.userData.freecadName = object.name;
+    node.userData.freecadType = object.type;
+    return node;
+  }
+
+  private async importShape(
+    object: FreeCADObject,
+    data: Uint8Array,
+    options: CADReadOptions
+  ): Promise<THREE.Object3D | undefined> {
+    let shape: THREE.Group;
+    try {
+      shape = await CADReader.read(
+        data.slice().buffer as ArrayBuffer,
+        object.shapeFile!,
+        options
+      );
+    } catch (error) {
+      // Wires and points, such as a sketch's, have no faces to tessellate
+      if (error instanceof Error && error.message.startsWith("No faces")) {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const meshes: THREE.Mesh[] = [];
+    shape.traverse((child) => {
+      if (child instanceof THREE.Mesh) meshes.push(child);
+    });
+    const local = object.placement?.clone().invert();
+    if (local) meshes.forEach((mesh) => mesh.geometry.applyMatrix4(local));
+
+    // One mesh per shape unless it is a compound of several solids
+    const node: THREE.Object3D =
+      meshes.length === 1 ? meshes[0] : new THREE.Group().add(...meshes);
+    object.placement?.decompose(node.position, node.quaternion, node.scale);
+    return node;
+  }
+}
+
+const children = (
+  element: XMLElement | undefined,
+  name: string
+): XMLElement[] => (element?.[name] as XMLElement[] | undefined) ?? [];
+
+// A FreeCAD property element, e.g. <Property name="Label">, of an object
+const property = (
+  element: XMLElement | undefined,
+  name: string
+): XMLElement | undefined =>
+  children(children(element, "Properties")[0], "Property").find(
+    (entry) => entry.$?.name === name
+  );
+
+// The value attribute of a property's value element, e.g. <String value="">
+const propertyValue = (
+  element: XMLElement | undefined,
+  name: string,
+  type: string
+): string | undefined => children(property(element, name), type)[0]?.$?.value;
+
+// A FreeCAD placement, in millimetres, as a transform in metres. Q0 to Q3
+// are the rotation quaternion's x, y, z and w.
+const placementMatrix = (attributes: Record<string, string>): THREE.Matrix4 => {
+  const value = (key: string) => parseFloat(attributes[key] ?? "0");
+  return new THREE.Matrix4().compose(
+    new THREE.Vector3(value("Px"), value("Py"), value("Pz")).multiplyScalar(
+      1e-3
+    ),
+    new THREE.Quaternion(value("Q0"), value("Q1"), value("Q2"), value("Q3")),
+    new THREE.Vector3(1, 1, 1)
+  );
+};
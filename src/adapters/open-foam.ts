@@ -1,5 +1,7 @@
 import * as THREE from "three";
 import { VTKLoader } from "three/examples/jsm/loaders/VTKLoader";
+import { GeometryUtils } from "../utils/geometry-utils";
+import { BoundaryRegion } from "../core/particle-tracking";
 
 interface OpenFOAMFiles {
   timeSteps: Map<number, File>;
@@ -10,15 +12,22 @@ interface OpenFOAMFiles {
   };
 }
 
-interface VTKFlowData {
+export interface VTKFlowData {
   velocity: Float32Array;
   pressure: Float32Array;
   temperature?: Float32Array;
+  // Point coordinates the fields are given at
+  positions?: Float32Array;
   timeStep: number;
+  // Simulated time from the file title when it has one, as written by the
+  // headless runner
+  time?: number;
 }
 
 interface BoundaryCondition {
   type: "inlet" | "outlet" | "wall";
+  // File name without the extension, e.g. the OpenFOAM patch name
+  name: string;
   geometry: THREE.BufferGeometry;
 }
 
@@ -95,6 +104,7 @@ export class OpenFOAMTimeSeriesHandler {
           const geometry = await this.vtkLoader.loadAsync(url);
           boundaryGeometries.push({
             type: type as "inlet" | "outlet" | "wall",
+            name: file.name.replace(/\.vtk$/, ""),
             geometry: geometry,
           });
         } finally {
@@ -133,6 +143,8 @@ export class OpenFOAMTimeSeriesHandler {
       const geometry = await this.vtkLoader.loadAsync(url);
       const flowData = await this.parseVTKFile(file);
       flowData.timeStep = timeStep;
+      flowData.positions = geometry.getAttribute("position")
+        ?.array as Float32Array;
       this.timeSteps.set(timeStep, flowData);
     } finally {
       URL.revokeObjectURL(url);
@@ -168,6 +180,33 @@ export class OpenFOAMTimeSeriesHandler {
     return this.boundaries;
   }
 
+  /**
+   * All wall patches as one triangle soup, or undefined without any
+   */
+  public getWallGeometry(): THREE.BufferGeometry | undefined {
+    const walls = this.boundaries.get("wall") ?? [];
+    if (walls.length === 0) return undefined;
+
+    const group = new THREE.Group();
+    walls.forEach((wall) => group.add(new THREE.Mesh(wall.geometry)));
+    return GeometryUtils.mergeWorldGeometry(group);
+  }
+
+  /**
+   * Every boundary patch as a region for particle tracking. Inlets and
+   * outlets are open, and prefixed with their type so they cannot clash
+   * with a wall patch's name.
+   */
+  public getBoundaryRegions(): BoundaryRegion[] {
+    return Array.from(this.boundaries.values()).flatMap((conditions) =>
+      conditions.map(({ type, name, geometry }) => ({
+        name: type === "wall" ? name : `${type}/${name}`,
+        geometry,
+        open: type !== "wall",
+      }))
+    );
+  }
+
   public createVisualization(timeStep: number): THREE.Group {
     const group = new THREE.Group();
 
@@ -228,8 +267,13 @@ export class OpenFOAMTimeSeriesHandler {
 
     let readingVelocity = false;
     let readingPressure = false;
+    let readingTemperature = false;
     let velocityData: number[] = [];
     let pressureData: number[] = [];
+    const temperatureData: number[] = [];
+
+    const time = lines[1]?.match(/t=([-+\d.eE]+)/);
+    if (time) flowData.time = parseFloat(time[1]);
 
     for (let i = 0; i < lines.length; i++) {
       const line = lines[i].trim();
@@ -245,6 +289,12 @@ export class OpenFOAMTimeSeriesHandler {
         continue;
       }
 
+      if (line.includes("SCALARS T ")) {
+        readingTemperature = true;
+        i++; // Skip LOOKUP_TABLE line
+        continue;
+      }
+
       if (readingVelocity) {
         if (line.length === 0 || line.includes("SCALARS")) {
           readingVelocity = false;
@@ -264,6 +314,16 @@ export class OpenFOAMTimeSeriesHandler {
           pressureData.push(...values);
         }
       }
+
+      if (readingTemperature) {
+        if (line.length === 0 || line.includes("VECTORS")) {
+          readingTemperature = false;
+          flowData.temperature = new Float32Array(temperatureData);
+        } else {
+          const values = line.split(/\s+/).map(Number);
+          temperatureData.push(...values);
+        }
+      }
     }
 
     return flowData;
@@ -0,0 +1,196 @@
+import * as THREE from "three";
+import { BoundarySurface } from "../core/boundary-tags";
+
+export interface OpenFOAMCaseOptions {
+  // Volumetric flow rate in m³/s, shared by inlets without their own in
+  // proportion to their area
+  flowRate: number;
+  // Fluid density in kg/m³; incompressible solvers take pressure over density
+  density: number;
+}
+
+export class OpenFOAMCaseWriter {
+  /**
+   * OpenFOAM patch name for a surface: characters other than letters,
+   * digits and underscores become underscores
+   */
+  static patchName(name: string): string {
+    return name.replace(/[^A-Za-z0-9_]/g, "_");
+  }
+
+  /**
+   * Boundary surfaces and initial fields for an incompressible case, by
+   * path within the case: one ASCII STL per surface under
+   * constant/triSurface for snappyHexMesh, and 0/U, 0/p and 0/nut with
+   * each surface's patch type and settings. Inlets get their flow rate,
+   * outlets their pressure and walls a rough wall function where they have
+   * a roughness.
+   */
+  static write(
+    surfaces: BoundarySurface[],
+    options: OpenFOAMCaseOptions
+  ): Record<string, string> {
+    const patches = surfaces.map((surface) => ({
+      ...surface,
+      patch: this.patchName(surface.name),
+    }));
+    const seen = new Set<string>();
+    patches.forEach(({ name, patch }) => {
+      if (seen.has(patch)) {
+        throw new Error(`Boundary ${name} clashes with another as ${patch}`);
+      }
+      seen.add(patch);
+    });
+
+    const inlets = patches.filter((p) => p.tag.type === "inlet");
+    const shared = inlets.filter((p) => p.tag.flowRate === undefined);
+    const sharedArea = shared.reduce((sum, p) => sum + area(p.geometry), 0);
+    const inletFlowRate = (surface: BoundarySurface): number =>
+      surface.tag.flowRate ??
+      (sharedArea > 0
+        ? (options.flowRate * area(surface.geometry)) / sharedArea
+        : 0);
+
+    const files: Record<string, string> = {};
+    patches.forEach(({ patch, geometry }) => {
+      files[`constant/triSurface/${patch}.stl`] = writeSTL(patch, geometry);
+    });
+    files["0/U"] = writeField(
+      "volVectorField",
+      "U",
+      "[0 1 -1 0 0 0 0]",
+      "uniform (0 0 0)",
+      patches.map((surface) => [
+        surface.patch,
+        surface.tag.type === "inlet"
+          ? [
+              "type            flowRateInletVelocity;",
+              `volumetricFlowRate ${inletFlowRate(surface)};`,
+              "value           uniform (0 0 0);",
+            ]
+          : surface.tag.type === "outlet"
+            ? ["type            zeroGradient;"]
+            : ["type            noSlip;"],
+      ])
+    );
+    files["0/p"] = writeField(
+      "volScalarField",
+      "p",
+      "[0 2 -2 0 0 0 0]",
+      "uniform 0",
+      patches.map(({ patch, tag }) => [
+        patch,
+        tag.type === "outlet"
+          ? [
+              "type            fixedValue;",
+              `value           uniform ${(tag.pressure ?? 0) / options.density};`,
+            ]
+          : ["type            zeroGradient;"],
+      ])
+    );
+    files["0/nut"] = writeField(
+      "volScalarField",
+      "nut",
+      "[0 2 -1 0 0 0 0]",
+      "uniform 0",
+      patches.map(({ patch, tag }) => {
+        if (tag.type !== "wall") {
+          return [
+            patch,
+            ["type            calculated;", "value           uniform 0;"],
+          ];
+        }
+        return [
+          patch,
+          tag.roughness
+            ? [
+                "type            nutkRoughWallFunction;",
+                `Ks              uniform ${tag.roughness};`,
+                "Cs              uniform 0.5;",
+                "value           uniform 0;",
+              ]
+            : [
+                "type            nutkWallFunction;",
+                "value           uniform 0;",
+              ],
+        ];
+      })
+    );
+    return files;
+  }
+}
+
+const area = (geometry: THREE.BufferGeometry): number => {
+  let total = 0;
+  forEachTriangle(geometry, (a, b, c) => {
+    total += b.sub(a).cross(c.sub(a)).length() / 2;
+  });
+  return total;
+};
+
+const forEachTriangle = (
+  geometry: THREE.BufferGeometry,
+  callback: (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) => void
+): void => {
+  const position = geometry.getAttribute("position");
+  const index = geometry.index;
+  const count = index ? index.count : position.count;
+  const vertex = (i: number) =>
+    new THREE.Vector3().fromBufferAttribute(
+      position,
+      index ? index.getX(i) : i
+    );
+  for (let i = 0; i + 2 < count; i += 3) {
+    callback(vertex(i), vertex(i + 1), vertex(i + 2));
+  }
+};
+
+const writeSTL = (name: string, geometry: THREE.BufferGeometry): string => {
+  const lines = [`solid ${name}`];
+  forEachTriangle(geometry, (a, b, c) => {
+    const n = b.clone().sub(a).cross(c.clone().sub(a)).normalize();
+    lines.push(
+      `  facet normal ${n.x} ${n.y} ${n.z}`,
+      "    outer loop",
+      ...[a, b, c].map((v) => `      vertex ${v.x} ${v.y} ${v.z}`),
+      "    endloop",
+      "  endfacet"
+    );
+  });
+  lines.push(`endsolid ${name}`, "");
+  return lines.join("\n");
+};
+
+// A field file with one boundaryField entry per patch
+const writeField = (
+  fieldClass: string,
+  object: string,
+  dimensions: string,
+  internalField: string,
+  patches: [string, string[]][]
+): string =>
+  [
+    "FoamFile",
+    "{",
+    "    version     2.0;",
+    "    format      ascii;",
+    `    class       ${fieldClass};`,
+    '    location    "0";',
+    `    object      ${object};`,
+    "}",
+    "",
+    `dimensions      ${dimensions};`,
+    "",
+    `internalField   ${internalField};`,
+    "",
+    "boundaryField",
+    "{",
+    ...patches.flatMap(([patch, entries]) => [
+      `    ${patch}`,
+      "    {",
+      ...entries.map((entry) => `        ${entry}`),
+      "    }",
+    ]),
+    "}",
+    "",
+  ].join("\n");
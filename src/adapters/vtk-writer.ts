@@ -0,0 +1,71 @@
+// Base name of time series files; OpenFOAMTimeSeriesHandler picks up
+// pigging-simulation_<index>.vtk as time step <index>
+export const TIME_SERIES_PREFIX = "pigging-simulation";
+
+export interface ParticleSnapshot {
+  time: number;
+  positions: Float32Array;
+  velocities: Float32Array;
+  pressures: Float32Array;
+  densities?: Float32Array;
+  temperatures?: Float32Array;
+}
+
+export class VTKWriter {
+  static timeStepFileName(index: number): string {
+    return `${TIME_SERIES_PREFIX}_${index}.vtk`;
+  }
+
+  /**
+   * Legacy ASCII POLYDATA with one vertex per particle and velocity U,
+   * pressure p and, when given, density rho and temperature T as point
+   * data. Every block ends in a blank line, which is where
+   * OpenFOAMTimeSeriesHandler stops reading it.
+   */
+  static writeParticles(snapshot: ParticleSnapshot): string {
+    const count = snapshot.positions.length / 3;
+    const lines: string[] = [
+      "# vtk DataFile Version 3.0",
+      `SPH particles at t=${snapshot.time}`,
+      "ASCII",
+      "DATASET POLYDATA",
+      `POINTS ${count} float`,
+    ];
+
+    const pushVectors = (values: Float32Array): void => {
+      for (let i = 0; i < count; i++) {
+        lines.push(
+          `${values[i * 3]} ${values[i * 3 + 1]} ${values[i * 3 + 2]}`
+        );
+      }
+    };
+    const pushScalars = (name: string, values: Float32Array): void => {
+      lines.push(`SCALARS ${name} float 1`, "LOOKUP_TABLE default");
+      for (let i = 0; i < count; i++) {
+        lines.push(`${values[i]}`);
+      }
+      lines.push("");
+    };
+
+    pushVectors(snapshot.positions);
+    lines.push(`VERTICES ${count} ${count * 2}`);
+    for (let i = 0; i < count; i++) {
+      lines.push(`1 ${i}`);
+    }
+    lines.push("", `POINT_DATA ${count}`, "VECTORS U float");
+    pushVectors(snapshot.velocities);
+    lines.push("");
+    pushScalars("p", snapshot.pressures);
+    if (snapshot.densities) pushScalars("rho", snapshot.densities);
+    if (snapshot.temperatures) pushScalars("T", snapshot.temperatures);
+
+    return lines.join("\n");
+  }
+
+  /**
+   * ParaView file series index giving the time of each written file
+   */
+  static writeSeriesIndex(files: { name: string; time: number }[]): string {
+    return JSON.stringify({ "file-series-version": "1.0", files }, null, 2);
+  }
+}
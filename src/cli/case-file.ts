@@ -0,0 +1,156 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as THREE from "three";
+import { MeshReader } from "../core/mesh-reader";
+import { detectPipeEnds } from "../core/flow-patches";
+import { SimulationConfig } from "../core/sph-simulator";
+import { MonitorDefinitions } from "../core/monitors";
+import {
+  SerializedSimulationConfig,
+  deserializeConfig,
+} from "../core/simulation-protocol";
+
+type Vector3Tuple = [number, number, number];
+
+/**
+ * A headless run as read from JSON: the worker's serialized configuration,
+ * with the boundary given as a mesh file instead of a position buffer, plus
+ * how long to run and how often to write output.
+ */
+export interface SimulationCase
+  extends Omit<
+    SerializedSimulationConfig,
+    "bounds" | "boundaryPositions" | "timeStep"
+  > {
+  // STL or OBJ pipe model, relative to the case file
+  model?: string;
+  // Factor to metres for models drawn in other units
+  modelScale?: number;
+  // Domain to fill when there is no model. Defaults to the model's bounds.
+  bounds?: { min: Vector3Tuple; max: Vector3Tuple };
+  // Simulated seconds to run and between written time steps
+  duration: number;
+  outputInterval: number;
+  // Sub-step at the stable time step, or take fixed `timeStep` steps
+  adaptive?: boolean;
+  timeStep?: number;
+  // Relative to the case file; defaults to "output" next to it
+  outputDirectory?: string;
+  // Probes and cross-sections sampled at every output
+  monitors?: MonitorDefinitions;
+}
+
+export interface LoadedCase {
+  config: SimulationConfig;
+  duration: number;
+  outputInterval: number;
+  adaptive: boolean;
+  timeStep: number;
+  outputDirectory: string;
+  monitors?: MonitorDefinitions;
+}
+
+const DEFAULT_TIME_STEP = 0.001;
+
+export class CaseFile {
+  /**
+   * Read a case file and everything it refers to into a solver
+   * configuration
+   */
+  static load(casePath: string): LoadedCase {
+    const caseDirectory = path.dirname(path.resolve(casePath));
+    const simulationCase = JSON.parse(
+      fs.readFileSync(casePath, "utf8")
+    ) as SimulationCase;
+    CaseFile.validate(simulationCase);
+
+    const {
+      model,
+      modelScale,
+      bounds,
+      duration,
+      outputInterval,
+      adaptive,
+      timeStep,
+      outputDirectory,
+      monitors,
+      ...serialized
+    } = simulationCase;
+
+    const config = deserializeConfig({
+      ...serialized,
+      bounds: bounds ?? { min: [0, 0, 0], max: [0, 0, 0] },
+      timeStep: timeStep ?? DEFAULT_TIME_STEP,
+    });
+
+    if (model) {
+      const modelPath = path.resolve(caseDirectory, model);
+      const data = fs.readFileSync(modelPath);
+      const geometry = MeshReader.parse(
+        data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength),
+        modelPath
+      );
+      if (modelScale !== undefined) {
+        geometry.scale(modelScale, modelScale, modelScale);
+      }
+      geometry.computeBoundingBox();
+      const modelBounds = geometry.boundingBox!.clone();
+
+      config.boundaryGeometry = geometry;
+      if (!bounds) config.bounds = modelBounds;
+
+      // Same defaults as an import in the browser: inlet and outlet at the
+      // two ends of the longest axis. A periodic pipe has no ends.
+      if (!config.inlets && !config.outlets && !config.periodic) {
+        const size = modelBounds.getSize(new THREE.Vector3());
+        const pipeEnds = detectPipeEnds(
+          geometry,
+          Math.max(size.x, size.y, size.z) * 0.02
+        );
+        config.inlets = pipeEnds ? [pipeEnds.inlet] : [];
+        config.outlets = pipeEnds ? [pipeEnds.outlet] : [];
+      }
+    } else if (!bounds) {
+      throw new Error("A case without a model needs bounds");
+    }
+
+    return {
+      config,
+      duration,
+      outputInterval,
+      adaptive: adaptive ?? true,
+      timeStep: timeStep ?? DEFAULT_TIME_STEP,
+      outputDirectory: path.resolve(caseDirectory, outputDirectory ?? "output"),
+      monitors: monitors && {
+        probes: monitors.probes ?? [],
+        sections: monitors.sections ?? [],
+      },
+    };
+  }
+
+  /**
+   * Check the fields the solver cannot default, naming the first that is
+   * missing or out of range
+   */
+  static validate(simulationCase: SimulationCase): void {
+    const positive = (value: unknown, name: string): void => {
+      if (!(typeof value === "number" && value > 0)) {
+        throw new Error(`Case ${name} must be a positive number`);
+      }
+    };
+
+    positive(simulationCase.viscosity, "viscosity");
+    positive(simulationCase.density, "density");
+    if (!(typeof simulationCase.flowRate === "number")) {
+      throw new Error("Case flowRate must be a number");
+    }
+    positive(simulationCase.duration, "duration");
+    positive(simulationCase.outputInterval, "outputInterval");
+    if (simulationCase.timeStep !== undefined) {
+      positive(simulationCase.timeStep, "timeStep");
+    }
+    if (simulationCase.modelScale !== undefined) {
+      positive(simulationCase.modelScale, "modelScale");
+    }
+  }
+}
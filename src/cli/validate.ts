@@ -0,0 +1,24 @@
+// Runs the validation benchmarks and prints their error norms against the
+// analytic and experimental references. Exits non-zero when an error is
+// above its acceptance limit. With --json, prints the results as JSON
+// instead of the report.
+//
+//   npm run validate [-- --json]
+
+import { Validation } from "../core/validation";
+
+const json = process.argv.includes("--json");
+const started = Date.now();
+const results = Validation.runAll();
+if (json) {
+  console.log(JSON.stringify(results));
+} else {
+  console.log(Validation.formatReport(results));
+  console.log(`Finished in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+}
+
+const failures = Validation.checkLimits(results);
+if (failures.length > 0) {
+  console.error(["Above acceptance limits:", ...failures].join("\n  "));
+  process.exitCode = 1;
+}
@@ -0,0 +1,362 @@
+import * as THREE from "three";
+
+export interface SignedDistanceFieldOptions {
+  /** Grid spacing. Smaller values resolve thinner walls at higher memory cost. */
+  cellSize: number;
+  /** Whether the fluid lives inside the closed mesh (a fluid-volume model) or
+   * outside it (a pipe-wall solid whose bore is the fluid). Detected when
+   * not given: the mesh is a wall solid when it encloses a region outside
+   * itself, such as a bore closed off by the openings. */
+  fluidInside?: boolean;
+  /** Where the fluid enters and leaves. They close an open-ended bore, and
+   * the cut-out ends of a fluid volume, off from the far field. */
+  openings?: BoundaryOpening[];
+  /** Number of cells around the surface where distances are exact. */
+  bandWidth?: number;
+  /** Upper bound on grid nodes along any axis. */
+  maxResolution?: number;
+  /** Axis (0, 1 or 2) along which the mesh is open-ended and repeats. The
+   * inside/outside connectivity is then found within each cross-section, so
+   * the open ends do not let the outside into the bore. */
+  periodicAxis?: number;
+}
+
+export interface BoundaryOpening {
+  center: THREE.Vector3;
+  /** Points out of the fluid, away from the pipe */
+  direction: THREE.Vector3;
+  radius: number;
+}
+
+/**
+ * Signed distance to a triangle mesh, sampled on a regular grid. Negative
+ * values are in the fluid, positive values are inside the wall.
+ */
+export class SignedDistanceField {
+  public readonly bounds: THREE.Box3;
+  public readonly cellSize: number;
+  public readonly resolution: [number, number, number];
+  private distances: Float32Array;
+
+  private constructor(
+    bounds: THREE.Box3,
+    cellSize: number,
+    resolution: [number, number, number],
+    distances: Float32Array
+  ) {
+    this.bounds = bounds;
+    this.cellSize = cellSize;
+    this.resolution = resolution;
+    this.distances = distances;
+  }
+
+  static fromGeometry(
+    geometry: THREE.BufferGeometry,
+    options: SignedDistanceFieldOptions
+  ): SignedDistanceField {
+    const {
+      bandWidth = 3,
+      maxResolution = 128,
+      periodicAxis,
+      openings = [],
+    } = options;
+
+    geometry.computeBoundingBox();
+    const meshBounds = geometry.boundingBox!.clone();
+    const size = meshBounds.getSize(new THREE.Vector3());
+    const cellSize = Math.max(
+      options.cellSize,
+      Math.max(size.x, size.y, size.z) / (maxResolution - 2 * bandWidth - 1)
+    );
+
+    // Pad so the band around the surface never touches the grid border
+    const bounds = meshBounds.clone().expandByScalar(bandWidth * cellSize);
+    const padded = bounds.getSize(new THREE.Vector3());
+    const resolution: [number, number, number] = [
+      Math.ceil(padded.x / cellSize) + 1,
+      Math.ceil(padded.y / cellSize) + 1,
+      Math.ceil(padded.z / cellSize) + 1,
+    ];
+    const [nx, ny, nz] = resolution;
+    const band = bandWidth * cellSize;
+    // Distances closer than this count as ties (float32 vertex round-off)
+    const tieTolerance = cellSize * 1e-4;
+
+    const distances = new Float32Array(nx * ny * nz).fill(Infinity);
+    const signs = new Int8Array(nx * ny * nz);
+    const closestDot = new Float32Array(nx * ny * nz);
+
+    const index = geometry.getIndex();
+    const positions = geometry.getAttribute("position");
+    const triangleCount = index ? index.count / 3 : positions.count / 3;
+
+    const triangle = new THREE.Triangle();
+    const normal = new THREE.Vector3();
+    const node = new THREE.Vector3();
+    const closest = new THREE.Vector3();
+    const offset = new THREE.Vector3();
+    const triBounds = new THREE.Box3();
+
+    for (let t = 0; t < triangleCount; t++) {
+      const a = index ? index.getX(t * 3) : t * 3;
+      const b = index ? index.getX(t * 3 + 1) : t * 3 + 1;
+      const c = index ? index.getX(t * 3 + 2) : t * 3 + 2;
+      triangle.a.fromBufferAttribute(positions, a);
+      triangle.b.fromBufferAttribute(positions, b);
+      triangle.c.fromBufferAttribute(positions, c);
+      if (triangle.getArea() === 0) continue;
+      triangle.getNormal(normal);
+
+      triBounds.makeEmpty();
+      triBounds.expandByPoint(triangle.a);
+      triBounds.expandByPoint(triangle.b);
+      triBounds.expandByPoint(triangle.c);
+      triBounds.expandByScalar(band);
+
+      const i0 = Math.max(
+        0,
+        Math.floor((triBounds.min.x - bounds.min.x) / cellSize)
+      );
+      const j0 = Math.max(
+        0,
+        Math.floor((triBounds.min.y - bounds.min.y) / cellSize)
+      );
+      const k0 = Math.max(
+        0,
+        Math.floor((triBounds.min.z - bounds.min.z) / cellSize)
+      );
+      const i1 = Math.min(
+        nx - 1,
+        Math.ceil((triBounds.max.x - bounds.min.x) / cellSize)
+      );
+      const j1 = Math.min(
+        ny - 1,
+        Math.ceil((triBounds.max.y - bounds.min.y) / cellSize)
+      );
+      const k1 = Math.min(
+        nz - 1,
+        Math.ceil((triBounds.max.z - bounds.min.z) / cellSize)
+      );
+
+      for (let k = k0; k <= k1; k++) {
+        for (let j = j0; j <= j1; j++) {
+          for (let i = i0; i <= i1; i++) {
+            node.set(
+              bounds.min.x + i * cellSize,
+              bounds.min.y + j * cellSize,
+              bounds.min.z + k * cellSize
+            );
+            triangle.closestPointToPoint(node, closest);
+            offset.subVectors(node, closest);
+            const distance = offset.length();
+            if (distance > band) continue;
+
+            const n = i + nx * (j + ny * k);
+            // Near edges several faces are equally close; the one seen most
+            // head-on gives the most reliable inside/outside sign.
+            const dot = distance > 0 ? offset.dot(normal) / distance : 0;
+            if (
+              distance < distances[n] - tieTolerance ||
+              (Math.abs(distance - distances[n]) <= tieTolerance &&
+                Math.abs(dot) > Math.abs(closestDot[n]))
+            ) {
+              distances[n] = distance;
+              closestDot[n] = dot;
+              signs[n] = dot >= 0 ? 1 : -1;
+            }
+          }
+        }
+      }
+    }
+
+    // Flow openings close the mesh for the fills below: a tube from each
+    // opening out past the grid border, so neither the outside nor the
+    // fluid reaches the other through it. Starting half a cell upstream of
+    // the opening keeps face-to-face steps from slipping past.
+    const opening = new Uint8Array(nx * ny * nz);
+    openings.forEach(({ center, direction, radius }) => {
+      const outward = direction.clone().normalize();
+      const reach = radius + 2 * cellSize;
+      for (let k = 0; k < nz; k++) {
+        for (let j = 0; j < ny; j++) {
+          for (let i = 0; i < nx; i++) {
+            node
+              .set(
+                bounds.min.x + i * cellSize,
+                bounds.min.y + j * cellSize,
+                bounds.min.z + k * cellSize
+              )
+              .sub(center);
+            const axial = node.dot(outward);
+            if (
+              axial >= -cellSize * 0.5 &&
+              node.addScaledVector(outward, -axial).length() <= reach
+            ) {
+              opening[i + nx * (j + ny * k)] = 1;
+            }
+          }
+        }
+      }
+    });
+
+    // Across a periodic axis neither its end faces nor steps along it count
+    const across = [0, 1, 2].map((axis) => axis !== periodicAxis);
+    const onBorder = (n: number): boolean => {
+      const i = n % nx;
+      const j = Math.floor(n / nx) % ny;
+      const k = Math.floor(n / (nx * ny));
+      return (
+        (across[0] && (i === 0 || i === nx - 1)) ||
+        (across[1] && (j === 0 || j === ny - 1)) ||
+        (across[2] && (k === 0 || k === nz - 1))
+      );
+    };
+    const forEachNeighbor = (n: number, visit: (m: number) => void): void => {
+      const i = n % nx;
+      const j = Math.floor(n / nx) % ny;
+      const k = Math.floor(n / (nx * ny));
+      if (across[0] && i > 0) visit(n - 1);
+      if (across[0] && i < nx - 1) visit(n + 1);
+      if (across[1] && j > 0) visit(n - nx);
+      if (across[1] && j < ny - 1) visit(n + nx);
+      if (across[2] && k > 0) visit(n - nx * ny);
+      if (across[2] && k < nz - 1) visit(n + nx * ny);
+    };
+
+    // Nodes outside the band take their side of the mesh from the region
+    // they belong to: a region reaching the grid border is outside, and an
+    // enclosed one is on the side the band around it is on. The bore of a
+    // pipe-wall solid is then outside the mesh like the far field, but
+    // still enclosed.
+    const far = (n: number) => distances[n] === Infinity && !opening[n];
+    const visited = new Uint8Array(nx * ny * nz);
+    const queue: number[] = [];
+    for (let start = 0; start < distances.length; start++) {
+      if (visited[start] || !far(start)) continue;
+      visited[start] = 1;
+      const region = [start];
+      let reachesBorder = false;
+      let vote = 0;
+      for (let r = 0; r < region.length; r++) {
+        const n = region[r];
+        if (onBorder(n)) reachesBorder = true;
+        forEachNeighbor(n, (m) => {
+          if (distances[m] !== Infinity) {
+            vote += signs[m];
+          } else if (!visited[m] && far(m)) {
+            visited[m] = 1;
+            region.push(m);
+          }
+        });
+      }
+      const sign = reachesBorder || vote > 0 ? 1 : -1;
+      region.forEach((n) => (signs[n] = sign));
+    }
+
+    // Outside the mesh and connected to the grid border
+    const exterior = new Uint8Array(nx * ny * nz);
+    for (let n = 0; n < distances.length; n++) {
+      if (onBorder(n) && signs[n] > 0 && !opening[n]) {
+        exterior[n] = 1;
+        queue.push(n);
+      }
+    }
+    while (queue.length > 0) {
+      forEachNeighbor(queue.pop()!, (m) => {
+        if (!exterior[m] && signs[m] > 0 && !opening[m]) {
+          exterior[m] = 1;
+          queue.push(m);
+        }
+      });
+    }
+
+    // Fluid enclosed outside the mesh means the mesh is the pipe wall
+    // rather than the fluid volume
+    let enclosedOutside = false;
+    for (let n = 0; n < distances.length && !enclosedOutside; n++) {
+      enclosedOutside = signs[n] > 0 && !exterior[n] && !opening[n];
+    }
+    const fluidInside = options.fluidInside ?? !enclosedOutside;
+
+    // Negative in the fluid. Around a wall solid only the enclosed side is;
+    // the openings' far nodes are fluid either way.
+    for (let n = 0; n < distances.length; n++) {
+      const fluid =
+        distances[n] === Infinity && opening[n]
+          ? true
+          : fluidInside
+            ? signs[n] < 0
+            : signs[n] > 0 && (!exterior[n] || !enclosedOutside);
+      const distance = distances[n] === Infinity ? band : distances[n];
+      distances[n] = fluid ? -distance : distance;
+    }
+
+    return new SignedDistanceField(bounds, cellSize, resolution, distances);
+  }
+
+  /**
+   * Trilinearly interpolated signed distance. Points outside the grid are
+   * treated as being inside the wall.
+   */
+  public sample(x: number, y: number, z: number): number {
+    const [nx, ny, nz] = this.resolution;
+    const fx = (x - this.bounds.min.x) / this.cellSize;
+    const fy = (y - this.bounds.min.y) / this.cellSize;
+    const fz = (z - this.bounds.min.z) / this.cellSize;
+    if (
+      fx < 0 ||
+      fy < 0 ||
+      fz < 0 ||
+      fx > nx - 1 ||
+      fy > ny - 1 ||
+      fz > nz - 1
+    ) {
+      return this.cellSize;
+    }
+
+    const i = Math.min(Math.floor(fx), nx - 2);
+    const j = Math.min(Math.floor(fy), ny - 2);
+    const k = Math.min(Math.floor(fz), nz - 2);
+    const tx = fx - i;
+    const ty = fy - j;
+    const tz = fz - k;
+
+    const d = this.distances;
+    const n = i + nx * (j + ny * k);
+    const sx = 1;
+    const sy = nx;
+    const sz = nx * ny;
+
+    const c00 = d[n] * (1 - tx) + d[n + sx] * tx;
+    const c10 = d[n + sy] * (1 - tx) + d[n + sy + sx] * tx;
+    const c01 = d[n + sz] * (1 - tx) + d[n + sz + sx] * tx;
+    const c11 = d[n + sz + sy] * (1 - tx) + d[n + sz + sy + sx] * tx;
+    const c0 = c00 * (1 - ty) + c10 * ty;
+    const c1 = c01 * (1 - ty) + c11 * ty;
+    return c0 * (1 - tz) + c1 * tz;
+  }
+
+  /**
+   * Unit gradient of the distance field, i.e. the wall normal pointing out of
+   * the fluid, written into `out`. Returns false where the field is flat
+   * (deep inside the wall or outside the grid) and no normal exists.
+   */
+  public gradient(
+    x: number,
+    y: number,
+    z: number,
+    out: Float64Array | number[]
+  ): boolean {
+    const e = this.cellSize * 0.5;
+    const gx = this.sample(x + e, y, z) - this.sample(x - e, y, z);
+    const gy = this.sample(x, y + e, z) - this.sample(x, y - e, z);
+    const gz = this.sample(x, y, z + e) - this.sample(x, y, z - e);
+    const length = Math.sqrt(gx * gx + gy * gy + gz * gz);
+    if (length < 1e-3 * this.cellSize) return false;
+
+    out[0] = gx / length;
+    out[1] = gy / length;
+    out[2] = gz / length;
+    return true;
+  }
+}
@@ -0,0 +1,157 @@
+import * as THREE from "three";
+import { GeometryUtils } from "../utils/geometry-utils";
+
+export type BoundaryType = "inlet" | "outlet" | "wall";
+
+const BOUNDARY_TYPES: BoundaryType[] = ["inlet", "outlet", "wall"];
+
+export interface BoundaryTag {
+  type: BoundaryType;
+  // Walls only: equivalent sand-grain roughness in metres
+  roughness?: number;
+  // Inlets only: volumetric flow rate in m³/s. Inlets without one share the
+  // simulation's flow rate in proportion to their area.
+  flowRate?: number;
+  // Inlets only: temperature of the inflow
+  temperature?: number;
+  // Outlets only: static gauge pressure in Pa
+  pressure?: number;
+}
+
+// Tags by the name of the object they were read from
+export type BoundaryTagMap = Map<string, BoundaryTag>;
+
+export interface BoundarySurface {
+  name: string;
+  tag: BoundaryTag;
+  // The surface's meshes as one world-space triangle soup
+  geometry: THREE.BufferGeometry;
+}
+
+// Where untagged meshes go; they are walls with no settings of their own
+export const UNTAGGED_SURFACE = "walls";
+
+type BoundarySetting = "roughness" | "flowRate" | "temperature" | "pressure";
+
+// Custom properties each boundary type takes, and their factor to SI units.
+// Roughness is given in millimetres, as pipe tables list it.
+const SETTINGS: Record<
+  BoundaryType,
+  Partial<Record<BoundarySetting, number>>
+> = {
+  inlet: { flowRate: 1, temperature: 1 },
+  outlet: { pressure: 1 },
+  wall: { roughness: 1e-3 },
+};
+
+// Object names that tag a surface on their own, e.g. "Inlet", "outlet.001"
+// or "wall_bend"
+const NAME_PATTERN = /^(inlet|outlet|wall)s?(?![a-z])/i;
+
+/**
+ * Boundary tags from a model's object names and custom properties, such as
+ * Blender's, which glTF exports as extras. A `boundary` property of
+ * "inlet", "outlet" or "wall" tags its object, as does a name starting
+ * with one of those words; the property wins when both are given. Each
+ * tag covers the meshes under its object, down to the next tagged object.
+ */
+export class BoundaryTags {
+  static read(model: THREE.Object3D): BoundaryTagMap {
+    const tags: BoundaryTagMap = new Map();
+    model.traverse((object) => {
+      const tag = BoundaryTags.readTag(object);
+      if (!tag) return;
+      if (tags.has(object.name)) {
+        throw new Error(`More than one boundary is named ${object.name}`);
+      }
+      tags.set(object.name, tag);
+    });
+    return tags;
+  }
+
+  /**
+   * The tagged object at or above `object`, if any
+   */
+  static find(
+    object: THREE.Object3D,
+    tags: BoundaryTagMap
+  ): { name: string; tag: BoundaryTag } | undefined {
+    for (let node: THREE.Object3D | null = object; node; node = node.parent) {
+      const tag = tags.get(node.name);
+      if (tag) return { name: node.name, tag };
+    }
+    return undefined;
+  }
+
+  /**
+   * One surface per tagged object with meshes, in model order, and the
+   * untagged meshes as a wall named UNTAGGED_SURFACE
+   */
+  static surfaces(
+    model: THREE.Object3D,
+    tags: BoundaryTagMap
+  ): BoundarySurface[] {
+    model.updateMatrixWorld(true);
+    const meshes = new Map<
+      string,
+      { tag: BoundaryTag; meshes: THREE.Mesh[] }
+    >();
+    model.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const { name, tag } = BoundaryTags.find(child, tags) ?? {
+        name: UNTAGGED_SURFACE,
+        tag: { type: "wall" },
+      };
+      const surface = meshes.get(name) ?? { tag, meshes: [] };
+      surface.meshes.push(child);
+      meshes.set(name, surface);
+    });
+    return Array.from(meshes, ([name, surface]) => ({
+      name,
+      tag: surface.tag,
+      geometry: GeometryUtils.mergeMeshes(surface.meshes),
+    }));
+  }
+
+  private static readTag(object: THREE.Object3D): BoundaryTag | undefined {
+    const properties = object.userData;
+    let type: string | undefined;
+    if (properties.boundary !== undefined) {
+      type = String(properties.boundary).toLowerCase();
+      if (!BOUNDARY_TYPES.includes(type as BoundaryType)) {
+        throw new Error(
+          `Unknown boundary type "${properties.boundary}" on ${object.name}`
+        );
+      }
+    } else {
+      type = NAME_PATTERN.exec(object.name)?.[1].toLowerCase();
+    }
+    if (!type) return undefined;
+
+    const tag: BoundaryTag = { type: type as BoundaryType };
+    const settings = SETTINGS[tag.type];
+    const keys: BoundarySetting[] = [
+      "roughness",
+      "flowRate",
+      "temperature",
+      "pressure",
+    ];
+    for (const key of keys) {
+      const value = properties[key];
+      if (value === undefined) continue;
+      const factor = settings[key];
+      if (factor === undefined) {
+        throw new Error(`${key} does not apply to ${type} ${object.name}`);
+      }
+      const number = typeof value === "string" ? parseFloat(value) : value;
+      if (typeof number !== "number" || !Number.isFinite(number)) {
+        throw new Error(`${key} of ${object.name} must be a number`);
+      }
+      if (number < 0 && (key === "roughness" || key === "flowRate")) {
+        throw new Error(`${key} of ${object.name} must not be negative`);
+      }
+      tag[key] = number * factor;
+    }
+    return tag;
+  }
+}
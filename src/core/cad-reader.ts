@@ -0,0 +1,466 @@
+import * as THREE from "three";
+import occtimportjs, { OcctImport, OcctMesh, OcctNode } from "occt-import-js";
+
+export interface CADReadOptions {
+  // Largest distance between a curved face and its triangles, in metres
+  chordalTolerance?: number;
+  // Largest angle between the normals of neighbouring triangles, in radians
+  angularTolerance?: number;
+  // Where browsers fetch OpenCascade's WebAssembly from. Node finds it
+  // next to the package.
+  wasmUrl?: string;
+}
+
+/** A solid or shell in a CAD file, with its face names in shell order */
+export interface CADBody {
+  name: string;
+  faces: string[];
+}
+
+export const DEFAULT_CHORDAL_TOLERANCE = 1e-4;
+export const DEFAULT_ANGULAR_TOLERANCE = 0.5;
+
+/**
+ * STEP, IGES and BREP import through OpenCascade compiled to WebAssembly,
+ * which tessellates the B-rep faces. OpenCascade keeps product and body names
+ * but not face names, so those are read from the file text and matched to the
+ * bodies it returns: both list a body's faces in shell order.
+ */
+export class CADReader {
+  static readonly supportedFormats = [
+    ".step",
+    ".stp",
+    ".iges",
+    ".igs",
+    ".brep",
+    ".brp",
+  ];
+
+  private static occt?: Promise<OcctImport>;
+
+  /**
+   * Tessellates every body in a STEP (AP203/AP214), IGES or BREP file, in
+   * metres. Groups follow the file's assembly tree and hold one mesh per
+   * body, named after it. Each B-rep face is a geometry group whose name is
+   * at the same index in geometry.userData.faceNames.
+   *
+   * BREP files carry no units or names: their lengths are taken as
+   * millimetres, and their faces are named Face1, Face2... in order, as
+   * FreeCAD names them.
+   */
+  static async read(
+    data: ArrayBuffer,
+    fileName: string,
+    options: CADReadOptions = {}
+  ): Promise<THREE.Group> {
+    const {
+      chordalTolerance = DEFAULT_CHORDAL_TOLERANCE,
+      angularTolerance = DEFAULT_ANGULAR_TOLERANCE,
+    } = options;
+    if (!(chordalTolerance > 0) || !(angularTolerance > 0)) {
+      throw new Error("CAD tessellation tolerances must be positive");
+    }
+
+    const extension = fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+    const format = CAD_FORMATS[extension];
+    if (!format) {
+      throw new Error(
+        `Unsupported CAD format ${extension}; expected one of ${CADReader.supportedFormats.join(", ")}`
+      );
+    }
+    const text = new TextDecoder().decode(data);
+    const bodies =
+      format === "step"
+        ? CADReader.stepBodies(text)
+        : format === "iges"
+          ? CADReader.igesBodies(text)
+          : [];
+
+    const occt = await CADReader.loadOcct(options.wasmUrl);
+    // OpenCascade cannot convert BREP units, so tessellate in millimetres
+    const scale = format === "brep" ? 1000 : 1;
+    const params = {
+      linearUnit: "meter" as const,
+      linearDeflectionType: "absolute_value" as const,
+      linearDeflection: chordalTolerance * scale,
+      angularDeflection: angularTolerance,
+    };
+    const content = new Uint8Array(data);
+    const result =
+      format === "step"
+        ? occt.ReadStepFile(content, params)
+        : format === "iges"
+          ? occt.ReadIgesFile(content, params)
+          : occt.ReadBrepFile(content, params);
+    if (!result.success) {
+      throw new Error(`Could not read ${fileName}`);
+    }
+    if (result.meshes.length === 0) {
+      throw new Error(`No faces found in ${fileName}`);
+    }
+
+    let faceCount = 0;
+    const matches =
+      format === "brep"
+        ? result.meshes.map((mesh) => ({
+            name: "",
+            faces: mesh.brep_faces.map(() => `Face${++faceCount}`),
+          }))
+        : CADReader.matchBodies(result.meshes, bodies);
+    const meshes = result.meshes.map((mesh, i) =>
+      CADReader.buildMesh(mesh, i, matches[i])
+    );
+    if (scale !== 1) {
+      meshes.forEach((mesh) =>
+        mesh.geometry.scale(1 / scale, 1 / scale, 1 / scale)
+      );
+    }
+    const root = CADReader.buildNode(result.root, meshes);
+    root.name ||= fileName.slice(0, fileName.lastIndexOf("."));
+    return root;
+  }
+
+  /**
+   * All faces whose name matches, across every body, as one world-space
+   * triangle soup; undefined when none do
+   */
+  static findFaces(
+    object: THREE.Object3D,
+    pattern: RegExp
+  ): THREE.BufferGeometry | undefined {
+    object.updateMatrixWorld(true);
+    const positions: number[] = [];
+    const vertex = new THREE.Vector3();
+
+    object.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const geometry = child.geometry as THREE.BufferGeometry;
+      const names: string[] = geometry.userData.faceNames ?? [];
+      const position = geometry.getAttribute("position");
+      geometry.groups.forEach((group, f) => {
+        if (!pattern.test(names[f] ?? "")) return;
+        for (let i = group.start; i < group.start + group.count; i++) {
+          const index = geometry.index ? geometry.index.getX(i) : i;
+          vertex.fromBufferAttribute(position, index);
+          vertex.applyMatrix4(child.matrixWorld);
+          positions.push(vertex.x, vertex.y, vertex.z);
+        }
+      });
+    });
+
+    if (positions.length === 0) return undefined;
+    const result = new THREE.BufferGeometry();
+    result.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute(positions, 3)
+    );
+    return result;
+  }
+
+  /**
+   * Solids and free shells in a STEP file, in file order. Faces reached
+   * through ORIENTED_FACE or ORIENTED_CLOSED_SHELL keep their own names.
+   */
+  static stepBodies(text: string): CADBody[] {
+    const entity =
+      /#(\d+)\s*=\s*(ADVANCED_FACE|FACE_SURFACE|ORIENTED_FACE|CLOSED_SHELL|OPEN_SHELL|ORIENTED_CLOSED_SHELL|MANIFOLD_SOLID_BREP|BREP_WITH_VOIDS|SHELL_BASED_SURFACE_MODEL)\s*\(\s*'((?:[^']|'')*)'([^;]*);/g;
+    const faceNames = new Map<string, string>();
+    const shells = new Map<string, string[]>();
+    // Oriented faces and shells, by the entity they orient
+    const oriented = new Map<string, string>();
+    const solids: { name: string; shells: string[] }[] = [];
+
+    let match: RegExpExecArray | null;
+    while ((match = entity.exec(text)) !== null) {
+      const [, id, type, name, rest] = match;
+      const references = (rest.match(/#\d+/g) ?? []).map((ref) => ref.slice(1));
+      switch (type) {
+        case "ADVANCED_FACE":
+        case "FACE_SURFACE":
+          faceNames.set(id, decodeStepString(name));
+          break;
+        case "ORIENTED_FACE":
+        case "ORIENTED_CLOSED_SHELL":
+          oriented.set(id, references[0]);
+          break;
+        case "CLOSED_SHELL":
+        case "OPEN_SHELL":
+          shells.set(id, references);
+          break;
+        default:
+          solids.push({ name: decodeStepString(name), shells: references });
+      }
+    }
+
+    const resolve = (id: string) => oriented.get(id) ?? id;
+    const inSolids = new Set(
+      solids.flatMap((solid) => solid.shells.map(resolve))
+    );
+    shells.forEach((_, id) => {
+      if (!inSolids.has(id)) solids.push({ name: "", shells: [id] });
+    });
+
+    return solids.map((solid) => ({
+      name: solid.name,
+      faces: solid.shells.flatMap((shell) =>
+        (shells.get(resolve(shell)) ?? []).map(
+          (face) => faceNames.get(resolve(face)) ?? ""
+        )
+      ),
+    }));
+  }
+
+  /**
+   * Manifold solids (type 186) and free shells (type 514) in an IGES file.
+   * Names come from a name property (type 406 form 15) when an entity has
+   * one, or else from its directory entry label and subscript.
+   */
+  static igesBodies(text: string): CADBody[] {
+    let global = "";
+    const directory: string[] = [];
+    const parameters = new Map<number, string>();
+    text.split(/\r?\n/).forEach((line) => {
+      switch (line[72]) {
+        case "G":
+          global += line.slice(0, 72);
+          break;
+        case "D":
+          directory.push(line);
+          break;
+        case "P": {
+          // Columns 66 to 72 point back at the directory entry
+          const entry = parseInt(line.slice(64, 72));
+          parameters.set(
+            entry,
+            (parameters.get(entry) ?? "") + line.slice(0, 64)
+          );
+          break;
+        }
+      }
+    });
+
+    // The first two global parameters override the "," and ";" delimiters
+    let delimiter = ",";
+    let terminator = ";";
+    let position = 0;
+    if (global.startsWith("1H")) {
+      delimiter = global[2];
+      position = 3;
+    }
+    if (global.startsWith("1H", position + 1)) {
+      terminator = global[position + 3];
+    }
+
+    const entries = new Map<
+      number,
+      { type: number; form: number; label: string }
+    >();
+    for (let d = 0; d + 1 < directory.length; d += 2) {
+      const label = directory[d + 1].slice(56, 64).trim();
+      // Writers fill an unused subscript with 0
+      const subscript = parseInt(directory[d + 1].slice(64, 72)) || 0;
+      entries.set(d + 1, {
+        type: parseInt(directory[d].slice(0, 8)),
+        form: parseInt(directory[d + 1].slice(32, 40)) || 0,
+        label: subscript > 0 && label ? `${label}:${subscript}` : label,
+      });
+    }
+
+    const fields = (entry: number): string[] =>
+      splitIgesParameters(parameters.get(entry) ?? "", delimiter, terminator);
+    const pointer = (field: string | undefined): number =>
+      Math.abs(parseInt(field ?? "")) || 0;
+
+    // Name of the entry whose own parameters take up `count` fields after
+    // the type; property pointers follow the associativity pointers
+    const nameOf = (entry: number, count: number): string => {
+      const values = fields(entry);
+      const associativities = pointer(values[count + 1]);
+      const start = count + 2 + associativities;
+      const properties = pointer(values[start]);
+      for (let p = 0; p < properties; p++) {
+        const property = pointer(values[start + 1 + p]);
+        const info = entries.get(property);
+        if (info?.type === 406 && info.form === 15) {
+          return fields(property)[2] ?? "";
+        }
+      }
+      return entries.get(entry)?.label ?? "";
+    };
+
+    const shellFaces = (shell: number): string[] => {
+      const values = fields(shell);
+      const count = pointer(values[1]);
+      return Array.from({ length: count }, (_, k) => {
+        const face = pointer(values[2 + 2 * k]);
+        const loops = pointer(fields(face)[2]);
+        return nameOf(face, 3 + loops);
+      });
+    };
+
+    const bodies: CADBody[] = [];
+    const inSolids = new Set<number>();
+    entries.forEach((info, entry) => {
+      if (info.type !== 186) return;
+      const values = fields(entry);
+      const voids = pointer(values[3]);
+      const shells = [
+        pointer(values[1]),
+        ...Array.from({ length: voids }, (_, k) => pointer(values[4 + 2 * k])),
+      ];
+      shells.forEach((shell) => inSolids.add(shell));
+      bodies.push({
+        name: nameOf(entry, 3 + 2 * voids),
+        faces: shells.flatMap(shellFaces),
+      });
+    });
+    entries.forEach((info, entry) => {
+      if (info.type !== 514 || inSolids.has(entry)) return;
+      const count = pointer(fields(entry)[1]);
+      bodies.push({
+        name: nameOf(entry, 1 + 2 * count),
+        faces: shellFaces(entry),
+      });
+    });
+    return bodies;
+  }
+
+  private static loadOcct(wasmUrl?: string): Promise<OcctImport> {
+    if (!CADReader.occt) {
+      CADReader.occt = occtimportjs(
+        wasmUrl ? { locateFile: () => wasmUrl } : undefined
+      );
+      // Let a later call retry if the binary could not be fetched
+      CADReader.occt.catch(() => (CADReader.occt = undefined));
+    }
+    return CADReader.occt;
+  }
+
+  // The parsed body for each OpenCascade mesh: one with the same face count,
+  // preferring the same name, then one no other mesh has taken. Instances of
+  // a part share its body.
+  private static matchBodies(
+    meshes: OcctMesh[],
+    bodies: CADBody[]
+  ): (CADBody | undefined)[] {
+    const taken = new Set<CADBody>();
+    return meshes.map((mesh) => {
+      const candidates = bodies.filter(
+        (body) => body.faces.length === mesh.brep_faces.length
+      );
+      const body =
+        candidates.find(
+          (body) => !taken.has(body) && body.name === mesh.name
+        ) ??
+        candidates.find((body) => !taken.has(body)) ??
+        candidates[0];
+      if (body) taken.add(body);
+      return body;
+    });
+  }
+
+  private static buildMesh(
+    mesh: OcctMesh,
+    index: number,
+    body: CADBody | undefined
+  ): THREE.Mesh {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute(mesh.attributes.position.array, 3)
+    );
+    geometry.setIndex(mesh.index.array);
+    if (mesh.attributes.normal) {
+      geometry.setAttribute(
+        "normal",
+        new THREE.Float32BufferAttribute(mesh.attributes.normal.array, 3)
+      );
+    } else {
+      geometry.computeVertexNormals();
+    }
+
+    mesh.brep_faces.forEach((face, f) =>
+      geometry.addGroup(face.first * 3, (face.last - face.first + 1) * 3, f)
+    );
+    geometry.userData.faceNames = mesh.brep_faces.map(
+      (_, f) => body?.faces[f] || `face${f + 1}`
+    );
+
+    const material = new THREE.MeshStandardMaterial({
+      color: mesh.color ? new THREE.Color(...mesh.color) : 0x888888,
+    });
+    const result = new THREE.Mesh(geometry, material);
+    result.name = mesh.name || body?.name || `body${index + 1}`;
+    return result;
+  }
+
+  private static buildNode(node: OcctNode, meshes: THREE.Mesh[]): THREE.Group {
+    const group = new THREE.Group();
+    group.name = node.name;
+    node.meshes.forEach((index) => group.add(meshes[index]));
+    node.children.forEach((child) =>
+      group.add(CADReader.buildNode(child, meshes))
+    );
+    return group;
+  }
+}
+
+const CAD_FORMATS: Record<string, "step" | "iges" | "brep"> = {
+  ".step": "step",
+  ".stp": "step",
+  ".iges": "iges",
+  ".igs": "iges",
+  ".brep": "brep",
+  ".brp": "brep",
+};
+
+// STEP strings double their quotes and escape non-ASCII characters as
+// \X\hh (ISO 8859-1) or \X2\hhhh...\X0\ (UTF-16)
+const decodeStepString = (value: string): string =>
+  value
+    .replace(/''/g, "'")
+    .replace(/\\X2\\((?:[0-9A-F]{4})+)\\X0\\/gi, (_, hex: string) =>
+      String.fromCharCode(
+        ...hex.match(/.{4}/g)!.map((code) => parseInt(code, 16))
+      )
+    )
+    .replace(/\\X\\([0-9A-F]{2})/gi, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16))
+    )
+    .replace(/\\\\/g, "\\");
+
+// Fields of an IGES parameter record up to its terminator. Strings are
+// Hollerith constants, "5HINLET", and may hold either delimiter.
+const splitIgesParameters = (
+  record: string,
+  delimiter: string,
+  terminator: string
+): string[] => {
+  const values: string[] = [];
+  let i = 0;
+  while (i < record.length) {
+    const hollerith = /^\s*(\d+)H/.exec(record.slice(i, i + 24));
+    let value: string;
+    if (hollerith) {
+      const start = i + hollerith[0].length;
+      value = record.slice(start, start + parseInt(hollerith[1]));
+      i = start + value.length;
+      while (i < record.length && record[i] === " ") i++;
+    } else {
+      let end = i;
+      while (
+        end < record.length &&
+        record[end] !== delimiter &&
+        record[end] !== terminator
+      ) {
+        end++;
+      }
+      value = record.slice(i, end).trim();
+      i = end;
+    }
+    values.push(value);
+    if (i >= record.length || record[i] === terminator) break;
+    i++;
+  }
+  return values;
+};
@@ -0,0 +1,230 @@
+import {
+  SimulationConfig,
+  SimulationState,
+  SPHSimulator,
+} from "./sph-simulator";
+import {
+  SerializedSimulationConfig,
+  deserializeConfig,
+  serializeConfig,
+} from "./simulation-protocol";
+import { PigState } from "./pig";
+
+/**
+ * Binary checkpoint layout:
+ *
+ *   "SPHC" | u32 version | u32 header length | header JSON | pad to 4 bytes
+ *   boundary positions f32[] | positions f32[3n] | velocities f32[3n]
+ *   densities f32[n] | pressures f32[n] | masses f32[n]
+ *   temperatures f32[n] | phases u8[n] | pad to 8 bytes
+ *   accelerations f64[3n], when the header says so
+ *
+ * The header integers are little-endian and the arrays are raw typed-array
+ * bytes. Floats are stored exactly as the solver holds them, and the
+ * header's numbers are doubles that survive JSON unchanged, so a restored
+ * run continues bit-for-bit. Version 3 and earlier have no temperature
+ * block, and version 5 and earlier no accelerations.
+ */
+const CHECKPOINT_MAGIC = "SPHC";
+export const CHECKPOINT_VERSION = 6;
+
+const align4 = (offset: number): number => Math.ceil(offset / 4) * 4;
+const align8 = (offset: number): number => Math.ceil(offset / 8) * 8;
+
+interface CheckpointHeader {
+  config: Omit<SerializedSimulationConfig, "boundaryPositions">;
+  boundaryLength: number;
+  particleCount: number;
+  time: number;
+  stepCount: number;
+  maxAcceleration: number;
+  inletProgress: number[];
+  // Added in version 2; version 1 runs had no inlet phase mixing
+  inletEmitted?: number[];
+  // Added in version 3, for runs with a pig
+  pig?: PigState;
+  // Added in version 5, for periodic runs
+  periodicDrive?: number;
+  // Added in version 6: whether the accelerations velocity-Verlet starts
+  // its next step from follow the particle blocks
+  accelerations?: boolean;
+}
+
+export interface Checkpoint {
+  version: number;
+  config: SimulationConfig;
+  state: SimulationState;
+}
+
+export class SimulationCheckpoint {
+  public static save(simulator: SPHSimulator): ArrayBuffer {
+    const { boundaryPositions, ...config } = serializeConfig(
+      simulator.getConfig()
+    );
+    const state = simulator.captureState();
+    const { particles } = state;
+    const particleCount = particles.masses.length;
+
+    const header: CheckpointHeader = {
+      config,
+      boundaryLength: boundaryPositions?.length ?? 0,
+      particleCount,
+      time: state.time,
+      stepCount: state.stepCount,
+      maxAcceleration: state.maxAcceleration,
+      inletProgress: state.inletProgress,
+      inletEmitted: state.inletEmitted,
+      pig: state.pig,
+      periodicDrive: state.periodicDrive,
+      accelerations: state.accelerations !== undefined,
+    };
+    const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+    const dataStart = align4(12 + headerBytes.length);
+
+    const blocks: (Float32Array | Uint8Array)[] = [
+      boundaryPositions ?? new Float32Array(0),
+      particles.positions,
+      particles.velocities,
+      particles.densities,
+      particles.pressures,
+      particles.masses,
+      particles.temperatures,
+      particles.phases,
+    ];
+    const particleEnd = blocks.reduce(
+      (length, block) => length + block.byteLength,
+      dataStart
+    );
+    const accelerationStart = align8(particleEnd);
+    const totalLength = state.accelerations
+      ? accelerationStart + state.accelerations.byteLength
+      : particleEnd;
+
+    const buffer = new ArrayBuffer(totalLength);
+    const view = new DataView(buffer);
+    const bytes = new Uint8Array(buffer);
+    for (let i = 0; i < 4; i++) {
+      bytes[i] = CHECKPOINT_MAGIC.charCodeAt(i);
+    }
+    view.setUint32(4, CHECKPOINT_VERSION, true);
+    view.setUint32(8, headerBytes.length, true);
+    bytes.set(headerBytes, 12);
+
+    let offset = dataStart;
+    blocks.forEach((block) => {
+      bytes.set(
+        new Uint8Array(block.buffer, block.byteOffset, block.byteLength),
+        offset
+      );
+      offset += block.byteLength;
+    });
+    if (state.accelerations) {
+      new Float64Array(buffer, accelerationStart).set(state.accelerations);
+    }
+
+    return buffer;
+  }
+
+  /**
+   * Parse a checkpoint without building a simulator. The returned arrays are
+   * copies, so the buffer may be transferred or discarded afterwards.
+   */
+  public static read(buffer: ArrayBuffer): Checkpoint {
+    const bytes = new Uint8Array(buffer);
+    const magic = String.fromCharCode(...Array.from(bytes.subarray(0, 4)));
+    if (buffer.byteLength < 12 || magic !== CHECKPOINT_MAGIC) {
+      throw new Error("Not a simulation checkpoint");
+    }
+
+    const view = new DataView(buffer);
+    const version = view.getUint32(4, true);
+    if (version > CHECKPOINT_VERSION) {
+      throw new Error(
+        `Checkpoint version ${version} is newer than supported version ${CHECKPOINT_VERSION}`
+      );
+    }
+
+    const headerLength = view.getUint32(8, true);
+    if (buffer.byteLength < 12 + headerLength) {
+      throw new Error("Checkpoint is truncated");
+    }
+    const header: CheckpointHeader = JSON.parse(
+      new TextDecoder().decode(bytes.subarray(12, 12 + headerLength))
+    );
+    const n = header.particleCount;
+
+    let offset = align4(12 + headerLength);
+    const hasTemperatures = version >= 4;
+    const particleEnd =
+      offset + (header.boundaryLength + n * (hasTemperatures ? 10 : 9)) * 4 + n;
+    const expectedLength = header.accelerations
+      ? align8(particleEnd) + n * 3 * 8
+      : particleEnd;
+    if (buffer.byteLength < expectedLength) {
+      throw new Error("Checkpoint is truncated");
+    }
+
+    const takeFloats = (length: number): Float32Array => {
+      const block = new Float32Array(buffer.slice(offset, offset + length * 4));
+      offset += length * 4;
+      return block;
+    };
+
+    const boundaryPositions = takeFloats(header.boundaryLength);
+    const positions = takeFloats(n * 3);
+    const velocities = takeFloats(n * 3);
+    const densities = takeFloats(n);
+    const pressures = takeFloats(n);
+    const masses = takeFloats(n);
+    const temperatures = hasTemperatures
+      ? takeFloats(n)
+      : new Float32Array(n).fill(
+          header.config.thermal?.initialTemperature ?? 0
+        );
+    const phases = bytes.slice(offset, offset + n);
+    const accelerationStart = align8(particleEnd);
+    const accelerations = header.accelerations
+      ? new Float64Array(
+          buffer.slice(accelerationStart, accelerationStart + n * 3 * 8)
+        )
+      : undefined;
+
+    return {
+      version,
+      config: deserializeConfig({
+        ...header.config,
+        boundaryPositions:
+          header.boundaryLength > 0 ? boundaryPositions : undefined,
+      }),
+      state: {
+        time: header.time,
+        stepCount: header.stepCount,
+        maxAcceleration: header.maxAcceleration,
+        inletProgress: header.inletProgress,
+        inletEmitted: header.inletEmitted ?? header.inletProgress.map(() => 0),
+        particles: {
+          positions,
+          velocities,
+          densities,
+          pressures,
+          masses,
+          temperatures,
+          phases,
+        },
+        pig: header.pig,
+        periodicDrive: header.periodicDrive,
+        accelerations,
+      },
+    };
+  }
+
+  /**
+   * Rebuild the simulator a checkpoint was saved from, ready to continue
+   */
+  public static restore(buffer: ArrayBuffer): SPHSimulator {
+    const { config, state } = SimulationCheckpoint.read(buffer);
+    const simulator = new SPHSimulator(config);
+    simulator.restoreState(state);
+    return simulator;
+  }
+}
@@ -0,0 +1,664 @@
+import * as THREE from "three";
+
+export interface DXFReadOptions {
+  // Layers whose lines, polylines and arcs are pipe centerlines. Names are
+  // matched without case, and * matches any run of characters.
+  pipeLayers?: string[];
+  // Outer diameters of the pipes on a layer, in metres, for centerlines
+  // without one in their own or their layer's XDATA
+  layerDiameters?: Record<string, number>;
+  // Diameter, in metres, for centerlines with no other
+  defaultDiameter?: number;
+  // XDATA application whose first real is a pipe's diameter in drawing units
+  diameterApplication?: string;
+  // Largest distance between an arc, or a pipe wall, and its facets, in
+  // metres
+  chordalTolerance?: number;
+}
+
+// A DXF object: its type from group code 0 and the group code and value
+// pairs after it
+interface DXFRecord {
+  type: string;
+  codes: [number, string][];
+}
+
+interface Centerline {
+  layer: string;
+  diameter: number;
+  points: THREE.Vector3[];
+  closed: boolean;
+}
+
+export const DEFAULT_DIAMETER_APPLICATION = "PIPE";
+
+// Metres per drawing unit for the $INSUNITS codes in use for plant models
+const INSUNITS: Record<number, number> = {
+  1: 0.0254,
+  2: 0.3048,
+  4: 1e-3,
+  5: 1e-2,
+  6: 1,
+  10: 0.9144,
+  14: 0.1,
+};
+
+/**
+ * ASCII DXF import: LINE, LWPOLYLINE, POLYLINE (2D, 3D and polyface), ARC
+ * and 3DFACE entities, with their layers. Lines on pipe layers are chained
+ * into centerlines and swept into closed pipe solids; faces import as
+ * meshes, and any other lines as wireframe. Drawings without $INSUNITS are
+ * taken to be in millimetres. Blocks and their inserts are not read.
+ */
+export class DXFReader {
+  /**
+   * A group per layer, in metres, holding the layer's faces as one mesh, a
+   * mesh per pipe run and a line set for the rest. Every object carries
+   * userData.layer; pipes also userData.diameter, and geometry groups for
+   * their "wall", "start" and "end" faces as CADReader names them.
+   */
+  static read(
+    text: string,
+    fileName: string,
+    options: DXFReadOptions = {}
+  ): THREE.Group {
+    if (text.startsWith("AutoCAD Binary DXF")) {
+      throw new Error(`${fileName} is a binary DXF; save it as ASCII DXF`);
+    }
+    const { chordalTolerance = 1e-4 } = options;
+    if (!(chordalTolerance > 0)) {
+      throw new Error("DXF chordal tolerance must be positive");
+    }
+
+    const sections = DXFReader.parseSections(text);
+    const scale =
+      INSUNITS[DXFReader.headerUnits(sections.get("HEADER"))] ?? 1e-3;
+    const application = (
+      options.diameterApplication ?? DEFAULT_DIAMETER_APPLICATION
+    ).toUpperCase();
+    const layerDiameters = new Map<string, number>();
+    for (const record of sections.get("TABLES") ?? []) {
+      if (record.type !== "LAYER") continue;
+      const diameter = xdataReal(record, application);
+      if (diameter !== undefined) {
+        layerDiameters.set(value(record, 2).toUpperCase(), diameter * scale);
+      }
+    }
+    Object.entries(options.layerDiameters ?? {}).forEach(([layer, diameter]) =>
+      layerDiameters.set(layer.toUpperCase(), diameter)
+    );
+    const pipeLayer = layerPattern(options.pipeLayers ?? []);
+
+    const faces = new Map<string, number[]>();
+    const lines = new Map<string, number[]>();
+    const centerlines: Centerline[] = [];
+    const addFaces = (layer: string, triangles: THREE.Vector3[]) => {
+      const positions = faces.get(layer) ?? [];
+      triangles.forEach((point) => positions.push(point.x, point.y, point.z));
+      faces.set(layer, positions);
+    };
+    const addPath = (
+      record: DXFRecord,
+      points: THREE.Vector3[],
+      closed: boolean
+    ) => {
+      const layer = value(record, 8) || "0";
+      if (!pipeLayer.test(layer)) {
+        const positions = lines.get(layer) ?? [];
+        const count = closed ? points.length : points.length - 1;
+        for (let i = 0; i < count; i++) {
+          const [a, b] = [points[i], points[(i + 1) % points.length]];
+          positions.push(a.x, a.y, a.z, b.x, b.y, b.z);
+        }
+        lines.set(layer, positions);
+        return;
+      }
+      const xdata = xdataReal(record, application);
+      const diameter =
+        xdata !== undefined
+          ? xdata * scale
+          : (layerDiameters.get(layer.toUpperCase()) ??
+            options.defaultDiameter);
+      if (!(diameter !== undefined && diameter > 0)) {
+        throw new Error(
+          `No pipe diameter for the centerline on layer ${layer}`
+        );
+      }
+      centerlines.push({ layer, diameter, points, closed });
+    };
+
+    const entities = sections.get("ENTITIES") ?? [];
+    const point = (record: DXFRecord, code: number) =>
+      new THREE.Vector3(
+        number(record, code),
+        number(record, code + 10),
+        number(record, code + 20)
+      ).multiplyScalar(scale);
+    for (let e = 0; e < entities.length; e++) {
+      const record = entities[e];
+      switch (record.type) {
+        case "LINE":
+          addPath(record, [point(record, 10), point(record, 11)], false);
+          break;
+        case "ARC": {
+          const ocs = ocsMatrix(record);
+          const center = point(record, 10);
+          const radius = number(record, 40) * scale;
+          const start = THREE.MathUtils.degToRad(number(record, 50));
+          let sweep = THREE.MathUtils.degToRad(number(record, 51)) - start;
+          if (sweep <= 0) sweep += 2 * Math.PI;
+          const points = arcPoints(
+            center,
+            radius,
+            start,
+            sweep,
+            chordalTolerance
+          ).map((p) => p.applyMatrix4(ocs));
+          addPath(record, points, false);
+          break;
+        }
+        case "LWPOLYLINE": {
+          const elevation = number(record, 38) * scale;
+          const vertices: { x: number; y: number; bulge: number }[] = [];
+          record.codes.forEach(([code, text]) => {
+            const v = parseFloat(text) * (code === 42 ? 1 : scale);
+            const last = vertices[vertices.length - 1];
+            if (code === 10) {
+              vertices.push({ x: v, y: 0, bulge: 0 });
+            } else if (code === 20 && last) {
+              last.y = v;
+            } else if (code === 42 && last) {
+              last.bulge = v;
+            }
+          });
+          const closed = (number(record, 70) & 1) === 1;
+          const points = bulgedPath(
+            vertices,
+            elevation,
+            closed,
+            chordalTolerance
+          );
+          const ocs = ocsMatrix(record);
+          addPath(
+            record,
+            points.map((p) => p.applyMatrix4(ocs)),
+            closed
+          );
+          break;
+        }
+        case "POLYLINE": {
+          const vertices: DXFRecord[] = [];
+          while (entities[e + 1]?.type === "VERTEX") {
+            vertices.push(entities[++e]);
+          }
+          if (entities[e + 1]?.type === "SEQEND") e++;
+          const flags = number(record, 70);
+          if (flags & 64) {
+            addFaces(
+              value(record, 8) || "0",
+              polyfaceTriangles(vertices, point)
+            );
+          } else if (flags & 8) {
+            addPath(
+              record,
+              vertices.map((vertex) => point(vertex, 10)),
+              (flags & 1) === 1
+            );
+          } else if (!(flags & 16)) {
+            // A 2D polyline lies in its object coordinate system at the
+            // elevation of its own point
+            const closed = (flags & 1) === 1;
+            const points = bulgedPath(
+              vertices.map((vertex) => ({
+                x: number(vertex, 10) * scale,
+                y: number(vertex, 20) * scale,
+                bulge: number(vertex, 42),
+              })),
+              number(record, 30) * scale,
+              closed,
+              chordalTolerance
+            );
+            const ocs = ocsMatrix(record);
+            addPath(
+              record,
+              points.map((p) => p.applyMatrix4(ocs)),
+              closed
+            );
+          }
+          break;
+        }
+        case "3DFACE": {
+          const [a, b, c, d] = [10, 11, 12, 13].map((code) =>
+            point(record, code)
+          );
+          addFaces(
+            value(record, 8) || "0",
+            c.equals(d) ? [a, b, c] : [a, b, c, a, c, d]
+          );
+          break;
+        }
+      }
+    }
+
+    const root = new THREE.Group();
+    root.name = fileName.slice(0, fileName.lastIndexOf("."));
+    const layerGroup = (layer: string): THREE.Group => {
+      let group = root.children.find((child) => child.name === layer) as
+        | THREE.Group
+        | undefined;
+      if (!group) {
+        group = new THREE.Group();
+        group.name = layer;
+        group.userData.layer = layer;
+        root.add(group);
+      }
+      return group;
+    };
+
+    faces.forEach((positions, layer) => {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute(
+        "position",
+        new THREE.Float32BufferAttribute(positions, 3)
+      );
+      geometry.computeVertexNormals();
+      const mesh = new THREE.Mesh(
+        geometry,
+        new THREE.MeshStandardMaterial({
+          color: 0x888888,
+          side: THREE.DoubleSide,
+        })
+      );
+      mesh.name = `${layer} faces`;
+      mesh.userData.layer = layer;
+      layerGroup(layer).add(mesh);
+    });
+
+    joinCenterlines(centerlines, chordalTolerance).forEach((centerline, i) => {
+      const mesh = new THREE.Mesh(
+        sweepPipe(centerline, chordalTolerance),
+        new THREE.MeshStandardMaterial({ color: 0x888888 })
+      );
+      mesh.name = `${centerline.layer} pipe ${i + 1}`;
+      mesh.userData.layer = centerline.layer;
+      mesh.userData.diameter = centerline.diameter;
+      layerGroup(centerline.layer).add(mesh);
+    });
+
+    lines.forEach((positions, layer) => {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute(
+        "position",
+        new THREE.Float32BufferAttribute(positions, 3)
+      );
+      const wires = new THREE.LineSegments(
+        geometry,
+        new THREE.LineBasicMaterial({ color: 0x444444 })
+      );
+      wires.name = `${layer} lines`;
+      wires.userData.layer = layer;
+      layerGroup(layer).add(wires);
+    });
+
+    if (root.children.length === 0) {
+      throw new Error(`No supported entities found in ${fileName}`);
+    }
+    return root;
+  }
+
+  // The records of each section by name. Group codes and values alternate
+  // line by line. Each section starts with a record of type "" holding the
+  // pairs before its first object, such as the header's variables.
+  private static parseSections(text: string): Map<string, DXFRecord[]> {
+    const lines = text.split(/\r?\n/);
+    const sections = new Map<string, DXFRecord[]>();
+    let records: DXFRecord[] | undefined;
+    let record: DXFRecord | undefined;
+
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+      const code = parseInt(lines[i]);
+      const text = lines[i + 1].trim();
+      if (Number.isNaN(code)) {
+        throw new Error(
+          `Invalid DXF group code "${lines[i].trim()}" at line ${i + 1}`
+        );
+      }
+      if (code !== 0) {
+        record?.codes.push([code, text]);
+        continue;
+      }
+      if (text === "SECTION") {
+        // The section's name follows as group code 2
+        const name = lines[i + 3]?.trim() ?? "";
+        record = { type: "", codes: [] };
+        records = [record];
+        sections.set(name, records);
+        i += 2;
+      } else if (text === "ENDSEC" || text === "EOF") {
+        records = undefined;
+        record = undefined;
+      } else if (records) {
+        record = { type: text, codes: [] };
+        records.push(record);
+      }
+    }
+    return sections;
+  }
+
+  // $INSUNITS from the header, whose variables are code 9 names followed by
+  // their values; 0, unitless, without one
+  private static headerUnits(header: DXFRecord[] | undefined): number {
+    const codes = header?.[0].codes ?? [];
+    const index = codes.findIndex(
+      ([code, text]) => code === 9 && text === "$INSUNITS"
+    );
+    return index >= 0 ? parseInt(codes[index + 1]?.[1] ?? "0") : 0;
+  }
+}
+
+const value = (record: DXFRecord, code: number): string =>
+  record.codes.find(([c]) => c === code)?.[1] ?? "";
+
+const number = (record: DXFRecord, code: number): number =>
+  parseFloat(value(record, code)) || 0;
+
+// The first real (1040) or distance (1041) in the record's XDATA for the
+// application
+const xdataReal = (
+  record: DXFRecord,
+  application: string
+): number | undefined => {
+  let inApplication = false;
+  for (const [code, text] of record.codes) {
+    if (code === 1001) {
+      inApplication = text.toUpperCase() === application;
+    } else if (inApplication && (code === 1040 || code === 1041)) {
+      return parseFloat(text);
+    }
+  }
+  return undefined;
+};
+
+const layerPattern = (layers: string[]): RegExp =>
+  layers.length === 0
+    ? /$^/
+    : new RegExp(
+        `^(${layers
+          .map((layer) =>
+            layer
+              .trim()
+              .replace(/[.+?^${}()|[\]\\]/g, "\\$&")
+              .replace(/\*/g, ".*")
+          )
+          .join("|")})$`,
+        "i"
+      );
+
+// The object coordinate system from the extrusion direction (codes 210 to
+// 230) by AutoCAD's arbitrary axis algorithm
+const ocsMatrix = (record: DXFRecord): THREE.Matrix4 => {
+  const z = new THREE.Vector3(
+    number(record, 210),
+    number(record, 220),
+    parseFloat(value(record, 230)) ||
+      (value(record, 210) || value(record, 220) ? 0 : 1)
+  ).normalize();
+  const x =
+    Math.abs(z.x) < 1 / 64 && Math.abs(z.y) < 1 / 64
+      ? new THREE.Vector3(0, 1, 0).cross(z)
+      : new THREE.Vector3(0, 0, 1).cross(z);
+  x.normalize();
+  const y = new THREE.Vector3().crossVectors(z, x);
+  return new THREE.Matrix4().makeBasis(x, y, z);
+};
+
+// Points along an arc, no further than the tolerance from it
+const arcPoints = (
+  center: THREE.Vector3,
+  radius: number,
+  start: number,
+  sweep: number,
+  tolerance: number
+): THREE.Vector3[] => {
+  const step = 2 * Math.acos(Math.max(0, 1 - tolerance / radius));
+  const count = Math.max(1, Math.min(256, Math.ceil(Math.abs(sweep) / step)));
+  return Array.from({ length: count + 1 }, (_, k) => {
+    const angle = start + (sweep * k) / count;
+    return new THREE.Vector3(
+      center.x + radius * Math.cos(angle),
+      center.y + radius * Math.sin(angle),
+      center.z
+    );
+  });
+};
+
+// A polyline's points with each bulge, the tangent of a quarter of the
+// included angle, expanded into an arc
+const bulgedPath = (
+  vertices: { x: number; y: number; bulge: number }[],
+  elevation: number,
+  closed: boolean,
+  tolerance: number
+): THREE.Vector3[] => {
+  const points: THREE.Vector3[] = [];
+  vertices.forEach((vertex, i) => {
+    const next = vertices[i + 1] ?? (closed ? vertices[0] : undefined);
+    points.push(new THREE.Vector3(vertex.x, vertex.y, elevation));
+    if (!next || Math.abs(vertex.bulge) < 1e-9) return;
+
+    const angle = 4 * Math.atan(vertex.bulge);
+    const dx = next.x - vertex.x;
+    const dy = next.y - vertex.y;
+    const chord = Math.hypot(dx, dy);
+    const radius = chord / (2 * Math.sin(angle / 2));
+    // The center is left of the chord for counter-clockwise arcs
+    const offset = (radius * Math.cos(angle / 2)) / chord;
+    const center = new THREE.Vector3(
+      (vertex.x + next.x) / 2 - dy * offset,
+      (vertex.y + next.y) / 2 + dx * offset,
+      elevation
+    );
+    const start = Math.atan2(vertex.y - center.y, vertex.x - center.x);
+    const arc = arcPoints(center, Math.abs(radius), start, angle, tolerance);
+    points.push(...arc.slice(1, -1));
+  });
+  return points;
+};
+
+// Triangles of a polyface mesh: vertices flagged 64 and 128 hold points,
+// and those flagged 128 alone list up to four 1-based point indices, which
+// are negative for hidden edges
+const polyfaceTriangles = (
+  vertices: DXFRecord[],
+  point: (record: DXFRecord, code: number) => THREE.Vector3
+): THREE.Vector3[] => {
+  const points: THREE.Vector3[] = [];
+  const triangles: THREE.Vector3[] = [];
+  vertices.forEach((vertex) => {
+    const flags = number(vertex, 70);
+    if (flags & 64) {
+      points.push(point(vertex, 10));
+      return;
+    }
+    const corners = [71, 72, 73, 74]
+      .map((code) => Math.abs(number(vertex, code)))
+      .filter((index) => index > 0)
+      .map((index) => points[index - 1]);
+    for (let k = 1; k + 1 < corners.length; k++) {
+      triangles.push(corners[0], corners[k], corners[k + 1]);
+    }
+  });
+  return triangles;
+};
+
+// Open centerlines on the same layer and of the same diameter that meet end
+// to end become one run, so the sweep mitres their joints
+const joinCenterlines = (
+  centerlines: Centerline[],
+  tolerance: number
+): Centerline[] => {
+  const runs = centerlines.map((centerline) => ({
+    ...centerline,
+    points: centerline.points.filter(
+      (p, i, all) => i === 0 || p.distanceTo(all[i - 1]) > tolerance
+    ),
+  }));
+  const meets = (a: THREE.Vector3, b: THREE.Vector3) =>
+    a.distanceTo(b) <= tolerance;
+
+  for (let joined = true; joined; ) {
+    joined = false;
+    for (let i = 0; i < runs.length && !joined; i++) {
+      for (let j = 0; j < runs.length && !joined; j++) {
+        const [a, b] = [runs[i], runs[j]];
+        if (i === j || a.closed || b.closed) continue;
+        if (a.layer !== b.layer || a.diameter !== b.diameter) continue;
+        const aEnd = a.points[a.points.length - 1];
+        const bStart = b.points[0];
+        const bEnd = b.points[b.points.length - 1];
+        const next = meets(aEnd, bStart)
+          ? b.points
+          : meets(aEnd, bEnd)
+            ? [...b.points].reverse()
+            : undefined;
+        if (!next) continue;
+        a.points = [...a.points, ...next.slice(1)];
+        runs.splice(j, 1);
+        joined = true;
+      }
+    }
+  }
+  runs.forEach((run) => {
+    // A run that comes back to its start is a loop
+    if (
+      !run.closed &&
+      run.points.length > 2 &&
+      meets(run.points[0], run.points[run.points.length - 1])
+    ) {
+      run.points.pop();
+      run.closed = true;
+    }
+  });
+  return runs.filter((run) => run.points.length >= 2);
+};
+
+// A closed pipe solid around a centerline: rings mitred at each vertex,
+// framed by parallel transport so the wall does not twist, and capped at
+// open ends
+const sweepPipe = (
+  centerline: Centerline,
+  tolerance: number
+): THREE.BufferGeometry => {
+  const { points, closed } = centerline;
+  const radius = centerline.diameter / 2;
+  const step = 2 * Math.acos(Math.max(0, 1 - tolerance / radius));
+  const sides = Math.max(8, Math.min(128, Math.ceil((2 * Math.PI) / step)));
+  const count = points.length;
+  const segments = closed ? count : count - 1;
+
+  const directions = Array.from({ length: segments }, (_, i) =>
+    points[(i + 1) % count].clone().sub(points[i]).normalize()
+  );
+  const incoming = (i: number) =>
+    directions[i > 0 ? i - 1 : closed ? segments - 1 : 0];
+  const outgoing = (i: number) => directions[Math.min(i, segments - 1)];
+
+  // Transport a normal along the centerline, one frame per vertex
+  const start = incoming(0);
+  const normal = new THREE.Vector3(1, 0, 0);
+  if (Math.abs(start.x) > 0.9) normal.set(0, 1, 0);
+  normal.sub(start.clone().multiplyScalar(normal.dot(start))).normalize();
+  const normals: THREE.Vector3[] = [normal.clone()];
+  for (let i = 1; i < count; i++) {
+    const turn = new THREE.Quaternion().setFromUnitVectors(
+      incoming(i - 1),
+      incoming(i)
+    );
+    normals.push(normals[i - 1].clone().applyQuaternion(turn));
+  }
+  // Around a loop the transported frame comes back turned; spread the
+  // correction along the loop so the seam closes
+  let twist = 0;
+  if (closed) {
+    const back = normals[count - 1]
+      .clone()
+      .applyQuaternion(
+        new THREE.Quaternion().setFromUnitVectors(incoming(count - 1), start)
+      );
+    twist = Math.atan2(
+      new THREE.Vector3().crossVectors(back, normals[0]).dot(start),
+      back.dot(normals[0])
+    );
+  }
+
+  const positions: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const d = incoming(i);
+    const mitre = d.clone().add(outgoing(i)).normalize();
+    const cosine = d.dot(mitre);
+    if (cosine < 0.05) {
+      throw new Error(
+        `Pipe centerline on layer ${centerline.layer} turns back on itself`
+      );
+    }
+    const u = normals[i].clone().applyAxisAngle(d, (twist * i) / count);
+    const v = new THREE.Vector3().crossVectors(d, u);
+    for (let j = 0; j < sides; j++) {
+      const angle = (2 * Math.PI * j) / sides;
+      const offset = u
+        .clone()
+        .multiplyScalar(radius * Math.cos(angle))
+        .addScaledVector(v, radius * Math.sin(angle));
+      // Slide along the incoming direction onto the mitre plane
+      offset.addScaledVector(d, -offset.dot(mitre) / cosine);
+      const p = points[i].clone().add(offset);
+      positions.push(p.x, p.y, p.z);
+    }
+  }
+
+  const index: number[] = [];
+  const ring = (i: number, j: number) => (i % count) * sides + (j % sides);
+  for (let i = 0; i < segments; i++) {
+    for (let j = 0; j < sides; j++) {
+      index.push(ring(i, j), ring(i, j + 1), ring(i + 1, j));
+      index.push(ring(i, j + 1), ring(i + 1, j + 1), ring(i + 1, j));
+    }
+  }
+  const geometry = new THREE.BufferGeometry();
+  geometry.addGroup(0, index.length, 0);
+  const faceNames = ["wall"];
+
+  if (!closed) {
+    // Caps get their own vertices so their normals stay flat
+    (
+      [
+        [0, "start"],
+        [count - 1, "end"],
+      ] as const
+    ).forEach(([i, name]) => {
+      const center = positions.length / 3;
+      positions.push(points[i].x, points[i].y, points[i].z);
+      for (let j = 0; j < sides; j++) {
+        positions.push(...positions.slice(ring(i, j) * 3, ring(i, j) * 3 + 3));
+      }
+      const first = index.length;
+      for (let j = 0; j < sides; j++) {
+        const a = center + 1 + j;
+        const b = center + 1 + ((j + 1) % sides);
+        if (name === "start") index.push(center, b, a);
+        else index.push(center, a, b);
+      }
+      geometry.addGroup(first, index.length - first, faceNames.length);
+      faceNames.push(name);
+    });
+  }
+
+  geometry.setAttribute(
+    "position",
+    new THREE.Float32BufferAttribute(positions, 3)
+  );
+  geometry.setIndex(index);
+  geometry.computeVertexNormals();
+  geometry.userData.faceNames = faceNames;
+  return geometry;
+};
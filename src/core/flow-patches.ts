@@ -0,0 +1,370 @@
+import * as THREE from "three";
+import { vec3 } from "gl-matrix";
+import { GeometryUtils } from "../utils/geometry-utils";
+
+export interface FlowPatch {
+  center: THREE.Vector3;
+  // Points into the pipe for inlets and out of the pipe for outlets
+  normal: THREE.Vector3;
+  radius: number;
+  // Cross-section area, if known more precisely than PI * radius^2
+  area?: number;
+  // Inlets only: volumetric flow rate in m³/s. Inlets without one share the
+  // simulation's flow rate in proportion to their area.
+  flowRate?: number;
+  // Inlets only: share of emitted particles per phase id, normalised to sum
+  // to 1. Defaults to all phase 0.
+  phaseFractions?: number[];
+  // Inlets only: temperature of the inflow. Defaults to the initial
+  // temperature of the thermal settings.
+  temperature?: number;
+}
+
+// Golden ratio conjugate: successive multiples are evenly spread over [0, 1)
+const PHASE_SEQUENCE_STEP = 0.6180339887498949;
+
+export class InletEmitter {
+  public readonly patch: FlowPatch;
+  private spacing: number;
+  private lattice: THREE.Vector3[] = [];
+  private pendingLength: number = 0;
+  private emittedCount: number = 0;
+  private phaseThresholds: number[] = [];
+
+  constructor(patch: FlowPatch, spacing: number) {
+    this.patch = {
+      ...patch,
+      center: patch.center.clone(),
+      normal: patch.normal.clone().normalize(),
+    };
+    this.spacing = spacing;
+    this.buildLattice();
+    this.buildPhaseThresholds();
+  }
+
+  public getArea(): number {
+    return this.patch.area ?? Math.PI * this.patch.radius * this.patch.radius;
+  }
+
+  /**
+   * Inflow speed at which the emitted layers carry `flowRate`. Each lattice
+   * point stands for one spacing² of the section, and the lattice is kept
+   * off the wall, so this is faster than `flowRate` over the full area.
+   */
+  public getInflowSpeed(flowRate: number): number {
+    return flowRate / (this.lattice.length * this.spacing * this.spacing);
+  }
+
+  /**
+   * Advance the inflow by one step, emitting a fresh layer of particles each
+   * time the fluid column has moved one particle spacing into the pipe.
+   */
+  public emit(
+    flowRate: number,
+    deltaTime: number,
+    spawn: (position: vec3, velocity: vec3, phase: number) => void
+  ): void {
+    const speed = this.getInflowSpeed(flowRate);
+    if (speed <= 0) return;
+
+    const { center, normal } = this.patch;
+    this.pendingLength += speed * deltaTime;
+
+    while (this.pendingLength >= this.spacing) {
+      this.pendingLength -= this.spacing;
+      // The layer has already travelled the leftover length downstream
+      const advance = this.pendingLength;
+      this.lattice.forEach((offset) => {
+        spawn(
+          vec3.fromValues(
+            center.x + offset.x + normal.x * advance,
+            center.y + offset.y + normal.y * advance,
+            center.z + offset.z + normal.z * advance
+          ),
+          vec3.fromValues(normal.x * speed, normal.y * speed, normal.z * speed),
+          this.nextPhase()
+        );
+      });
+    }
+  }
+
+  // Fluid length advanced since the last emitted layer
+  public getPendingLength(): number {
+    return this.pendingLength;
+  }
+
+  public setPendingLength(length: number): void {
+    this.pendingLength = length;
+  }
+
+  // Particles emitted so far, which fixes the phase of the next one
+  public getEmittedCount(): number {
+    return this.emittedCount;
+  }
+
+  public setEmittedCount(count: number): void {
+    this.emittedCount = count;
+  }
+
+  /**
+   * Particles in the buffer zone just downstream of the inlet have their
+   * velocity prescribed, so the inflow is not stalled by the fluid ahead.
+   */
+  public isInBufferZone(position: vec3): boolean {
+    const axial = this.axialDistance(position);
+    return (
+      axial >= -this.spacing &&
+      axial <= 2 * this.spacing &&
+      this.radialDistance(position, axial) <= this.patch.radius
+    );
+  }
+
+  public applyInflowVelocity(velocity: vec3, flowRate: number): void {
+    const speed = this.getInflowSpeed(flowRate);
+    const { normal } = this.patch;
+    vec3.set(velocity, normal.x * speed, normal.y * speed, normal.z * speed);
+  }
+
+  private axialDistance(position: vec3): number {
+    const { center, normal } = this.patch;
+    return (
+      (position[0] - center.x) * normal.x +
+      (position[1] - center.y) * normal.y +
+      (position[2] - center.z) * normal.z
+    );
+  }
+
+  private radialDistance(position: vec3, axial: number): number {
+    const { center, normal } = this.patch;
+    const rx = position[0] - center.x - normal.x * axial;
+    const ry = position[1] - center.y - normal.y * axial;
+    const rz = position[2] - center.z - normal.z * axial;
+    return Math.sqrt(rx * rx + ry * ry + rz * rz);
+  }
+
+  /**
+   * Phase for the next emitted particle. A low-discrepancy sequence keeps
+   * the emitted mix close to the requested fractions at every point in the
+   * run, and is reproducible from the emitted count alone.
+   */
+  private nextPhase(): number {
+    const thresholds = this.phaseThresholds;
+    if (thresholds.length === 0) return 0;
+
+    const u = ((this.emittedCount++ + 0.5) * PHASE_SEQUENCE_STEP) % 1;
+    const phase = thresholds.findIndex((threshold) => u < threshold);
+    return phase === -1 ? thresholds.length - 1 : phase;
+  }
+
+  private buildPhaseThresholds(): void {
+    const fractions = this.patch.phaseFractions ?? [];
+    const total = fractions.reduce((sum, f) => sum + Math.max(0, f), 0);
+    if (total <= 0) return;
+
+    let cumulative = 0;
+    this.phaseThresholds = fractions.map((f) => {
+      cumulative += Math.max(0, f) / total;
+      return cumulative;
+    });
+  }
+
+  private buildLattice(): void {
+    const { normal, radius } = this.patch;
+    const u = new THREE.Vector3()
+      .crossVectors(
+        normal,
+        Math.abs(normal.x) < 0.9
+          ? new THREE.Vector3(1, 0, 0)
+          : new THREE.Vector3(0, 1, 0)
+      )
+      .normalize();
+    const v = new THREE.Vector3().crossVectors(normal, u);
+
+    // Square lattice clipped to the disc, kept half a spacing off the wall
+    const reach = radius - this.spacing * 0.5;
+    const steps = Math.floor(reach / this.spacing);
+    for (let a = -steps; a <= steps; a++) {
+      for (let b = -steps; b <= steps; b++) {
+        const du = a * this.spacing;
+        const dv = b * this.spacing;
+        if (du * du + dv * dv <= reach * reach) {
+          this.lattice.push(
+            u.clone().multiplyScalar(du).addScaledVector(v, dv)
+          );
+        }
+      }
+    }
+    if (this.lattice.length === 0) {
+      this.lattice.push(new THREE.Vector3());
+    }
+  }
+}
+
+export class OutletSink {
+  public readonly patch: FlowPatch;
+
+  constructor(patch: FlowPatch) {
+    this.patch = {
+      ...patch,
+      center: patch.center.clone(),
+      normal: patch.normal.clone().normalize(),
+    };
+  }
+
+  /**
+   * Whether a particle has left the domain through this outlet
+   */
+  public hasExited(position: vec3): boolean {
+    const { center, normal, radius } = this.patch;
+    const dx = position[0] - center.x;
+    const dy = position[1] - center.y;
+    const dz = position[2] - center.z;
+    const axial = dx * normal.x + dy * normal.y + dz * normal.z;
+    if (axial < 0) return false;
+
+    const rx = dx - normal.x * axial;
+    const ry = dy - normal.y * axial;
+    const rz = dz - normal.z * axial;
+    // Generous radius so particles sliding along the wall are caught too
+    return rx * rx + ry * ry + rz * rz <= 1.5 * 1.5 * radius * radius;
+  }
+}
+
+/**
+ * Guess an inlet and outlet for a straight-ish pipe: the two ends of the
+ * bounding box along its longest axis, sliced `inset` inside the mesh. On
+ * a pipe-wall solid the patches cover the bore.
+ */
+export function detectPipeEnds(
+  geometry: THREE.BufferGeometry,
+  inset: number
+): { inlet: FlowPatch; outlet: FlowPatch } | null {
+  const bounds = GeometryUtils.calculateBoundingBox(geometry);
+  const size = bounds.getSize(new THREE.Vector3());
+  const axis =
+    size.x >= size.y && size.x >= size.z ? 0 : size.y >= size.z ? 1 : 2;
+
+  const makePatch = (end: "min" | "max"): FlowPatch | null => {
+    const position = bounds.getCenter(new THREE.Vector3());
+    position.setComponent(
+      axis,
+      end === "min"
+        ? bounds.min.getComponent(axis) + inset
+        : bounds.max.getComponent(axis) - inset
+    );
+    const direction = new THREE.Vector3().setComponent(axis, 1);
+    const { area, centroid } = GeometryUtils.sliceBore(
+      geometry,
+      position,
+      direction
+    );
+    if (area <= 0) return null;
+
+    return {
+      center: centroid,
+      // Inlet normal points into the pipe, outlet normal points out of it
+      normal: direction,
+      radius: Math.sqrt(area / Math.PI),
+      area,
+    };
+  };
+
+  const inlet = makePatch("min");
+  const outlet = makePatch("max");
+  return inlet && outlet ? { inlet, outlet } : null;
+}
+
+/**
+ * The pipe centreline from an inlet to an outlet, found by stepping down
+ * the bore: each point is the centroid of the bore a step ahead, sliced
+ * square to the way the line was heading, so it follows bends. Throws when
+ * the bore is lost before reaching the outlet.
+ */
+export function traceCenterline(
+  geometry: THREE.BufferGeometry,
+  inlet: FlowPatch,
+  outlet: FlowPatch,
+  step: number
+): THREE.Vector3[] {
+  const bounds = GeometryUtils.calculateBoundingBox(geometry);
+  const maxPoints = Math.ceil(
+    (2 * bounds.getSize(new THREE.Vector3()).length()) / step
+  );
+  const points = [inlet.center.clone()];
+  const direction = inlet.normal.clone().normalize();
+  const ahead = new THREE.Vector3();
+
+  while (points.length < maxPoints) {
+    const last = points[points.length - 1];
+    if (last.distanceTo(outlet.center) <= step) {
+      points.push(outlet.center.clone());
+      return points;
+    }
+
+    ahead.copy(last).addScaledVector(direction, step);
+    let bore = GeometryUtils.sliceBoreNear(geometry, ahead, direction);
+    if (bore) {
+      // Once more square to the way the line turned
+      const turned = bore.centroid.clone().sub(last).normalize();
+      ahead.copy(last).addScaledVector(turned, step);
+      bore = GeometryUtils.sliceBoreNear(geometry, ahead, turned) ?? bore;
+    }
+    // The bore ends at an opening other than the outlet, or the step
+    // jumped out of the pipe
+    if (
+      !bore ||
+      bore.centroid.distanceTo(ahead) > Math.max(step, inlet.radius)
+    ) {
+      break;
+    }
+    direction.subVectors(bore.centroid, last).normalize();
+    points.push(bore.centroid.clone());
+  }
+
+  throw new Error("Could not follow the pipe from the inlet to the outlet");
+}
+
+/**
+ * A flow patch over a tagged inlet or outlet surface: its area-weighted
+ * centroid and mean normal, with the radius of a disc of the same area.
+ * The surface is taken to face out of the pipe, as the faces of a closed
+ * mesh do. Returns null for a surface with no net direction.
+ */
+export function surfacePatch(
+  geometry: THREE.BufferGeometry,
+  type: "inlet" | "outlet"
+): FlowPatch | null {
+  const position = geometry.getAttribute("position");
+  const index = geometry.index;
+  const count = index ? index.count : position.count;
+  const [a, b, c] = [0, 1, 2].map(() => new THREE.Vector3());
+  const vertex = (target: THREE.Vector3, i: number) =>
+    target.fromBufferAttribute(position, index ? index.getX(i) : i);
+
+  const normal = new THREE.Vector3();
+  const center = new THREE.Vector3();
+  const cross = new THREE.Vector3();
+  let area = 0;
+  for (let i = 0; i + 2 < count; i += 3) {
+    vertex(a, i);
+    vertex(b, i + 1);
+    vertex(c, i + 2);
+    cross.subVectors(b, a).cross(c.clone().sub(a));
+    const triangleArea = cross.length() / 2;
+    normal.add(cross);
+    center.addScaledVector(a.add(b).add(c), triangleArea / 3);
+    area += triangleArea;
+  }
+  // The summed cross products are twice the projected area, which is next
+  // to nothing for a closed or double-sided surface
+  if (area <= 0 || normal.length() / 2 < area * 0.25) return null;
+
+  normal.normalize();
+  return {
+    center: center.divideScalar(area),
+    // Inlet normal points into the pipe, outlet normal points out of it
+    normal: type === "inlet" ? normal.negate() : normal,
+    radius: Math.sqrt(area / Math.PI),
+    area,
+  };
+}
@@ -0,0 +1,317 @@
+import * as THREE from "three";
+import { NeighborList } from "../utils/spatial-hash";
+import { ParticleOperations } from "../utils/particle-operations";
+import { ParticleArrays } from "./particle-store";
+
+/**
+ * What force and constraint plugins see of the simulation. The arrays are
+ * views of the solver's own, trimmed to the particle count: constraints may
+ * correct positions and velocities in place, forces should only read them.
+ */
+export interface PluginContext {
+  particles: ParticleArrays;
+  count: number;
+  // Neighbors of each particle within the kernel radius. A constraint sees
+  // those of the last force evaluation, from before the move.
+  neighbors: NeighborList;
+  // Unit vector along the periodic axis, zero without one. Particle i is
+  // separated from its n-th neighbor j by
+  // x_i - x_j + neighbors.shifts[n] * periodicDirection.
+  periodicDirection: readonly number[];
+  // Apparent viscosity of each particle in Pa·s
+  viscosities: Float64Array;
+  kernelRadius: number;
+  // Length of the step or move in s, and the simulated time it starts at
+  deltaTime: number;
+  time: number;
+}
+
+/**
+ * Contributes to the acceleration of every particle. Plugins run in order
+ * on each force evaluation, which integrators other than euler make more
+ * than once per step.
+ */
+export interface ForcePlugin {
+  name: string;
+  /**
+   * Add each particle's acceleration in m/s² to `accelerations`, packed as
+   * xyz per particle
+   */
+  accumulate(context: PluginContext, accelerations: Float64Array): void;
+}
+
+/**
+ * Corrects particles after every move, once the walls have pushed them
+ * back into the fluid
+ */
+export interface ConstraintPlugin {
+  name: string;
+  apply(context: PluginContext): void;
+}
+
+/**
+ * Uniform body force per unit mass
+ */
+export class GravityForce implements ForcePlugin {
+  public readonly name = "gravity";
+  private gravity: THREE.Vector3;
+
+  constructor(gravity: THREE.Vector3) {
+    this.gravity = gravity.clone();
+  }
+
+  public accumulate(context: PluginContext, accelerations: Float64Array): void {
+    const { x, y, z } = this.gravity;
+    for (let i = 0; i < context.count; i++) {
+      accelerations[i * 3] += x;
+      accelerations[i * 3 + 1] += y;
+      accelerations[i * 3 + 2] += z;
+    }
+  }
+}
+
+/**
+ * Pressure gradient in volume form, which stays stable across large density
+ * ratios: -(1 / m_i) sum (V_i² p_i + V_j² p_j) gradW. For equal masses it is
+ * the usual symmetric form. Monaghan artificial viscosity rides on the same
+ * pair term and damps the acoustic ringing a weakly-compressible fluid
+ * otherwise never loses.
+ */
+export class PressureForce implements ForcePlugin {
+  public readonly name = "pressure";
+  private artificialViscosity: number;
+  private phaseSoundSpeed: Float64Array;
+
+  constructor(artificialViscosity: number, phaseSoundSpeed: Float64Array) {
+    this.artificialViscosity = artificialViscosity;
+    this.phaseSoundSpeed = phaseSoundSpeed;
+  }
+
+  public accumulate(context: PluginContext, accelerations: Float64Array): void {
+    const { offsets, indices, shifts } = context.neighbors;
+    const [px, py, pz] = context.periodicDirection;
+    const h = context.kernelRadius;
+    const { positions, velocities, densities, pressures, masses, phases } =
+      context.particles;
+    const alpha = this.artificialViscosity;
+
+    for (let i = 0; i < context.count; i++) {
+      const density = densities[i];
+      const mass = masses[i];
+      const volume = mass / density;
+      const pressureTerm = volume * volume * pressures[i];
+      const soundSpeed = this.phaseSoundSpeed[phases[i]];
+      const vx = velocities[i * 3];
+      const vy = velocities[i * 3 + 1];
+      const vz = velocities[i * 3 + 2];
+      let ax = 0;
+      let ay = 0;
+      let az = 0;
+
+      for (let n = offsets[i]; n < offsets[i + 1]; n++) {
+        const j = indices[n];
+        const shift = shifts ? shifts[n] : 0;
+        const rx = positions[i * 3] - positions[j * 3] + shift * px;
+        const ry = positions[i * 3 + 1] - positions[j * 3 + 1] + shift * py;
+        const rz = positions[i * 3 + 2] - positions[j * 3 + 2] + shift * pz;
+        const distance = Math.sqrt(rx * rx + ry * ry + rz * rz);
+        const neighborVolume = masses[j] / densities[j];
+        let pairPressure =
+          (pressureTerm + neighborVolume * neighborVolume * pressures[j]) /
+          mass;
+
+        const approach = -(
+          (velocities[j * 3] - vx) * rx +
+          (velocities[j * 3 + 1] - vy) * ry +
+          (velocities[j * 3 + 2] - vz) * rz
+        );
+        if (approach < 0) {
+          const mu = (h * approach) / (distance * distance + 0.01 * h * h);
+          const pairSoundSpeed =
+            (soundSpeed + this.phaseSoundSpeed[phases[j]]) / 2;
+          pairPressure -=
+            (masses[j] * alpha * pairSoundSpeed * mu * 2) /
+            (density + densities[j]);
+        }
+
+        const scale =
+          -pairPressure *
+          ParticleOperations.kernelSpikyGradientScale(distance, h);
+        ax += scale * rx;
+        ay += scale * ry;
+        az += scale * rz;
+      }
+
+      accelerations[i * 3] += ax;
+      accelerations[i * 3 + 1] += ay;
+      accelerations[i * 3 + 2] += az;
+    }
+  }
+}
+
+/**
+ * Physical viscosity: (1 / rho_i) sum m_j mu_ij (v_j - v_i) / rho_j lapW,
+ * with the harmonic mean mu_ij so shear stress is continuous at interfaces
+ */
+export class ViscosityForce implements ForcePlugin {
+  public readonly name = "viscosity";
+
+  public accumulate(context: PluginContext, accelerations: Float64Array): void {
+    const { offsets, indices, shifts } = context.neighbors;
+    const [px, py, pz] = context.periodicDirection;
+    const h = context.kernelRadius;
+    const { positions, velocities, densities, masses } = context.particles;
+    const viscosities = context.viscosities;
+
+    for (let i = 0; i < context.count; i++) {
+      const density = densities[i];
+      const viscosity = viscosities[i];
+      const vx = velocities[i * 3];
+      const vy = velocities[i * 3 + 1];
+      const vz = velocities[i * 3 + 2];
+      let ax = 0;
+      let ay = 0;
+      let az = 0;
+
+      for (let n = offsets[i]; n < offsets[i + 1]; n++) {
+        const j = indices[n];
+        const neighborViscosity = viscosities[j];
+        const pairViscosity =
+          viscosity + neighborViscosity > 0
+            ? (2 * viscosity * neighborViscosity) /
+              (viscosity + neighborViscosity)
+            : 0;
+        const shift = shifts ? shifts[n] : 0;
+        const rx = positions[i * 3] - positions[j * 3] + shift * px;
+        const ry = positions[i * 3 + 1] - positions[j * 3 + 1] + shift * py;
+        const rz = positions[i * 3 + 2] - positions[j * 3 + 2] + shift * pz;
+        const distance = Math.sqrt(rx * rx + ry * ry + rz * rz);
+        const scale =
+          (pairViscosity *
+            masses[j] *
+            ParticleOperations.kernelViscosityLaplacian(distance, h)) /
+          (density * densities[j]);
+        ax += scale * (velocities[j * 3] - vx);
+        ay += scale * (velocities[j * 3 + 1] - vy);
+        az += scale * (velocities[j * 3 + 2] - vz);
+      }
+
+      accelerations[i * 3] += ax;
+      accelerations[i * 3 + 1] += ay;
+      accelerations[i * 3 + 2] += az;
+    }
+  }
+}
+
+/**
+ * Surface tension between phases from the interface stress of Hu & Adams
+ * (2006): sigma (|g|² I / 3 - g g) / |g|, with g the gradient of the other
+ * phases' colour function. It is only non-zero next to another phase, and
+ * being a stress it conserves momentum.
+ */
+export class InterfaceTensionForce implements ForcePlugin {
+  public readonly name = "interface-tension";
+  private tension: number;
+  // V_i² times the stress tensor per particle, packed as
+  // xx, yy, zz, xy, xz, yz
+  private stress: Float64Array = new Float64Array(0);
+
+  // Tension in N/m
+  constructor(tension: number) {
+    this.tension = tension;
+  }
+
+  public accumulate(context: PluginContext, accelerations: Float64Array): void {
+    this.calculateStress(context);
+
+    // (1 / m_i) (S_i + S_j) . gradW
+    const { offsets, indices, shifts } = context.neighbors;
+    const [px, py, pz] = context.periodicDirection;
+    const h = context.kernelRadius;
+    const { positions, masses } = context.particles;
+    const stress = this.stress;
+
+    for (let i = 0; i < context.count; i++) {
+      let ax = 0;
+      let ay = 0;
+      let az = 0;
+
+      for (let n = offsets[i]; n < offsets[i + 1]; n++) {
+        const j = indices[n];
+        const shift = shifts ? shifts[n] : 0;
+        const rx = positions[i * 3] - positions[j * 3] + shift * px;
+        const ry = positions[i * 3 + 1] - positions[j * 3 + 1] + shift * py;
+        const rz = positions[i * 3 + 2] - positions[j * 3 + 2] + shift * pz;
+        const distance = Math.sqrt(rx * rx + ry * ry + rz * rz);
+        const si = i * 6;
+        const sj = j * 6;
+        const sxx = stress[si] + stress[sj];
+        const syy = stress[si + 1] + stress[sj + 1];
+        const szz = stress[si + 2] + stress[sj + 2];
+        const sxy = stress[si + 3] + stress[sj + 3];
+        const sxz = stress[si + 4] + stress[sj + 4];
+        const syz = stress[si + 5] + stress[sj + 5];
+        const scale =
+          ParticleOperations.kernelSpikyGradientScale(distance, h) / masses[i];
+        ax += scale * (sxx * rx + sxy * ry + sxz * rz);
+        ay += scale * (sxy * rx + syy * ry + syz * rz);
+        az += scale * (sxz * rx + syz * ry + szz * rz);
+      }
+
+      accelerations[i * 3] += ax;
+      accelerations[i * 3 + 1] += ay;
+      accelerations[i * 3 + 2] += az;
+    }
+  }
+
+  private calculateStress(context: PluginContext): void {
+    const { offsets, indices, shifts } = context.neighbors;
+    const [px, py, pz] = context.periodicDirection;
+    const h = context.kernelRadius;
+    const { positions, densities, masses, phases } = context.particles;
+    if (this.stress.length < context.count * 6) {
+      this.stress = new Float64Array(context.count * 12);
+    }
+    const stress = this.stress;
+
+    for (let i = 0; i < context.count; i++) {
+      let gx = 0;
+      let gy = 0;
+      let gz = 0;
+
+      for (let n = offsets[i]; n < offsets[i + 1]; n++) {
+        const j = indices[n];
+        if (phases[j] === phases[i]) continue;
+
+        const shift = shifts ? shifts[n] : 0;
+        const rx = positions[i * 3] - positions[j * 3] + shift * px;
+        const ry = positions[i * 3 + 1] - positions[j * 3 + 1] + shift * py;
+        const rz = positions[i * 3 + 2] - positions[j * 3 + 2] + shift * pz;
+        const distance = Math.sqrt(rx * rx + ry * ry + rz * rz);
+        const scale =
+          (masses[j] / densities[j]) *
+          ParticleOperations.kernelSpikyGradientScale(distance, h);
+        gx += scale * rx;
+        gy += scale * ry;
+        gz += scale * rz;
+      }
+
+      const magnitude = Math.sqrt(gx * gx + gy * gy + gz * gz);
+      const s = i * 6;
+      if (magnitude < 1e-6 / h) {
+        stress.fill(0, s, s + 6);
+        continue;
+      }
+
+      const volume = masses[i] / densities[i];
+      const scale = (volume * volume * this.tension) / magnitude;
+      const isotropic = (magnitude * magnitude) / 3;
+      stress[s] = scale * (isotropic - gx * gx);
+      stress[s + 1] = scale * (isotropic - gy * gy);
+      stress[s + 2] = scale * (isotropic - gz * gz);
+      stress[s + 3] = -scale * gx * gy;
+      stress[s + 4] = -scale * gx * gz;
+      stress[s + 5] = -scale * gy * gz;
+    }
+  }
+}
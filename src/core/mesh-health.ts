@@ -0,0 +1,629 @@
+import * as THREE from "three";
+
+export interface MeshHealthReport {
+  triangles: number;
+  // Edges with a triangle on one side only, and the holes they outline
+  openEdges: number;
+  holes: number;
+  // Edges shared by more than two triangles
+  nonManifoldEdges: number;
+  // Triangles with no area, or thinner than the tolerance
+  degenerateTriangles: number;
+  // Edges whose two triangles run along it the same way, so disagree on
+  // which side is out
+  inconsistentEdges: number;
+  // Pairs of triangles without a common vertex that cut through each other
+  selfIntersections: number;
+}
+
+export interface MeshRepairOptions {
+  // Vertices closer than this are welded, and triangles thinner than it are
+  // slivers, in metres. Defaults to a millionth of the model's diagonal.
+  tolerance?: number;
+  // Widest hole that is filled, in metres. Wider openings, such as the open
+  // ends of a pipe, are left alone. Defaults to 0, filling none.
+  maxHoleSize?: number;
+}
+
+export interface MeshRepairSummary {
+  before: MeshHealthReport;
+  after: MeshHealthReport;
+  // Vertices moved onto another within the tolerance
+  welded: number;
+  // Collapsed, duplicate and sliver triangles taken out
+  removedTriangles: number;
+  // Triangles turned over to agree with their neighbours and face out
+  reoriented: number;
+  filledHoles: number;
+}
+
+interface Triangle {
+  vertices: [number, number, number];
+  // Index of the mesh it belongs to, and of its geometry group there, or -1
+  mesh: number;
+  group: number;
+}
+
+// Every mesh of a model as one set of triangles over welded, world-space
+// vertices, so seams between faces and parts count as shared edges
+interface Soup {
+  meshes: THREE.Mesh[];
+  positions: THREE.Vector3[];
+  triangles: Triangle[];
+  tolerance: number;
+  welded: number;
+  // Meshes whose triangles the repair has changed
+  changed: Set<number>;
+}
+
+interface EdgeUse {
+  triangle: number;
+  // Whether the triangle runs from the lower to the higher vertex index
+  forward: boolean;
+}
+
+/**
+ * Checks imported models for the defects that break inside tests and the
+ * boundary distance field, and repairs what it can. Meshes are checked
+ * together in world space, so a wall and the end caps exported as separate
+ * objects make one closed surface.
+ */
+export class MeshHealth {
+  static check(model: THREE.Object3D, tolerance?: number): MeshHealthReport {
+    return report(readSoup(model, tolerance));
+  }
+
+  /**
+   * Weld near vertices, take out collapsed and duplicate triangles, split
+   * slivers into their neighbours, make the winding consistent and outward
+   * where the surface is closed, and fill holes up to `maxHoleSize`. Only
+   * meshes that change get new geometry, which keeps their groups but
+   * drops attributes other than position.
+   */
+  static repair(
+    model: THREE.Object3D,
+    options: MeshRepairOptions = {}
+  ): MeshRepairSummary {
+    const soup = readSoup(model, options.tolerance);
+    const before = report(soup);
+
+    const removedTriangles = removeDegenerate(soup) + removeSlivers(soup);
+    const reoriented = reorient(soup);
+    const filledHoles = fillHoles(soup, options.maxHoleSize ?? 0);
+    writeBack(soup);
+
+    return {
+      before,
+      after: report(soup),
+      welded: soup.welded,
+      removedTriangles,
+      reoriented,
+      filledHoles,
+    };
+  }
+
+  /**
+   * The report as lines for the model info panel
+   */
+  static format(report: MeshHealthReport, repair?: MeshRepairSummary): string {
+    const issues = nonZero([
+      [report.openEdges, `open edges in ${report.holes} holes`],
+      [report.nonManifoldEdges, "non-manifold edges"],
+      [report.degenerateTriangles, "degenerate triangles"],
+      [report.inconsistentEdges, "edges with inconsistent winding"],
+      [report.selfIntersections, "self-intersections"],
+    ]);
+    const lines = [
+      `Mesh: ${report.triangles} triangles, ${
+        issues.length === 0 ? "watertight" : issues.join(", ")
+      }`,
+    ];
+    if (repair) {
+      const fixes = nonZero([
+        [repair.welded, "welded vertices"],
+        [repair.removedTriangles, "removed triangles"],
+        [repair.reoriented, "reoriented triangles"],
+        [repair.filledHoles, "filled holes"],
+      ]);
+      lines.push(
+        `Repaired: ${fixes.length === 0 ? "nothing to do" : fixes.join(", ")}`
+      );
+    }
+    return lines.join("\n");
+  }
+}
+
+// "3 holes" and the like, for the counts that are not zero
+const nonZero = (counts: [number, string][]): string[] =>
+  counts
+    .filter(([count]) => count > 0)
+    .map(([count, what]) => `${count} ${what}`);
+
+const readSoup = (model: THREE.Object3D, tolerance?: number): Soup => {
+  model.updateMatrixWorld(true);
+  const meshes: THREE.Mesh[] = [];
+  model.traverse((child) => {
+    if (child instanceof THREE.Mesh) meshes.push(child);
+  });
+  if (tolerance === undefined) {
+    const bounds = new THREE.Box3().setFromObject(model);
+    tolerance = bounds.isEmpty() ? 0 : bounds.min.distanceTo(bounds.max) * 1e-6;
+  }
+
+  const soup: Soup = {
+    meshes,
+    positions: [],
+    triangles: [],
+    tolerance,
+    welded: 0,
+    changed: new Set(),
+  };
+  const weld = welder(soup);
+  meshes.forEach((mesh, m) => {
+    const geometry = mesh.geometry as THREE.BufferGeometry;
+    const position = geometry.getAttribute("position");
+    if (!position) return;
+    const index = geometry.index;
+    const count = index ? index.count : position.count;
+
+    const groups = new Int32Array(count / 3).fill(-1);
+    geometry.groups.forEach((group, g) => {
+      const end = Math.min(group.start + group.count, count);
+      for (let i = group.start; i < end; i += 3) groups[i / 3] = g;
+    });
+
+    const welded = new Map<number, number>();
+    const vertex = (i: number): number => {
+      const source = index ? index.getX(i) : i;
+      let result = welded.get(source);
+      if (result === undefined) {
+        const point = new THREE.Vector3()
+          .fromBufferAttribute(position, source)
+          .applyMatrix4(mesh.matrixWorld);
+        result = weld(point, m);
+        welded.set(source, result);
+      }
+      return result;
+    };
+    for (let i = 0; i + 2 < count; i += 3) {
+      soup.triangles.push({
+        vertices: [vertex(i), vertex(i + 1), vertex(i + 2)],
+        mesh: m,
+        group: groups[i / 3],
+      });
+    }
+  });
+  return soup;
+};
+
+// Finds or adds a vertex within the tolerance of a point, on a grid of
+// tolerance-sized cells
+const welder = (soup: Soup) => {
+  const { positions, tolerance } = soup;
+  const cells = new Map<string, number[]>();
+  const size = tolerance > 0 ? tolerance : 1;
+  return (point: THREE.Vector3, mesh: number): number => {
+    const x = Math.floor(point.x / size);
+    const y = Math.floor(point.y / size);
+    const z = Math.floor(point.z / size);
+    const reach = tolerance > 0 ? 1 : 0;
+    for (let i = x - reach; i <= x + reach; i++) {
+      for (let j = y - reach; j <= y + reach; j++) {
+        for (let k = z - reach; k <= z + reach; k++) {
+          for (const candidate of cells.get(`${i},${j},${k}`) ?? []) {
+            const distance = positions[candidate].distanceTo(point);
+            if (distance <= tolerance) {
+              if (distance > 0) {
+                soup.welded++;
+                soup.changed.add(mesh);
+              }
+              return candidate;
+            }
+          }
+        }
+      }
+    }
+    const key = `${x},${y},${z}`;
+    const cell = cells.get(key) ?? [];
+    cell.push(positions.length);
+    cells.set(key, cell);
+    positions.push(point);
+    return positions.length - 1;
+  };
+};
+
+const isCollapsed = ({ vertices: [a, b, c] }: Triangle): boolean =>
+  a === b || b === c || c === a;
+
+// Thinnest height of a triangle, over its longest edge
+const thickness = (soup: Soup, triangle: Triangle): number => {
+  const [a, b, c] = triangle.vertices.map((v) => soup.positions[v]);
+  const longest = Math.max(a.distanceTo(b), b.distanceTo(c), c.distanceTo(a));
+  if (longest === 0) return 0;
+  const area = b.clone().sub(a).cross(c.clone().sub(a)).length() / 2;
+  return (2 * area) / longest;
+};
+
+const isDegenerate = (soup: Soup, triangle: Triangle): boolean =>
+  isCollapsed(triangle) || thickness(soup, triangle) <= soup.tolerance;
+
+const edgeKey = (soup: Soup, a: number, b: number): number =>
+  Math.min(a, b) * soup.positions.length + Math.max(a, b);
+
+// The triangles along each edge, leaving out collapsed ones
+const edgeUses = (soup: Soup): Map<number, EdgeUse[]> => {
+  const edges = new Map<number, EdgeUse[]>();
+  soup.triangles.forEach((triangle, t) => {
+    if (isCollapsed(triangle)) return;
+    for (let k = 0; k < 3; k++) {
+      const a = triangle.vertices[k];
+      const b = triangle.vertices[(k + 1) % 3];
+      const key = edgeKey(soup, a, b);
+      const uses = edges.get(key) ?? [];
+      uses.push({ triangle: t, forward: a < b });
+      edges.set(key, uses);
+    }
+  });
+  return edges;
+};
+
+const report = (soup: Soup): MeshHealthReport => {
+  const edges = edgeUses(soup);
+  let openEdges = 0;
+  let nonManifoldEdges = 0;
+  let inconsistentEdges = 0;
+  edges.forEach((uses) => {
+    if (uses.length === 1) openEdges++;
+    else if (uses.length > 2) nonManifoldEdges++;
+    else if (uses[0].forward === uses[1].forward) inconsistentEdges++;
+  });
+  return {
+    triangles: soup.triangles.length,
+    openEdges,
+    holes: holes(soup, edges).length,
+    nonManifoldEdges,
+    degenerateTriangles: soup.triangles.filter((t) => isDegenerate(soup, t))
+      .length,
+    inconsistentEdges,
+    selfIntersections: selfIntersections(soup),
+  };
+};
+
+// Loops of open edges, each as its vertices in the order that a triangle
+// filling it would run, with a triangle along its first edge
+const holes = (
+  soup: Soup,
+  edges: Map<number, EdgeUse[]>
+): { vertices: number[]; triangle: number }[] => {
+  // Open edges reversed, by the vertex they start from
+  const outgoing = new Map<number, { to: number; triangle: number }[]>();
+  edges.forEach((uses, key) => {
+    if (uses.length !== 1) return;
+    const { vertices } = soup.triangles[uses[0].triangle];
+    for (let k = 0; k < 3; k++) {
+      const a = vertices[k];
+      const b = vertices[(k + 1) % 3];
+      if (edgeKey(soup, a, b) !== key) continue;
+      const list = outgoing.get(b) ?? [];
+      list.push({ to: a, triangle: uses[0].triangle });
+      outgoing.set(b, list);
+      break;
+    }
+  });
+
+  const loops: { vertices: number[]; triangle: number }[] = [];
+  outgoing.forEach((list, start) => {
+    while (list.length > 0) {
+      const first = list.pop()!;
+      const vertices = [start];
+      let current = first.to;
+      while (current !== start) {
+        const next = outgoing.get(current)?.pop();
+        if (!next) break;
+        vertices.push(current);
+        current = next.to;
+      }
+      if (current === start) {
+        loops.push({ vertices, triangle: first.triangle });
+      }
+    }
+  });
+  return loops;
+};
+
+const removeDegenerate = (soup: Soup): number => {
+  const seen = new Set<string>();
+  const kept = soup.triangles.filter((triangle) => {
+    const key = [...triangle.vertices].sort((a, b) => a - b).join(",");
+    const keep = !isCollapsed(triangle) && !seen.has(key);
+    seen.add(key);
+    if (!keep) soup.changed.add(triangle.mesh);
+    return keep;
+  });
+  const removed = soup.triangles.length - kept.length;
+  soup.triangles = kept;
+  return removed;
+};
+
+// A sliver's corner lies on, or next to, its longest edge. Splitting the
+// triangle across that edge at the corner closes the gap the sliver leaves.
+const removeSlivers = (soup: Soup): number => {
+  let removed = 0;
+  for (let pass = 0; pass < 10; pass++) {
+    const edges = edgeUses(soup);
+    const touched = new Set<number>();
+    const dropped = new Set<number>();
+    const added: Triangle[] = [];
+
+    soup.triangles.forEach((triangle, t) => {
+      if (touched.has(t) || thickness(soup, triangle) > soup.tolerance) {
+        return;
+      }
+      const [a, b, c] = triangle.vertices.map((v) => soup.positions[v]);
+      const lengths = [a.distanceTo(b), b.distanceTo(c), c.distanceTo(a)];
+      const k = lengths.indexOf(Math.max(...lengths));
+      const p = triangle.vertices[k];
+      const q = triangle.vertices[(k + 1) % 3];
+      const corner = triangle.vertices[(k + 2) % 3];
+
+      const neighbours = (edges.get(edgeKey(soup, p, q)) ?? []).filter(
+        (use) => use.triangle !== t
+      );
+      if (neighbours.length > 1) return;
+      const n = neighbours[0]?.triangle;
+      if (n !== undefined) {
+        if (touched.has(n)) return;
+        const neighbour = soup.triangles[n];
+        const split = (from: number): Triangle => ({
+          ...neighbour,
+          vertices: neighbour.vertices.map((v) =>
+            v === from ? corner : v
+          ) as [number, number, number],
+        });
+        added.push(split(p));
+        soup.triangles[n] = split(q);
+        touched.add(n);
+        soup.changed.add(neighbour.mesh);
+      }
+      touched.add(t);
+      dropped.add(t);
+      soup.changed.add(triangle.mesh);
+    });
+
+    if (dropped.size === 0) break;
+    removed += dropped.size;
+    soup.triangles = soup.triangles
+      .filter((_, t) => !dropped.has(t))
+      .concat(added);
+  }
+  return removed;
+};
+
+// Walks each connected piece across its two-sided edges, turning triangles
+// over to agree with the one it came from. A closed piece then faces out;
+// an open one keeps the way most of its triangles already faced.
+const reorient = (soup: Soup): number => {
+  const edges = edgeUses(soup);
+  const { triangles } = soup;
+  const flip = new Array<boolean>(triangles.length).fill(false);
+  const visited = new Array<boolean>(triangles.length).fill(false);
+  let reoriented = 0;
+
+  triangles.forEach((_, start) => {
+    if (visited[start]) return;
+    visited[start] = true;
+    const piece = [start];
+    let closed = true;
+    for (let i = 0; i < piece.length; i++) {
+      const t = piece[i];
+      const { vertices } = triangles[t];
+      for (let k = 0; k < 3; k++) {
+        const uses = edges.get(
+          edgeKey(soup, vertices[k], vertices[(k + 1) % 3])
+        );
+        if (!uses || uses.length !== 2) {
+          closed = false;
+          continue;
+        }
+        const [self, other] =
+          uses[0].triangle === t ? uses : [uses[1], uses[0]];
+        if (visited[other.triangle]) continue;
+        visited[other.triangle] = true;
+        // Neighbours agree when they run along the edge opposite ways
+        flip[other.triangle] = flip[t] !== (self.forward === other.forward);
+        piece.push(other.triangle);
+      }
+    }
+
+    let invert: boolean;
+    if (closed) {
+      let volume = 0;
+      piece.forEach((t) => {
+        const [a, b, c] = triangles[t].vertices.map((v) => soup.positions[v]);
+        const signed = a.dot(b.clone().cross(c)) / 6;
+        volume += flip[t] ? -signed : signed;
+      });
+      invert = volume < 0;
+    } else {
+      invert = piece.filter((t) => flip[t]).length * 2 > piece.length;
+    }
+    piece.forEach((t) => {
+      if (flip[t] === invert) return;
+      const { vertices } = triangles[t];
+      [vertices[1], vertices[2]] = [vertices[2], vertices[1]];
+      soup.changed.add(triangles[t].mesh);
+      reoriented++;
+    });
+  });
+  return reoriented;
+};
+
+// Fans each small hole from its centre, or covers it with one triangle
+const fillHoles = (soup: Soup, maxHoleSize: number): number => {
+  if (maxHoleSize <= 0) return 0;
+  let filled = 0;
+  holes(soup, edgeUses(soup)).forEach(({ vertices, triangle }) => {
+    if (vertices.length < 3) return;
+    const points = vertices.map((v) => soup.positions[v]);
+    const bounds = new THREE.Box3().setFromPoints(points);
+    if (bounds.min.distanceTo(bounds.max) > maxHoleSize) return;
+
+    const { mesh, group } = soup.triangles[triangle];
+    const add = (a: number, b: number, c: number) =>
+      soup.triangles.push({ vertices: [a, b, c], mesh, group });
+    if (vertices.length === 3) {
+      add(vertices[0], vertices[1], vertices[2]);
+    } else {
+      const center = soup.positions.length;
+      soup.positions.push(bounds.getCenter(new THREE.Vector3()));
+      vertices.forEach((v, i) =>
+        add(v, vertices[(i + 1) % vertices.length], center)
+      );
+    }
+    soup.changed.add(mesh);
+    filled++;
+  });
+  return filled;
+};
+
+// Rebuilds the geometry of each changed mesh in its own space, sharing
+// vertices within a group only so edges between faces stay sharp
+const writeBack = (soup: Soup): void => {
+  soup.changed.forEach((m) => {
+    const mesh = soup.meshes[m];
+    const original = mesh.geometry as THREE.BufferGeometry;
+    const inverse = mesh.matrixWorld.clone().invert();
+    const triangles = soup.triangles
+      .filter((triangle) => triangle.mesh === m)
+      .sort((a, b) => a.group - b.group);
+
+    const positions: number[] = [];
+    const index: number[] = [];
+    const local = new Map<string, number>();
+    const point = new THREE.Vector3();
+    const counts = new Map<number, number>();
+    triangles.forEach(({ vertices, group }) => {
+      counts.set(group, (counts.get(group) ?? 0) + 3);
+      vertices.forEach((v) => {
+        const key = `${group},${v}`;
+        let i = local.get(key);
+        if (i === undefined) {
+          i = positions.length / 3;
+          point.copy(soup.positions[v]).applyMatrix4(inverse);
+          positions.push(point.x, point.y, point.z);
+          local.set(key, i);
+        }
+        index.push(i);
+      });
+    });
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute(positions, 3)
+    );
+    geometry.setIndex(index);
+    // Keep every group, even emptied ones, as face names go by their index.
+    // Triangles outside any group sort first.
+    let start = counts.get(-1) ?? 0;
+    original.groups.forEach((group, g) => {
+      const count = counts.get(g) ?? 0;
+      geometry.addGroup(start, count, group.materialIndex);
+      start += count;
+    });
+    geometry.userData = original.userData;
+    geometry.computeVertexNormals();
+    original.dispose();
+    mesh.geometry = geometry;
+  });
+};
+
+// Counts crossing pairs of triangles that share no vertex, bucketed on a
+// grid so only nearby pairs are tested
+const selfIntersections = (soup: Soup): number => {
+  const triangles = soup.triangles.filter((t) => !isDegenerate(soup, t));
+  if (triangles.length < 2) return 0;
+  const corners = triangles.map((t) =>
+    t.vertices.map((v) => soup.positions[v])
+  );
+  const boxes = corners.map((points) => new THREE.Box3().setFromPoints(points));
+  const size =
+    boxes.reduce((sum, box) => {
+      const extent = box.getSize(new THREE.Vector3());
+      return sum + Math.max(extent.x, extent.y, extent.z);
+    }, 0) / boxes.length;
+  if (size <= 0) return 0;
+
+  const cells = new Map<string, number[]>();
+  boxes.forEach((box, t) => {
+    const min = box.min.clone().divideScalar(size).floor();
+    const max = box.max.clone().divideScalar(size).floor();
+    for (let i = min.x; i <= max.x; i++) {
+      for (let j = min.y; j <= max.y; j++) {
+        for (let k = min.z; k <= max.z; k++) {
+          const key = `${i},${j},${k}`;
+          const cell = cells.get(key) ?? [];
+          cell.push(t);
+          cells.set(key, cell);
+        }
+      }
+    }
+  });
+
+  const tested = new Set<number>();
+  let count = 0;
+  cells.forEach((cell) => {
+    for (let x = 0; x < cell.length; x++) {
+      for (let y = x + 1; y < cell.length; y++) {
+        const [s, t] = [cell[x], cell[y]];
+        const key = s * triangles.length + t;
+        if (tested.has(key)) continue;
+        tested.add(key);
+        if (
+          triangles[s].vertices.some((v) => triangles[t].vertices.includes(v))
+        ) {
+          continue;
+        }
+        if (!boxes[s].intersectsBox(boxes[t])) continue;
+        if (trianglesCross(corners[s], corners[t])) count++;
+      }
+    }
+  });
+  return count;
+};
+
+const trianglesCross = (
+  first: THREE.Vector3[],
+  second: THREE.Vector3[]
+): boolean =>
+  [0, 1, 2].some(
+    (k) =>
+      segmentCrosses(first[k], first[(k + 1) % 3], second) ||
+      segmentCrosses(second[k], second[(k + 1) % 3], first)
+  );
+
+// Whether a segment passes through a triangle's interior
+// (Möller–Trumbore), not counting touches at edges or ends
+const segmentCrosses = (
+  from: THREE.Vector3,
+  to: THREE.Vector3,
+  [a, b, c]: THREE.Vector3[]
+): boolean => {
+  const epsilon = 1e-9;
+  const direction = to.clone().sub(from);
+  const edge1 = b.clone().sub(a);
+  const edge2 = c.clone().sub(a);
+  const h = direction.clone().cross(edge2);
+  const determinant = edge1.dot(h);
+  const scale = direction.length() * edge1.length() * edge2.length();
+  if (Math.abs(determinant) <= epsilon * scale) return false;
+
+  const s = from.clone().sub(a);
+  const u = s.dot(h) / determinant;
+  if (u <= epsilon || u >= 1 - epsilon) return false;
+  const q = s.cross(edge1);
+  const v = direction.dot(q) / determinant;
+  if (v <= epsilon || u + v >= 1 - epsilon) return false;
+  const t = edge2.dot(q) / determinant;
+  return t > epsilon && t < 1 - epsilon;
+};
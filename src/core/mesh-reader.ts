@@ -0,0 +1,116 @@
+import * as THREE from "three";
+
+/**
+ * Triangle mesh parsing without the browser. ModelImporter goes through the
+ * three.js example loaders, which need object URLs and ES modules; this reads
+ * the formats a headless run needs straight from their bytes into a
+ * position-only triangle soup.
+ */
+export class MeshReader {
+  static readonly supportedFormats = [".stl", ".obj"];
+
+  static parse(data: ArrayBuffer, fileName: string): THREE.BufferGeometry {
+    const extension = fileName.slice(fileName.lastIndexOf(".")).toLowerCase();
+
+    let positions: Float32Array;
+    switch (extension) {
+      case ".stl":
+        positions = MeshReader.isBinarySTL(data)
+          ? MeshReader.parseBinarySTL(data)
+          : MeshReader.parseASCIISTL(new TextDecoder().decode(data));
+        break;
+      case ".obj":
+        positions = MeshReader.parseOBJ(new TextDecoder().decode(data));
+        break;
+      default:
+        throw new Error(
+          `Unsupported mesh format ${extension}; expected one of ${MeshReader.supportedFormats.join(", ")}`
+        );
+    }
+    if (positions.length === 0) {
+      throw new Error(`No triangles found in ${fileName}`);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    return geometry;
+  }
+
+  // A binary STL is an 80 byte header, a triangle count and 50 bytes per
+  // triangle. ASCII files may also start with "solid", so go by the size.
+  private static isBinarySTL(data: ArrayBuffer): boolean {
+    if (data.byteLength < 84) return false;
+    const triangles = new DataView(data).getUint32(80, true);
+    return data.byteLength === 84 + triangles * 50;
+  }
+
+  private static parseBinarySTL(data: ArrayBuffer): Float32Array {
+    const view = new DataView(data);
+    const triangles = view.getUint32(80, true);
+    const positions = new Float32Array(triangles * 9);
+
+    for (let t = 0; t < triangles; t++) {
+      // Skip the facet normal; the solver works from the vertices
+      const offset = 84 + t * 50 + 12;
+      for (let k = 0; k < 9; k++) {
+        positions[t * 9 + k] = view.getFloat32(offset + k * 4, true);
+      }
+    }
+    return positions;
+  }
+
+  private static parseASCIISTL(text: string): Float32Array {
+    const positions: number[] = [];
+    const vertex = /vertex\s+(\S+)\s+(\S+)\s+(\S+)/g;
+    let match: RegExpExecArray | null;
+    while ((match = vertex.exec(text)) !== null) {
+      positions.push(
+        parseFloat(match[1]),
+        parseFloat(match[2]),
+        parseFloat(match[3])
+      );
+    }
+    if (positions.length % 9 !== 0) {
+      throw new Error("ASCII STL has an incomplete facet");
+    }
+    return Float32Array.from(positions);
+  }
+
+  /**
+   * Vertices and faces only. Polygons are split into fans, and negative
+   * indices count back from the latest vertex as the format allows.
+   */
+  private static parseOBJ(text: string): Float32Array {
+    const vertices: number[] = [];
+    const positions: number[] = [];
+
+    text.split("\n").forEach((rawLine) => {
+      const parts = rawLine.trim().split(/\s+/);
+      if (parts[0] === "v") {
+        vertices.push(
+          parseFloat(parts[1]),
+          parseFloat(parts[2]),
+          parseFloat(parts[3])
+        );
+      } else if (parts[0] === "f") {
+        const indices = parts.slice(1).map((token) => {
+          const index = parseInt(token.split("/")[0], 10);
+          return index < 0 ? vertices.length / 3 + index : index - 1;
+        });
+        for (let k = 1; k + 1 < indices.length; k++) {
+          [indices[0], indices[k], indices[k + 1]].forEach((index) => {
+            if (!(index >= 0 && index < vertices.length / 3)) {
+              throw new Error(`OBJ face refers to missing vertex ${index + 1}`);
+            }
+            positions.push(
+              vertices[index * 3],
+              vertices[index * 3 + 1],
+              vertices[index * 3 + 2]
+            );
+          });
+        }
+      }
+    });
+    return Float32Array.from(positions);
+  }
+}
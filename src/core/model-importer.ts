@@ -1,14 +1,24 @@
 import * as THREE from "three";
 import { STLLoader } from "three/examples/jsm/loaders/STLLoader";
 import { OBJLoader } from "three/examples/jsm/loaders/OBJLoader";
-import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader";
 import { VTKLoader } from "three/examples/jsm/loaders/VTKLoader";
 import { IESLoader } from "three/examples/jsm/loaders/IESLoader";
 import * as xml2js from "xml2js";
+import { CADReader } from "./cad-reader";
+import { FreeCADAdapter } from "../adapters/freecad-adapter";
+import { AutoCADAdapter } from "../adapters/autocad-adapter";
+import { BlenderAdapter } from "../adapters/blender-adapter";
 
 interface CADModelImportOptions {
   scaleFactor?: number;
   centerModel?: boolean;
+  // STEP and IGES tessellation, in metres and radians; see CADReader
+  chordalTolerance?: number;
+  angularTolerance?: number;
+  // DXF layers holding pipe centerlines, and the pipes' diameter in metres
+  // where the drawing gives none; see DXFReader
+  pipeLayers?: string[];
+  pipeDiameter?: number;
 }
 
 export class ModelImporter {
@@ -21,9 +31,18 @@ export class ModelImporter {
     ".stp",
     ".iges",
     ".igs",
+    ".fcstd",
+    ".dxf",
     ".vtk",
     ".ies",
   ];
+  // Where the browser fetches OpenCascade's WebAssembly from for STEP and
+  // IGES files
+  private cadWasmUrl?: string;
+
+  constructor(cadWasmUrl?: string) {
+    this.cadWasmUrl = cadWasmUrl;
+  }
 
   async importModel(
     file: File,
@@ -40,11 +59,20 @@ export class ModelImporter {
           return await this.importOBJ(url, options);
         case ".gltf":
         case ".glb":
-          return await this.importGLTF(url, options);
+          return await this.importGLTF(file, options);
         case ".vtk":
           return await this.importVTK(url, options);
         case ".ies":
           return await this.importIES(url, options);
+        case ".step":
+        case ".stp":
+        case ".iges":
+        case ".igs":
+          return await this.importCAD(file, options);
+        case ".fcstd":
+          return await this.importFreeCAD(file, options);
+        case ".dxf":
+          return await this.importDXF(file, options);
         default:
           throw new Error(`Unsupported file format ${extension}`);
       }
@@ -78,14 +106,13 @@ export class ModelImporter {
   }
 
   private async importGLTF(
-    url: string,
+    file: File,
     options: CADModelImportOptions
   ): Promise<THREE.Object3D> {
-    const loader = new GLTFLoader();
-    const gltf = await loader.loadAsync(url);
+    const object = await new BlenderAdapter().importModel(file);
 
-    this.preprocessObject(gltf.scene, options);
-    return gltf.scene;
+    this.preprocessObject(object, options);
+    return object;
   }
 
   private async importVTK(
@@ -104,6 +131,47 @@ export class ModelImporter {
     return mesh;
   }
 
+  private async importCAD(
+    file: File,
+    options: CADModelImportOptions
+  ): Promise<THREE.Object3D> {
+    const object = await CADReader.read(await file.arrayBuffer(), file.name, {
+      chordalTolerance: options.chordalTolerance,
+      angularTolerance: options.angularTolerance,
+      wasmUrl: this.cadWasmUrl,
+    });
+
+    this.preprocessObject(object, options);
+    return object;
+  }
+
+  private async importFreeCAD(
+    file: File,
+    options: CADModelImportOptions
+  ): Promise<THREE.Object3D> {
+    const object = await new FreeCADAdapter(this.cadWasmUrl).importModel(file, {
+      chordalTolerance: options.chordalTolerance,
+      angularTolerance: options.angularTolerance,
+    });
+
+    this.preprocessObject(object, options);
+    return object;
+  }
+
+  private async importDXF(
+    file: File,
+    options: CADModelImportOptions
+  ): Promise<THREE.Object3D> {
+    const object = await new AutoCADAdapter().importModel(file, {
+      pipeLayers: options.pipeLayers,
+      defaultDiameter: options.pipeDiameter,
+      chordalTolerance: options.chordalTolerance,
+    });
+
+    this.preprocessObject(object, options);
+    return object;
+  }
+
   private async importIES(
     url: string,
     options: CADModelImportOptions
@@ -0,0 +1,352 @@
+import * as THREE from "three";
+import { GeometryUtils } from "../utils/geometry-utils";
+import { ParticleOperations } from "../utils/particle-operations";
+import { SPHSimulator } from "./sph-simulator";
+
+type Vector3Tuple = [number, number, number];
+
+export interface ProbeDefinition {
+  name: string;
+  position: Vector3Tuple;
+}
+
+export interface SectionDefinition {
+  name: string;
+  // A point on the pipe axis, and the direction counted as positive flow
+  center: Vector3Tuple;
+  normal: Vector3Tuple;
+  // Only points within this distance of the center count, so a plane that
+  // cuts the pipe twice measures one branch. Defaults to 1.5 times the
+  // radius of a circle with the section's area.
+  radius?: number;
+  // Thickness of the slab of points averaged over. Defaults to the field's
+  // smoothing length.
+  thickness?: number;
+}
+
+/**
+ * Plain data, so definitions travel to the worker and live in case files
+ */
+export interface MonitorDefinitions {
+  probes: ProbeDefinition[];
+  sections: SectionDefinition[];
+}
+
+/**
+ * Point data to monitor: SPH particles, or the points of a loaded time step.
+ * With masses and densities each point carries the volume m/rho; without
+ * them the points are taken to sample the flow evenly.
+ */
+export interface FlowField {
+  time: number;
+  count: number;
+  positions: Float32Array;
+  velocities: Float32Array;
+  pressures: Float32Array;
+  densities?: Float32Array;
+  masses?: Float32Array;
+  // Interpolation radius in m
+  smoothingLength: number;
+  // Used for the mass flow when the points have no densities
+  density: number;
+}
+
+export interface ProbeSample {
+  // NaN when no point lies within the smoothing length
+  velocity: Vector3Tuple;
+  pressure: number;
+}
+
+export interface SectionSample {
+  // kg/s and m/s along the section normal, and the mean pressure in Pa
+  massFlow: number;
+  meanVelocity: number;
+  pressure: number;
+}
+
+export interface MonitorRecord {
+  time: number;
+  probes: ProbeSample[];
+  sections: SectionSample[];
+}
+
+/**
+ * Point probes and cross-section monitors with a time history. Probes
+ * interpolate with the poly6 kernel, normalised so probes near the wall or a
+ * free surface are not biased low. Sections take the area from the pipe
+ * geometry and average over the points in a thin slab across the pipe.
+ */
+export class MonitorSet {
+  public readonly definitions: MonitorDefinitions;
+  private areas: number[];
+  private history: MonitorRecord[] = [];
+
+  /**
+   * Without a boundary geometry every section needs a radius, and its area
+   * is that of a circle
+   */
+  constructor(
+    definitions: MonitorDefinitions,
+    boundaryGeometry?: THREE.BufferGeometry
+  ) {
+    this.definitions = definitions;
+    this.areas = definitions.sections.map((section) => {
+      const normal = new THREE.Vector3(...section.normal);
+      if (normal.lengthSq() === 0) {
+        throw new Error(`Section ${section.name} needs a non-zero normal`);
+      }
+      if (boundaryGeometry) {
+        return GeometryUtils.calculatePipeCrossSection(
+          boundaryGeometry,
+          new THREE.Vector3(...section.center),
+          normal
+        );
+      }
+      if (section.radius === undefined) {
+        throw new Error(
+          `Section ${section.name} needs a radius without a pipe model`
+        );
+      }
+      return Math.PI * section.radius * section.radius;
+    });
+  }
+
+  /**
+   * The simulator's particles as they are now
+   */
+  static fieldFromSimulator(simulator: SPHSimulator): FlowField {
+    return {
+      time: simulator.getTime(),
+      count: simulator.getParticleCount(),
+      positions: simulator.getParticlePositions(),
+      velocities: simulator.getParticleVelocities(),
+      pressures: simulator.getParticlePressures(),
+      densities: simulator.getParticleDensities(),
+      masses: simulator.getParticleMasses(),
+      smoothingLength: simulator.getKernelRadius(),
+      density: simulator.getConfig().density,
+    };
+  }
+
+  /**
+   * Points without volumes, such as a loaded time step. The smoothing
+   * length is twice the mean point spacing over their bounding box.
+   */
+  static fieldFromPoints(
+    time: number,
+    positions: Float32Array,
+    velocities: Float32Array,
+    pressures: Float32Array,
+    density: number
+  ): FlowField {
+    const count = Math.min(
+      positions.length / 3,
+      velocities.length / 3,
+      pressures.length
+    );
+    const bounds = new THREE.Box3().setFromArray(positions);
+    const size = bounds.getSize(new THREE.Vector3());
+    const spacing =
+      count > 0
+        ? Math.cbrt(
+            (Math.max(size.x, 1e-9) *
+              Math.max(size.y, 1e-9) *
+              Math.max(size.z, 1e-9)) /
+              count
+          )
+        : 0;
+
+    return {
+      time,
+      count,
+      positions,
+      velocities,
+      pressures,
+      smoothingLength: 2 * spacing,
+      density,
+    };
+  }
+
+  /**
+   * Cross-section area of each section in m²
+   */
+  public getAreas(): number[] {
+    return this.areas;
+  }
+
+  /**
+   * Sample every monitor and append the result to the history. A field
+   * earlier than the latest record, e.g. after a reset, starts the history
+   * again from that time.
+   */
+  public record(field: FlowField): MonitorRecord {
+    while (
+      this.history.length > 0 &&
+      this.history[this.history.length - 1].time >= field.time
+    ) {
+      this.history.pop();
+    }
+
+    const record: MonitorRecord = {
+      time: field.time,
+      probes: this.definitions.probes.map((probe) =>
+        MonitorSet.sampleProbe(field, probe)
+      ),
+      sections: this.definitions.sections.map((section, index) =>
+        this.sampleSection(field, section, this.areas[index])
+      ),
+    };
+    this.history.push(record);
+    return record;
+  }
+
+  public getHistory(): MonitorRecord[] {
+    return this.history;
+  }
+
+  public clear(): void {
+    this.history = [];
+  }
+
+  /**
+   * History as CSV, one row per record and a column per monitor quantity
+   */
+  public toCSV(): string {
+    return formatMonitorHistory(this.definitions, this.history);
+  }
+
+  private static sampleProbe(
+    field: FlowField,
+    probe: ProbeDefinition
+  ): ProbeSample {
+    const { positions, velocities, pressures, masses, densities } = field;
+    const h = field.smoothingLength;
+    const [px, py, pz] = probe.position;
+    let weightSum = 0;
+    let ux = 0;
+    let uy = 0;
+    let uz = 0;
+    let pressure = 0;
+
+    for (let i = 0; i < field.count; i++) {
+      const dx = positions[i * 3] - px;
+      const dy = positions[i * 3 + 1] - py;
+      const dz = positions[i * 3 + 2] - pz;
+      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (distance >= h) continue;
+
+      const volume = masses && densities ? masses[i] / densities[i] : 1;
+      const weight = volume * ParticleOperations.kernelPoly6(distance, h);
+      weightSum += weight;
+      ux += weight * velocities[i * 3];
+      uy += weight * velocities[i * 3 + 1];
+      uz += weight * velocities[i * 3 + 2];
+      pressure += weight * pressures[i];
+    }
+
+    if (weightSum === 0) {
+      return { velocity: [NaN, NaN, NaN], pressure: NaN };
+    }
+    return {
+      velocity: [ux / weightSum, uy / weightSum, uz / weightSum],
+      pressure: pressure / weightSum,
+    };
+  }
+
+  /**
+   * With particle volumes the flux is the slab's volume times its mean
+   * normal velocity over the slab thickness, so a part-filled pipe carries
+   * less than a full one. Evenly spaced points are taken to fill the section.
+   */
+  private sampleSection(
+    field: FlowField,
+    section: SectionDefinition,
+    area: number
+  ): SectionSample {
+    const { positions, velocities, pressures, masses, densities } = field;
+    const [cx, cy, cz] = section.center;
+    const normal = new THREE.Vector3(...section.normal).normalize();
+    const halfThickness = (section.thickness ?? field.smoothingLength) / 2;
+    const radius = section.radius ?? 1.5 * Math.sqrt(area / Math.PI);
+
+    let count = 0;
+    let volumeSum = 0;
+    let massFlux = 0;
+    let volumeFlux = 0;
+    let pressureSum = 0;
+
+    for (let i = 0; i < field.count; i++) {
+      const dx = positions[i * 3] - cx;
+      const dy = positions[i * 3 + 1] - cy;
+      const dz = positions[i * 3 + 2] - cz;
+      const axial = dx * normal.x + dy * normal.y + dz * normal.z;
+      if (Math.abs(axial) > halfThickness) continue;
+      const radialSq = dx * dx + dy * dy + dz * dz - axial * axial;
+      if (radialSq > radius * radius) continue;
+
+      const normalVelocity =
+        velocities[i * 3] * normal.x +
+        velocities[i * 3 + 1] * normal.y +
+        velocities[i * 3 + 2] * normal.z;
+      const volume = masses && densities ? masses[i] / densities[i] : 1;
+      count++;
+      volumeSum += volume;
+      volumeFlux += volume * normalVelocity;
+      massFlux += (masses ? masses[i] : volume) * normalVelocity;
+      pressureSum += volume * pressures[i];
+    }
+
+    if (count === 0) {
+      return { massFlow: 0, meanVelocity: 0, pressure: NaN };
+    }
+    if (masses && densities) {
+      const thickness = 2 * halfThickness;
+      return {
+        massFlow: massFlux / thickness,
+        meanVelocity: area > 0 ? volumeFlux / thickness / area : 0,
+        pressure: pressureSum / volumeSum,
+      };
+    }
+    const meanVelocity = volumeFlux / volumeSum;
+    return {
+      massFlow: field.density * meanVelocity * area,
+      meanVelocity,
+      pressure: pressureSum / volumeSum,
+    };
+  }
+}
+
+/**
+ * Monitor records as CSV with units in the header
+ */
+export function formatMonitorHistory(
+  definitions: MonitorDefinitions,
+  history: MonitorRecord[]
+): string {
+  const header = [
+    "time_s",
+    ...definitions.probes.flatMap(({ name }) => [
+      `${name}_ux_m_s`,
+      `${name}_uy_m_s`,
+      `${name}_uz_m_s`,
+      `${name}_p_pa`,
+    ]),
+    ...definitions.sections.flatMap(({ name }) => [
+      `${name}_mass_flow_kg_s`,
+      `${name}_mean_velocity_m_s`,
+      `${name}_p_pa`,
+    ]),
+  ];
+  const rows = history.map((record) =>
+    [
+      record.time,
+      ...record.probes.flatMap((probe) => [...probe.velocity, probe.pressure]),
+      ...record.sections.flatMap((section) => [
+        section.massFlow,
+        section.meanVelocity,
+        section.pressure,
+      ]),
+    ].join(",")
+  );
+  return [header.join(","), ...rows].join("\n");
+}
@@ -0,0 +1,250 @@
+/**
+ * One array per particle field, trimmed to the particle count
+ */
+export interface ParticleArrays {
+  positions: Float32Array;
+  velocities: Float32Array;
+  densities: Float32Array;
+  pressures: Float32Array;
+  masses: Float32Array;
+  phases: Uint8Array;
+  temperatures: Float32Array;
+}
+
+/**
+ * Particle state kept as a structure of arrays: one flat typed array per
+ * field, with vectors packed as consecutive xyz triples. Particle i's
+ * position is positions[3i .. 3i + 2].
+ *
+ * The arrays grow by doubling, so views returned by the getters stay valid
+ * until the next add that exceeds the capacity, or the next removal.
+ */
+export class ParticleStore {
+  private count: number = 0;
+  private capacity: number = 0;
+  private positionData: Float32Array = new Float32Array(0);
+  private velocityData: Float32Array = new Float32Array(0);
+  private densityData: Float32Array = new Float32Array(0);
+  private pressureData: Float32Array = new Float32Array(0);
+  private massData: Float32Array = new Float32Array(0);
+  private phaseData: Uint8Array = new Uint8Array(0);
+  private temperatureData: Float32Array = new Float32Array(0);
+
+  constructor(initialCapacity: number = 1024) {
+    this.reserve(initialCapacity);
+  }
+
+  public getCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Backing arrays over the full capacity. Only the first `count` entries
+   * (3 * count for vectors) hold particles. Index these in hot loops.
+   */
+  public get positions(): Float32Array {
+    return this.positionData;
+  }
+
+  public get velocities(): Float32Array {
+    return this.velocityData;
+  }
+
+  public get densities(): Float32Array {
+    return this.densityData;
+  }
+
+  public get pressures(): Float32Array {
+    return this.pressureData;
+  }
+
+  public get masses(): Float32Array {
+    return this.massData;
+  }
+
+  public get phases(): Uint8Array {
+    return this.phaseData;
+  }
+
+  public get temperatures(): Float32Array {
+    return this.temperatureData;
+  }
+
+  /**
+   * Zero-copy views trimmed to the live particles, for renderers and
+   * exporters
+   */
+  public getPositionView(): Float32Array {
+    return this.positionData.subarray(0, this.count * 3);
+  }
+
+  public getVelocityView(): Float32Array {
+    return this.velocityData.subarray(0, this.count * 3);
+  }
+
+  public getDensityView(): Float32Array {
+    return this.densityData.subarray(0, this.count);
+  }
+
+  public getPressureView(): Float32Array {
+    return this.pressureData.subarray(0, this.count);
+  }
+
+  public getMassView(): Float32Array {
+    return this.massData.subarray(0, this.count);
+  }
+
+  public getPhaseView(): Uint8Array {
+    return this.phaseData.subarray(0, this.count);
+  }
+
+  public getTemperatureView(): Float32Array {
+    return this.temperatureData.subarray(0, this.count);
+  }
+
+  /**
+   * Append a particle and return its index
+   */
+  public add(
+    position: ArrayLike<number>,
+    velocity: ArrayLike<number>,
+    density: number,
+    mass: number,
+    phase: number = 0,
+    temperature: number = 0
+  ): number {
+    if (this.count === this.capacity) {
+      this.reserve(Math.max(1024, this.capacity * 2));
+    }
+
+    const i = this.count++;
+    this.positionData[i * 3] = position[0];
+    this.positionData[i * 3 + 1] = position[1];
+    this.positionData[i * 3 + 2] = position[2];
+    this.velocityData[i * 3] = velocity[0];
+    this.velocityData[i * 3 + 1] = velocity[1];
+    this.velocityData[i * 3 + 2] = velocity[2];
+    this.densityData[i] = density;
+    this.pressureData[i] = 0;
+    this.massData[i] = mass;
+    this.phaseData[i] = phase;
+    this.temperatureData[i] = temperature;
+    return i;
+  }
+
+  /**
+   * Drop every particle the predicate selects, compacting the rest in place
+   * without changing their order
+   */
+  public removeWhere(predicate: (index: number) => boolean): void {
+    let kept = 0;
+    for (let i = 0; i < this.count; i++) {
+      if (predicate(i)) continue;
+      if (kept !== i) this.move(i, kept);
+      kept++;
+    }
+    this.count = kept;
+  }
+
+  /**
+   * Views of the live particle data, sharing memory with the store
+   */
+  public getViews(): ParticleArrays {
+    return {
+      positions: this.getPositionView(),
+      velocities: this.getVelocityView(),
+      densities: this.getDensityView(),
+      pressures: this.getPressureView(),
+      masses: this.getMassView(),
+      phases: this.getPhaseView(),
+      temperatures: this.getTemperatureView(),
+    };
+  }
+
+  /**
+   * Copies of the live particle data, independent of later steps
+   */
+  public copyArrays(): ParticleArrays {
+    return {
+      positions: this.getPositionView().slice(),
+      velocities: this.getVelocityView().slice(),
+      densities: this.getDensityView().slice(),
+      pressures: this.getPressureView().slice(),
+      masses: this.getMassView().slice(),
+      phases: this.getPhaseView().slice(),
+      temperatures: this.getTemperatureView().slice(),
+    };
+  }
+
+  /**
+   * Replace every particle with the given data
+   */
+  public load(arrays: ParticleArrays): void {
+    const count = arrays.masses.length;
+    if (
+      arrays.positions.length !== count * 3 ||
+      arrays.velocities.length !== count * 3 ||
+      arrays.densities.length !== count ||
+      arrays.pressures.length !== count ||
+      arrays.phases.length !== count ||
+      arrays.temperatures.length !== count
+    ) {
+      throw new Error("Particle arrays have inconsistent lengths");
+    }
+
+    this.count = 0;
+    this.reserve(count);
+    this.positionData.set(arrays.positions);
+    this.velocityData.set(arrays.velocities);
+    this.densityData.set(arrays.densities);
+    this.pressureData.set(arrays.pressures);
+    this.massData.set(arrays.masses);
+    this.phaseData.set(arrays.phases);
+    this.temperatureData.set(arrays.temperatures);
+    this.count = count;
+  }
+
+  public clear(): void {
+    this.count = 0;
+  }
+
+  /**
+   * Make room for at least `capacity` particles, keeping the current ones
+   */
+  public reserve(capacity: number): void {
+    if (capacity <= this.capacity) return;
+
+    const grow = <T extends Float32Array | Uint8Array>(
+      data: T,
+      create: (length: number) => T,
+      stride: number
+    ): T => {
+      const grown = create(capacity * stride);
+      grown.set(data.subarray(0, this.count * stride));
+      return grown;
+    };
+
+    this.positionData = grow(this.positionData, (n) => new Float32Array(n), 3);
+    this.velocityData = grow(this.velocityData, (n) => new Float32Array(n), 3);
+    this.densityData = grow(this.densityData, (n) => new Float32Array(n), 1);
+    this.pressureData = grow(this.pressureData, (n) => new Float32Array(n), 1);
+    this.massData = grow(this.massData, (n) => new Float32Array(n), 1);
+    this.phaseData = grow(this.phaseData, (n) => new Uint8Array(n), 1);
+    this.temperatureData = grow(
+      this.temperatureData,
+      (n) => new Float32Array(n),
+      1
+    );
+    this.capacity = capacity;
+  }
+
+  private move(from: number, to: number): void {
+    this.positionData.copyWithin(to * 3, from * 3, from * 3 + 3);
+    this.velocityData.copyWithin(to * 3, from * 3, from * 3 + 3);
+    this.densityData[to] = this.densityData[from];
+    this.pressureData[to] = this.pressureData[from];
+    this.massData[to] = this.massData[from];
+    this.phaseData[to] = this.phaseData[from];
+    this.temperatureData[to] = this.temperatureData[from];
+  }
+}
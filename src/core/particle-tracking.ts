@@ -0,0 +1,523 @@
+import * as THREE from "three";
+import { GeometryUtils } from "../utils/geometry-utils";
+import { ParticleOperations } from "../utils/particle-operations";
+import { SpatialHashGrid } from "../utils/spatial-hash";
+import { SignedDistanceField } from "./boundary-sdf";
+import { FlowField } from "./monitors";
+
+type Vector3Tuple = [number, number, number];
+
+export interface SolidParticleRelease {
+  position: Vector3Tuple;
+  // Defaults to the fluid velocity at the release point
+  velocity?: Vector3Tuple;
+  // Diameter in m and density in kg/m³
+  diameter: number;
+  density: number;
+  // Defaults to the time of the first field
+  time?: number;
+}
+
+/**
+ * A named part of the domain boundary, such as one wall patch of a loaded
+ * case. Particles bounce off walls and leave through open regions like
+ * outlets. Together the regions should enclose the flow.
+ */
+export interface BoundaryRegion {
+  name: string;
+  geometry: THREE.BufferGeometry;
+  open?: boolean;
+}
+
+export interface ParticleTrackingSettings {
+  // Carrier fluid density in kg/m³ and viscosity in Pa·s
+  fluidDensity: number;
+  fluidViscosity: number;
+  // Defaults to (0, -9.81, 0)
+  gravity?: Vector3Tuple;
+  // Share of the normal velocity kept in a bounce; defaults to 0.5
+  restitution?: number;
+  // Share of the sliding velocity lost in a bounce; defaults to 0.2
+  friction?: number;
+  // Particles on a wall slower than this in m/s have settled, and slower
+  // impacts are not recorded. Defaults to 0.01.
+  settleSpeed?: number;
+  // Longest step in s. Defaults to a quarter of the fields' smoothing
+  // length over the fastest flow speed.
+  timeStep?: number;
+  // Seconds to track for after the first field's time
+  duration: number;
+  // Seconds between recorded track points; defaults to every step
+  recordInterval?: number;
+}
+
+export type TrackedParticleState = "moving" | "settled" | "escaped";
+
+export interface ParticleTrack {
+  diameter: number;
+  density: number;
+  state: TrackedParticleState;
+  // Region a settled particle rests on or an escaped one left through
+  region?: string;
+  times: number[];
+  // Packed xyz per recorded time
+  positions: number[];
+}
+
+export interface WallImpact {
+  // Index of the particle in the releases
+  particle: number;
+  region: string;
+  time: number;
+  position: Vector3Tuple;
+  // Speed in m/s, and angle between the path and the wall in degrees
+  speed: number;
+  angle: number;
+}
+
+export interface RegionImpactSummary {
+  region: string;
+  impacts: number;
+  settled: number;
+  meanSpeed: number;
+  maxSpeed: number;
+  meanAngle: number;
+}
+
+export interface TrackingResult {
+  tracks: ParticleTrack[];
+  impacts: WallImpact[];
+}
+
+const DEFAULT_GRAVITY: Vector3Tuple = [0, -9.81, 0];
+const DEFAULT_RESTITUTION = 0.5;
+const DEFAULT_FRICTION = 0.2;
+const DEFAULT_SETTLE_SPEED = 0.01;
+const DEFAULT_MAX_TIME_STEP = 0.01;
+
+/**
+ * One-way coupled Lagrangian tracking of solid particles through a series
+ * of flow fields, such as the time steps of a loaded case. The fluid velocity
+ * is interpolated like a monitor probe and linearly between fields.
+ * Particles feel Schiller-Naumann drag, taken implicitly so fine particles
+ * need no tiny steps, and gravity less buoyancy.
+ */
+export class ParticleTracker {
+  private fields: FlowField[];
+  private grids: SpatialHashGrid[];
+  private regions: BoundaryRegion[];
+  // Triangle corners of each region, packed as 9 floats per triangle
+  private regionTriangles: Float32Array[];
+  private boundary: SignedDistanceField | null = null;
+  // Where particles escape without a boundary
+  private fieldBounds: THREE.Box3;
+  private settings: ParticleTrackingSettings;
+  private maxTimeStep: number;
+
+  constructor(
+    fields: FlowField[],
+    regions: BoundaryRegion[],
+    settings: ParticleTrackingSettings
+  ) {
+    if (fields.length === 0) {
+      throw new Error("Particle tracking needs at least one flow field");
+    }
+    const positive = [
+      "fluidDensity",
+      "fluidViscosity",
+      "duration",
+      "timeStep",
+      "recordInterval",
+    ] as const;
+    positive.forEach((key) => {
+      const value = settings[key];
+      if (value !== undefined && !(value > 0)) {
+        throw new Error(`Particle tracking ${key} must be positive`);
+      }
+    });
+    this.settings = settings;
+    this.fields = [...fields].sort((a, b) => a.time - b.time);
+    this.regions = regions;
+
+    let maxSpeed = 0;
+    this.fieldBounds = new THREE.Box3();
+    this.grids = this.fields.map((field) => {
+      const grid = new SpatialHashGrid(field.smoothingLength);
+      grid.buildFromArray(field.count, field.positions);
+      const { velocities } = field;
+      for (let i = 0; i < field.count; i++) {
+        maxSpeed = Math.max(
+          maxSpeed,
+          Math.hypot(
+            velocities[i * 3],
+            velocities[i * 3 + 1],
+            velocities[i * 3 + 2]
+          )
+        );
+      }
+      this.fieldBounds.union(
+        new THREE.Box3()
+          .setFromArray(field.positions.subarray(0, field.count * 3))
+          .expandByScalar(field.smoothingLength)
+      );
+      return grid;
+    });
+    const smoothingLength = this.fields[0].smoothingLength;
+    this.maxTimeStep =
+      settings.timeStep ??
+      (maxSpeed > 0
+        ? Math.min((0.25 * smoothingLength) / maxSpeed, DEFAULT_MAX_TIME_STEP)
+        : DEFAULT_MAX_TIME_STEP);
+
+    this.regionTriangles = regions.map(({ geometry }) =>
+      Float32Array.from(
+        (geometry.index ? geometry.toNonIndexed() : geometry).getAttribute(
+          "position"
+        ).array
+      )
+    );
+    if (regions.length > 0) {
+      const group = new THREE.Group();
+      regions.forEach(({ geometry }) => group.add(new THREE.Mesh(geometry)));
+      this.boundary = SignedDistanceField.fromGeometry(
+        GeometryUtils.mergeWorldGeometry(group),
+        { cellSize: smoothingLength / 2, fluidInside: true }
+      );
+    }
+  }
+
+  /**
+   * Fluid velocity at `time` and `point`, zero away from every field point
+   */
+  public sampleVelocity(
+    time: number,
+    point: ArrayLike<number>,
+    out: Float64Array | number[] = [0, 0, 0]
+  ): Float64Array | number[] {
+    const fields = this.fields;
+    let next = fields.findIndex((field) => field.time > time);
+    if (next === -1) next = fields.length;
+    if (next === 0 || next === fields.length) {
+      return this.sampleField(Math.min(next, fields.length - 1), point, out);
+    }
+
+    const before = this.sampleField(next - 1, point, [0, 0, 0]);
+    const after = this.sampleField(next, point, [0, 0, 0]);
+    const t =
+      (time - fields[next - 1].time) /
+      (fields[next].time - fields[next - 1].time);
+    for (let axis = 0; axis < 3; axis++) {
+      out[axis] = before[axis] * (1 - t) + after[axis] * t;
+    }
+    return out;
+  }
+
+  /**
+   * Track every release until the duration runs out, or it settles or
+   * escapes
+   */
+  public track(releases: SolidParticleRelease[]): TrackingResult {
+    const impacts: WallImpact[] = [];
+    const tracks = releases.map((release, index) =>
+      this.trackParticle(release, index, impacts)
+    );
+    return { tracks, impacts };
+  }
+
+  /**
+   * Impact count, speeds and angles per wall region, with the particles
+   * that settled on it, in region order
+   */
+  public summarize(result: TrackingResult): RegionImpactSummary[] {
+    return this.regions
+      .filter((region) => !region.open)
+      .map(({ name }) => {
+        const impacts = result.impacts.filter(
+          (impact) => impact.region === name
+        );
+        const count = impacts.length;
+        return {
+          region: name,
+          impacts: count,
+          settled: result.tracks.filter(
+            (track) => track.state === "settled" && track.region === name
+          ).length,
+          meanSpeed:
+            count > 0
+              ? impacts.reduce((sum, impact) => sum + impact.speed, 0) / count
+              : 0,
+          maxSpeed: impacts.reduce(
+            (max, impact) => Math.max(max, impact.speed),
+            0
+          ),
+          meanAngle:
+            count > 0
+              ? impacts.reduce((sum, impact) => sum + impact.angle, 0) / count
+              : 0,
+        };
+      });
+  }
+
+  private trackParticle(
+    release: SolidParticleRelease,
+    index: number,
+    impacts: WallImpact[]
+  ): ParticleTrack {
+    const { diameter, density } = release;
+    if (!(diameter > 0) || !(density > 0)) {
+      throw new Error(
+        `Particle ${index} needs a positive diameter and density`
+      );
+    }
+    const {
+      fluidDensity,
+      fluidViscosity,
+      gravity = DEFAULT_GRAVITY,
+      restitution = DEFAULT_RESTITUTION,
+      friction = DEFAULT_FRICTION,
+      settleSpeed = DEFAULT_SETTLE_SPEED,
+      recordInterval = 0,
+    } = this.settings;
+    const radius = diameter / 2;
+    const smoothingLength = this.fields[0].smoothingLength;
+    const endTime = this.fields[0].time + this.settings.duration;
+    // Gravity less buoyancy, and the Stokes drag rate 1 / relaxation time
+    const buoyancy = 1 - fluidDensity / density;
+    const stokesRate = (18 * fluidViscosity) / (density * diameter * diameter);
+    const sinkingRate = Math.abs(buoyancy) * Math.hypot(...gravity);
+
+    const position = [...release.position];
+    let time = release.time ?? this.fields[0].time;
+    const velocity = release.velocity
+      ? [...release.velocity]
+      : Array.from(this.sampleVelocity(time, position));
+    const fluid = [0, 0, 0];
+    const normal = [0, 0, 0];
+    const track: ParticleTrack = {
+      diameter,
+      density,
+      state: "moving",
+      times: [time],
+      positions: [...position],
+    };
+    let lastRecord = time;
+
+    while (time < endTime - 1e-12) {
+      const speed = Math.hypot(velocity[0], velocity[1], velocity[2]);
+      const deltaTime = Math.min(
+        this.maxTimeStep,
+        speed > 0 ? (0.25 * smoothingLength) / speed : Infinity,
+        endTime - time
+      );
+
+      // Implicit drag: v' = (v + dt (g' + k u)) / (1 + dt k), with
+      // k = 18 mu (1 + 0.15 Re^0.687) / (rho_p d²) below Re 1000
+      this.sampleVelocity(time, position, fluid);
+      const slip = Math.hypot(
+        fluid[0] - velocity[0],
+        fluid[1] - velocity[1],
+        fluid[2] - velocity[2]
+      );
+      const reynolds = (fluidDensity * slip * diameter) / fluidViscosity;
+      const dragRate =
+        reynolds < 1000
+          ? stokesRate * (1 + 0.15 * Math.pow(reynolds, 0.687))
+          : (0.33 * fluidDensity * slip) / (density * diameter);
+      for (let axis = 0; axis < 3; axis++) {
+        velocity[axis] =
+          (velocity[axis] +
+            deltaTime * (gravity[axis] * buoyancy + dragRate * fluid[axis])) /
+          (1 + deltaTime * dragRate);
+        position[axis] += velocity[axis] * deltaTime;
+      }
+      time += deltaTime;
+
+      const contact = this.collide(position, radius, normal);
+      if (contact === "outside") {
+        track.state = "escaped";
+      } else if (contact) {
+        const region = this.regionAt(position);
+        if (region.open) {
+          track.state = "escaped";
+          track.region = region.name;
+        } else {
+          const approach =
+            velocity[0] * normal[0] +
+            velocity[1] * normal[1] +
+            velocity[2] * normal[2];
+          if (approach > 0) {
+            const impactSpeed = Math.hypot(
+              velocity[0],
+              velocity[1],
+              velocity[2]
+            );
+            // Resting contact only stops the particle sinking into the wall,
+            // including the speed it picks up from gravity within a step
+            const bouncing = approach > settleSpeed + sinkingRate * deltaTime;
+            if (bouncing) {
+              impacts.push({
+                particle: index,
+                region: region.name,
+                time,
+                position: [position[0], position[1], position[2]],
+                speed: impactSpeed,
+                angle: (Math.asin(approach / impactSpeed) * 180) / Math.PI,
+              });
+            }
+            for (let axis = 0; axis < 3; axis++) {
+              const sliding = velocity[axis] - approach * normal[axis];
+              velocity[axis] = bouncing
+                ? sliding * (1 - friction) -
+                  restitution * approach * normal[axis]
+                : sliding;
+            }
+          }
+          if (Math.hypot(velocity[0], velocity[1], velocity[2]) < settleSpeed) {
+            velocity.fill(0);
+            track.state = "settled";
+            track.region = region.name;
+          }
+        }
+      }
+
+      if (
+        track.state !== "moving" ||
+        time - lastRecord >= recordInterval - 1e-12 ||
+        time >= endTime - 1e-12
+      ) {
+        track.times.push(time);
+        track.positions.push(...position);
+        lastRecord = time;
+      }
+      if (track.state !== "moving") break;
+    }
+    return track;
+  }
+
+  /**
+   * Push a particle touching the boundary back onto it, writing the wall
+   * normal. Returns false clear of the boundary, and "outside" once it has
+   * left the fields or got past the walls.
+   */
+  private collide(
+    position: number[],
+    radius: number,
+    normal: number[]
+  ): boolean | "outside" {
+    if (!this.boundary) {
+      const [x, y, z] = position;
+      return this.fieldBounds.containsPoint(new THREE.Vector3(x, y, z))
+        ? false
+        : "outside";
+    }
+
+    const [x, y, z] = position;
+    const penetration = this.boundary.sample(x, y, z) + radius;
+    if (penetration <= 0) return false;
+    if (!this.boundary.gradient(x, y, z, normal)) return "outside";
+    for (let axis = 0; axis < 3; axis++) {
+      position[axis] -= penetration * normal[axis];
+    }
+    return true;
+  }
+
+  /**
+   * The region with the triangle nearest to `position`
+   */
+  private regionAt(position: number[]): BoundaryRegion {
+    const point = new THREE.Vector3(...position);
+    const triangle = new THREE.Triangle();
+    const closest = new THREE.Vector3();
+    let nearest = 0;
+    let nearestDistance = Infinity;
+
+    this.regionTriangles.forEach((corners, region) => {
+      for (let t = 0; t + 9 <= corners.length; t += 9) {
+        triangle.a.fromArray(corners, t);
+        triangle.b.fromArray(corners, t + 3);
+        triangle.c.fromArray(corners, t + 6);
+        triangle.closestPointToPoint(point, closest);
+        const distance = closest.distanceToSquared(point);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearest = region;
+        }
+      }
+    });
+    return this.regions[nearest];
+  }
+
+  private sampleField(
+    index: number,
+    point: ArrayLike<number>,
+    out: Float64Array | number[]
+  ): Float64Array | number[] {
+    const field = this.fields[index];
+    const h = field.smoothingLength;
+    const { velocities, masses, densities } = field;
+    let weightSum = 0;
+    let ux = 0;
+    let uy = 0;
+    let uz = 0;
+
+    this.grids[index].forEachNeighbor(point, h, (i, distanceSquared) => {
+      const volume = masses && densities ? masses[i] / densities[i] : 1;
+      const weight =
+        volume * ParticleOperations.kernelPoly6(Math.sqrt(distanceSquared), h);
+      weightSum += weight;
+      ux += weight * velocities[i * 3];
+      uy += weight * velocities[i * 3 + 1];
+      uz += weight * velocities[i * 3 + 2];
+    });
+
+    out[0] = weightSum > 0 ? ux / weightSum : 0;
+    out[1] = weightSum > 0 ? uy / weightSum : 0;
+    out[2] = weightSum > 0 ? uz / weightSum : 0;
+    return out;
+  }
+}
+
+/**
+ * Wall impacts as CSV with units in the header
+ */
+export function formatWallImpacts(impacts: WallImpact[]): string {
+  const rows = impacts.map((impact) =>
+    [
+      impact.particle,
+      impact.region,
+      impact.time,
+      ...impact.position,
+      impact.speed,
+      impact.angle,
+    ].join(",")
+  );
+  return [
+    "particle,region,time_s,x_m,y_m,z_m,speed_m_s,angle_deg",
+    ...rows,
+  ].join("\n");
+}
+
+/**
+ * Every recorded track point as CSV, with each particle's final state
+ */
+export function formatParticleTracks(tracks: ParticleTrack[]): string {
+  const rows = tracks.flatMap((track, particle) =>
+    track.times.map((time, n) =>
+      [
+        particle,
+        time,
+        track.positions[n * 3],
+        track.positions[n * 3 + 1],
+        track.positions[n * 3 + 2],
+        track.diameter,
+        track.density,
+        track.state,
+        track.region ?? "",
+      ].join(",")
+    )
+  );
+  return [
+    "particle,time_s,x_m,y_m,z_m,diameter_m,density_kg_m3,state,region",
+    ...rows,
+  ].join("\n");
+}
@@ -0,0 +1,128 @@
+import * as THREE from "three";
+import { ForcePlugin, PluginContext } from "./force-plugins";
+
+export type PeriodicAxis = "x" | "y" | "z";
+
+/**
+ * A domain that repeats along one axis of its bounds: particles leaving one
+ * face re-enter at the other and interact across the seam. A pipe model
+ * must be open at both ends and span the bounds along that axis.
+ */
+export interface PeriodicSettings {
+  axis: PeriodicAxis;
+  // Mass-weighted mean velocity along the axis, in m/s, that a body force
+  // is adjusted to hold. It stands in for the mean pressure gradient of a
+  // long pipe.
+  targetVelocity?: number;
+  // Response time of that adjustment in s. Defaults to 0.1.
+  driveRelaxationTime?: number;
+  // Fixed body force along the axis in m/s² when there is no target
+  // velocity, equivalent to a pressure gradient of -density times it
+  bodyForce?: number;
+}
+
+const AXES: PeriodicAxis[] = ["x", "y", "z"];
+const DEFAULT_DRIVE_RELAXATION_TIME = 0.1;
+
+/**
+ * Wrapping and the bulk velocity drive for a periodic domain. The drive is
+ * a force plugin with a proportional-integral controller tuned for critical
+ * damping at the relaxation time, so the bulk velocity settles without
+ * overshoot and without a steady offset.
+ */
+export class PeriodicBoundary implements ForcePlugin {
+  public readonly name = "periodic-drive";
+  public readonly settings: PeriodicSettings;
+  // Index of the periodic axis, its lower bound and its period in m
+  public readonly axis: number;
+  public readonly min: number;
+  public readonly length: number;
+  private integral: number = 0;
+  private acceleration: number;
+  private bulkVelocity: number = 0;
+
+  constructor(settings: PeriodicSettings, bounds: THREE.Box3) {
+    const axis = AXES.indexOf(settings.axis);
+    if (axis === -1) {
+      throw new Error(`Unknown periodic axis: ${settings.axis}`);
+    }
+    if (
+      settings.driveRelaxationTime !== undefined &&
+      !(settings.driveRelaxationTime > 0)
+    ) {
+      throw new Error("Periodic drive relaxation time must be positive");
+    }
+
+    this.settings = { ...settings };
+    this.axis = axis;
+    this.min = bounds.min.getComponent(axis);
+    this.length = bounds.max.getComponent(axis) - this.min;
+    if (!(this.length > 0)) {
+      throw new Error(`Periodic bounds have no extent along ${settings.axis}`);
+    }
+    this.acceleration = settings.bodyForce ?? 0;
+  }
+
+  /**
+   * Move a packed xyz position back into the period
+   */
+  public wrap(positions: Float32Array, offset: number): void {
+    const p = offset + this.axis;
+    if (positions[p] < this.min) {
+      positions[p] += this.length;
+    } else if (positions[p] >= this.min + this.length) {
+      positions[p] -= this.length;
+    }
+  }
+
+  /**
+   * Update the drive from the bulk velocity at the start of a step
+   */
+  public updateDrive(bulkVelocity: number, deltaTime: number): void {
+    this.bulkVelocity = bulkVelocity;
+    const { targetVelocity } = this.settings;
+    if (targetVelocity === undefined) return;
+
+    const relaxationTime =
+      this.settings.driveRelaxationTime ?? DEFAULT_DRIVE_RELAXATION_TIME;
+    const error = targetVelocity - bulkVelocity;
+    this.integral += (error * deltaTime) / relaxationTime ** 2;
+    this.acceleration = this.integral + (2 * error) / relaxationTime;
+  }
+
+  /**
+   * Apply the drive's body force along the axis
+   */
+  public accumulate(context: PluginContext, accelerations: Float64Array): void {
+    for (let i = 0; i < context.count; i++) {
+      accelerations[i * 3 + this.axis] += this.acceleration;
+    }
+  }
+
+  // Body force per unit mass along the axis, in m/s²
+  public getAcceleration(): number {
+    return this.acceleration;
+  }
+
+  // As of the last updateDrive
+  public getBulkVelocity(): number {
+    return this.bulkVelocity;
+  }
+
+  /**
+   * The drive's memory, which a checkpoint keeps so a run continues exactly
+   */
+  public getDriveState(): number {
+    return this.integral;
+  }
+
+  public setDriveState(integral: number): void {
+    this.integral = integral;
+  }
+
+  public reset(): void {
+    this.integral = 0;
+    this.acceleration = this.settings.bodyForce ?? 0;
+    this.bulkVelocity = 0;
+  }
+}
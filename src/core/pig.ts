@@ -0,0 +1,416 @@
+import * as THREE from "three";
+
+export interface PigParameters {
+  // Pipe centreline from launcher to receiver, in world coordinates
+  centerline: THREE.Vector3[];
+  // Cup/disc seal radius, normally the pipe bore
+  radius: number;
+  // Distance between the rear and front cups in m
+  length: number;
+  // Pig mass in kg
+  mass: number;
+  // Coulomb friction of the seals against the wall in N. The pig stays put
+  // until the driving force exceeds it.
+  frictionForce: number;
+  // Open area through the pig body in m² that fluid can bypass through
+  bypassArea?: number;
+  // Where the pig centre starts, in m along the centreline. Defaults to one
+  // pig length from the launcher.
+  startDistance?: number;
+  // Simulated seconds between recorded samples
+  sampleInterval?: number;
+}
+
+export interface PigSample {
+  time: number;
+  // Distance travelled along the centreline, and the pig centre and
+  // direction of travel in world coordinates
+  distance: number;
+  position: [number, number, number];
+  direction: [number, number, number];
+  velocity: number;
+  // Mean pressure on the rear cup minus the mean pressure on the front cup
+  differentialPressure: number;
+  // Net fluid force along the direction of travel in N
+  fluidForce: number;
+}
+
+/**
+ * Dynamic state of a pig, for checkpoints
+ */
+export interface PigState {
+  distance: number;
+  velocity: number;
+  nextSampleTime: number;
+  history: PigSample[];
+}
+
+/**
+ * A rigid pig sliding along the pipe centreline. It acts on the fluid as two
+ * moving walls, its rear and front cups, with a bypass hole through the
+ * middle. The fluid pushes back through the reactions of those wall forces,
+ * accumulated during a step and applied by `integrate`.
+ */
+export class PigBody {
+  public readonly params: PigParameters;
+  private cumulative: number[] = [0];
+  private bypassRadius: number;
+  private distance: number;
+  private velocity: number = 0;
+  private center = new THREE.Vector3();
+  private tangent = new THREE.Vector3(1, 0, 0);
+  private contactNormal: number[] = [0, 0, 0];
+  // Result of the last `project` call
+  private axial: number = 0;
+  private radial: number = 0;
+  private force = new THREE.Vector3();
+  private rearPressure = { sum: 0, count: 0 };
+  private frontPressure = { sum: 0, count: 0 };
+  private lastSample: PigSample | null = null;
+  private nextSampleTime: number = 0;
+  private history: PigSample[] = [];
+
+  constructor(params: PigParameters) {
+    if (params.centerline.length < 2) {
+      throw new Error("Pig centreline needs at least two points");
+    }
+    if (!(params.mass > 0)) {
+      throw new Error("Pig mass must be positive");
+    }
+
+    this.params = {
+      ...params,
+      centerline: params.centerline.map((p) => p.clone()),
+    };
+    for (let i = 1; i < params.centerline.length; i++) {
+      this.cumulative.push(
+        this.cumulative[i - 1] +
+          params.centerline[i].distanceTo(params.centerline[i - 1])
+      );
+    }
+    this.bypassRadius = Math.sqrt((params.bypassArea ?? 0) / Math.PI);
+    this.distance = params.startDistance ?? params.length;
+    this.updateFrame();
+  }
+
+  public getTotalLength(): number {
+    return this.cumulative[this.cumulative.length - 1];
+  }
+
+  public getCenter(): THREE.Vector3 {
+    return this.center.clone();
+  }
+
+  public getDirection(): THREE.Vector3 {
+    return this.tangent.clone();
+  }
+
+  public getVelocity(): number {
+    return this.velocity;
+  }
+
+  /**
+   * Most recent sample, or null before the first step
+   */
+  public getLastSample(): PigSample | null {
+    return this.lastSample;
+  }
+
+  public getHistory(): PigSample[] {
+    return this.history;
+  }
+
+  public getState(): PigState {
+    return {
+      distance: this.distance,
+      velocity: this.velocity,
+      nextSampleTime: this.nextSampleTime,
+      history: this.history.map((sample) => ({
+        ...sample,
+        position: [...sample.position] as [number, number, number],
+        direction: [...sample.direction] as [number, number, number],
+      })),
+    };
+  }
+
+  public setState(state: PigState): void {
+    this.distance = state.distance;
+    this.velocity = state.velocity;
+    this.nextSampleTime = state.nextSampleTime;
+    this.history = state.history.map((sample) => ({ ...sample }));
+    this.lastSample = this.history[this.history.length - 1] ?? null;
+    this.updateFrame();
+  }
+
+  /**
+   * Back to the launcher at rest, with no recorded samples
+   */
+  public reset(): void {
+    this.setState({
+      distance: this.params.startDistance ?? this.params.length,
+      velocity: 0,
+      nextSampleTime: 0,
+      history: [],
+    });
+  }
+
+  /**
+   * Clear the force and pressure accumulators before a force pass
+   */
+  public beginStep(): void {
+    this.force.set(0, 0, 0);
+    this.rearPressure.sum = 0;
+    this.rearPressure.count = 0;
+    this.frontPressure.sum = 0;
+    this.frontPressure.count = 0;
+  }
+
+  /**
+   * Visit each cup within `kernelRadius` of `position` on the fluid side,
+   * with the distance to it and the unit normal pointing out of the fluid
+   */
+  public forEachContact(
+    position: ArrayLike<number>,
+    kernelRadius: number,
+    callback: (distance: number, normal: ArrayLike<number>) => void
+  ): void {
+    this.project(position, 0);
+    const { axial, radial } = this;
+    if (radial < this.bypassRadius || radial > this.params.radius) return;
+
+    const halfLength = this.params.length / 2;
+    const t = this.tangent;
+    if (axial <= -halfLength && axial > -halfLength - kernelRadius) {
+      this.setContactNormal(t.x, t.y, t.z);
+      callback(-halfLength - axial, this.contactNormal);
+    } else if (axial >= halfLength && axial < halfLength + kernelRadius) {
+      this.setContactNormal(-t.x, -t.y, -t.z);
+      callback(axial - halfLength, this.contactNormal);
+    }
+  }
+
+  /**
+   * Record the reaction of a contact force `force` the pig exerted on a
+   * particle, and that particle's pressure on the cup
+   */
+  public addReaction(
+    force: ArrayLike<number>,
+    normal: ArrayLike<number>,
+    pressure: number
+  ): void {
+    this.force.x -= force[0];
+    this.force.y -= force[1];
+    this.force.z -= force[2];
+
+    // Rear cup normals point along the direction of travel
+    const alongTravel =
+      normal[0] * this.tangent.x +
+      normal[1] * this.tangent.y +
+      normal[2] * this.tangent.z;
+    const face = alongTravel > 0 ? this.rearPressure : this.frontPressure;
+    face.sum += pressure;
+    face.count++;
+  }
+
+  /**
+   * Velocity of the cups, for drag on the particles touching them
+   */
+  public getWallVelocity(out: number[]): number[] {
+    out[0] = this.tangent.x * this.velocity;
+    out[1] = this.tangent.y * this.velocity;
+    out[2] = this.tangent.z * this.velocity;
+    return out;
+  }
+
+  /**
+   * Advance the pig by one step under the accumulated fluid force, gravity
+   * and seal friction, then record a sample if one is due
+   */
+  public integrate(
+    deltaTime: number,
+    gravity: THREE.Vector3,
+    time: number
+  ): void {
+    const { mass, frictionForce } = this.params;
+    const fluidForce = this.force.dot(this.tangent);
+    const drivingForce = fluidForce + mass * gravity.dot(this.tangent);
+
+    // Static friction holds the pig until the driving force exceeds it
+    let netForce = 0;
+    if (this.velocity !== 0) {
+      netForce = drivingForce - frictionForce * Math.sign(this.velocity);
+    } else if (Math.abs(drivingForce) > frictionForce) {
+      netForce = drivingForce - frictionForce * Math.sign(drivingForce);
+    }
+
+    const previousVelocity = this.velocity;
+    this.velocity += (netForce / mass) * deltaTime;
+    // Friction can stop the pig but not reverse it
+    if (
+      previousVelocity !== 0 &&
+      Math.sign(this.velocity) !== Math.sign(previousVelocity) &&
+      Math.abs(drivingForce) <= frictionForce
+    ) {
+      this.velocity = 0;
+    }
+
+    this.distance += this.velocity * deltaTime;
+    // Stop in the launcher or receiver
+    const halfLength = this.params.length / 2;
+    const end = this.getTotalLength() - halfLength;
+    if (this.distance < halfLength || this.distance > end) {
+      this.distance = Math.min(Math.max(this.distance, halfLength), end);
+      this.velocity = 0;
+    }
+    this.updateFrame();
+
+    const rear = this.rearPressure;
+    const front = this.frontPressure;
+    this.lastSample = {
+      time,
+      distance: this.distance,
+      position: [this.center.x, this.center.y, this.center.z],
+      direction: [this.tangent.x, this.tangent.y, this.tangent.z],
+      velocity: this.velocity,
+      differentialPressure:
+        (rear.count > 0 ? rear.sum / rear.count : 0) -
+        (front.count > 0 ? front.sum / front.count : 0),
+      fluidForce,
+    };
+    if (time >= this.nextSampleTime) {
+      this.history.push(this.lastSample);
+      this.nextSampleTime = time + (this.params.sampleInterval ?? 0.01);
+    }
+  }
+
+  /**
+   * Whether a point lies in the solid part of the pig, or within `margin`
+   * of its cups
+   */
+  public occupies(
+    position: ArrayLike<number>,
+    offset: number,
+    margin: number
+  ): boolean {
+    this.project(position, offset);
+    return (
+      this.radial >= this.bypassRadius &&
+      this.radial <= this.params.radius &&
+      Math.abs(this.axial) < this.params.length / 2 + margin
+    );
+  }
+
+  /**
+   * Move a particle that ended up inside the pig body out through the cup
+   * it came from, and stop it moving into the cup. Returns true if the
+   * particle was moved.
+   */
+  public confine(
+    position: Float32Array,
+    velocity: Float32Array,
+    offset: number,
+    previous: ArrayLike<number>,
+    margin: number
+  ): boolean {
+    if (!this.occupies(position, offset, margin)) return false;
+    const axial = this.axial;
+    const halfLength = this.params.length / 2;
+
+    // Leave by the side the particle approached from
+    this.project(previous, 0);
+    const previousAxial = this.axial;
+    const side =
+      Math.abs(previousAxial) > halfLength
+        ? Math.sign(previousAxial)
+        : Math.sign(axial) || 1;
+    const push = side * (halfLength + margin) - axial;
+    const t = this.tangent;
+    position[offset] += t.x * push;
+    position[offset + 1] += t.y * push;
+    position[offset + 2] += t.z * push;
+
+    // Reflect the velocity relative to the cup with the same damping as the
+    // pipe walls
+    const relative =
+      velocity[offset] * t.x +
+      velocity[offset + 1] * t.y +
+      velocity[offset + 2] * t.z -
+      this.velocity;
+    if (relative * side < 0) {
+      const impulse = relative * 1.5;
+      velocity[offset] -= t.x * impulse;
+      velocity[offset + 1] -= t.y * impulse;
+      velocity[offset + 2] -= t.z * impulse;
+    }
+    return true;
+  }
+
+  /**
+   * Split the offset from the pig centre into the distance along the pig
+   * and the distance from its axis
+   */
+  private project(position: ArrayLike<number>, offset: number): void {
+    const dx = position[offset] - this.center.x;
+    const dy = position[offset + 1] - this.center.y;
+    const dz = position[offset + 2] - this.center.z;
+    const axial =
+      dx * this.tangent.x + dy * this.tangent.y + dz * this.tangent.z;
+    const rx = dx - this.tangent.x * axial;
+    const ry = dy - this.tangent.y * axial;
+    const rz = dz - this.tangent.z * axial;
+    this.axial = axial;
+    this.radial = Math.sqrt(rx * rx + ry * ry + rz * rz);
+  }
+
+  private setContactNormal(x: number, y: number, z: number): void {
+    this.contactNormal[0] = x;
+    this.contactNormal[1] = y;
+    this.contactNormal[2] = z;
+  }
+
+  /**
+   * Place the pig centre and direction from its distance along the
+   * centreline
+   */
+  private updateFrame(): void {
+    const points = this.params.centerline;
+    let segment = 1;
+    while (
+      segment < points.length - 1 &&
+      this.cumulative[segment] < this.distance
+    ) {
+      segment++;
+    }
+
+    const start = points[segment - 1];
+    const end = points[segment];
+    const segmentLength =
+      this.cumulative[segment] - this.cumulative[segment - 1];
+    const along =
+      segmentLength > 0
+        ? (this.distance - this.cumulative[segment - 1]) / segmentLength
+        : 0;
+    this.center.lerpVectors(start, end, along);
+    this.tangent.subVectors(end, start).normalize();
+  }
+}
+
+/**
+ * Pig samples as CSV with one row per sample and units in the header
+ */
+export function formatPigLog(samples: PigSample[]): string {
+  const rows = samples.map((sample) =>
+    [
+      sample.time,
+      sample.distance,
+      ...sample.position,
+      sample.velocity,
+      sample.differentialPressure,
+      sample.fluidForce,
+    ].join(",")
+  );
+  return [
+    "time_s,distance_m,x_m,y_m,z_m,velocity_m_s,differential_pressure_pa,fluid_force_n",
+    ...rows,
+  ].join("\n");
+}
@@ -0,0 +1,355 @@
+import {
+  LINEAR_SOLVERS,
+  LinearSolverType,
+  NumericalMethods,
+} from "../utils/numerial-methods";
+import { ParticleOperations } from "../utils/particle-operations";
+import { PluginContext } from "./force-plugins";
+
+/**
+ * Incompressible pressure in place of the equation of state, as in
+ * divergence-free SPH (Bender & Koschier 2015): each step first removes
+ * the velocity divergence, then after the other forces solves for the
+ * pressure that brings the predicted density back to rest. Time steps are
+ * then limited by the flow speed rather than the speed of sound.
+ */
+export interface IncompressibleSettings {
+  // Scheme for both pressure solves; defaults to relaxed-jacobi
+  linearSolver?: LinearSolverType;
+  // Root mean square density error a step may leave, as a fraction of the
+  // rest density. Defaults to 0.001.
+  densityTolerance?: number;
+  // Root mean square rate of density change the divergence solve may
+  // leave, as a fraction of the rest density per second. Defaults to 0.01.
+  divergenceTolerance?: number;
+  // Iteration limit of each solve; defaults to 100
+  maxIterations?: number;
+  // Relaxation factor of relaxed Jacobi; defaults to 0.5
+  relaxation?: number;
+  // Longest step getStableTimeStep returns, in s. Defaults to 0.005.
+  maxTimeStep?: number;
+}
+
+/**
+ * How the last step's pressure solves went
+ */
+export interface PressureSolveResult {
+  divergenceIterations: number;
+  densityIterations: number;
+  // Root mean square density error left, as a fraction of rest density
+  densityError: number;
+  converged: boolean;
+}
+
+const DEFAULT_DENSITY_TOLERANCE = 0.001;
+const DEFAULT_DIVERGENCE_TOLERANCE = 0.01;
+const DEFAULT_MAX_ITERATIONS = 100;
+export const DEFAULT_MAX_INCOMPRESSIBLE_TIME_STEP = 0.005;
+
+/**
+ * Pressure is solved for as q = p / rho², which gives the pressure
+ * acceleration a_i = -sum_j m_j (q_i + q_j) gradW_ij - q_i w_i, with w_i the
+ * walls' share of the same sum. The rate of density change is
+ * D(v)_i = sum_j m_j (v_i - v_j) . gradW_ij + w_i . v_i, and the system is
+ * -D(a(q)) = b. That operator is symmetric and positive semi-definite under
+ * the mass-weighted inner product, so conjugate gradient applies.
+ *
+ * Pressure may push but not pull, or the free surface would tear off into
+ * drops: source terms asking for expansion count as zero, and negative
+ * pressures are dropped. Particles with no neighbors or walls are held at
+ * zero pressure for the solve.
+ */
+export class PressureProjection {
+  public readonly settings: IncompressibleSettings;
+  // Kernel gradient of every neighbor pair, packed as xyz in neighbor list
+  // order
+  private pairGradients: Float64Array = new Float64Array(0);
+  private wallGradients: Float64Array = new Float64Array(0);
+  // diag of the operator; zero for particles with nothing to push against
+  private diagonal: Float64Array = new Float64Array(0);
+  // Particles held at zero pressure in the current solve, which see an
+  // identity row instead
+  private held: Uint8Array = new Uint8Array(0);
+  private heldDiagonal: Float64Array = new Float64Array(0);
+  private pressureAccelerations: Float64Array = new Float64Array(0);
+  private masked: Float64Array = new Float64Array(0);
+  private context!: PluginContext;
+
+  constructor(settings: IncompressibleSettings) {
+    if (
+      settings.linearSolver !== undefined &&
+      !LINEAR_SOLVERS.includes(settings.linearSolver)
+    ) {
+      throw new Error(`Unknown linear solver: ${settings.linearSolver}`);
+    }
+    const positive = [
+      "densityTolerance",
+      "divergenceTolerance",
+      "maxIterations",
+      "maxTimeStep",
+    ] as const;
+    positive.forEach((key) => {
+      const value = settings[key];
+      if (value !== undefined && !(value > 0)) {
+        throw new Error(`Incompressible ${key} must be positive`);
+      }
+    });
+    this.settings = { ...settings };
+  }
+
+  /**
+   * Set up the operator for the particles as they are now. `wallGradients`
+   * holds w_i per particle, packed as xyz.
+   */
+  public prepare(context: PluginContext, wallGradients: Float64Array): void {
+    const { offsets, indices, shifts } = context.neighbors;
+    const [px, py, pz] = context.periodicDirection;
+    const h = context.kernelRadius;
+    const { positions, masses } = context.particles;
+    const count = context.count;
+    this.context = context;
+    this.wallGradients = wallGradients;
+
+    const pairCount = offsets[count];
+    if (this.pairGradients.length < pairCount * 3) {
+      this.pairGradients = new Float64Array(pairCount * 6);
+    }
+    if (this.diagonal.length < count) {
+      this.diagonal = new Float64Array(count * 2);
+      this.held = new Uint8Array(count * 2);
+      this.heldDiagonal = new Float64Array(count * 2);
+      this.pressureAccelerations = new Float64Array(count * 6);
+      this.masked = new Float64Array(count * 2);
+    }
+    const gradients = this.pairGradients;
+
+    for (let i = 0; i < count; i++) {
+      // s_i = sum_j m_j gradW_ij plus the walls, and sum_j m_j |gradW_ij|²
+      let sx = wallGradients[i * 3];
+      let sy = wallGradients[i * 3 + 1];
+      let sz = wallGradients[i * 3 + 2];
+      let squares = 0;
+
+      for (let n = offsets[i]; n < offsets[i + 1]; n++) {
+        const j = indices[n];
+        const shift = shifts ? shifts[n] : 0;
+        const rx = positions[i * 3] - positions[j * 3] + shift * px;
+        const ry = positions[i * 3 + 1] - positions[j * 3 + 1] + shift * py;
+        const rz = positions[i * 3 + 2] - positions[j * 3 + 2] + shift * pz;
+        const scale = ParticleOperations.kernelSpikyGradientScale(
+          Math.sqrt(rx * rx + ry * ry + rz * rz),
+          h
+        );
+        gradients[n * 3] = scale * rx;
+        gradients[n * 3 + 1] = scale * ry;
+        gradients[n * 3 + 2] = scale * rz;
+        sx += masses[j] * scale * rx;
+        sy += masses[j] * scale * ry;
+        sz += masses[j] * scale * rz;
+        squares += masses[j] * scale * scale * (rx * rx + ry * ry + rz * rz);
+      }
+
+      this.diagonal[i] = sx * sx + sy * sy + sz * sz + masses[i] * squares;
+    }
+  }
+
+  /**
+   * Correct the velocities so particles at or above rest density stop
+   * compressing, returning the iterations taken. Under-dense particles are
+   * left free to settle back.
+   */
+  public correctDivergence(
+    restDensities: Float64Array,
+    referenceDensity: number,
+    deltaTime: number
+  ): number {
+    const count = this.context.count;
+    const { velocities, densities } = this.context.particles;
+    const rhs = new Float64Array(count);
+    this.divergence(velocities, rhs);
+    for (let i = 0; i < count; i++) {
+      rhs[i] =
+        densities[i] < restDensities[i] ? 0 : Math.max(0, rhs[i]) / deltaTime;
+    }
+
+    const tolerance =
+      ((this.settings.divergenceTolerance ?? DEFAULT_DIVERGENCE_TOLERANCE) *
+        referenceDensity) /
+      deltaTime;
+    const pressures = new Float64Array(count);
+    const result = this.solve(rhs, pressures, tolerance);
+    this.correctVelocities(pressures, deltaTime);
+    return result.iterations;
+  }
+
+  /**
+   * Correct the velocities so the density after a step of `deltaTime` is
+   * the rest density, and write the pressures that took. The current
+   * pressures are the first guess.
+   */
+  public correctDensity(
+    restDensities: Float64Array,
+    referenceDensity: number,
+    deltaTime: number
+  ): Omit<PressureSolveResult, "divergenceIterations"> {
+    const count = this.context.count;
+    const { velocities, densities, pressures: output } = this.context.particles;
+    const rhs = new Float64Array(count);
+    this.divergence(velocities, rhs);
+    const pressures = new Float64Array(count);
+    for (let i = 0; i < count; i++) {
+      const predicted = densities[i] + deltaTime * rhs[i];
+      rhs[i] = Math.max(0, predicted - restDensities[i]) / deltaTime ** 2;
+      pressures[i] = output[i] / densities[i] ** 2;
+    }
+
+    const tolerance =
+      ((this.settings.densityTolerance ?? DEFAULT_DENSITY_TOLERANCE) *
+        referenceDensity) /
+      deltaTime ** 2;
+    const result = this.solve(rhs, pressures, tolerance);
+    this.correctVelocities(pressures, deltaTime);
+    for (let i = 0; i < count; i++) {
+      output[i] = pressures[i] * densities[i] ** 2;
+    }
+    return {
+      densityIterations: result.iterations,
+      densityError: (result.residual * deltaTime ** 2) / referenceDensity,
+      converged: result.converged,
+    };
+  }
+
+  private solve(
+    rhs: Float64Array,
+    pressures: Float64Array,
+    tolerance: number
+  ): { iterations: number; residual: number; converged: boolean } {
+    for (let i = 0; i < rhs.length; i++) {
+      const held = !(this.diagonal[i] > 0);
+      this.held[i] = held ? 1 : 0;
+      this.heldDiagonal[i] = held ? 1 : this.diagonal[i];
+      if (held) {
+        rhs[i] = 0;
+        pressures[i] = 0;
+      }
+    }
+
+    const type = this.settings.linearSolver ?? "relaxed-jacobi";
+    const maxIterations = this.settings.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const weights = Float64Array.from(this.context.particles.masses);
+    let iterations = 0;
+    for (;;) {
+      const result = NumericalMethods.solve(
+        type,
+        (x, result) => this.apply(x, result),
+        this.heldDiagonal.subarray(0, rhs.length),
+        rhs,
+        pressures,
+        {
+          tolerance,
+          maxIterations: maxIterations - iterations,
+          relaxation: this.settings.relaxation,
+          // The Jacobi variants keep pressure from pulling as they go
+          lowerBound: 0,
+          weights,
+        }
+      );
+      iterations += result.iterations;
+
+      // Conjugate gradient leaves the sign free, so particles that came out
+      // pulling are held at zero and the rest solved again
+      let pulling = false;
+      if (type === "conjugate-gradient") {
+        for (let i = 0; i < rhs.length; i++) {
+          if (this.held[i] || pressures[i] >= 0) continue;
+          this.held[i] = 1;
+          this.heldDiagonal[i] = 1;
+          rhs[i] = 0;
+          pressures[i] = 0;
+          pulling = true;
+        }
+      }
+      if (!pulling || iterations >= maxIterations) {
+        return { ...result, iterations };
+      }
+    }
+  }
+
+  /**
+   * -D(a(q)), with held particles as identity rows
+   */
+  private apply(pressures: Float64Array, result: Float64Array): void {
+    const count = this.context.count;
+    const masked = this.masked;
+    for (let i = 0; i < count; i++) {
+      masked[i] = this.held[i] ? 0 : pressures[i];
+    }
+    const accelerations = this.pressureAccelerations;
+    this.accelerate(masked, accelerations);
+    this.divergence(accelerations, result);
+    for (let i = 0; i < count; i++) {
+      result[i] = this.held[i] ? pressures[i] : -result[i];
+    }
+  }
+
+  private correctVelocities(pressures: Float64Array, deltaTime: number): void {
+    const count = this.context.count;
+    for (let i = 0; i < count; i++) {
+      if (this.held[i] || pressures[i] < 0) pressures[i] = 0;
+    }
+    const accelerations = this.pressureAccelerations;
+    this.accelerate(pressures, accelerations);
+    const velocities = this.context.particles.velocities;
+    for (let i = 0; i < count * 3; i++) {
+      velocities[i] += accelerations[i] * deltaTime;
+    }
+  }
+
+  private accelerate(pressures: Float64Array, result: Float64Array): void {
+    const { offsets, indices } = this.context.neighbors;
+    const masses = this.context.particles.masses;
+    const gradients = this.pairGradients;
+    const walls = this.wallGradients;
+
+    for (let i = 0; i < this.context.count; i++) {
+      const q = pressures[i];
+      let ax = -q * walls[i * 3];
+      let ay = -q * walls[i * 3 + 1];
+      let az = -q * walls[i * 3 + 2];
+      for (let n = offsets[i]; n < offsets[i + 1]; n++) {
+        const j = indices[n];
+        const scale = masses[j] * (q + pressures[j]);
+        ax -= scale * gradients[n * 3];
+        ay -= scale * gradients[n * 3 + 1];
+        az -= scale * gradients[n * 3 + 2];
+      }
+      result[i * 3] = ax;
+      result[i * 3 + 1] = ay;
+      result[i * 3 + 2] = az;
+    }
+  }
+
+  private divergence(vectors: ArrayLike<number>, result: Float64Array): void {
+    const { offsets, indices } = this.context.neighbors;
+    const masses = this.context.particles.masses;
+    const gradients = this.pairGradients;
+    const walls = this.wallGradients;
+
+    for (let i = 0; i < this.context.count; i++) {
+      const vx = vectors[i * 3];
+      const vy = vectors[i * 3 + 1];
+      const vz = vectors[i * 3 + 2];
+      let rate =
+        walls[i * 3] * vx + walls[i * 3 + 1] * vy + walls[i * 3 + 2] * vz;
+      for (let n = offsets[i]; n < offsets[i + 1]; n++) {
+        const j = indices[n];
+        rate +=
+          masses[j] *
+          ((vx - vectors[j * 3]) * gradients[n * 3] +
+            (vy - vectors[j * 3 + 1]) * gradients[n * 3 + 1] +
+            (vz - vectors[j * 3 + 2]) * gradients[n * 3 + 2]);
+      }
+      result[i] = rate;
+    }
+  }
+}
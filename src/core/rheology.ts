@@ -0,0 +1,147 @@
+/**
+ * Shear-rate dependent viscosity. Every model works from the phase's own
+ * `viscosity`, which is the Newtonian viscosity, the Bingham plastic
+ * viscosity or the Carreau zero-shear viscosity; power-law and
+ * Herschel-Bulkley fluids use their consistency instead.
+ *
+ * Yield-stress and shear-thinning fluids have an unbounded viscosity at rest,
+ * so the apparent viscosity is capped at `maxViscosity`. Unyielded regions
+ * then flow very slowly as a stiff Newtonian fluid.
+ */
+export type RheologyModel =
+  | { type: "newtonian" }
+  | {
+      type: "power-law";
+      // K in Pa·s^n and the flow behaviour index n (< 1 shear-thinning)
+      consistency: number;
+      flowIndex: number;
+      maxViscosity?: number;
+    }
+  | {
+      type: "bingham";
+      // Pa
+      yieldStress: number;
+      maxViscosity?: number;
+    }
+  | {
+      type: "herschel-bulkley";
+      yieldStress: number;
+      consistency: number;
+      flowIndex: number;
+      maxViscosity?: number;
+    }
+  | {
+      type: "carreau";
+      // Viscosity plateau at high shear in Pa·s, relaxation time lambda in s
+      // and the power-law index n
+      infiniteShearViscosity: number;
+      relaxationTime: number;
+      flowIndex: number;
+    };
+
+export type RheologyType = RheologyModel["type"];
+
+// Cap on the apparent viscosity of fluids without a zero-shear plateau
+export const DEFAULT_MAX_VISCOSITY = 100;
+
+// Keeps yield stress over shear rate finite for fluid at rest
+const MIN_SHEAR_RATE = 1e-6;
+
+export class Rheology {
+  static isNewtonian(model?: RheologyModel): boolean {
+    return !model || model.type === "newtonian";
+  }
+
+  /**
+   * Apparent viscosity in Pa·s at the given shear rate in 1/s
+   */
+  static apparentViscosity(
+    model: RheologyModel | undefined,
+    viscosity: number,
+    shearRate: number
+  ): number {
+    if (!model || model.type === "newtonian") return viscosity;
+
+    const rate = Math.max(shearRate, MIN_SHEAR_RATE);
+    let apparent: number;
+    switch (model.type) {
+      case "power-law":
+        apparent = model.consistency * Math.pow(rate, model.flowIndex - 1);
+        break;
+      case "bingham":
+        apparent = viscosity + model.yieldStress / rate;
+        break;
+      case "herschel-bulkley":
+        apparent =
+          model.consistency * Math.pow(rate, model.flowIndex - 1) +
+          model.yieldStress / rate;
+        break;
+      case "carreau":
+        return (
+          model.infiniteShearViscosity +
+          (viscosity - model.infiniteShearViscosity) *
+            Math.pow(
+              1 + (model.relaxationTime * rate) ** 2,
+              (model.flowIndex - 1) / 2
+            )
+        );
+    }
+    return Math.min(apparent, Rheology.maxViscosity(model, viscosity));
+  }
+
+  /**
+   * Largest apparent viscosity the model can give, which bounds the viscous
+   * time step
+   */
+  static maxViscosity(
+    model: RheologyModel | undefined,
+    viscosity: number
+  ): number {
+    if (!model || model.type === "newtonian") return viscosity;
+    if (model.type === "carreau") {
+      return Math.max(viscosity, model.infiniteShearViscosity);
+    }
+    return model.maxViscosity ?? DEFAULT_MAX_VISCOSITY;
+  }
+
+  /**
+   * Check the parameters are physical, naming the first that is not
+   */
+  static validate(model: RheologyModel): void {
+    const positive = (value: number, name: string): void => {
+      if (!(value > 0)) {
+        throw new Error(`${model.type} ${name} must be positive`);
+      }
+    };
+    const nonNegative = (value: number, name: string): void => {
+      if (!(value >= 0)) {
+        throw new Error(`${model.type} ${name} must not be negative`);
+      }
+    };
+
+    switch (model.type) {
+      case "newtonian":
+        break;
+      case "power-law":
+        positive(model.consistency, "consistency");
+        positive(model.flowIndex, "flow index");
+        break;
+      case "bingham":
+        nonNegative(model.yieldStress, "yield stress");
+        break;
+      case "herschel-bulkley":
+        nonNegative(model.yieldStress, "yield stress");
+        positive(model.consistency, "consistency");
+        positive(model.flowIndex, "flow index");
+        break;
+      case "carreau":
+        nonNegative(model.infiniteShearViscosity, "infinite-shear viscosity");
+        nonNegative(model.relaxationTime, "relaxation time");
+        positive(model.flowIndex, "flow index");
+        break;
+    }
+    if ("maxViscosity" in model && model.maxViscosity !== undefined) {
+      positive(model.maxViscosity, "maximum viscosity");
+    }
+  }
+}
@@ -0,0 +1,171 @@
+import * as THREE from "three";
+import {
+  IntegratorType,
+  PhaseProperties,
+  SimulationConfig,
+  StepDiagnostics,
+  StepReport,
+} from "./sph-simulator";
+import { FlowPatch } from "./flow-patches";
+import { MonitorDefinitions, MonitorRecord } from "./monitors";
+import { PigParameters, PigSample } from "./pig";
+import { PeriodicSettings } from "./periodic-boundary";
+import { IncompressibleSettings } from "./pressure-projection";
+import { RheologyModel } from "./rheology";
+import { ThermalSettings } from "./thermal";
+
+type Vector3Tuple = [number, number, number];
+
+interface SerializedFlowPatch {
+  center: Vector3Tuple;
+  normal: Vector3Tuple;
+  radius: number;
+  area?: number;
+  flowRate?: number;
+  phaseFractions?: number[];
+  temperature?: number;
+}
+
+interface SerializedPig extends Omit<PigParameters, "centerline"> {
+  centerline: Vector3Tuple[];
+}
+
+/**
+ * SimulationConfig flattened to plain data, since THREE objects lose their
+ * prototypes when structured-cloned into a worker. The boundary mesh travels
+ * as a transferable position buffer.
+ */
+export interface SerializedSimulationConfig {
+  bounds: { min: Vector3Tuple; max: Vector3Tuple };
+  viscosity: number;
+  density: number;
+  flowRate: number;
+  timeStep: number;
+  boundaryPositions?: Float32Array;
+  fluidInsideBoundary?: boolean;
+  inlets?: SerializedFlowPatch[];
+  outlets?: SerializedFlowPatch[];
+  particleSpacing?: number;
+  speedOfSound?: number;
+  artificialViscosity?: number;
+  gravity?: Vector3Tuple;
+  courantNumber?: number;
+  maxSubSteps?: number;
+  integrator?: IntegratorType;
+  phases?: PhaseProperties[];
+  interfaceTension?: number;
+  rheology?: RheologyModel;
+  thermal?: ThermalSettings;
+  pig?: SerializedPig;
+  periodic?: PeriodicSettings;
+  incompressible?: IncompressibleSettings;
+}
+
+// Main thread -> worker
+export type WorkerCommand =
+  | { type: "init"; config: SerializedSimulationConfig }
+  | { type: "start"; frameInterval: number; adaptive: boolean }
+  | { type: "pause" }
+  | { type: "reset" }
+  | { type: "parameters"; config: Partial<SerializedSimulationConfig> }
+  | { type: "frame-ack" }
+  | { type: "save-checkpoint" }
+  | { type: "load-checkpoint"; buffer: ArrayBuffer }
+  | { type: "monitors"; definitions: MonitorDefinitions };
+
+// Worker -> main thread
+export type WorkerEvent =
+  | { type: "ready" }
+  | {
+      type: "frame";
+      positions: Float32Array;
+      velocities: Float32Array;
+      phases: Uint8Array;
+      // Apparent viscosity per particle in Pa·s
+      viscosities: Float32Array;
+      temperatures: Float32Array;
+      count: number;
+      time: number;
+      // Sub-stepping report in adaptive mode
+      report: StepReport | null;
+      // Stability limit at the start of the frame, to flag fixed steps that
+      // exceed it
+      stableTimeStep: number;
+      // Kinetic energy and momentum at the end of the frame
+      diagnostics: StepDiagnostics;
+      // Latest pig state, and the samples it recorded since the last frame
+      pig: PigSample | null;
+      pigSamples: PigSample[];
+      // Monitor records taken since the last frame, once per frame interval
+      monitorRecords: MonitorRecord[];
+    }
+  | { type: "checkpoint"; buffer: ArrayBuffer }
+  | { type: "error"; message: string };
+
+const toTuple = (v: THREE.Vector3): Vector3Tuple => [v.x, v.y, v.z];
+const fromTuple = (t: Vector3Tuple): THREE.Vector3 =>
+  new THREE.Vector3(t[0], t[1], t[2]);
+
+const serializePatch = (patch: FlowPatch): SerializedFlowPatch => ({
+  ...patch,
+  center: toTuple(patch.center),
+  normal: toTuple(patch.normal),
+});
+
+const deserializePatch = (patch: SerializedFlowPatch): FlowPatch => ({
+  ...patch,
+  center: fromTuple(patch.center),
+  normal: fromTuple(patch.normal),
+});
+
+export function serializeConfig(
+  config: SimulationConfig
+): SerializedSimulationConfig {
+  const { bounds, boundaryGeometry, inlets, outlets, gravity, pig, ...rest } =
+    config;
+
+  return {
+    ...rest,
+    bounds: { min: toTuple(bounds.min), max: toTuple(bounds.max) },
+    boundaryPositions: boundaryGeometry
+      ? Float32Array.from(
+          (boundaryGeometry.index
+            ? boundaryGeometry.toNonIndexed()
+            : boundaryGeometry
+          ).getAttribute("position").array
+        )
+      : undefined,
+    inlets: inlets?.map(serializePatch),
+    outlets: outlets?.map(serializePatch),
+    gravity: gravity ? toTuple(gravity) : undefined,
+    pig: pig ? { ...pig, centerline: pig.centerline.map(toTuple) } : undefined,
+  };
+}
+
+export function deserializeConfig(
+  config: SerializedSimulationConfig
+): SimulationConfig {
+  const { bounds, boundaryPositions, inlets, outlets, gravity, pig, ...rest } =
+    config;
+
+  let boundaryGeometry: THREE.BufferGeometry | undefined;
+  if (boundaryPositions) {
+    boundaryGeometry = new THREE.BufferGeometry();
+    boundaryGeometry.setAttribute(
+      "position",
+      new THREE.BufferAttribute(boundaryPositions, 3)
+    );
+  }
+
+  return {
+    ...rest,
+    bounds: new THREE.Box3(fromTuple(bounds.min), fromTuple(bounds.max)),
+    boundaryGeometry,
+    inlets: inlets?.map(deserializePatch),
+    outlets: outlets?.map(deserializePatch),
+    gravity: gravity ? fromTuple(gravity) : undefined,
+    pig: pig
+      ? { ...pig, centerline: pig.centerline.map(fromTuple) }
+      : undefined,
+  };
+}
@@ -0,0 +1,171 @@
+import { SimulationConfig } from "./sph-simulator";
+import { MonitorDefinitions } from "./monitors";
+import {
+  WorkerCommand,
+  WorkerEvent,
+  serializeConfig,
+} from "./simulation-protocol";
+
+/**
+ * The parts of a Web Worker or a worker_threads Worker the client needs,
+ * so the same client drives the solver in the browser and in Node.
+ */
+export interface SimulationWorkerPort {
+  postMessage(command: WorkerCommand, transfer?: ArrayBuffer[]): void;
+  onEvent(listener: (event: WorkerEvent) => void): void;
+  terminate(): void;
+}
+
+export type FrameEvent = Extract<WorkerEvent, { type: "frame" }>;
+
+interface PendingReply<T> {
+  resolve: (value: T) => void;
+  reject: (error: Error) => void;
+}
+
+export class SimulationWorkerClient {
+  private port: SimulationWorkerPort;
+  private frameListeners: ((frame: FrameEvent) => void)[] = [];
+  private errorListeners: ((message: string) => void)[] = [];
+  private pendingReady: PendingReply<void> | null = null;
+  private pendingCheckpoint: PendingReply<ArrayBuffer> | null = null;
+
+  constructor(port: SimulationWorkerPort) {
+    this.port = port;
+    this.port.onEvent((event) => this.handleEvent(event));
+  }
+
+  static fromBrowserWorker(worker: Worker): SimulationWorkerClient {
+    return new SimulationWorkerClient({
+      postMessage: (command, transfer) =>
+        worker.postMessage(command, transfer ?? []),
+      onEvent: (listener) => {
+        worker.onmessage = (event: MessageEvent<WorkerEvent>) =>
+          listener(event.data);
+      },
+      terminate: () => worker.terminate(),
+    });
+  }
+
+  /**
+   * Wrap a worker_threads Worker running the compiled sph-worker script
+   */
+  static fromNodeWorker(worker: {
+    postMessage(message: unknown, transferList?: ArrayBuffer[]): void;
+    on(event: "message", listener: (message: WorkerEvent) => void): unknown;
+    terminate(): unknown;
+  }): SimulationWorkerClient {
+    return new SimulationWorkerClient({
+      postMessage: (command, transfer) => worker.postMessage(command, transfer),
+      onEvent: (listener) => worker.on("message", listener),
+      terminate: () => {
+        worker.terminate();
+      },
+    });
+  }
+
+  /**
+   * Build the simulator inside the worker. Resolves once it is ready; the
+   * initial particle state arrives as a frame right after.
+   */
+  public init(config: SimulationConfig): Promise<void> {
+    const serialized = serializeConfig(config);
+    return new Promise((resolve, reject) => {
+      this.pendingReady = { resolve, reject };
+      this.port.postMessage(
+        { type: "init", config: serialized },
+        serialized.boundaryPositions
+          ? [serialized.boundaryPositions.buffer as ArrayBuffer]
+          : []
+      );
+    });
+  }
+
+  public start(frameInterval: number, adaptive: boolean): void {
+    this.port.postMessage({ type: "start", frameInterval, adaptive });
+  }
+
+  public pause(): void {
+    this.port.postMessage({ type: "pause" });
+  }
+
+  public reset(): void {
+    this.port.postMessage({ type: "reset" });
+  }
+
+  public setParameters(config: SimulationConfig): void {
+    // The boundary is fixed at init; only send the fluid and solver settings
+    this.port.postMessage({
+      type: "parameters",
+      config: serializeConfig({ ...config, boundaryGeometry: undefined }),
+    });
+  }
+
+  /**
+   * Snapshot the running simulation as a checkpoint file's contents
+   */
+  public saveCheckpoint(): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      this.pendingCheckpoint = { resolve, reject };
+      this.port.postMessage({ type: "save-checkpoint" });
+    });
+  }
+
+  /**
+   * Replace the simulation with one restored from a checkpoint. The buffer
+   * is transferred to the worker and unusable here afterwards.
+   */
+  public loadCheckpoint(buffer: ArrayBuffer): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.pendingReady = { resolve, reject };
+      this.port.postMessage({ type: "load-checkpoint", buffer }, [buffer]);
+    });
+  }
+
+  /**
+   * Replace the probes and sections monitored in the worker, starting a new
+   * history
+   */
+  public setMonitors(definitions: MonitorDefinitions): void {
+    this.port.postMessage({ type: "monitors", definitions });
+  }
+
+  public onFrame(listener: (frame: FrameEvent) => void): void {
+    this.frameListeners.push(listener);
+  }
+
+  public onError(listener: (message: string) => void): void {
+    this.errorListeners.push(listener);
+  }
+
+  public terminate(): void {
+    this.port.terminate();
+  }
+
+  private handleEvent(event: WorkerEvent): void {
+    switch (event.type) {
+      case "ready":
+        this.pendingReady?.resolve();
+        this.pendingReady = null;
+        break;
+      case "frame":
+        this.frameListeners.forEach((listener) => listener(event));
+        // The buffers now belong to this thread; let the worker send the
+        // next frame
+        this.port.postMessage({ type: "frame-ack" });
+        break;
+      case "checkpoint":
+        this.pendingCheckpoint?.resolve(event.buffer);
+        this.pendingCheckpoint = null;
+        break;
+      case "error":
+        // A failed request is answered with an error instead of its reply
+        this.pendingReady?.reject(new Error(event.message));
+        this.pendingCheckpoint?.reject(new Error(event.message));
+        this.pendingReady = null;
+        this.pendingCheckpoint = null;
+        this.errorListeners.forEach((listener) => listener(event.message));
+        break;
+    }
+  }
+}
@@ -1,35 +1,250 @@
 import * as THREE from "three";
 import { vec3 } from "gl-matrix";
+import { NeighborList, SpatialHashGrid } from "../utils/spatial-hash";
+import { SignedDistanceField } from "./boundary-sdf";
+import { FlowPatch, InletEmitter, OutletSink } from "./flow-patches";
+import { ParticleOperations } from "../utils/particle-operations";
+import { WallKernelTable } from "./wall-kernels";
+import { ParticleArrays, ParticleStore } from "./particle-store";
+import { PigBody, PigParameters, PigSample, PigState } from "./pig";
+import { Rheology, RheologyModel } from "./rheology";
+import { Thermal, ThermalProperties, ThermalSettings } from "./thermal";
+import { PeriodicBoundary, PeriodicSettings } from "./periodic-boundary";
+import {
+  ConstraintPlugin,
+  ForcePlugin,
+  GravityForce,
+  InterfaceTensionForce,
+  PluginContext,
+  PressureForce,
+  ViscosityForce,
+} from "./force-plugins";
+import {
+  DEFAULT_MAX_INCOMPRESSIBLE_TIME_STEP,
+  IncompressibleSettings,
+  PressureProjection,
+  PressureSolveResult,
+} from "./pressure-projection";
 
-interface SPHParticle {
-  position: vec3;
-  velocity: vec3;
+// Velocity of the pipe walls, for terms that also handle the moving pig
+const FIXED_WALL_VELOCITY = [0, 0, 0];
+
+export interface PhaseProperties {
+  name?: string;
+  // Rest density in kg/m³ and dynamic viscosity in Pa·s
   density: number;
-  pressure: number;
+  viscosity: number;
+  // Shear-rate dependent viscosity; Newtonian when omitted
+  rheology?: RheologyModel;
+  // Overrides the simulation's fluid thermal properties for this phase
+  thermal?: ThermalProperties;
 }
 
+/**
+ * How each step advances particles from the forces:
+ * - euler: kick then drift with the new velocity (symplectic Euler), one
+ *   force evaluation
+ * - leapfrog: half drift, kick at the midpoint, half drift; one evaluation
+ * - velocity-verlet: half kick, drift, half kick with the forces at the new
+ *   positions, which are reused for the next step's first half kick
+ * - predictor-corrector: half step to a midpoint, then the full step with
+ *   the midpoint forces; two evaluations
+ */
+export type IntegratorType =
+  | "euler"
+  | "leapfrog"
+  | "velocity-verlet"
+  | "predictor-corrector";
+
+const INTEGRATORS: IntegratorType[] = [
+  "euler",
+  "leapfrog",
+  "velocity-verlet",
+  "predictor-corrector",
+];
+
 interface SimulationParameters {
   bounds: THREE.Box3;
   viscosity: number;
   density: number;
   flowRate: number;
   timeStep: number;
+  // Pipe surface the fluid is confined by, in world coordinates. Without it
+  // particles are only kept inside `bounds`.
+  boundaryGeometry?: THREE.BufferGeometry;
+  // False when the geometry is the pipe wall solid rather than the fluid
+  // volume, so the fluid lives in the bore outside the mesh. Detected from
+  // the geometry and the flow patches when not given.
+  fluidInsideBoundary?: boolean;
+  // Patches where fluid enters at `flowRate` and where it leaves the domain
+  inlets?: FlowPatch[];
+  outlets?: FlowPatch[];
+  // Initial particle spacing in m; the kernel radius is twice this
+  particleSpacing?: number;
+  // Numerical speed of sound in m/s for the Tait equation of state. Density
+  // varies by roughly (v / c)^2, so keep it at least 10x the peak velocity
+  // for under 1% compressibility.
+  speedOfSound?: number;
+  // Monaghan alpha; damps pressure oscillations. Set to 0 for a purely
+  // physical (Laplacian) viscosity.
+  artificialViscosity?: number;
+  gravity?: THREE.Vector3;
+  // Safety factor on the acoustic CFL limit used by `advance`
+  courantNumber?: number;
+  // Cap on sub-steps per `advance` call, so a stiff setup cannot hang a frame
+  maxSubSteps?: number;
+  // Time integration scheme; defaults to euler
+  integrator?: IntegratorType;
+  // Fluid phases by phase id (at most 256). Phase 0 replaces `density` and
+  // `viscosity` when given; without it there is a single phase with those.
+  phases?: PhaseProperties[];
+  // Surface tension in N/m acting on interfaces between different phases
+  interfaceTension?: number;
+  // Rheology of the fluid when `phases` is not given
+  rheology?: RheologyModel;
+  // Temperature field with conduction and wall heat transfer. Without it
+  // the flow is isothermal.
+  thermal?: ThermalSettings;
+  // Rigid pig driven along the pipe by the fluid
+  pig?: PigParameters;
+  // Repeat the domain along one axis of `bounds`, for fully developed flow
+  periodic?: PeriodicSettings;
+  // Solve for incompressible pressure instead of using the equation of
+  // state, which allows much longer steps. Takes symplectic Euler steps.
+  incompressible?: IncompressibleSettings;
+}
+
+export interface StepReport {
+  // Simulated time covered by the call
+  elapsed: number;
+  subSteps: number;
+  // Smallest and largest sub-step used
+  minTimeStep: number;
+  maxTimeStep: number;
+  // True when maxSubSteps was hit before the full interval was covered
+  truncated: boolean;
+  // After the last sub-step
+  diagnostics: StepDiagnostics;
+}
+
+/**
+ * Conserved quantities of the fluid, to compare how well integrators keep
+ * them
+ */
+export interface StepDiagnostics {
+  // Kinetic energy in J and linear momentum in kg·m/s
+  kineticEnergy: number;
+  momentum: [number, number, number];
 }
 
 export interface SimulationConfig extends SimulationParameters {
   bounds: THREE.Box3;
 }
 
+/**
+ * Run state on top of the configuration, enough to continue a run exactly
+ */
+export interface SimulationState {
+  time: number;
+  stepCount: number;
+  // Drives the first sub-step size after a restore
+  maxAcceleration: number;
+  // Fluid length each inlet has advanced since its last emitted layer
+  inletProgress: number[];
+  // Particles each inlet has emitted, which sets the phase of the next ones
+  inletEmitted: number[];
+  particles: ParticleArrays;
+  pig?: PigState;
+  // Memory of the periodic bulk velocity drive
+  periodicDrive?: number;
+  // Accelerations at the captured positions and velocities, which
+  // velocity-Verlet carries into its next step. Absent when not current.
+  accelerations?: Float64Array;
+}
+
+/**
+ * Bulk velocity of a periodic run and the drive holding it
+ */
+export interface PeriodicDriveSample {
+  bulkVelocity: number;
+  // Body force in m/s² along the periodic axis, and the mean pressure
+  // gradient in Pa/m it stands for
+  bodyForce: number;
+  pressureGradient: number;
+}
+
 export class SPHSimulator {
-  private particles: SPHParticle[] = [];
+  private particles: ParticleStore = new ParticleStore();
   private boundingGeometry: THREE.Object3D;
+  private bounds: THREE.Box3;
+  private boundary: SignedDistanceField | null = null;
+  private wallNormal: number[] = [0, 0, 0];
+  // Scratch copy of one particle's position for the flow patch tests
+  private scratchPosition: vec3 = vec3.create();
+  private accelerations: Float64Array = new Float64Array(0);
+  // Set while `accelerations` holds the forces at the current positions and
+  // velocities, which velocity-Verlet carries into the next step
+  private accelerationsCurrent: boolean = false;
+  // Start-of-step positions and velocities for the predictor-corrector
+  private stepStartPositions: Float32Array = new Float32Array(0);
+  private stepStartVelocities: Float32Array = new Float32Array(0);
+  // Gravity, pressure, viscosity and the other forces the configuration
+  // calls for, followed by the registered ones
+  private builtInForces: ForcePlugin[] = [];
+  private forces: ForcePlugin[] = [];
+  private constraints: ConstraintPlugin[] = [];
+  private inlets: InletEmitter[] = [];
+  private outlets: OutletSink[] = [];
+  private pig: PigBody | null = null;
+  private pigWallVelocity: number[] = [0, 0, 0];
+  private pigContactForce: number[] = [0, 0, 0];
+  private periodic: PeriodicBoundary | null = null;
+  private projection: PressureProjection | null = null;
+  private pressureSolve: PressureSolveResult | null = null;
+  // Walls' share of each particle's kernel gradient sum for the projection,
+  // packed as xyz
+  private wallGradients: Float64Array = new Float64Array(0);
+  // Unit vector along the periodic axis; zero without one
+  private periodicDirection: number[] = [0, 0, 0];
+  private neighborGrid: SpatialHashGrid;
+  private neighbors: NeighborList = {
+    offsets: new Int32Array(1),
+    indices: new Int32Array(0),
+  };
 
   private simulationParams = {
+    particleSpacing: 0.05,
     kernelRadius: 0.1,
     restDensity: 1000,
-    viscosityCoefficient: 0.1,
-    pressureCoefficient: 50,
+    viscosityCoefficient: 0.001,
+    speedOfSound: 20,
+    artificialViscosity: 0.05,
+    gravity: new THREE.Vector3(0, -9.81, 0),
+    flowRate: 0,
+    courantNumber: 0.4,
+    maxSubSteps: 500,
+    interfaceTension: 0,
+    integrator: "euler" as IntegratorType,
   };
+  // Per-phase properties indexed by phase id
+  private phaseDensity: Float64Array = new Float64Array(1);
+  private phaseViscosity: Float64Array = new Float64Array(1);
+  private phaseMass: Float64Array = new Float64Array(1);
+  private phaseSoundSpeed: Float64Array = new Float64Array(1);
+  private phaseRheology: (RheologyModel | undefined)[] = [undefined];
+  // Apparent viscosity of each particle at its current shear rate, valid
+  // for the first `viscosityCount` particles
+  private particleViscosity: Float64Array = new Float64Array(0);
+  private viscosityCount: number = 0;
+  private thermal: ThermalSettings | null = null;
+  private phaseThermal: ThermalProperties[] = [];
+  private heatRates: Float64Array = new Float64Array(0);
+  private config: SimulationConfig;
+  private time: number = 0;
+  private stepCount: number = 0;
+  private maxAcceleration: number = 0;
+  private particleMass: number = 0;
+  private wallKernels!: WallKernelTable;
 
   constructor(params: SimulationParameters) {
     // Create a box mesh from the bounds
@@ -42,188 +257,1466 @@ export class SPHSimulator {
     this.boundingGeometry.position.copy(
       params.bounds.getCenter(new THREE.Vector3())
     );
+    this.bounds = new THREE.Box3().setFromObject(this.boundingGeometry);
 
     // Initialize simulation parameters
+    this.config = { ...params };
     this.setSimulationParameters(params);
+    this.neighborGrid = new SpatialHashGrid(this.simulationParams.kernelRadius);
+
+    if (params.periodic) {
+      this.periodic = new PeriodicBoundary(params.periodic, this.bounds);
+      this.periodicDirection[this.periodic.axis] = 1;
+      this.configureForces();
+    }
+
+    if (params.boundaryGeometry) {
+      this.boundary = SignedDistanceField.fromGeometry(
+        params.boundaryGeometry,
+        {
+          cellSize: this.simulationParams.kernelRadius * 0.5,
+          fluidInside: params.fluidInsideBoundary,
+          periodicAxis: this.periodic?.axis,
+          openings: [
+            ...(params.inlets ?? []).map(({ center, normal, radius }) => ({
+              center,
+              direction: normal.clone().negate(),
+              radius,
+            })),
+            ...(params.outlets ?? []).map(({ center, normal, radius }) => ({
+              center,
+              direction: normal,
+              radius,
+            })),
+          ],
+        }
+      );
+    }
+
+    const spacing = this.simulationParams.particleSpacing;
+    this.inlets = (params.inlets ?? []).map(
+      (patch) => new InletEmitter(patch, spacing)
+    );
+    this.outlets = (params.outlets ?? []).map((patch) => new OutletSink(patch));
+    this.pig = params.pig ? new PigBody(params.pig) : null;
   }
 
   public setSimulationParameters(params: SimulationParameters): void {
+    // The domain, boundary, flow patches, pig and periodicity are fixed at
+    // construction
+    const {
+      bounds,
+      boundaryGeometry,
+      fluidInsideBoundary,
+      inlets,
+      outlets,
+      pig,
+      periodic,
+    } = this.config;
+    this.config = {
+      ...params,
+      bounds,
+      boundaryGeometry,
+      fluidInsideBoundary,
+      inlets,
+      outlets,
+      pig,
+      periodic,
+    };
+
+    const phases = params.phases ?? [
+      {
+        density: params.density,
+        viscosity: params.viscosity,
+        rheology: params.rheology,
+      },
+    ];
+    if (phases.length === 0 || phases.length > 256) {
+      throw new Error(`Expected 1 to 256 phases, got ${phases.length}`);
+    }
+
+    if (params.integrator && !INTEGRATORS.includes(params.integrator)) {
+      throw new Error(`Unknown integrator: ${params.integrator}`);
+    }
+    if (params.incompressible) {
+      if ((params.integrator ?? "euler") !== "euler") {
+        throw new Error(
+          `The incompressible solver takes euler steps, not ${params.integrator}`
+        );
+      }
+      if (pig) {
+        throw new Error("The incompressible solver does not drive a pig");
+      }
+    }
+    this.projection = params.incompressible
+      ? new PressureProjection(params.incompressible)
+      : null;
+    if (params.thermal) Thermal.validate(params.thermal.fluid);
+    this.thermal = params.thermal ?? null;
+
+    const particleSpacing =
+      params.particleSpacing ?? this.simulationParams.particleSpacing;
     this.simulationParams = {
       ...this.simulationParams,
-      restDensity: params.density,
-      viscosityCoefficient: params.viscosity,
-      pressureCoefficient: params.flowRate * 50, // Scale flow rate to pressure
+      particleSpacing,
+      kernelRadius: 2 * particleSpacing,
+      restDensity: phases[0].density,
+      viscosityCoefficient: phases[0].viscosity,
+      speedOfSound: params.speedOfSound ?? this.simulationParams.speedOfSound,
+      artificialViscosity:
+        params.artificialViscosity ?? this.simulationParams.artificialViscosity,
+      gravity: (params.gravity ?? this.simulationParams.gravity).clone(),
+      flowRate: params.flowRate,
+      courantNumber:
+        params.courantNumber ?? this.simulationParams.courantNumber,
+      maxSubSteps: params.maxSubSteps ?? this.simulationParams.maxSubSteps,
+      interfaceTension:
+        params.interfaceTension ?? this.simulationParams.interfaceTension,
+      integrator: params.integrator ?? this.simulationParams.integrator,
     };
+    this.accelerationsCurrent = false;
+    this.particleMass = this.calibrateParticleMass();
+    this.wallKernels = new WallKernelTable(
+      particleSpacing,
+      this.simulationParams.kernelRadius,
+      this.particleMass
+    );
+    this.configurePhases(phases);
+    this.configureForces();
   }
 
-  public step(deltaTime: number): void {
-    this.calculateDensity();
-    this.calculatePressure();
-    this.applyForces(deltaTime);
-    this.updatePositions(deltaTime);
+  /**
+   * Register a force, applied after the built-in ones and those registered
+   * earlier
+   */
+  public addForce(force: ForcePlugin): void {
+    if (this.forces.includes(force)) {
+      throw new Error(`Force ${force.name} is already registered`);
+    }
+    this.forces.push(force);
+    this.accelerationsCurrent = false;
+  }
+
+  public removeForce(force: ForcePlugin): boolean {
+    const index = this.forces.indexOf(force);
+    if (index === -1) return false;
+    this.forces.splice(index, 1);
+    this.accelerationsCurrent = false;
+    return true;
+  }
+
+  /**
+   * Register a constraint, applied after each move in registration order
+   */
+  public addConstraint(constraint: ConstraintPlugin): void {
+    if (this.constraints.includes(constraint)) {
+      throw new Error(`Constraint ${constraint.name} is already registered`);
+    }
+    this.constraints.push(constraint);
+  }
+
+  public removeConstraint(constraint: ConstraintPlugin): boolean {
+    const index = this.constraints.indexOf(constraint);
+    if (index === -1) return false;
+    this.constraints.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Every force in the order it is applied, built-in ones first. Wall
+   * forces are not among them: they belong to the boundary, along with the
+   * pig they push.
+   */
+  public getForces(): ForcePlugin[] {
+    return [...this.builtInForces, ...this.forces];
+  }
+
+  public getConstraints(): ConstraintPlugin[] {
+    return [...this.constraints];
+  }
+
+  public step(deltaTime: number): StepDiagnostics {
+    this.periodic?.updateDrive(this.getBulkVelocity(), deltaTime);
+    switch (
+      this.projection ? "incompressible" : this.simulationParams.integrator
+    ) {
+      case "incompressible":
+        this.stepIncompressible(deltaTime, this.projection!);
+        break;
+      case "leapfrog":
+        this.stepLeapfrog(deltaTime);
+        break;
+      case "velocity-verlet":
+        this.stepVelocityVerlet(deltaTime);
+        break;
+      case "predictor-corrector":
+        this.stepPredictorCorrector(deltaTime);
+        break;
+      default:
+        this.stepEuler(deltaTime);
+    }
+    this.time += deltaTime;
+    this.stepCount++;
+    return this.getStepDiagnostics();
+  }
+
+  /**
+   * Advance by `frameInterval` seconds in as many sub-steps as stability
+   * needs, each sized by getStableTimeStep.
+   */
+  public advance(frameInterval: number): StepReport {
+    const report: StepReport = {
+      elapsed: 0,
+      subSteps: 0,
+      minTimeStep: Infinity,
+      maxTimeStep: 0,
+      truncated: false,
+      diagnostics: this.getStepDiagnostics(),
+    };
+
+    while (report.elapsed < frameInterval * (1 - 1e-9)) {
+      if (report.subSteps >= this.simulationParams.maxSubSteps) {
+        report.truncated = true;
+        break;
+      }
+
+      const deltaTime = Math.min(
+        this.getStableTimeStep(),
+        frameInterval - report.elapsed
+      );
+      report.diagnostics = this.step(deltaTime);
+
+      report.elapsed += deltaTime;
+      report.subSteps++;
+      report.minTimeStep = Math.min(report.minTimeStep, deltaTime);
+      report.maxTimeStep = Math.max(report.maxTimeStep, deltaTime);
+    }
+
+    if (report.subSteps === 0) report.minTimeStep = 0;
+    return report;
+  }
+
+  /**
+   * Largest time step that keeps the next step stable: the minimum of the
+   * acoustic CFL, viscous diffusion, body-force and interface tension limits.
+   */
+  public getStableTimeStep(): number {
+    const {
+      kernelRadius: h,
+      gravity,
+      courantNumber,
+      interfaceTension,
+    } = this.simulationParams;
+
+    // The lightest phase has the fastest sound and, usually, the highest
+    // kinematic viscosity. Non-Newtonian phases are bounded by their
+    // viscosity at rest, which unyielded fluid reaches.
+    let speedOfSound = 0;
+    let kinematicViscosity = 0;
+    let minDensity = Infinity;
+    for (let k = 0; k < this.phaseDensity.length; k++) {
+      speedOfSound = Math.max(speedOfSound, this.phaseSoundSpeed[k]);
+      kinematicViscosity = Math.max(
+        kinematicViscosity,
+        Rheology.maxViscosity(this.phaseRheology[k], this.phaseViscosity[k]) /
+          this.phaseDensity[k]
+      );
+      minDensity = Math.min(minDensity, this.phaseDensity[k]);
+    }
+
+    // Heat diffuses on the same explicit limit as momentum, and cold fluid
+    // may be more viscous than the nominal viscosity
+    let thermalDiffusivity = 0;
+    if (this.thermal) {
+      this.phaseThermal.forEach((properties, k) => {
+        thermalDiffusivity = Math.max(
+          thermalDiffusivity,
+          properties.conductivity /
+            (this.phaseDensity[k] * properties.specificHeat)
+        );
+      });
+      let viscosityFactor = 1;
+      for (let i = 0; i < this.particles.getCount(); i++) {
+        viscosityFactor = Math.max(viscosityFactor, this.viscosityFactorOf(i));
+      }
+      kinematicViscosity *= viscosityFactor;
+    }
+
+    const velocities = this.particles.velocities;
+    let maxSpeedSquared = 0;
+    for (let i = 0; i < this.particles.getCount() * 3; i += 3) {
+      maxSpeedSquared = Math.max(
+        maxSpeedSquared,
+        velocities[i] ** 2 + velocities[i + 1] ** 2 + velocities[i + 2] ** 2
+      );
+    }
+    const maxSpeed = Math.sqrt(maxSpeedSquared);
+    // Without sound waves to resolve, only the flow limits the step
+    let timeStep = this.projection
+      ? Math.min(
+          (courantNumber * h) / maxSpeed,
+          this.projection.settings.maxTimeStep ??
+            DEFAULT_MAX_INCOMPRESSIBLE_TIME_STEP
+        )
+      : (courantNumber * h) / (speedOfSound + maxSpeed);
+
+    if (kinematicViscosity > 0) {
+      timeStep = Math.min(timeStep, (0.125 * h * h) / kinematicViscosity);
+    }
+
+    if (thermalDiffusivity > 0) {
+      timeStep = Math.min(timeStep, (0.125 * h * h) / thermalDiffusivity);
+    }
+
+    if (this.hasInterfaceTension()) {
+      timeStep = Math.min(
+        timeStep,
+        0.25 *
+          Math.sqrt((minDensity * h ** 3) / (2 * Math.PI * interfaceTension))
+      );
+    }
+
+    // Until the first force pass, gravity is the only known acceleration
+    const acceleration = Math.max(this.maxAcceleration, gravity.length());
+    if (acceleration > 0) {
+      timeStep = Math.min(timeStep, 0.25 * Math.sqrt(h / acceleration));
+    }
+
+    return timeStep;
   }
 
   public resetSimulation(): void {
     // Reset all particles to their initial positions
     const bounds = new THREE.Box3().setFromObject(this.boundingGeometry);
-    this.particles = [];
-    this.initializeParticles(bounds, this.simulationParams.kernelRadius);
+    this.particles.clear();
+    this.maxAcceleration = 0;
+    this.accelerationsCurrent = false;
+    this.viscosityCount = 0;
+    this.time = 0;
+    this.stepCount = 0;
+    this.inlets.forEach((inlet) => {
+      inlet.setPendingLength(0);
+      inlet.setEmittedCount(0);
+    });
+    this.pig?.reset();
+    this.periodic?.reset();
+    this.initializeParticles(bounds, this.simulationParams.particleSpacing);
+  }
+
+  /**
+   * The configuration in effect: the constructor's, with any later
+   * setSimulationParameters applied
+   */
+  public getConfig(): SimulationConfig {
+    return this.config;
+  }
+
+  // Simulated time and steps taken since the last reset
+  public getTime(): number {
+    return this.time;
+  }
+
+  public getStepCount(): number {
+    return this.stepCount;
+  }
+
+  /**
+   * Kinetic energy and momentum of the particles as they are now
+   */
+  public getStepDiagnostics(): StepDiagnostics {
+    const { velocities, masses } = this.particles;
+    let kineticEnergy = 0;
+    const momentum: [number, number, number] = [0, 0, 0];
+    for (let i = 0; i < this.particles.getCount(); i++) {
+      const vx = velocities[i * 3];
+      const vy = velocities[i * 3 + 1];
+      const vz = velocities[i * 3 + 2];
+      kineticEnergy += 0.5 * masses[i] * (vx * vx + vy * vy + vz * vz);
+      momentum[0] += masses[i] * vx;
+      momentum[1] += masses[i] * vy;
+      momentum[2] += masses[i] * vz;
+    }
+    return { kineticEnergy, momentum };
+  }
+
+  /**
+   * Copy of the run state, for checkpoints
+   */
+  public captureState(): SimulationState {
+    return {
+      time: this.time,
+      stepCount: this.stepCount,
+      maxAcceleration: this.maxAcceleration,
+      inletProgress: this.inlets.map((inlet) => inlet.getPendingLength()),
+      inletEmitted: this.inlets.map((inlet) => inlet.getEmittedCount()),
+      particles: this.particles.copyArrays(),
+      pig: this.pig?.getState(),
+      periodicDrive: this.periodic?.getDriveState(),
+      accelerations: this.accelerationsCurrent
+        ? this.accelerations.slice(0, this.particles.getCount() * 3)
+        : undefined,
+    };
+  }
+
+  /**
+   * Replace the run state with a captured one. Taking the same steps from
+   * here reproduces the original run exactly.
+   */
+  public restoreState(state: SimulationState): void {
+    if (state.inletProgress.length !== this.inlets.length) {
+      throw new Error(
+        `State has ${state.inletProgress.length} inlets, simulation has ${this.inlets.length}`
+      );
+    }
+
+    this.particles.load(state.particles);
+    this.viscosityCount = 0;
+    this.accelerationsCurrent = state.accelerations !== undefined;
+    if (state.accelerations) {
+      if (this.accelerations.length < state.accelerations.length) {
+        this.accelerations = new Float64Array(this.particles.positions.length);
+      }
+      this.accelerations.set(state.accelerations);
+    }
+    this.time = state.time;
+    this.stepCount = state.stepCount;
+    this.maxAcceleration = state.maxAcceleration;
+    this.inlets.forEach((inlet, i) => {
+      inlet.setPendingLength(state.inletProgress[i]);
+      inlet.setEmittedCount(state.inletEmitted[i]);
+    });
+    if (this.pig && state.pig) this.pig.setState(state.pig);
+    this.periodic?.setDriveState(state.periodicDrive ?? 0);
+  }
+
+  /**
+   * The pig's latest position, velocity and differential pressure, or null
+   * without a pig or before the first step
+   */
+  public getPigSample(): PigSample | null {
+    return this.pig?.getLastSample() ?? null;
+  }
+
+  /**
+   * Pig samples recorded every `sampleInterval` since the last reset
+   */
+  public getPigHistory(): PigSample[] {
+    return this.pig?.getHistory() ?? [];
+  }
+
+  /**
+   * Iterations and remaining density error of the last step's pressure
+   * solves, for incompressible runs
+   */
+  public getPressureSolve(): PressureSolveResult | null {
+    return this.pressureSolve;
+  }
+
+  /**
+   * The periodic drive as of the last step, or null without periodicity
+   */
+  public getPeriodicDrive(): PeriodicDriveSample | null {
+    if (!this.periodic) return null;
+    const bodyForce = this.periodic.getAcceleration();
+    return {
+      bulkVelocity: this.periodic.getBulkVelocity(),
+      bodyForce,
+      pressureGradient: -this.simulationParams.restDensity * bodyForce,
+    };
+  }
+
+  public getParticleCount(): number {
+    return this.particles.getCount();
+  }
+
+  /**
+   * Packed xyz positions of every particle. This is a view of the solver's
+   * own storage: copy it if it must outlive the next step.
+   */
+  public getParticlePositions(): Float32Array {
+    return this.particles.getPositionView();
+  }
+
+  public getParticleVelocities(): Float32Array {
+    return this.particles.getVelocityView();
+  }
+
+  public getParticleDensities(): Float32Array {
+    return this.particles.getDensityView();
   }
 
-  public getParticlePositions(): vec3[] {
-    return this.particles.map((particle) => particle.position);
+  public getParticlePressures(): Float32Array {
+    return this.particles.getPressureView();
   }
 
-  public getParticleVelocities(): vec3[] {
-    return this.particles.map((particle) => particle.velocity);
+  public getParticlePhases(): Uint8Array {
+    return this.particles.getPhaseView();
+  }
+
+  public getParticleMasses(): Float32Array {
+    return this.particles.getMassView();
+  }
+
+  // Smoothing length in m, twice the particle spacing
+  public getKernelRadius(): number {
+    return this.simulationParams.kernelRadius;
+  }
+
+  /**
+   * Apparent viscosity of each particle in Pa·s as of the last step, before
+   * which it is the phase viscosity
+   */
+  public getParticleViscosities(): Float64Array {
+    const count = this.particles.getCount();
+    if (this.particleViscosity.length < count) {
+      this.particleViscosity = new Float64Array(
+        this.particles.positions.length / 3
+      );
+    }
+    const phases = this.particles.phases;
+    for (let i = this.viscosityCount; i < count; i++) {
+      this.particleViscosity[i] =
+        this.phaseViscosity[phases[i]] * this.viscosityFactorOf(i);
+    }
+    this.viscosityCount = count;
+    return this.particleViscosity.subarray(0, count);
+  }
+
+  /**
+   * Temperature of each particle, in the units of the thermal settings
+   */
+  public getParticleTemperatures(): Float32Array {
+    return this.particles.getTemperatureView();
   }
 
   public initializeParticles(
     startVolume: THREE.Box3,
-    particleSpacing: number
+    particleSpacing: number,
+    phase: number = 0
   ): void {
+    this.checkPhase(phase);
+    this.accelerationsCurrent = false;
     const min = startVolume.min;
     const max = startVolume.max;
 
     for (let x = min.x; x < max.x; x += particleSpacing) {
       for (let y = min.y; y < max.y; y += particleSpacing) {
         for (let z = min.z; z < max.z; z += particleSpacing) {
-          this.particles.push({
-            position: vec3.fromValues(x, y, z),
-            velocity: vec3.create(),
-            density: this.simulationParams.restDensity,
-            pressure: 0,
-          });
+          // Only seed the pipe bore, half a spacing clear of the wall and
+          // the pig
+          if (
+            this.boundary &&
+            this.boundary.sample(x, y, z) > -particleSpacing * 0.5
+          ) {
+            continue;
+          }
+          if (this.pig?.occupies([x, y, z], 0, particleSpacing * 0.5)) {
+            continue;
+          }
+          this.particles.add(
+            [x, y, z],
+            [0, 0, 0],
+            this.phaseDensity[phase],
+            this.phaseMass[phase],
+            phase,
+            this.thermal?.initialTemperature ?? 0
+          );
         }
       }
     }
   }
 
-  private calculateDensity(): void {
-    this.particles.forEach((particle) => {
-      let density = 0;
+  /**
+   * Largest relative compression above each particle's phase rest density.
+   * Under-dense particles at the free surface are not compression and are
+   * ignored.
+   */
+  public getMaxCompression(): number {
+    const { densities } = this.particles;
+    let maxCompression = 0;
+    for (let i = 0; i < this.particles.getCount(); i++) {
+      const restDensity = this.restDensityOf(i);
+      maxCompression = Math.max(
+        maxCompression,
+        (densities[i] - restDensity) / restDensity
+      );
+    }
+    return maxCompression;
+  }
 
-      this.particles.forEach((other_particle) => {
-        const distance = vec3.distance(
-          particle.position,
-          other_particle.position
-        );
+  public getPhaseCount(): number {
+    return this.phaseDensity.length;
+  }
 
-        if (distance < this.simulationParams.kernelRadius) {
-          density += this.poly6Kernel(distance);
+  /**
+   * Share of the particles in each phase, e.g. the water hold-up
+   */
+  public getPhaseFractions(): number[] {
+    const count = this.particles.getCount();
+    const fractions = new Array(this.getPhaseCount()).fill(0);
+    const phases = this.particles.phases;
+    for (let i = 0; i < count; i++) {
+      fractions[phases[i]]++;
+    }
+    return fractions.map((n) => (count > 0 ? n / count : 0));
+  }
+
+  /**
+   * Choose the particle mass so that a particle inside an ideal lattice at
+   * the initial spacing sums to exactly the rest density.
+   */
+  private calibrateParticleMass(): number {
+    const { particleSpacing, kernelRadius, restDensity } =
+      this.simulationParams;
+    const reach = Math.ceil(kernelRadius / particleSpacing);
+    let kernelSum = 0;
+
+    for (let i = -reach; i <= reach; i++) {
+      for (let j = -reach; j <= reach; j++) {
+        for (let k = -reach; k <= reach; k++) {
+          const r = particleSpacing * Math.sqrt(i * i + j * j + k * k);
+          kernelSum += ParticleOperations.kernelPoly6(r, kernelRadius);
         }
+      }
+    }
+
+    return kernelSum > 0 ? restDensity / kernelSum : 0;
+  }
+
+  /**
+   * Fill the per-phase tables. Every phase shares the lattice volume, so
+   * masses scale with rest density. Sound speeds are scaled so all phases
+   * share the stiffness B = rho0 c² / 7 of the densest one, which keeps
+   * pressure continuous across interfaces.
+   */
+  private configurePhases(phases: PhaseProperties[]): void {
+    const referenceDensity = Math.max(...phases.map((p) => p.density));
+    const { restDensity, speedOfSound } = this.simulationParams;
+
+    this.phaseDensity = Float64Array.from(phases, (p) => p.density);
+    this.phaseViscosity = Float64Array.from(phases, (p) => p.viscosity);
+    this.phaseMass = Float64Array.from(
+      phases,
+      (p) => (this.particleMass * p.density) / restDensity
+    );
+    this.phaseSoundSpeed = Float64Array.from(
+      phases,
+      (p) => speedOfSound * Math.sqrt(referenceDensity / p.density)
+    );
+    phases.forEach((p) => p.rheology && Rheology.validate(p.rheology));
+    this.phaseRheology = phases.map((p) =>
+      Rheology.isNewtonian(p.rheology) ? undefined : p.rheology
+    );
+    this.viscosityCount = 0;
+    if (this.thermal) {
+      const fluid = this.thermal.fluid;
+      phases.forEach((p) => p.thermal && Thermal.validate(p.thermal));
+      this.phaseThermal = phases.map((p) => p.thermal ?? fluid);
+    } else {
+      this.phaseThermal = [];
+    }
+
+    // Existing particles follow density changes made mid-run
+    const { masses, phases: particlePhases } = this.particles;
+    for (let i = 0; i < this.particles.getCount(); i++) {
+      this.checkPhase(particlePhases[i]);
+      masses[i] = this.phaseMass[particlePhases[i]];
+    }
+  }
+
+  /**
+   * Rest density of a particle's phase at its temperature
+   */
+  private restDensityOf(index: number): number {
+    const phase = this.particles.phases[index];
+    if (!this.thermal) return this.phaseDensity[phase];
+    return Thermal.restDensity(
+      this.phaseDensity[phase],
+      this.phaseThermal[phase],
+      this.particles.temperatures[index],
+      Thermal.referenceTemperature(this.thermal)
+    );
+  }
+
+  private viscosityFactorOf(index: number): number {
+    if (!this.thermal) return 1;
+    return Thermal.viscosityFactor(
+      this.phaseThermal[this.particles.phases[index]],
+      this.particles.temperatures[index],
+      Thermal.referenceTemperature(this.thermal)
+    );
+  }
+
+  private checkPhase(phase: number): void {
+    if (!(phase >= 0 && phase < this.phaseDensity.length)) {
+      throw new Error(
+        `Phase ${phase} is not configured; there are ${this.phaseDensity.length} phases`
+      );
+    }
+  }
+
+  private hasInterfaceTension(): boolean {
+    return (
+      this.simulationParams.interfaceTension > 0 && this.phaseDensity.length > 1
+    );
+  }
+
+  private stepEuler(deltaTime: number): void {
+    this.applyFlowPatches(deltaTime);
+    this.evaluateForces(deltaTime);
+    this.kick(deltaTime);
+    this.finishForces(deltaTime);
+    this.updatePositions(deltaTime);
+  }
+
+  private stepLeapfrog(deltaTime: number): void {
+    this.applyFlowPatches(deltaTime);
+    this.updatePositions(deltaTime / 2);
+    this.evaluateForces(deltaTime);
+    this.kick(deltaTime);
+    this.finishForces(deltaTime);
+    this.updatePositions(deltaTime / 2);
+  }
+
+  /**
+   * The first half kick uses the forces from the end of the previous step,
+   * or evaluates them when particles were added or restored since
+   */
+  private stepVelocityVerlet(deltaTime: number): void {
+    if (!this.accelerationsCurrent) {
+      this.evaluateForces(deltaTime);
+    }
+    this.kick(deltaTime / 2);
+    this.applyInflowVelocity();
+    this.updatePositions(deltaTime);
+    this.applyFlowPatches(deltaTime);
+    this.evaluateForces(deltaTime);
+    this.kick(deltaTime / 2);
+    this.finishForces(deltaTime);
+    this.accelerationsCurrent = true;
+  }
+
+  /**
+   * Midpoint method: a half step with the start-of-step forces, then the
+   * full step from the start with the forces at that midpoint, moving
+   * particles at the mean of their old and new velocities
+   */
+  private stepPredictorCorrector(deltaTime: number): void {
+    this.applyFlowPatches(deltaTime);
+    const count = this.particles.getCount();
+    const { positions, velocities } = this.particles;
+    if (this.stepStartPositions.length < count * 3) {
+      this.stepStartPositions = new Float32Array(positions.length);
+      this.stepStartVelocities = new Float32Array(positions.length);
+    }
+    const startPositions = this.stepStartPositions;
+    const startVelocities = this.stepStartVelocities;
+    startPositions.set(positions.subarray(0, count * 3));
+    startVelocities.set(velocities.subarray(0, count * 3));
+
+    // Predictor
+    this.evaluateForces(deltaTime);
+    this.updatePositions(deltaTime / 2);
+    this.kick(deltaTime / 2);
+    this.applyInflowVelocity();
+
+    // Corrector
+    this.evaluateForces(deltaTime);
+    const accelerations = this.accelerations;
+    for (let i = 0; i < count * 3; i++) {
+      positions[i] = startPositions[i];
+      velocities[i] = startVelocities[i] + accelerations[i] * deltaTime * 0.5;
+    }
+    this.updatePositions(deltaTime);
+    this.kick(deltaTime / 2);
+    this.finishForces(deltaTime);
+  }
+
+  /**
+   * Divergence solve, the other forces, then the density solve before the
+   * move
+   */
+  private stepIncompressible(
+    deltaTime: number,
+    projection: PressureProjection
+  ): void {
+    this.applyFlowPatches(deltaTime);
+    this.updateNeighbors();
+    this.calculateDensity();
+    this.calculateViscosity();
+
+    const count = this.particles.getCount();
+    const restDensities = new Float64Array(count);
+    for (let i = 0; i < count; i++) {
+      restDensities[i] = this.restDensityOf(i);
+    }
+    projection.prepare(
+      this.getPluginContext(deltaTime),
+      this.calculateWallGradients()
+    );
+    const { restDensity } = this.simulationParams;
+    const divergenceIterations = projection.correctDivergence(
+      restDensities,
+      restDensity,
+      deltaTime
+    );
+
+    this.calculateAccelerations(deltaTime);
+    this.kick(deltaTime);
+    this.applyInflowVelocity();
+    this.pressureSolve = {
+      divergenceIterations,
+      ...projection.correctDensity(restDensities, restDensity, deltaTime),
+    };
+    this.finishForces(deltaTime);
+    this.updatePositions(deltaTime);
+  }
+
+  /**
+   * The walls' kernel gradient sum for each particle, scaled to its mass
+   * like the wall pressure force
+   */
+  private calculateWallGradients(): Float64Array {
+    const count = this.particles.getCount();
+    if (this.wallGradients.length < count * 3) {
+      this.wallGradients = new Float64Array(this.particles.positions.length);
+    }
+    const gradients = this.wallGradients;
+    const masses = this.particles.masses;
+    gradients.fill(0, 0, count * 3);
+    for (let i = 0; i < count; i++) {
+      const scale = masses[i] / this.particleMass;
+      this.forEachWallContact(this.readPosition(i), (distance, normal) => {
+        const gradient = scale * this.wallKernels.gradientAt(distance);
+        gradients[i * 3] += gradient * normal[0];
+        gradients[i * 3 + 1] += gradient * normal[1];
+        gradients[i * 3 + 2] += gradient * normal[2];
       });
-      particle.density = density;
+    }
+    return gradients;
+  }
+
+  /**
+   * Accelerations of every particle at the current positions and velocities
+   */
+  private evaluateForces(deltaTime: number): void {
+    this.updateNeighbors();
+    this.calculateDensity();
+    this.calculatePressure();
+    this.calculateViscosity();
+    this.calculateAccelerations(deltaTime);
+    this.accelerationsCurrent = false;
+  }
+
+  private configureForces(): void {
+    const { gravity, artificialViscosity, interfaceTension } =
+      this.simulationParams;
+    this.builtInForces = [
+      new GravityForce(gravity),
+      ...(this.periodic ? [this.periodic] : []),
+      ...(this.projection
+        ? []
+        : [new PressureForce(artificialViscosity, this.phaseSoundSpeed)]),
+      new ViscosityForce(),
+      ...(this.hasInterfaceTension()
+        ? [new InterfaceTensionForce(interfaceTension)]
+        : []),
+    ];
+    this.accelerationsCurrent = false;
+  }
+
+  private getPluginContext(deltaTime: number): PluginContext {
+    return {
+      particles: this.particles.getViews(),
+      count: this.particles.getCount(),
+      neighbors: this.neighbors,
+      periodicDirection: this.periodicDirection,
+      viscosities: this.getParticleViscosities(),
+      kernelRadius: this.simulationParams.kernelRadius,
+      deltaTime,
+      time: this.time,
+    };
+  }
+
+  private kick(deltaTime: number): void {
+    const velocities = this.particles.velocities;
+    const accelerations = this.accelerations;
+    for (let i = 0; i < this.particles.getCount() * 3; i++) {
+      velocities[i] += accelerations[i] * deltaTime;
+    }
+  }
+
+  /**
+   * Everything else that runs once per step on the last force evaluation:
+   * heat transfer, the inlet velocity and the pig
+   */
+  private finishForces(deltaTime: number): void {
+    if (this.thermal) this.calculateHeatTransfer(deltaTime);
+    this.applyInflowVelocity();
+    this.pig?.integrate(
+      deltaTime,
+      this.simulationParams.gravity,
+      this.time + deltaTime
+    );
+  }
+
+  /**
+   * Mass-weighted mean velocity along the periodic axis
+   */
+  private getBulkVelocity(): number {
+    const { velocities, masses } = this.particles;
+    const axis = this.periodic?.axis ?? 0;
+    let momentum = 0;
+    let mass = 0;
+    for (let i = 0; i < this.particles.getCount(); i++) {
+      momentum += masses[i] * velocities[i * 3 + axis];
+      mass += masses[i];
+    }
+    return mass > 0 ? momentum / mass : 0;
+  }
+
+  /**
+   * Flow rate through one inlet. Inlets without their own rate split the
+   * simulation's flow rate by area.
+   */
+  private getInletFlowRate(inlet: InletEmitter): number {
+    if (inlet.patch.flowRate !== undefined) return inlet.patch.flowRate;
+
+    const shared = this.inlets.filter((i) => i.patch.flowRate === undefined);
+    const totalArea = shared.reduce((sum, i) => sum + i.getArea(), 0);
+    return totalArea > 0
+      ? (this.simulationParams.flowRate * inlet.getArea()) / totalArea
+      : 0;
+  }
+
+  private applyFlowPatches(deltaTime: number): void {
+    if (this.outlets.length > 0) {
+      this.particles.removeWhere((i) => {
+        const position = this.readPosition(i);
+        return this.outlets.some((outlet) => outlet.hasExited(position));
+      });
+    }
+
+    this.inlets.forEach((inlet) => {
+      inlet.emit(
+        this.getInletFlowRate(inlet),
+        deltaTime,
+        (position, velocity, phase) => {
+          this.checkPhase(phase);
+          this.particles.add(
+            position,
+            velocity,
+            this.phaseDensity[phase],
+            this.phaseMass[phase],
+            phase,
+            inlet.patch.temperature ?? this.thermal?.initialTemperature ?? 0
+          );
+        }
+      );
     });
   }
 
-  private poly6Kernel(distance: number): number {
-    const h = this.simulationParams.kernelRadius;
-    const value =
-      (315 / (64 * Math.PI * Math.pow(h, 9))) *
-      Math.pow(h * h - distance * distance, 3);
+  private applyInflowVelocity(): void {
+    if (this.inlets.length === 0) return;
+
+    const velocities = this.particles.velocities;
+    const velocity = vec3.create();
+    for (let i = 0; i < this.particles.getCount(); i++) {
+      const position = this.readPosition(i);
+      const inlet = this.inlets.find((e) => e.isInBufferZone(position));
+      if (inlet) {
+        inlet.applyInflowVelocity(velocity, this.getInletFlowRate(inlet));
+        velocities.set(velocity, i * 3);
+      }
+    }
+  }
+
+  private readPosition(index: number): vec3 {
+    const positions = this.particles.positions;
+    vec3.set(
+      this.scratchPosition,
+      positions[index * 3],
+      positions[index * 3 + 1],
+      positions[index * 3 + 2]
+    );
+    return this.scratchPosition;
+  }
 
-    return Math.max(0, value);
+  private updateNeighbors(): void {
+    const kernelRadius = this.simulationParams.kernelRadius;
+    this.neighborGrid.setCellSize(kernelRadius);
+    this.neighborGrid.buildFromArray(
+      this.particles.getCount(),
+      this.particles.positions
+    );
+    this.neighbors = this.neighborGrid.buildNeighborList(
+      kernelRadius,
+      this.periodic ?? undefined
+    );
+  }
+
+  private calculateDensity(): void {
+    const { offsets, indices, shifts } = this.neighbors;
+    const [px, py, pz] = this.periodicDirection;
+    const { kernelRadius: h, restDensity } = this.simulationParams;
+    const { positions, masses, densities } = this.particles;
+    const selfKernel = ParticleOperations.kernelPoly6(0, h);
+
+    for (let i = 0; i < this.particles.getCount(); i++) {
+      const x = positions[i * 3];
+      const y = positions[i * 3 + 1];
+      const z = positions[i * 3 + 2];
+      // Number density times the particle's own mass, so a light phase next
+      // to a heavy one is not smeared towards its density. Self
+      // contribution first, then every neighbor within the kernel radius.
+      let kernelSum = selfKernel;
+
+      for (let n = offsets[i]; n < offsets[i + 1]; n++) {
+        const j = indices[n];
+        const shift = shifts ? shifts[n] : 0;
+        const distance = Math.sqrt(
+          (x - positions[j * 3] + shift * px) ** 2 +
+            (y - positions[j * 3 + 1] + shift * py) ** 2 +
+            (z - positions[j * 3 + 2] + shift * pz) ** 2
+        );
+        kernelSum += ParticleOperations.kernelPoly6(distance, h);
+      }
+
+      // Walls fill in the part of the kernel the fluid cannot. Near edges
+      // and corners the walls' shares overlap, so combine them as
+      // independent fractions rather than adding them.
+      let fluidFraction = 1;
+      this.forEachWallContact(this.readPosition(i), (wallDistance) => {
+        fluidFraction *=
+          1 - this.wallKernels.densityAt(wallDistance) / restDensity;
+      });
+      densities[i] =
+        masses[i] * kernelSum + this.restDensityOf(i) * (1 - fluidFraction);
+    }
   }
 
   private calculatePressure(): void {
-    this.particles.forEach((particle) => {
-      particle.pressure =
-        this.simulationParams.pressureCoefficient *
-        (particle.density - this.simulationParams.restDensity);
-    });
+    const { densities, pressures, phases } = this.particles;
+
+    for (let i = 0; i < this.particles.getCount(); i++) {
+      // Clamp tension so under-dense particles at the free surface and walls
+      // are not pulled into clumps. Warm fluid expands, so its rest density
+      // follows its temperature and buoyancy comes out of the pressure.
+      pressures[i] = Math.max(
+        0,
+        ParticleOperations.taitPressure(
+          densities[i],
+          this.restDensityOf(i),
+          this.phaseSoundSpeed[phases[i]]
+        )
+      );
+    }
   }
 
-  private applyForces(deltaTime: number): void {
-    this.particles.forEach((particle) => {
-      const pressureForce = vec3.create();
-      const viscosityForce = vec3.create();
+  /**
+   * Apparent viscosity of every particle from its shear rate
+   * sqrt(2 D:D), with D the symmetric part of the SPH velocity gradient.
+   * Walls count as a layer of particles moving with the wall, so fluid
+   * sliding past one is sheared.
+   */
+  private calculateViscosity(): void {
+    const { offsets, indices, shifts } = this.neighbors;
+    const [px, py, pz] = this.periodicDirection;
+    const { kernelRadius: h, restDensity } = this.simulationParams;
+    const { positions, velocities, densities, masses, phases } = this.particles;
+    const count = this.particles.getCount();
+    if (this.particleViscosity.length < count) {
+      this.particleViscosity = new Float64Array(
+        this.particles.positions.length / 3
+      );
+    }
+    const viscosities = this.particleViscosity;
+    const pigVelocity = this.pigWallVelocity;
+    if (this.pig) this.pig.getWallVelocity(pigVelocity);
+    // Velocity gradient, gradient[3a + b] = d v_a / d x_b
+    const gradient = new Float64Array(9);
+    const accumulate = (
+      dvx: number,
+      dvy: number,
+      dvz: number,
+      gx: number,
+      gy: number,
+      gz: number
+    ): void => {
+      gradient[0] += dvx * gx;
+      gradient[1] += dvx * gy;
+      gradient[2] += dvx * gz;
+      gradient[3] += dvy * gx;
+      gradient[4] += dvy * gy;
+      gradient[5] += dvy * gz;
+      gradient[6] += dvz * gx;
+      gradient[7] += dvz * gy;
+      gradient[8] += dvz * gz;
+    };
+
+    for (let i = 0; i < count; i++) {
+      const rheology = this.phaseRheology[phases[i]];
+      if (!rheology) {
+        viscosities[i] =
+          this.phaseViscosity[phases[i]] * this.viscosityFactorOf(i);
+        continue;
+      }
+
+      const vx = velocities[i * 3];
+      const vy = velocities[i * 3 + 1];
+      const vz = velocities[i * 3 + 2];
+      gradient.fill(0);
+
+      for (let n = offsets[i]; n < offsets[i + 1]; n++) {
+        const j = indices[n];
+        const shift = shifts ? shifts[n] : 0;
+        const rx = positions[i * 3] - positions[j * 3] + shift * px;
+        const ry = positions[i * 3 + 1] - positions[j * 3 + 1] + shift * py;
+        const rz = positions[i * 3 + 2] - positions[j * 3 + 2] + shift * pz;
+        const distance = Math.sqrt(rx * rx + ry * ry + rz * rz);
+        const scale =
+          (masses[j] / densities[j]) *
+          ParticleOperations.kernelSpikyGradientScale(distance, h);
+        accumulate(
+          velocities[j * 3] - vx,
+          velocities[j * 3 + 1] - vy,
+          velocities[j * 3 + 2] - vz,
+          scale * rx,
+          scale * ry,
+          scale * rz
+        );
+      }
 
-      this.particles.forEach((other_particle) => {
-        if (particle !== other_particle) {
-          const distance = vec3.distance(
-            particle.position,
-            other_particle.position
+      this.forEachWallContact(
+        this.readPosition(i),
+        (wallDistance, normal, pigContact) => {
+          const scale = this.wallKernels.gradientAt(wallDistance) / restDensity;
+          const wallVelocity = pigContact ? pigVelocity : FIXED_WALL_VELOCITY;
+          accumulate(
+            wallVelocity[0] - vx,
+            wallVelocity[1] - vy,
+            wallVelocity[2] - vz,
+            scale * normal[0],
+            scale * normal[1],
+            scale * normal[2]
           );
+        }
+      );
+
+      // 2 D:D with D = (L + L^T) / 2
+      let strain = 0;
+      for (let a = 0; a < 3; a++) {
+        for (let b = 0; b < 3; b++) {
+          const d = (gradient[a * 3 + b] + gradient[b * 3 + a]) / 2;
+          strain += 2 * d * d;
+        }
+      }
+      viscosities[i] =
+        Rheology.apparentViscosity(
+          rheology,
+          this.phaseViscosity[phases[i]],
+          Math.sqrt(strain)
+        ) * this.viscosityFactorOf(i);
+    }
+    this.viscosityCount = count;
+  }
+
+  /**
+   * Conduct heat between particles, with the harmonic mean conductivity at
+   * interfaces, and through the walls. Walls at a fixed temperature act as a
+   * mirrored layer of fluid, as they do for viscosity; a heat flux is spread
+   * over the particles next to the wall in proportion to how much of their
+   * kernel the wall covers, which adds up to the flux times the wall area.
+   */
+  private calculateHeatTransfer(deltaTime: number): void {
+    const thermal = this.thermal!;
+    const wall = thermal.wall ?? { type: "adiabatic" };
+    const { offsets, indices, shifts } = this.neighbors;
+    const [px, py, pz] = this.periodicDirection;
+    const { kernelRadius: h, restDensity } = this.simulationParams;
+    const { positions, densities, masses, phases, temperatures } =
+      this.particles;
+    const count = this.particles.getCount();
+    if (this.heatRates.length < count) {
+      this.heatRates = new Float64Array(this.particles.positions.length / 3);
+    }
+    const heatRates = this.heatRates;
+
+    for (let i = 0; i < count; i++) {
+      const properties = this.phaseThermal[phases[i]];
+      const conductivity = properties.conductivity;
+      const temperature = temperatures[i];
+      let heatRate = 0;
+
+      for (let n = offsets[i]; n < offsets[i + 1]; n++) {
+        const j = indices[n];
+        const neighborConductivity = this.phaseThermal[phases[j]].conductivity;
+        const pairConductivity =
+          conductivity + neighborConductivity > 0
+            ? (2 * conductivity * neighborConductivity) /
+              (conductivity + neighborConductivity)
+            : 0;
+        const shift = shifts ? shifts[n] : 0;
+        const distance = Math.sqrt(
+          (positions[i * 3] - positions[j * 3] + shift * px) ** 2 +
+            (positions[i * 3 + 1] - positions[j * 3 + 1] + shift * py) ** 2 +
+            (positions[i * 3 + 2] - positions[j * 3 + 2] + shift * pz) ** 2
+        );
+        heatRate +=
+          ((pairConductivity * masses[j]) / densities[j]) *
+          ParticleOperations.kernelViscosityLaplacian(distance, h) *
+          (temperatures[j] - temperature);
+      }
+
+      if (wall.type !== "adiabatic") {
+        this.forEachWallContact(
+          this.readPosition(i),
+          (wallDistance, _normal, pigContact) => {
+            if (pigContact) return;
+            if (wall.type === "temperature") {
+              heatRate +=
+                ((2 *
+                  conductivity *
+                  this.wallKernels.laplacianAt(wallDistance)) /
+                  restDensity) *
+                (wall.temperature - temperature);
+            } else {
+              heatRate +=
+                (2 *
+                  wall.heatFlux *
+                  this.wallKernels.gradientAt(wallDistance)) /
+                restDensity;
+            }
+          }
+        );
+      }
+
+      heatRates[i] = heatRate / (densities[i] * properties.specificHeat);
+    }
 
-          if (distance < this.simulationParams.kernelRadius) {
-            vec3.add(
-              pressureForce,
-              pressureForce,
-              this.calculatePressureForce(particle, other_particle)
-            );
-
-            vec3.add(
-              viscosityForce,
-              viscosityForce,
-              this.calculateViscosityForce(particle, other_particle)
-            );
+    for (let i = 0; i < count; i++) {
+      temperatures[i] += heatRates[i] * deltaTime;
+    }
+  }
+
+  /**
+   * Sum the force plugins, then add the walls
+   */
+  private calculateAccelerations(deltaTime: number): void {
+    const count = this.particles.getCount();
+    if (this.accelerations.length < count * 3) {
+      this.accelerations = new Float64Array(this.particles.positions.length);
+    }
+    const accelerations = this.accelerations;
+    accelerations.fill(0, 0, count * 3);
+
+    // Gather every acceleration before integrating, so all particles see the
+    // same velocity field
+    const context = this.getPluginContext(deltaTime);
+    this.builtInForces.forEach((force) =>
+      force.accumulate(context, accelerations)
+    );
+    this.forces.forEach((force) => force.accumulate(context, accelerations));
+
+    const { restDensity } = this.simulationParams;
+    const { velocities, densities, pressures, masses } = this.particles;
+    const viscosities = context.viscosities;
+    let maxAcceleration = 0;
+    this.pig?.beginStep();
+    const pigVelocity = this.pigWallVelocity;
+    if (this.pig) this.pig.getWallVelocity(pigVelocity);
+
+    for (let i = 0; i < count; i++) {
+      const density = densities[i];
+      const mass = masses[i];
+      const viscosity = viscosities[i];
+      const vx = velocities[i * 3];
+      const vy = velocities[i * 3 + 1];
+      const vz = velocities[i * 3 + 2];
+      let ax = accelerations[i * 3];
+      let ay = accelerations[i * 3 + 1];
+      let az = accelerations[i * 3 + 2];
+
+      // Walls push back in proportion to how much they raise the particle's
+      // density, and drag on it like a no-slip layer of mirrored particles.
+      // The wall tables are for phase 0 masses; wall particles take on the
+      // fluid particle's phase. The pig's cups are moving walls, so their
+      // drag acts on the velocity relative to the pig, and the pig takes the
+      // reaction of both forces. The pressure solve does its own pushing.
+      const wallPressureTerm = this.projection
+        ? 0
+        : ((pressures[i] / density ** 2) * mass) / this.particleMass;
+      this.forEachWallContact(
+        this.readPosition(i),
+        (wallDistance, normal, pigContact) => {
+          const pressurePush =
+            wallPressureTerm * this.wallKernels.gradientAt(wallDistance);
+          const wallDrag =
+            (2 * viscosity * this.wallKernels.laplacianAt(wallDistance)) /
+            (density * restDensity);
+          const wallVelocity = pigContact ? pigVelocity : FIXED_WALL_VELOCITY;
+          const fx =
+            -pressurePush * normal[0] - wallDrag * (vx - wallVelocity[0]);
+          const fy =
+            -pressurePush * normal[1] - wallDrag * (vy - wallVelocity[1]);
+          const fz =
+            -pressurePush * normal[2] - wallDrag * (vz - wallVelocity[2]);
+          ax += fx;
+          ay += fy;
+          az += fz;
+
+          if (pigContact && this.pig) {
+            const force = this.pigContactForce;
+            force[0] = fx * mass;
+            force[1] = fy * mass;
+            force[2] = fz * mass;
+            this.pig.addReaction(force, normal, pressures[i]);
           }
         }
-      });
+      );
 
-      vec3.scale(pressureForce, pressureForce, deltaTime);
-      vec3.scale(
-        viscosityForce,
-        viscosityForce,
-        this.simulationParams.viscosityCoefficient * deltaTime
+      accelerations[i * 3] = ax;
+      accelerations[i * 3 + 1] = ay;
+      accelerations[i * 3 + 2] = az;
+      maxAcceleration = Math.max(
+        maxAcceleration,
+        Math.sqrt(ax * ax + ay * ay + az * az)
       );
-      vec3.add(particle.velocity, particle.velocity, pressureForce);
-      vec3.add(particle.velocity, particle.velocity, viscosityForce);
-    });
+    }
+    this.maxAcceleration = maxAcceleration;
   }
 
-  private calculatePressureForce(
-    particle1: SPHParticle,
-    particle2: SPHParticle
-  ): vec3 {
-    const force = vec3.create();
-    const distance = vec3.distance(particle1.position, particle2.position);
+  /**
+   * Visit each wall within a kernel radius of `position` with its distance
+   * and the unit normal pointing out of the fluid. Uses the pipe mesh when
+   * there is one, otherwise the faces of the bounding box, plus the pig's
+   * cups when there is a pig.
+   */
+  private forEachWallContact(
+    position: vec3,
+    callback: (
+      distance: number,
+      normal: ArrayLike<number>,
+      pigContact: boolean
+    ) => void
+  ): void {
+    const h = this.simulationParams.kernelRadius;
+    const [x, y, z] = position;
 
-    const pressureTerm =
-      (particle1.pressure + particle2.pressure) / (2 * particle2.density);
-    vec3.scale(
-      force,
-      vec3.sub(vec3.create(), particle2.position, particle1.position),
-      pressureTerm
+    this.pig?.forEachContact(position, h, (distance, normal) =>
+      callback(distance, normal, true)
     );
-    return force;
-  }
 
-  private calculateViscosityForce(
-    particle1: SPHParticle,
-    particle2: SPHParticle
-  ): vec3 {
-    const force = vec3.create();
-    vec3.sub(force, particle2.velocity, particle1.velocity);
-    return force;
+    if (this.boundary) {
+      const distance = -this.boundary.sample(x, y, z);
+      if (distance < h && this.boundary.gradient(x, y, z, this.wallNormal)) {
+        callback(distance, this.wallNormal, false);
+      }
+      return;
+    }
+
+    const { min, max } = this.bounds;
+    for (let axis = 0; axis < 3; axis++) {
+      if (axis === this.periodic?.axis) continue;
+      const lower = position[axis] - min.getComponent(axis);
+      const upper = max.getComponent(axis) - position[axis];
+      if (lower < h) {
+        this.wallNormal.fill(0);
+        this.wallNormal[axis] = -1;
+        callback(lower, this.wallNormal, false);
+      }
+      if (upper < h) {
+        this.wallNormal.fill(0);
+        this.wallNormal[axis] = 1;
+        callback(upper, this.wallNormal, false);
+      }
+    }
   }
 
   private updatePositions(deltaTime: number): void {
-    this.particles.forEach((particle) => {
-      vec3.scaleAndAdd(
-        particle.position,
-        particle.position,
-        particle.velocity,
-        deltaTime
-      );
+    const { positions, velocities } = this.particles;
+    const previous = vec3.create();
+    const pigMargin = this.simulationParams.kernelRadius * 0.05;
 
-      this.handleBoundaryCollision(particle);
-    });
+    for (let i = 0; i < this.particles.getCount(); i++) {
+      const p = i * 3;
+      vec3.set(previous, positions[p], positions[p + 1], positions[p + 2]);
+      positions[p] += velocities[p] * deltaTime;
+      positions[p + 1] += velocities[p + 1] * deltaTime;
+      positions[p + 2] += velocities[p + 2] * deltaTime;
+
+      if (this.boundary) {
+        this.handleWallCollision(i, previous, this.boundary);
+      } else {
+        this.handleBoundaryCollision(i, this.bounds);
+      }
+      this.pig?.confine(positions, velocities, p, previous, pigMargin);
+      this.periodic?.wrap(positions, p);
+    }
+
+    if (this.constraints.length > 0) {
+      const context = this.getPluginContext(deltaTime);
+      this.constraints.forEach((constraint) => constraint.apply(context));
+    }
   }
 
-  private handleBoundaryCollision(particle: SPHParticle): void {
-    const bounds = new THREE.Box3().setFromObject(this.boundingGeometry);
+  private handleWallCollision(
+    index: number,
+    previous: vec3,
+    boundary: SignedDistanceField
+  ): void {
+    const { positions, velocities } = this.particles;
+    const p = index * 3;
+    const x = positions[p];
+    const y = positions[p + 1];
+    const z = positions[p + 2];
+    // Keep particles a small fraction of a kernel away from the wall
+    const margin = this.simulationParams.kernelRadius * 0.05;
+    const distance = boundary.sample(x, y, z);
+    if (distance < -margin) return;
+
+    const normal = this.wallNormal;
+    if (!boundary.gradient(x, y, z, normal)) {
+      // Tunnelled through the wall band in one step: undo the move
+      positions.set(previous, p);
+      velocities[p] *= -0.5;
+      velocities[p + 1] *= -0.5;
+      velocities[p + 2] *= -0.5;
+      return;
+    }
+
+    // Project back onto the fluid side of the wall
+    const push = distance + margin;
+    positions[p] -= normal[0] * push;
+    positions[p + 1] -= normal[1] * push;
+    positions[p + 2] -= normal[2] * push;
 
-    ["x", "y", "z"].forEach((axis, index) => {
-      if (particle.position[index] < bounds.min.getComponent(index)) {
-        particle.position[index] = bounds.min.getComponent(index);
-        particle.velocity[index] *= -0.5;
+    // Reflect the wall-normal velocity with the same damping as the box
+    const normalSpeed =
+      velocities[p] * normal[0] +
+      velocities[p + 1] * normal[1] +
+      velocities[p + 2] * normal[2];
+    if (normalSpeed > 0) {
+      const impulse = normalSpeed * 1.5;
+      velocities[p] -= normal[0] * impulse;
+      velocities[p + 1] -= normal[1] * impulse;
+      velocities[p + 2] -= normal[2] * impulse;
+    }
+  }
+
+  private handleBoundaryCollision(index: number, bounds: THREE.Box3): void {
+    const { positions, velocities } = this.particles;
+    for (let axis = 0; axis < 3; axis++) {
+      if (axis === this.periodic?.axis) continue;
+      const p = index * 3 + axis;
+      if (positions[p] < bounds.min.getComponent(axis)) {
+        positions[p] = bounds.min.getComponent(axis);
+        velocities[p] *= -0.5;
       }
-      if (particle.position[index] > bounds.max.getComponent(index)) {
-        particle.position[index] = bounds.max.getComponent(index);
-        particle.velocity[index] *= -0.5;
+      if (positions[p] > bounds.max.getComponent(axis)) {
+        positions[p] = bounds.max.getComponent(axis);
+        velocities[p] *= -0.5;
       }
-    });
+    }
   }
 }
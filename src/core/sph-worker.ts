@@ -0,0 +1,232 @@
+// Worker entry point running SPHSimulator off the main thread. Loaded as a
+// dedicated Web Worker in the browser, or through worker_threads in Node.
+
+import * as workerThreads from "worker_threads";
+import { SPHSimulator, StepReport } from "./sph-simulator";
+import { SimulationCheckpoint } from "./checkpoint";
+import { MonitorDefinitions, MonitorSet } from "./monitors";
+import {
+  SerializedSimulationConfig,
+  WorkerCommand,
+  WorkerEvent,
+  deserializeConfig,
+  serializeConfig,
+} from "./simulation-protocol";
+
+interface WorkerScope {
+  postMessage(message: WorkerEvent, transfer?: ArrayBuffer[]): void;
+  onmessage: ((event: { data: WorkerCommand }) => void) | null;
+}
+
+let simulator: SPHSimulator | null = null;
+let config: SerializedSimulationConfig | null = null;
+let running = false;
+let awaitingAck = false;
+// Whether the state has moved on since the last frame posted
+let framePending = false;
+let frameInterval = 0.001;
+let adaptive = false;
+let stableTimeStep = Infinity;
+// Pig samples already posted, so each frame carries only new ones
+let pigSamplesSent = 0;
+let monitorDefinitions: MonitorDefinitions | null = null;
+let monitors: MonitorSet | null = null;
+let monitorRecordsSent = 0;
+
+// The next runFrame, so a pause and a start before it fires do not leave
+// two loops running
+let frameTimer: ReturnType<typeof setTimeout> | null = null;
+
+const post = connect(handleCommand);
+
+function connect(
+  handler: (command: WorkerCommand) => void
+): (event: WorkerEvent, transfer?: ArrayBuffer[]) => void {
+  // worker_threads is stubbed out of the browser bundle
+  const parentPort = workerThreads.parentPort;
+  if (parentPort) {
+    parentPort.on("message", handler);
+    return (event, transfer) => parentPort.postMessage(event, transfer);
+  }
+
+  const scope = self as unknown as WorkerScope;
+  scope.onmessage = (event) => handler(event.data);
+  return (event, transfer) => scope.postMessage(event, transfer);
+}
+
+function handleCommand(command: WorkerCommand): void {
+  try {
+    switch (command.type) {
+      case "init":
+        running = false;
+        config = { ...command.config, boundaryPositions: undefined };
+        simulator = new SPHSimulator(deserializeConfig(command.config));
+        simulator.resetSimulation();
+        pigSamplesSent = 0;
+        createMonitors();
+        post({ type: "ready" });
+        postFrame(null, true);
+        break;
+      case "start":
+        frameInterval = command.frameInterval;
+        adaptive = command.adaptive;
+        if (!running) {
+          running = true;
+          scheduleFrame();
+        }
+        break;
+      case "pause":
+        running = false;
+        // Frames skipped while the last one was drawn would otherwise leave
+        // the main thread showing an older state than the one paused at
+        if (framePending) postFrame(null, false);
+        break;
+      case "reset":
+        running = false;
+        simulator?.resetSimulation();
+        pigSamplesSent = 0;
+        createMonitors();
+        postFrame(null, true);
+        break;
+      case "parameters":
+        if (simulator && config) {
+          config = { ...config, ...command.config };
+          simulator.setSimulationParameters(deserializeConfig(config));
+        }
+        break;
+      case "frame-ack":
+        awaitingAck = false;
+        // A pause that came while the main thread held the buffers
+        if (framePending && !running) postFrame(null, false);
+        break;
+      case "save-checkpoint":
+        if (simulator) {
+          const buffer = SimulationCheckpoint.save(simulator);
+          post({ type: "checkpoint", buffer }, [buffer]);
+        }
+        break;
+      case "monitors":
+        monitorDefinitions = command.definitions;
+        createMonitors();
+        break;
+      case "load-checkpoint":
+        running = false;
+        simulator = SimulationCheckpoint.restore(command.buffer);
+        config = {
+          ...serializeConfig(simulator.getConfig()),
+          boundaryPositions: undefined,
+        };
+        // The restored history is new to the main thread
+        pigSamplesSent = 0;
+        createMonitors();
+        post({ type: "ready" });
+        postFrame(null, true);
+        break;
+    }
+  } catch (error) {
+    running = false;
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+function runFrame(): void {
+  frameTimer = null;
+  if (!running || !simulator) return;
+
+  try {
+    let report: StepReport | null = null;
+    stableTimeStep = simulator.getStableTimeStep();
+    if (adaptive) {
+      report = simulator.advance(frameInterval);
+    } else {
+      simulator.step(frameInterval);
+    }
+    monitors?.record(MonitorSet.fieldFromSimulator(simulator));
+
+    // Keep solving while the main thread is still drawing the last frame;
+    // it only ever needs the newest state
+    framePending = true;
+    postFrame(report, false);
+  } catch (error) {
+    running = false;
+    post({
+      type: "error",
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+
+  // Yield so pause and parameter messages are handled between frames
+  scheduleFrame();
+}
+
+function scheduleFrame(): void {
+  if (frameTimer !== null) clearTimeout(frameTimer);
+  frameTimer = setTimeout(runFrame, 0);
+}
+
+/**
+ * Start a new monitor history from the current state. Monitors outlive the
+ * simulator, so a new model keeps them.
+ */
+function createMonitors(): void {
+  monitorRecordsSent = 0;
+  if (!simulator || !monitorDefinitions) {
+    monitors = null;
+    return;
+  }
+  monitors = new MonitorSet(
+    monitorDefinitions,
+    simulator.getConfig().boundaryGeometry
+  );
+  monitors.record(MonitorSet.fieldFromSimulator(simulator));
+}
+
+function postFrame(report: StepReport | null, force: boolean): void {
+  if (!simulator || (awaitingAck && !force)) return;
+
+  // Copy out of the solver's storage; the copies are handed over to the
+  // main thread rather than cloned
+  const positionBuffer = simulator.getParticlePositions().slice();
+  const velocityBuffer = simulator.getParticleVelocities().slice();
+  const phaseBuffer = simulator.getParticlePhases().slice();
+  const viscosityBuffer = Float32Array.from(simulator.getParticleViscosities());
+  const temperatureBuffer = simulator.getParticleTemperatures().slice();
+  const pigHistory = simulator.getPigHistory();
+  const pigSamples = pigHistory.slice(pigSamplesSent);
+  pigSamplesSent = pigHistory.length;
+  const monitorHistory = monitors?.getHistory() ?? [];
+  const monitorRecords = monitorHistory.slice(monitorRecordsSent);
+  monitorRecordsSent = monitorHistory.length;
+
+  awaitingAck = true;
+  framePending = false;
+  post(
+    {
+      type: "frame",
+      positions: positionBuffer,
+      velocities: velocityBuffer,
+      phases: phaseBuffer,
+      viscosities: viscosityBuffer,
+      temperatures: temperatureBuffer,
+      count: simulator.getParticleCount(),
+      time: simulator.getTime(),
+      report,
+      stableTimeStep,
+      diagnostics: simulator.getStepDiagnostics(),
+      pig: simulator.getPigSample(),
+      pigSamples,
+      monitorRecords,
+    },
+    [
+      positionBuffer.buffer,
+      velocityBuffer.buffer,
+      phaseBuffer.buffer,
+      viscosityBuffer.buffer,
+      temperatureBuffer.buffer,
+    ]
+  );
+}
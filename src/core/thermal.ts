@@ -0,0 +1,81 @@
+/**
+ * Thermal properties of a fluid phase. Temperatures may be in °C or K as
+ * long as every temperature in a run uses the same one.
+ */
+export interface ThermalProperties {
+  // W/(m·K)
+  conductivity: number;
+  // J/(kg·K)
+  specificHeat: number;
+  // Volumetric expansion coefficient beta in 1/K: the rest density is
+  // density * (1 - beta (T - Tref))
+  thermalExpansion?: number;
+  // Exponential viscosity law coefficient b in 1/K: viscosity is scaled by
+  // exp(-b (T - Tref)), so oils thicken as they cool
+  viscosityTemperatureCoefficient?: number;
+}
+
+export type WallThermalCondition =
+  | { type: "adiabatic" }
+  // Wall held at a fixed temperature
+  | { type: "temperature"; temperature: number }
+  // Heat flux through the wall in W/m², positive into the fluid
+  | { type: "heat-flux"; heatFlux: number };
+
+export interface ThermalSettings {
+  // Temperature of the initial fill, and of inflow from inlets without
+  // their own temperature
+  initialTemperature: number;
+  // Temperature at which the phases have their nominal density and
+  // viscosity. Defaults to the initial temperature.
+  referenceTemperature?: number;
+  // Properties of every phase that does not set its own
+  fluid: ThermalProperties;
+  // Condition on the pipe walls; the pig is adiabatic
+  wall?: WallThermalCondition;
+}
+
+export class Thermal {
+  static referenceTemperature(settings: ThermalSettings): number {
+    return settings.referenceTemperature ?? settings.initialTemperature;
+  }
+
+  /**
+   * Rest density at `temperature`, never below a tenth of the nominal one
+   */
+  static restDensity(
+    density: number,
+    properties: ThermalProperties,
+    temperature: number,
+    referenceTemperature: number
+  ): number {
+    const expansion = properties.thermalExpansion ?? 0;
+    return (
+      density *
+      Math.max(1 - expansion * (temperature - referenceTemperature), 0.1)
+    );
+  }
+
+  /**
+   * Factor on the nominal viscosity at `temperature`
+   */
+  static viscosityFactor(
+    properties: ThermalProperties,
+    temperature: number,
+    referenceTemperature: number
+  ): number {
+    const coefficient = properties.viscosityTemperatureCoefficient ?? 0;
+    return coefficient === 0
+      ? 1
+      : Math.exp(-coefficient * (temperature - referenceTemperature));
+  }
+
+  static validate(properties: ThermalProperties): void {
+    if (!(properties.conductivity >= 0)) {
+      throw new Error("Thermal conductivity must not be negative");
+    }
+    if (!(properties.specificHeat > 0)) {
+      throw new Error("Specific heat must be positive");
+    }
+  }
+}
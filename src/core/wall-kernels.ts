@@ -0,0 +1,100 @@
+import { ParticleOperations } from "../utils/particle-operations";
+
+const TABLE_SIZE = 64;
+
+/**
+ * Kernel sums over a virtual layer of wall particles, tabulated by the
+ * distance from a fluid particle to the wall surface.
+ *
+ * The wall is treated as the fluid lattice continued through the surface:
+ * layers at depths s/2, 3s/2, ... beyond it, at the same spacing and mass as
+ * the fluid. A particle resting half a spacing off the wall then sums to
+ * exactly the rest density, as it would in the interior.
+ */
+export class WallKernelTable {
+  private minDistance: number;
+  private maxDistance: number;
+  private density = new Float64Array(TABLE_SIZE);
+  private gradient = new Float64Array(TABLE_SIZE);
+  private laplacian = new Float64Array(TABLE_SIZE);
+
+  constructor(spacing: number, kernelRadius: number, mass: number) {
+    const h = kernelRadius;
+    const reach = Math.ceil(h / spacing);
+    // Below -s/2 the particle would sit on the first wall layer
+    this.minDistance = -0.5 * spacing;
+    this.maxDistance = h;
+
+    for (let t = 0; t < TABLE_SIZE; t++) {
+      const distance = this.distanceAt(t);
+      let density = 0;
+      let laplacian = 0;
+
+      for (let k = 0; k <= reach; k++) {
+        const depth = distance + (k + 0.5) * spacing;
+        if (depth <= 0 || depth > h) continue;
+
+        for (let a = -reach; a <= reach; a++) {
+          for (let b = -reach; b <= reach; b++) {
+            const lateral2 = (a * a + b * b) * spacing * spacing;
+            const r = Math.sqrt(depth * depth + lateral2);
+            if (r > h) continue;
+
+            density += mass * ParticleOperations.kernelPoly6(r, h);
+            laplacian +=
+              mass * ParticleOperations.kernelViscosityLaplacian(r, h);
+          }
+        }
+      }
+
+      this.density[t] = density;
+      this.laplacian[t] = laplacian;
+    }
+
+    // The wall's pull on a particle's density, d(density)/d(distance). Taken
+    // from the density table itself so the wall force is exactly the
+    // gradient of what the wall adds to the density, and does no net work.
+    const step = (this.maxDistance - this.minDistance) / (TABLE_SIZE - 1);
+    for (let t = 0; t < TABLE_SIZE; t++) {
+      const before = this.density[Math.max(0, t - 1)];
+      const after = this.density[Math.min(TABLE_SIZE - 1, t + 1)];
+      const span =
+        (Math.min(TABLE_SIZE - 1, t + 1) - Math.max(0, t - 1)) * step;
+      this.gradient[t] = (before - after) / span;
+    }
+  }
+
+  // Density the wall adds to a particle at this distance
+  public densityAt(distance: number): number {
+    return this.lookup(this.density, distance);
+  }
+
+  // Rate at which the wall's density grows as the particle approaches it
+  public gradientAt(distance: number): number {
+    return this.lookup(this.gradient, distance);
+  }
+
+  // Summed viscosity Laplacian
+  public laplacianAt(distance: number): number {
+    return this.lookup(this.laplacian, distance);
+  }
+
+  private distanceAt(t: number): number {
+    return (
+      this.minDistance +
+      ((this.maxDistance - this.minDistance) * t) / (TABLE_SIZE - 1)
+    );
+  }
+
+  private lookup(table: Float64Array, distance: number): number {
+    if (distance >= this.maxDistance) return 0;
+
+    const f =
+      ((Math.max(distance, this.minDistance) - this.minDistance) /
+        (this.maxDistance - this.minDistance)) *
+      (TABLE_SIZE - 1);
+    const t = Math.min(Math.floor(f), TABLE_SIZE - 2);
+    const w = f - t;
+    return table[t] * (1 - w) + table[t + 1] * w;
+  }
+}
@@ -1,31 +1,80 @@
 import ModelImporter from "./core/model-importer";
-import { SimulationConfig, SPHSimulator } from "./core/sph-simulator";
+import { IntegratorType, SimulationConfig } from "./core/sph-simulator";
+import { RheologyModel, RheologyType } from "./core/rheology";
+import { ThermalSettings, WallThermalCondition } from "./core/thermal";
+import {
+  FrameEvent,
+  SimulationWorkerClient,
+} from "./core/simulation-worker-client";
 import { Visualizer } from "./utils/visualizations";
 import { GeometryUtils } from "./utils/geometry-utils";
 import { ParticleOperations } from "./utils/particle-operations";
 import * as THREE from "three";
 import { vec3 } from "gl-matrix";
 import { OpenFOAMTimeSeriesHandler } from "./adapters/open-foam";
+import {
+  FlowPatch,
+  detectPipeEnds,
+  surfacePatch,
+  traceCenterline,
+} from "./core/flow-patches";
+import { BoundaryTagMap, BoundaryTags } from "./core/boundary-tags";
+import { MeshHealth } from "./core/mesh-health";
+import { OpenFOAMCaseWriter } from "./adapters/openfoam-case-writer";
+import { strToU8, zipSync } from "fflate";
+import { SimulationCheckpoint } from "./core/checkpoint";
+import { PigParameters, PigSample, formatPigLog } from "./core/pig";
+import {
+  MonitorDefinitions,
+  MonitorRecord,
+  MonitorSet,
+  formatMonitorHistory,
+  FlowField,
+} from "./core/monitors";
+import {
+  ParticleTracker,
+  SolidParticleRelease,
+  TrackingResult,
+  formatParticleTracks,
+  formatWallImpacts,
+} from "./core/particle-tracking";
+
+// Built by webpack from src/core/sph-worker.ts
+const SOLVER_WORKER_URL = "dist/sph-worker.js";
+// OpenCascade for STEP and IGES import, served from the package
+const OCCT_WASM_URL = "node_modules/occt-import-js/dist/occt-import-js.wasm";
 
 interface FluidProperties {
   viscosity: number;
   density: number;
   flowRate: number;
   timeStep: number;
+  integrator: IntegratorType;
+  rheology: RheologyModel;
 }
 
 class PipeFlowSimulation {
   private modelImporter: ModelImporter;
-  private simulator: SPHSimulator | null = null;
+  private solver: SimulationWorkerClient | null = null;
+  private simulationConfig: SimulationConfig | null = null;
   private visualizer: Visualizer;
   private isSimulating: boolean = false;
-  private animationFrameId: number | null = null;
   private model: THREE.Object3D | null = null;
+  // Inlets, outlets and walls tagged in the imported model
+  private boundaryTags: BoundaryTagMap = new Map();
   private timeSeriesHandler: OpenFOAMTimeSeriesHandler;
   private currentVisualization: THREE.Group | null = null;
+  // Pig samples received from the solver since the run started
+  private pigLog: PigSample[] = [];
+  private monitorDefinitions: MonitorDefinitions = { probes: [], sections: [] };
+  // Records from the live run, or from every loaded OpenFOAM time step
+  private monitorHistory: MonitorRecord[] = [];
+  private monitorSource: "simulation" | "openfoam" = "simulation";
+  // Solid particles last tracked through the loaded OpenFOAM case
+  private tracking: TrackingResult | null = null;
 
   constructor() {
-    this.modelImporter = new ModelImporter();
+    this.modelImporter = new ModelImporter(OCCT_WASM_URL);
     this.visualizer = new Visualizer(
       document.getElementById("simulation-container")!
     );
@@ -39,6 +88,9 @@ class PipeFlowSimulation {
       "model-input"
     ) as HTMLInputElement;
     modelInput.addEventListener("change", this.handleModelImport.bind(this));
+    document
+      .getElementById("export-openfoam-case-btn")!
+      .addEventListener("click", this.exportOpenFOAMCase.bind(this));
 
     // Simulation Controls
     document
@@ -50,6 +102,44 @@ class PipeFlowSimulation {
     document
       .getElementById("reset-btn")!
       .addEventListener("click", this.resetSimulation.bind(this));
+    document
+      .getElementById("save-checkpoint-btn")!
+      .addEventListener("click", this.saveCheckpoint.bind(this));
+    document
+      .getElementById("checkpoint-input")!
+      .addEventListener("change", this.loadCheckpoint.bind(this));
+    document
+      .getElementById("export-pig-log-btn")!
+      .addEventListener("click", this.exportPigLog.bind(this));
+
+    // Monitors
+    document
+      .getElementById("monitor-type")!
+      .addEventListener("change", this.showMonitorInputs.bind(this));
+    document
+      .getElementById("add-monitor-btn")!
+      .addEventListener("click", this.addMonitor.bind(this));
+    document
+      .getElementById("clear-monitors-btn")!
+      .addEventListener("click", () => {
+        this.monitorDefinitions = { probes: [], sections: [] };
+        this.applyMonitors();
+      });
+    document
+      .getElementById("export-monitors-btn")!
+      .addEventListener("click", this.exportMonitorHistory.bind(this));
+    this.showMonitorInputs();
+
+    // Particle tracking
+    document
+      .getElementById("track-particles-btn")!
+      .addEventListener("click", this.trackParticles.bind(this));
+    document
+      .getElementById("export-impacts-btn")!
+      .addEventListener("click", this.exportImpacts.bind(this));
+    document
+      .getElementById("export-tracks-btn")!
+      .addEventListener("click", this.exportTracks.bind(this));
 
     // Fluid Properties
     document
@@ -61,6 +151,64 @@ class PipeFlowSimulation {
     document
       .getElementById("flow-rate")!
       .addEventListener("change", this.updateFluidProperties.bind(this));
+    [
+      "rheology-model",
+      "yield-stress",
+      "consistency",
+      "flow-index",
+      "infinite-shear-viscosity",
+      "relaxation-time",
+      "max-viscosity",
+    ].forEach((id) =>
+      document
+        .getElementById(id)!
+        .addEventListener("change", this.updateFluidProperties.bind(this))
+    );
+    this.showRheologyInputs();
+
+    // Thermal settings apply straight away; the inlet temperature only on
+    // the next import
+    [
+      "thermal-enabled",
+      "initial-temperature",
+      "wall-thermal-condition",
+      "wall-temperature",
+      "wall-heat-flux",
+      "thermal-conductivity",
+      "specific-heat",
+      "thermal-expansion",
+      "viscosity-temperature-coefficient",
+    ].forEach((id) =>
+      document
+        .getElementById(id)!
+        .addEventListener("change", this.updateFluidProperties.bind(this))
+    );
+    this.showWallConditionInputs();
+
+    // Second phase properties apply straight away; the inlet fraction only
+    // on the next import
+    [
+      "second-phase-enabled",
+      "second-phase-density",
+      "second-phase-viscosity",
+      "interface-tension",
+    ].forEach((id) =>
+      document
+        .getElementById(id)!
+        .addEventListener("change", this.updateFluidProperties.bind(this))
+    );
+
+    // Stepping settings apply to a running solver straight away
+    document
+      .getElementById("time-step")!
+      .addEventListener("change", this.updateStepping.bind(this));
+    document
+      .getElementById("adaptive-time-step")!
+      .addEventListener("change", this.updateStepping.bind(this));
+    // The integrator is a solver parameter, sent like the fluid's
+    document
+      .getElementById("integrator")!
+      .addEventListener("change", this.updateFluidProperties.bind(this));
 
     // Visualization Options
     document.getElementById("particle-size")!.addEventListener("input", (e) => {
@@ -68,6 +216,16 @@ class PipeFlowSimulation {
       this.visualizer.updateParticleSize(size); // Changed from updateParticles to updateParticleSize
     });
 
+    document
+      .getElementById("show-phase")!
+      .addEventListener("change", this.updateColorMode.bind(this));
+    document
+      .getElementById("show-viscosity")!
+      .addEventListener("change", this.updateColorMode.bind(this));
+    document
+      .getElementById("show-temperature")!
+      .addEventListener("change", this.updateColorMode.bind(this));
+
     // Model opacity through material update
     document.getElementById("model-opacity")!.addEventListener("input", (e) => {
       const opacity = parseFloat((e.target as HTMLInputElement).value);
@@ -107,6 +265,7 @@ class PipeFlowSimulation {
 
       // Create initial visualization
       this.updateTimeStep(timeSteps[0]);
+      this.recordOpenFOAMMonitors();
 
       // Show simulation info
       const simInfo = document.getElementById("simulation-info");
@@ -174,8 +333,28 @@ class PipeFlowSimulation {
           await this.handleOpenFOAMImport(event);
         }
       }
-      const model = await this.modelImporter.importModel(file);
-      this.visualizer.setModel(model);
+      const input = (id: string) =>
+        document.getElementById(id) as HTMLInputElement;
+      const tolerance = input("cad-tolerance").valueAsNumber;
+      const pipeDiameter = input("dxf-pipe-diameter").valueAsNumber;
+      const model = await this.modelImporter.importModel(file, {
+        chordalTolerance: tolerance > 0 ? tolerance / 1000 : undefined,
+        pipeLayers: input("dxf-pipe-layers")
+          .value.split(",")
+          .filter((layer) => layer.trim() !== ""),
+        pipeDiameter: pipeDiameter > 0 ? pipeDiameter / 1000 : undefined,
+      });
+      // Repair the surface before anything tests points against it
+      const maxHole = input("mesh-max-hole").valueAsNumber;
+      const repair = input("mesh-repair").checked
+        ? MeshHealth.repair(model, {
+            maxHoleSize: maxHole > 0 ? maxHole / 1000 : 0,
+          })
+        : undefined;
+      const health = repair?.after ?? MeshHealth.check(model);
+      this.model = model;
+      this.boundaryTags = BoundaryTags.read(model);
+      this.visualizer.setModel(model, this.boundaryTags);
 
       // Get the mesh from the model
       let mesh: THREE.Mesh | null = null;
@@ -193,13 +372,47 @@ class PipeFlowSimulation {
       const bounds = new THREE.Box3().setFromObject(model);
       const fluidProps = this.getFluidProperties();
 
+      // Tagged inlets and outlets, which are left out of the boundary so
+      // the fluid can pass through them
+      const tagged = this.getTaggedPatches(model);
+      const boundaryGeometry = tagged
+        ? GeometryUtils.mergeMeshes(tagged.walls)
+        : GeometryUtils.mergeWorldGeometry(model);
+
+      // Otherwise inlet at one end of the longest axis, outlet at the other
+      const size = bounds.getSize(new THREE.Vector3());
+      const pipeEnds = tagged
+        ? null
+        : detectPipeEnds(
+            boundaryGeometry,
+            Math.max(size.x, size.y, size.z) * 0.02
+          );
+      const inlets = tagged?.inlets ?? (pipeEnds ? [pipeEnds.inlet] : []);
+      const outlets = tagged?.outlets ?? (pipeEnds ? [pipeEnds.outlet] : []);
+
       // Create complete simulation configuration
+      const inletFraction = this.getSecondPhaseInletFraction();
       const simulationConfig: SimulationConfig = {
         ...fluidProps,
+        ...this.getPhaseSettings(fluidProps),
+        thermal: this.getThermalSettings(),
         bounds: bounds,
+        boundaryGeometry,
+        inlets: inlets.map((inlet) => ({
+          ...inlet,
+          phaseFractions:
+            inletFraction > 0 ? [1 - inletFraction, inletFraction] : undefined,
+          temperature: inlet.temperature ?? this.getInletTemperature(),
+        })),
+        outlets,
+        pig:
+          inlets.length > 0 && outlets.length > 0
+            ? this.getPigSettings(boundaryGeometry, inlets[0], outlets[0])
+            : undefined,
       };
 
-      this.simulator = new SPHSimulator(simulationConfig);
+      this.simulationConfig = simulationConfig;
+      await this.createSolver().init(simulationConfig);
 
       // Show model info
       const modelInfo = document.getElementById("model-info")!;
@@ -207,12 +420,360 @@ class PipeFlowSimulation {
             Dimensions: ${bounds.max.x - bounds.min.x}m × 
                        ${bounds.max.y - bounds.min.y}m × 
                        ${bounds.max.z - bounds.min.z}m`;
+      if (this.boundaryTags.size > 0) {
+        const boundaries = Array.from(
+          this.boundaryTags,
+          ([name, tag]) => `${name} (${tag.type})`
+        ).join(", ");
+        modelInfo.textContent += `
+            Boundaries: ${boundaries}`;
+      }
+      modelInfo.textContent += `
+            ${MeshHealth.format(health, repair)}`;
     } catch (error) {
       console.error("Error importing model:", error);
       alert("Error loading model. Please try another file.");
     }
   }
 
+  /**
+   * Flow patches for the model's tagged inlets and outlets, with their own
+   * flow rates and temperatures, and the meshes making up its walls. Null
+   * when the model has neither, to fall back on guessing the pipe ends.
+   */
+  private getTaggedPatches(model: THREE.Object3D): {
+    inlets: FlowPatch[];
+    outlets: FlowPatch[];
+    walls: THREE.Mesh[];
+  } | null {
+    const surfaces = BoundaryTags.surfaces(model, this.boundaryTags);
+    const patches = (type: "inlet" | "outlet"): FlowPatch[] =>
+      surfaces
+        .filter((surface) => surface.tag.type === type)
+        .map((surface) => {
+          const patch = surfacePatch(surface.geometry, type);
+          if (!patch) {
+            throw new Error(`${type} ${surface.name} is not an open surface`);
+          }
+          return {
+            ...patch,
+            flowRate: surface.tag.flowRate,
+            temperature: surface.tag.temperature,
+          };
+        });
+    const inlets = patches("inlet");
+    const outlets = patches("outlet");
+    if (inlets.length === 0 && outlets.length === 0) return null;
+
+    const walls: THREE.Mesh[] = [];
+    model.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return;
+      const type = BoundaryTags.find(child, this.boundaryTags)?.tag.type;
+      if (type === undefined || type === "wall") walls.push(child);
+    });
+    return { inlets, outlets, walls };
+  }
+
+  /**
+   * Start a fresh solver worker, replacing any previous one. The solver runs
+   * in a worker so rendering stays interactive.
+   */
+  private createSolver(): SimulationWorkerClient {
+    this.pauseSimulation();
+    this.solver?.terminate();
+    this.solver = SimulationWorkerClient.fromBrowserWorker(
+      new Worker(SOLVER_WORKER_URL)
+    );
+    this.solver.onFrame(this.handleFrame.bind(this));
+    this.solver.onError((message) => {
+      console.error("Simulation error:", message);
+      this.isSimulating = false;
+    });
+    if (this.hasMonitors()) {
+      this.solver.setMonitors(this.monitorDefinitions);
+    }
+    return this.solver;
+  }
+
+  /**
+   * Download the model's boundary surfaces and initial fields as a zipped
+   * OpenFOAM case, for meshing with snappyHexMesh
+   */
+  private exportOpenFOAMCase(): void {
+    if (!this.model) {
+      alert("Please import a model first");
+      return;
+    }
+
+    try {
+      const { flowRate, density } = this.getFluidProperties();
+      const files = OpenFOAMCaseWriter.write(
+        BoundaryTags.surfaces(this.model, this.boundaryTags),
+        { flowRate, density }
+      );
+      const archive = zipSync(
+        Object.fromEntries(
+          Object.entries(files).map(([path, text]) => [path, strToU8(text)])
+        )
+      );
+      const url = URL.createObjectURL(
+        new Blob([archive], { type: "application/zip" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "openfoam-case.zip";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting OpenFOAM case:", error);
+      alert("Error exporting OpenFOAM case.");
+    }
+  }
+
+  private async saveCheckpoint(): Promise<void> {
+    if (!this.solver) {
+      alert("Please import a model first");
+      return;
+    }
+
+    try {
+      const buffer = await this.solver.saveCheckpoint();
+      const url = URL.createObjectURL(
+        new Blob([buffer], { type: "application/octet-stream" })
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "simulation-checkpoint.sphc";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error saving checkpoint:", error);
+      alert("Error saving checkpoint.");
+    }
+  }
+
+  private async loadCheckpoint(event: Event): Promise<void> {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+
+    try {
+      const buffer = await file.arrayBuffer();
+      // Validate here before replacing the running solver
+      const { config } = SimulationCheckpoint.read(buffer);
+
+      // Without the original model, show the pipe surface the run used
+      if (!this.model && config.boundaryGeometry) {
+        this.model = new THREE.Mesh(config.boundaryGeometry);
+        this.visualizer.setModel(this.model);
+      }
+      this.setFluidProperties(config);
+      this.simulationConfig = config;
+      await this.createSolver().loadCheckpoint(buffer);
+    } catch (error) {
+      console.error("Error loading checkpoint:", error);
+      alert("Error loading checkpoint. Please try another file.");
+    }
+  }
+
+  /**
+   * Phase list for the solver: the fluid above as phase 0, plus the second
+   * phase when it is enabled
+   */
+  private getPhaseSettings(
+    primary: FluidProperties
+  ): Pick<SimulationConfig, "phases" | "interfaceTension"> {
+    const input = (id: string): HTMLInputElement =>
+      document.getElementById(id) as HTMLInputElement;
+    if (!input("second-phase-enabled").checked) {
+      return { phases: undefined, interfaceTension: 0 };
+    }
+
+    return {
+      phases: [
+        {
+          density: primary.density,
+          viscosity: primary.viscosity,
+          rheology: primary.rheology,
+        },
+        {
+          density: parseFloat(input("second-phase-density").value),
+          viscosity: parseFloat(input("second-phase-viscosity").value),
+        },
+      ],
+      interfaceTension: parseFloat(input("interface-tension").value),
+    };
+  }
+
+  /**
+   * Pig launched from the inlet towards the outlet along the pipe's
+   * centreline, sealing the bore, or undefined when pigging is off
+   */
+  private getPigSettings(
+    boundaryGeometry: THREE.BufferGeometry,
+    launcher: FlowPatch,
+    receiver: FlowPatch
+  ): PigParameters | undefined {
+    const input = (id: string): HTMLInputElement =>
+      document.getElementById(id) as HTMLInputElement;
+    if (!input("pig-enabled").checked) return undefined;
+
+    const boreRadius = launcher.radius;
+    const bypass = Math.min(
+      Math.max(parseFloat(input("pig-bypass").value) / 100, 0),
+      1
+    );
+    return {
+      centerline: traceCenterline(
+        boundaryGeometry,
+        launcher,
+        receiver,
+        boreRadius
+      ),
+      radius: boreRadius,
+      length: 3 * boreRadius,
+      mass: parseFloat(input("pig-mass").value),
+      frictionForce: parseFloat(input("pig-friction").value),
+      bypassArea: bypass * Math.PI * boreRadius ** 2,
+    };
+  }
+
+  /**
+   * Temperature field settings, or undefined for isothermal flow
+   */
+  private getThermalSettings(): ThermalSettings | undefined {
+    const input = (id: string): HTMLInputElement =>
+      document.getElementById(id) as HTMLInputElement;
+    const value = (id: string): number => parseFloat(input(id).value);
+    if (!input("thermal-enabled").checked) return undefined;
+
+    const condition = (
+      document.getElementById("wall-thermal-condition") as HTMLSelectElement
+    ).value as WallThermalCondition["type"];
+    let wall: WallThermalCondition = { type: "adiabatic" };
+    if (condition === "temperature") {
+      wall = { type: condition, temperature: value("wall-temperature") };
+    } else if (condition === "heat-flux") {
+      wall = { type: condition, heatFlux: value("wall-heat-flux") };
+    }
+
+    return {
+      initialTemperature: value("initial-temperature"),
+      fluid: {
+        conductivity: value("thermal-conductivity"),
+        specificHeat: value("specific-heat"),
+        thermalExpansion: value("thermal-expansion"),
+        viscosityTemperatureCoefficient: value(
+          "viscosity-temperature-coefficient"
+        ),
+      },
+      wall,
+    };
+  }
+
+  private getInletTemperature(): number | undefined {
+    const enabled = (
+      document.getElementById("thermal-enabled") as HTMLInputElement
+    ).checked;
+    const temperature = parseFloat(
+      (document.getElementById("inlet-temperature") as HTMLInputElement).value
+    );
+    return enabled ? temperature : undefined;
+  }
+
+  private setThermalSettings(
+    thermal: ThermalSettings | undefined,
+    inletTemperature: number | undefined
+  ): void {
+    const setValue = (id: string, value: number | undefined): void => {
+      if (value !== undefined) {
+        (document.getElementById(id) as HTMLInputElement).value =
+          value.toString();
+      }
+    };
+    (document.getElementById("thermal-enabled") as HTMLInputElement).checked =
+      !!thermal;
+    if (!thermal) return;
+
+    setValue("initial-temperature", thermal.initialTemperature);
+    setValue("inlet-temperature", inletTemperature);
+    setValue("thermal-conductivity", thermal.fluid.conductivity);
+    setValue("specific-heat", thermal.fluid.specificHeat);
+    setValue("thermal-expansion", thermal.fluid.thermalExpansion);
+    setValue(
+      "viscosity-temperature-coefficient",
+      thermal.fluid.viscosityTemperatureCoefficient
+    );
+    const wall = thermal.wall ?? { type: "adiabatic" };
+    (
+      document.getElementById("wall-thermal-condition") as HTMLSelectElement
+    ).value = wall.type;
+    if (wall.type === "temperature") {
+      setValue("wall-temperature", wall.temperature);
+    } else if (wall.type === "heat-flux") {
+      setValue("wall-heat-flux", wall.heatFlux);
+    }
+    this.showWallConditionInputs();
+  }
+
+  private showWallConditionInputs(): void {
+    const condition = (
+      document.getElementById("wall-thermal-condition") as HTMLSelectElement
+    ).value;
+    document
+      .querySelectorAll<HTMLElement>("[data-wall-condition]")
+      .forEach((element) => {
+        element.style.display =
+          element.dataset.wallCondition === condition ? "" : "none";
+      });
+  }
+
+  private getSecondPhaseInletFraction(): number {
+    const enabled = (
+      document.getElementById("second-phase-enabled") as HTMLInputElement
+    ).checked;
+    const fraction = parseFloat(
+      (document.getElementById("second-phase-fraction") as HTMLInputElement)
+        .value
+    );
+    return enabled ? Math.min(Math.max(fraction, 0), 1) : 0;
+  }
+
+  private setFluidProperties(properties: SimulationConfig): void {
+    (document.getElementById("viscosity") as HTMLInputElement).value =
+      properties.viscosity.toString();
+    (document.getElementById("density") as HTMLInputElement).value =
+      properties.density.toString();
+    (document.getElementById("flow-rate") as HTMLInputElement).value =
+      properties.flowRate.toString();
+    (document.getElementById("time-step") as HTMLInputElement).value =
+      properties.timeStep.toString();
+    (document.getElementById("integrator") as HTMLSelectElement).value =
+      properties.integrator ?? "euler";
+    this.setRheology(
+      properties.phases?.[0].rheology ??
+        properties.rheology ?? { type: "newtonian" }
+    );
+    this.setThermalSettings(
+      properties.thermal,
+      properties.inlets?.[0]?.temperature
+    );
+
+    const secondPhase = properties.phases?.[1];
+    (
+      document.getElementById("second-phase-enabled") as HTMLInputElement
+    ).checked = !!secondPhase;
+    if (secondPhase) {
+      (
+        document.getElementById("second-phase-density") as HTMLInputElement
+      ).value = secondPhase.density.toString();
+      (
+        document.getElementById("second-phase-viscosity") as HTMLInputElement
+      ).value = secondPhase.viscosity.toString();
+      (document.getElementById("interface-tension") as HTMLInputElement).value =
+        (properties.interfaceTension ?? 0).toString();
+    }
+  }
+
   private getFluidProperties(): FluidProperties {
     return {
       viscosity: parseFloat(
@@ -227,67 +788,540 @@ class PipeFlowSimulation {
       timeStep: parseFloat(
         (document.getElementById("time-step") as HTMLInputElement).value
       ),
+      integrator: (document.getElementById("integrator") as HTMLSelectElement)
+        .value as IntegratorType,
+      rheology: this.getRheology(),
     };
   }
 
-  private updateFluidProperties(): void {
-    if (this.simulator && this.model) {
-      const props = this.getFluidProperties();
-      const bounds = new THREE.Box3().setFromObject(this.model);
-      this.simulator.setSimulationParameters({
-        ...props,
-        bounds: bounds,
+  private getRheology(): RheologyModel {
+    const value = (id: string): number =>
+      parseFloat((document.getElementById(id) as HTMLInputElement).value);
+    const type = (
+      document.getElementById("rheology-model") as HTMLSelectElement
+    ).value as RheologyType;
+
+    switch (type) {
+      case "power-law":
+        return {
+          type,
+          consistency: value("consistency"),
+          flowIndex: value("flow-index"),
+          maxViscosity: value("max-viscosity"),
+        };
+      case "bingham":
+        return {
+          type,
+          yieldStress: value("yield-stress"),
+          maxViscosity: value("max-viscosity"),
+        };
+      case "herschel-bulkley":
+        return {
+          type,
+          yieldStress: value("yield-stress"),
+          consistency: value("consistency"),
+          flowIndex: value("flow-index"),
+          maxViscosity: value("max-viscosity"),
+        };
+      case "carreau":
+        return {
+          type,
+          infiniteShearViscosity: value("infinite-shear-viscosity"),
+          relaxationTime: value("relaxation-time"),
+          flowIndex: value("flow-index"),
+        };
+      default:
+        return { type: "newtonian" };
+    }
+  }
+
+  private setRheology(rheology: RheologyModel): void {
+    const setValue = (id: string, value: number | undefined): void => {
+      if (value !== undefined) {
+        (document.getElementById(id) as HTMLInputElement).value =
+          value.toString();
+      }
+    };
+    (document.getElementById("rheology-model") as HTMLSelectElement).value =
+      rheology.type;
+    if (rheology.type === "newtonian") return;
+
+    if ("yieldStress" in rheology) {
+      setValue("yield-stress", rheology.yieldStress);
+    }
+    if ("consistency" in rheology) {
+      setValue("consistency", rheology.consistency);
+    }
+    if ("maxViscosity" in rheology) {
+      setValue("max-viscosity", rheology.maxViscosity);
+    }
+    if (rheology.type === "carreau") {
+      setValue("infinite-shear-viscosity", rheology.infiniteShearViscosity);
+      setValue("relaxation-time", rheology.relaxationTime);
+    }
+    if ("flowIndex" in rheology) {
+      setValue("flow-index", rheology.flowIndex);
+    }
+    this.showRheologyInputs();
+  }
+
+  /**
+   * Show only the inputs the selected rheology model uses
+   */
+  private showRheologyInputs(): void {
+    const type = (
+      document.getElementById("rheology-model") as HTMLSelectElement
+    ).value;
+    document
+      .querySelectorAll<HTMLElement>("[data-rheology]")
+      .forEach((element) => {
+        const models = element.dataset.rheology!.split(" ");
+        element.style.display = models.includes(type) ? "" : "none";
       });
+  }
+
+  private updateColorMode(): void {
+    const checked = (id: string): boolean =>
+      (document.getElementById(id) as HTMLInputElement).checked;
+    this.visualizer.setColorMode(
+      checked("show-phase")
+        ? "phase"
+        : checked("show-viscosity")
+          ? "viscosity"
+          : checked("show-temperature")
+            ? "temperature"
+            : "velocity"
+    );
+  }
+
+  private updateFluidProperties(): void {
+    this.showRheologyInputs();
+    this.showWallConditionInputs();
+    if (this.solver && this.simulationConfig) {
+      const fluidProps = this.getFluidProperties();
+      this.simulationConfig = {
+        ...this.simulationConfig,
+        ...fluidProps,
+        ...this.getPhaseSettings(fluidProps),
+        thermal: this.getThermalSettings(),
+      };
+      this.solver.setParameters(this.simulationConfig);
+    }
+  }
+
+  private isAdaptiveStepping(): boolean {
+    return (document.getElementById("adaptive-time-step") as HTMLInputElement)
+      .checked;
+  }
+
+  private updateStepping(): void {
+    if (this.solver && this.isSimulating) {
+      this.solver.start(
+        this.getFluidProperties().timeStep,
+        this.isAdaptiveStepping()
+      );
     }
   }
 
   private startSimulation(): void {
-    if (!this.simulator) {
+    if (!this.solver) {
       alert("Please import a model first");
       return;
     }
 
+    // In adaptive mode the time step box is the frame interval, covered in
+    // as many stable sub-steps as needed
     this.isSimulating = true;
-    this.animate();
+    this.solver.start(
+      this.getFluidProperties().timeStep,
+      this.isAdaptiveStepping()
+    );
   }
 
   private pauseSimulation(): void {
     this.isSimulating = false;
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
-      this.animationFrameId = null;
-    }
+    this.solver?.pause();
   }
 
   private resetSimulation(): void {
-    if (!this.simulator) return;
+    if (!this.solver) return;
 
     this.pauseSimulation();
-    this.simulator.resetSimulation();
-
-    // Get particle positions and velocities as vec3 arrays
-    const particles = this.simulator.getParticlePositions();
-    const velocities = this.simulator.getParticleVelocities();
+    this.solver.reset();
+  }
 
+  private handleFrame(frame: FrameEvent): void {
     // Update visualization
-    this.visualizer.updateParticles(particles, velocities);
-  }
+    this.visualizer.updateParticles(
+      frame.positions,
+      frame.velocities,
+      frame.phases,
+      frame.viscosities,
+      frame.temperatures
+    );
+    this.showPhaseFractions(frame.phases);
+    this.showPig(frame);
+    this.showMonitors(frame);
+    this.showDiagnostics(frame);
 
-  private animate(): void {
-    if (!this.isSimulating || !this.simulator) return;
+    const stepInfo = document.getElementById("step-info");
+    if (!stepInfo) return;
 
-    // Run simulation step
+    const { report, stableTimeStep } = frame;
     const timeStep = this.getFluidProperties().timeStep;
-    this.simulator.step(timeStep);
+    if (report) {
+      stepInfo.textContent = `dt: ${report.minTimeStep.toExponential(2)}–${report.maxTimeStep.toExponential(2)}s, ${report.subSteps} sub-steps${report.truncated ? " (capped)" : ""}`;
+    } else if (this.isSimulating && timeStep > stableTimeStep) {
+      stepInfo.textContent = `Warning: time step exceeds stable limit of ${stableTimeStep.toExponential(2)}s`;
+    } else {
+      stepInfo.textContent = "";
+    }
+  }
 
-    // Get current particle state
-    const particles = this.simulator.getParticlePositions();
-    const velocities = this.simulator.getParticleVelocities();
+  private showDiagnostics(frame: FrameEvent): void {
+    const energyInfo = document.getElementById("energy-info");
+    if (!energyInfo) return;
 
-    // Update visualization
-    this.visualizer.updateParticles(particles, velocities);
+    const { kineticEnergy, momentum } = frame.diagnostics;
+    energyInfo.textContent =
+      `Kinetic energy: ${kineticEnergy.toExponential(3)} J, ` +
+      `momentum: (${momentum.map((p) => p.toExponential(2)).join(", ")}) kg·m/s`;
+  }
+
+  private showPig(frame: FrameEvent): void {
+    const pigInfo = document.getElementById("pig-info");
+    const pig = this.simulationConfig?.pig;
+    if (!pig || !frame.pig) {
+      this.visualizer.hidePig();
+      if (pigInfo) pigInfo.textContent = "";
+      return;
+    }
+
+    // A reset or restored checkpoint rewinds time and resends its history
+    const lastLogged = this.pigLog[this.pigLog.length - 1];
+    if (
+      frame.pigSamples.length > 0 &&
+      lastLogged &&
+      frame.pigSamples[0].time <= lastLogged.time
+    ) {
+      this.pigLog = [];
+    }
+    this.pigLog.push(...frame.pigSamples);
+
+    const { position, direction, distance, velocity, differentialPressure } =
+      frame.pig;
+    this.visualizer.showPig(
+      new THREE.Vector3(...position),
+      new THREE.Vector3(...direction),
+      pig.radius,
+      pig.length
+    );
+    if (pigInfo) {
+      pigInfo.textContent = `Pig at ${distance.toFixed(3)}m, ${velocity.toFixed(3)}m/s, ΔP ${differentialPressure.toFixed(0)}Pa`;
+    }
+  }
+
+  /**
+   * Download the pig's position, velocity and differential pressure history
+   * as CSV
+   */
+  private exportPigLog(): void {
+    if (this.pigLog.length === 0) {
+      alert("No pig data yet. Enable pigging, import a model and run it.");
+      return;
+    }
+
+    this.downloadCSV(formatPigLog(this.pigLog), "pig-log.csv");
+  }
+
+  private showPhaseFractions(phases: Uint8Array): void {
+    const phaseInfo = document.getElementById("phase-info");
+    if (!phaseInfo) return;
+    if (!this.simulationConfig?.phases || phases.length === 0) {
+      phaseInfo.textContent = "";
+      return;
+    }
+
+    let secondPhase = 0;
+    phases.forEach((phase) => {
+      if (phase === 1) secondPhase++;
+    });
+    phaseInfo.textContent = `Second phase fraction: ${((secondPhase / phases.length) * 100).toFixed(1)}%`;
+  }
+
+  private hasMonitors(): boolean {
+    const { probes, sections } = this.monitorDefinitions;
+    return probes.length > 0 || sections.length > 0;
+  }
 
-    this.animationFrameId = requestAnimationFrame(() => this.animate());
+  private showMonitorInputs(): void {
+    const type = (document.getElementById("monitor-type") as HTMLSelectElement)
+      .value;
+    document
+      .querySelectorAll<HTMLElement>("[data-monitor-type]")
+      .forEach((element) => {
+        element.style.display =
+          element.dataset.monitorType === type ? "" : "none";
+      });
+  }
+
+  private addMonitor(): void {
+    const value = (id: string): number =>
+      parseFloat((document.getElementById(id) as HTMLInputElement).value) || 0;
+    const type = (document.getElementById("monitor-type") as HTMLSelectElement)
+      .value;
+    const { probes, sections } = this.monitorDefinitions;
+    const name =
+      (document.getElementById("monitor-name") as HTMLInputElement).value
+        .trim()
+        .replace(/[\s,]+/g, "_") ||
+      `${type}${(type === "probe" ? probes.length : sections.length) + 1}`;
+    const position: [number, number, number] = [
+      value("monitor-x"),
+      value("monitor-y"),
+      value("monitor-z"),
+    ];
+
+    if (type === "probe") {
+      probes.push({ name, position });
+    } else {
+      const normal: [number, number, number] = [
+        value("monitor-nx"),
+        value("monitor-ny"),
+        value("monitor-nz"),
+      ];
+      if (normal.every((component) => component === 0)) {
+        alert("A cross-section needs a flow direction.");
+        return;
+      }
+      sections.push({ name, center: position, normal });
+    }
+    this.applyMonitors();
+  }
+
+  /**
+   * Send the monitors to the solver and resample loaded OpenFOAM data,
+   * starting a new history
+   */
+  private applyMonitors(): void {
+    this.monitorHistory = [];
+    this.solver?.setMonitors(this.monitorDefinitions);
+    if (this.monitorSource === "openfoam") this.recordOpenFOAMMonitors();
+
+    const monitorInfo = document.getElementById("monitor-info");
+    if (monitorInfo) {
+      const { probes, sections } = this.monitorDefinitions;
+      monitorInfo.textContent = this.hasMonitors()
+        ? `${probes.length} probes, ${sections.length} cross-sections`
+        : "";
+    }
+  }
+
+  private recordOpenFOAMMonitors(): void {
+    const timeSteps = this.timeSeriesHandler.getAvailableTimeSteps();
+    if (!this.hasMonitors() || timeSteps.length === 0) return;
+
+    try {
+      const monitors = new MonitorSet(
+        this.monitorDefinitions,
+        this.timeSeriesHandler.getWallGeometry()
+      );
+      this.getOpenFOAMFields().forEach((field) => monitors.record(field));
+      this.monitorSource = "openfoam";
+      this.monitorHistory = monitors.getHistory();
+      this.showMonitorRecord(
+        this.monitorHistory[this.monitorHistory.length - 1]
+      );
+    } catch (error) {
+      console.error("Error sampling monitors:", error);
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * Every loaded OpenFOAM time step with point positions, in time order
+   */
+  private getOpenFOAMFields(): FlowField[] {
+    const density = this.getFluidProperties().density;
+    return this.timeSeriesHandler
+      .getAvailableTimeSteps()
+      .map((timeStep) => {
+        const flowData = this.timeSeriesHandler.getFlowDataAtTime(timeStep)!;
+        return flowData.positions
+          ? MonitorSet.fieldFromPoints(
+              flowData.time ?? timeStep,
+              flowData.positions,
+              flowData.velocity,
+              flowData.pressure,
+              density
+            )
+          : null;
+      })
+      .filter((field): field is FlowField => field !== null);
+  }
+
+  /**
+   * Release solid particles at the flow points nearest the inlets, or
+   * anywhere in the flow without one, and track them through the loaded
+   * OpenFOAM time steps
+   */
+  private trackParticles(): void {
+    const value = (id: string): number =>
+      parseFloat((document.getElementById(id) as HTMLInputElement).value);
+    const fields = this.getOpenFOAMFields();
+    if (fields.length === 0) {
+      alert("Load an OpenFOAM case with flow data first.");
+      return;
+    }
+
+    try {
+      const regions = this.timeSeriesHandler.getBoundaryRegions();
+      const inletPoints = regions
+        .filter((region) => region.name.startsWith("inlet/"))
+        .map((region) => region.geometry.getAttribute("position").array);
+      const inlet = new THREE.Vector3();
+      let inletCount = 0;
+      inletPoints.forEach((points) => {
+        for (let i = 0; i < points.length; i += 3) {
+          inlet.x += points[i];
+          inlet.y += points[i + 1];
+          inlet.z += points[i + 2];
+          inletCount++;
+        }
+      });
+      inlet.divideScalar(Math.max(inletCount, 1));
+
+      const { count, positions } = fields[0];
+      const distance = (i: number): number =>
+        inletCount > 0
+          ? inlet.distanceToSquared(
+              new THREE.Vector3().fromArray(positions, i * 3)
+            )
+          : Math.random();
+      const order = Array.from({ length: count }, (_, i) => i).sort(
+        (a, b) => distance(a) - distance(b)
+      );
+      const releases: SolidParticleRelease[] = order
+        .slice(0, Math.max(1, Math.round(value("track-count"))))
+        .map((i) => ({
+          position: [
+            positions[i * 3],
+            positions[i * 3 + 1],
+            positions[i * 3 + 2],
+          ],
+          diameter: value("track-diameter") / 1000,
+          density: value("track-density"),
+        }));
+
+      const fluid = this.getFluidProperties();
+      const tracker = new ParticleTracker(fields, regions, {
+        fluidDensity: fluid.density,
+        fluidViscosity: fluid.viscosity,
+        duration: value("track-duration"),
+      });
+      this.tracking = tracker.track(releases);
+      this.visualizer.showParticleTracks(
+        this.tracking.tracks,
+        this.tracking.impacts
+      );
+
+      const states = { moving: 0, settled: 0, escaped: 0 };
+      this.tracking.tracks.forEach((track) => states[track.state]++);
+      const lines = [
+        `${states.settled} settled, ${states.escaped} escaped, ${states.moving} still moving`,
+        ...tracker
+          .summarize(this.tracking)
+          .filter((summary) => summary.impacts > 0 || summary.settled > 0)
+          .map(
+            (summary) =>
+              `${summary.region}: ${summary.impacts} impacts, max ${summary.maxSpeed.toFixed(2)} m/s, mean angle ${summary.meanAngle.toFixed(0)}°, ${summary.settled} settled`
+          ),
+      ];
+      const trackInfo = document.getElementById("track-info");
+      if (trackInfo) trackInfo.textContent = lines.join("\n");
+    } catch (error) {
+      console.error("Error tracking particles:", error);
+      alert(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private exportImpacts(): void {
+    if (!this.tracking) {
+      alert("No particles tracked yet.");
+      return;
+    }
+    this.downloadCSV(formatWallImpacts(this.tracking.impacts), "impacts.csv");
+  }
+
+  private exportTracks(): void {
+    if (!this.tracking) {
+      alert("No particles tracked yet.");
+      return;
+    }
+    this.downloadCSV(
+      formatParticleTracks(this.tracking.tracks),
+      "particle-tracks.csv"
+    );
+  }
+
+  private downloadCSV(csv: string, fileName: string): void {
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private showMonitors(frame: FrameEvent): void {
+    if (frame.monitorRecords.length === 0) return;
+
+    // A reset, restored checkpoint or OpenFOAM import starts a new history
+    const lastRecord = this.monitorHistory[this.monitorHistory.length - 1];
+    if (
+      this.monitorSource !== "simulation" ||
+      (lastRecord && frame.monitorRecords[0].time <= lastRecord.time)
+    ) {
+      this.monitorSource = "simulation";
+      this.monitorHistory = [];
+    }
+    this.monitorHistory.push(...frame.monitorRecords);
+    this.showMonitorRecord(
+      frame.monitorRecords[frame.monitorRecords.length - 1]
+    );
+  }
+
+  private showMonitorRecord(record: MonitorRecord | undefined): void {
+    const monitorInfo = document.getElementById("monitor-info");
+    if (!monitorInfo || !record) return;
+
+    const { probes, sections } = this.monitorDefinitions;
+    const lines = [
+      ...record.probes.map((sample, index) => {
+        const speed = Math.hypot(...sample.velocity);
+        return `${probes[index].name}: |U| ${speed.toFixed(3)} m/s, p ${sample.pressure.toFixed(0)} Pa`;
+      }),
+      ...record.sections.map(
+        (sample, index) =>
+          `${sections[index].name}: ${sample.massFlow.toFixed(3)} kg/s, U ${sample.meanVelocity.toFixed(3)} m/s, p ${sample.pressure.toFixed(0)} Pa`
+      ),
+    ];
+    monitorInfo.textContent = lines.join("\n");
+  }
+
+  /**
+   * Download the monitor history as CSV
+   */
+  private exportMonitorHistory(): void {
+    if (this.monitorHistory.length === 0) {
+      alert("No monitor data yet. Add a monitor and run or load a simulation.");
+      return;
+    }
+
+    this.downloadCSV(
+      formatMonitorHistory(this.monitorDefinitions, this.monitorHistory),
+      "monitors.csv"
+    );
   }
 }
 
@@ -0,0 +1,63 @@
+// The parts of occt-import-js that CADReader uses. The package ships no
+// typings; see its README for the full result format.
+declare module "occt-import-js" {
+  function occtimportjs(module?: {
+    locateFile?: (path: string, prefix: string) => string;
+  }): Promise<OcctImport>;
+
+  namespace occtimportjs {
+    export interface OcctImportParams {
+      linearUnit?: "millimeter" | "centimeter" | "meter" | "inch" | "foot";
+      linearDeflectionType?: "bounding_box_ratio" | "absolute_value";
+      linearDeflection?: number;
+      angularDeflection?: number;
+    }
+
+    export interface OcctBrepFace {
+      // First and last triangle of the face in the mesh's index buffer
+      first: number;
+      last: number;
+      color: [number, number, number] | null;
+    }
+
+    export interface OcctMesh {
+      name: string;
+      color?: [number, number, number];
+      brep_faces: OcctBrepFace[];
+      attributes: {
+        position: { array: number[] };
+        normal?: { array: number[] };
+      };
+      index: { array: number[] };
+    }
+
+    export interface OcctNode {
+      name: string;
+      meshes: number[];
+      children: OcctNode[];
+    }
+
+    export interface OcctResult {
+      success: boolean;
+      root: OcctNode;
+      meshes: OcctMesh[];
+    }
+
+    export interface OcctImport {
+      ReadStepFile(
+        content: Uint8Array,
+        params: OcctImportParams | null
+      ): OcctResult;
+      ReadBrepFile(
+        content: Uint8Array,
+        params: OcctImportParams | null
+      ): OcctResult;
+      ReadIgesFile(
+        content: Uint8Array,
+        params: OcctImportParams | null
+      ): OcctResult;
+    }
+  }
+
+  export = occtimportjs;
+}
@@ -11,86 +11,249 @@ export class GeometryUtils {
   }
 
   /**
-   * Calculate pipe cross-section area at a given point
+   * Collect every mesh under an object into one world-space, position-only
+   * triangle soup
+   */
+  static mergeWorldGeometry(object: THREE.Object3D): THREE.BufferGeometry {
+    object.updateMatrixWorld(true);
+    const meshes: THREE.Mesh[] = [];
+    object.traverse((child) => {
+      if (child instanceof THREE.Mesh) meshes.push(child);
+    });
+    return this.mergeMeshes(meshes);
+  }
+
+  /**
+   * The same triangle soup for a list of meshes, whose world matrices must
+   * be up to date
+   */
+  static mergeMeshes(meshes: THREE.Mesh[]): THREE.BufferGeometry {
+    const chunks: Float32Array[] = [];
+    let length = 0;
+
+    meshes.forEach((mesh) => {
+      const geometry = (mesh.geometry as THREE.BufferGeometry).index
+        ? mesh.geometry.toNonIndexed()
+        : mesh.geometry.clone();
+      geometry.applyMatrix4(mesh.matrixWorld);
+      const positions = geometry.getAttribute("position").array as Float32Array;
+      chunks.push(Float32Array.from(positions));
+      length += positions.length;
+      geometry.dispose();
+    });
+
+    const merged = new Float32Array(length);
+    let offset = 0;
+    chunks.forEach((chunk) => {
+      merged.set(chunk, offset);
+      offset += chunk.length;
+    });
+
+    const result = new THREE.BufferGeometry();
+    result.setAttribute("position", new THREE.BufferAttribute(merged, 3));
+    return result;
+  }
+
+  /**
+   * Calculate pipe cross-section area at a given point: the area the fluid
+   * flows through, which for a pipe-wall solid is its bore
    */
   static calculatePipeCrossSection(
     geometry: THREE.BufferGeometry,
     position: THREE.Vector3,
     direction: THREE.Vector3
   ): number {
+    return this.sliceBore(geometry, position, direction).area;
+  }
+
+  /**
+   * The part of a slice the fluid flows through. A slice with holes cuts
+   * through a pipe wall rather than the fluid, so the fluid is in the
+   * largest hole.
+   */
+  static sliceBore(
+    geometry: THREE.BufferGeometry,
+    position: THREE.Vector3,
+    direction: THREE.Vector3
+  ): { area: number; centroid: THREE.Vector3 } {
+    const section = this.sliceCrossSection(geometry, position, direction);
+    return section.holes.reduce<{ area: number; centroid: THREE.Vector3 }>(
+      (largest, hole) =>
+        largest === section || hole.area > largest.area ? hole : largest,
+      section
+    );
+  }
+
+  /**
+   * Slice the geometry with the plane through `position` perpendicular to
+   * `direction`, returning the enclosed area and the centroid of the
+   * section. The cut edges are joined into closed outlines, and outlines
+   * running the other way round are holes: a ring cut from a pipe wall
+   * has the area between its outside and its bore.
+   */
+  static sliceCrossSection(
+    geometry: THREE.BufferGeometry,
+    position: THREE.Vector3,
+    direction: THREE.Vector3
+  ): {
+    area: number;
+    centroid: THREE.Vector3;
+    holes: { area: number; centroid: THREE.Vector3 }[];
+  } {
+    const outlines = this.sliceOutlines(geometry, position, direction);
+
+    // Outlines and holes wind opposite ways, and the outlines outweigh
+    const signed = outlines.reduce((sum, outline) => sum + outline.area, 0);
+    const centroid = position.clone();
+    if (signed !== 0) {
+      centroid.set(0, 0, 0);
+      outlines.forEach((outline) =>
+        centroid.addScaledVector(outline.centroid, outline.area / signed)
+      );
+    }
+    return {
+      area: Math.abs(signed),
+      centroid,
+      holes: outlines
+        .filter((outline) => outline.area * signed < 0)
+        .map((hole) => ({
+          area: Math.abs(hole.area),
+          centroid: hole.centroid,
+        })),
+    };
+  }
+
+  /**
+   * The bore a plane cuts closest to `position`, for a plane that may cut
+   * the pipe more than once, as across both legs of a bend. Null where it
+   * misses the model.
+   */
+  static sliceBoreNear(
+    geometry: THREE.BufferGeometry,
+    position: THREE.Vector3,
+    direction: THREE.Vector3
+  ): { area: number; centroid: THREE.Vector3 } | null {
+    const outlines = this.sliceOutlines(geometry, position, direction);
+    const signed = outlines.reduce((sum, outline) => sum + outline.area, 0);
+    if (signed === 0) return null;
+
+    // Holes are bores cut from a wall; without any the outlines are
+    const holes = outlines.filter((outline) => outline.area * signed < 0);
+    const bores = holes.length > 0 ? holes : outlines;
+    const nearest = bores.reduce((best, outline) =>
+      outline.centroid.distanceTo(position) < best.centroid.distanceTo(position)
+        ? outline
+        : best
+    );
+    return { area: Math.abs(nearest.area), centroid: nearest.centroid };
+  }
+
+  // Closed outlines of a plane slice, with areas positive anticlockwise
+  // round `direction`
+  private static sliceOutlines(
+    geometry: THREE.BufferGeometry,
+    position: THREE.Vector3,
+    direction: THREE.Vector3
+  ): { area: number; centroid: THREE.Vector3 }[] {
     // Create a plane at the position perpendicular to flow direction
     const plane = new THREE.Plane().setFromNormalAndCoplanarPoint(
       direction.normalize(),
       position
     );
+    const positions = (geometry.index ? geometry.toNonIndexed() : geometry)
+      .attributes.position;
 
-    // Get intersection points of geometry with plane
-    const intersectionPoints: THREE.Vector3[] = [];
-    const positions = geometry.attributes.position;
-
-    for (let i = 0; i < positions.count; i += 3) {
-      const triangle = new THREE.Triangle(
-        new THREE.Vector3().fromBufferAttribute(positions, i),
-        new THREE.Vector3().fromBufferAttribute(positions, i + 1),
-        new THREE.Vector3().fromBufferAttribute(positions, i + 2)
+    // Each triangle across the plane contributes a segment from the edge
+    // where it crosses upward to the edge where it crosses back, so the
+    // segments of neighbouring triangles meet at their shared edge
+    const segments = new Map<string, { from: THREE.Vector3; to: string }>();
+    const ends = new Map<string, THREE.Vector3>();
+    const corners = [0, 1, 2].map(() => new THREE.Vector3());
+    for (let i = 0; i + 2 < positions.count; i += 3) {
+      corners.forEach((corner, k) =>
+        corner.fromBufferAttribute(positions, i + k)
       );
-
-      // Check triangle intersection with plane
-      const intersection = this.trianglePlaneIntersection(triangle, plane);
-      if (intersection) {
-        intersectionPoints.push(...intersection);
+      // Corners on the plane count as above it, so every crossing triangle
+      // has exactly one edge each way
+      const above = corners.map((corner) => plane.distanceToPoint(corner) >= 0);
+      let up: string | null = null;
+      let down: string | null = null;
+      for (let k = 0; k < 3; k++) {
+        const start = corners[k];
+        const end = corners[(k + 1) % 3];
+        if (above[k] === above[(k + 1) % 3]) continue;
+        const key = this.edgeKey(start, end);
+        if (!ends.has(key)) {
+          const d0 = plane.distanceToPoint(start);
+          const d1 = plane.distanceToPoint(end);
+          ends.set(key, start.clone().lerp(end, d0 / (d0 - d1)));
+        }
+        if (above[k]) down = key;
+        else up = key;
       }
+      if (up && down) segments.set(up, { from: ends.get(up)!, to: down });
     }
 
-    // Calculate area from intersection points
-    return this.calculateAreaFromPoints(intersectionPoints);
-  }
+    const u = new THREE.Vector3()
+      .crossVectors(
+        plane.normal,
+        Math.abs(plane.normal.x) < 0.9
+          ? new THREE.Vector3(1, 0, 0)
+          : new THREE.Vector3(0, 1, 0)
+      )
+      .normalize();
+    const v = new THREE.Vector3().crossVectors(plane.normal, u);
 
-  /**
-   * Find intersection points between a triangle and a plane
-   */
-  private static trianglePlaneIntersection(
-    triangle: THREE.Triangle,
-    plane: THREE.Plane
-  ): THREE.Vector3[] | null {
-    const points: THREE.Vector3[] = [];
-    const edges = [
-      [triangle.a, triangle.b],
-      [triangle.b, triangle.c],
-      [triangle.c, triangle.a],
+    // Follow the segments round each outline, taking its signed area and
+    // first moment in plane coordinates about `position`. An outline that
+    // does not close, from an open or unwelded mesh, is walked from where it
+    // starts and closed straight.
+    const outlines: { area: number; centroid: THREE.Vector3 }[] = [];
+    const offset = new THREE.Vector3();
+    const continued = new Set(Array.from(segments.values(), ({ to }) => to));
+    const starts = [
+      ...Array.from(segments.keys()).filter((key) => !continued.has(key)),
+      ...segments.keys(),
     ];
-
-    edges.forEach(([start, end]) => {
-      const line = new THREE.Line3(start, end);
-      const intersection = new THREE.Vector3();
-      if (plane.intersectLine(line, intersection)) {
-        points.push(intersection);
+    starts.forEach((start) => {
+      const points: [number, number][] = [];
+      let key = start;
+      while (segments.has(key)) {
+        const segment = segments.get(key)!;
+        segments.delete(key);
+        offset.subVectors(segment.from, position);
+        points.push([offset.dot(u), offset.dot(v)]);
+        key = segment.to;
       }
-    });
+      if (points.length < 3) return;
 
-    return points.length > 0 ? points : null;
+      let twiceArea = 0;
+      let mu = 0;
+      let mv = 0;
+      points.forEach(([x0, y0], n) => {
+        const [x1, y1] = points[(n + 1) % points.length];
+        const cross = x0 * y1 - x1 * y0;
+        twiceArea += cross;
+        mu += (x0 + x1) * cross;
+        mv += (y0 + y1) * cross;
+      });
+      if (twiceArea === 0) return;
+      outlines.push({
+        area: twiceArea / 2,
+        centroid: position
+          .clone()
+          .addScaledVector(u, mu / (3 * twiceArea))
+          .addScaledVector(v, mv / (3 * twiceArea)),
+      });
+    });
+    return outlines;
   }
 
-  /**
-   * Calculate area from a set of coplanar points (cross-section)
-   */
-  private static calculateAreaFromPoints(points: THREE.Vector3[]): number {
-    if (points.length < 3) return 0;
-
-    // Use triangulation to calculate area
-    let area = 0;
-    const center = new THREE.Vector3();
-    points.forEach((p) => center.add(p));
-    center.divideScalar(points.length);
-
-    for (let i = 0; i < points.length; i++) {
-      const p1 = points[i];
-      const p2 = points[(i + 1) % points.length];
-      const triangle = new THREE.Triangle(center, p1, p2);
-      area += triangle.getArea();
-    }
-
-    return area;
+  // The same key for an edge whichever way it is walked
+  private static edgeKey(a: THREE.Vector3, b: THREE.Vector3): string {
+    const first = `${a.x},${a.y},${a.z}`;
+    const second = `${b.x},${b.y},${b.z}`;
+    return first < second ? `${first}|${second}` : `${second}|${first}`;
   }
 
   /**
@@ -101,14 +264,18 @@ export class GeometryUtils {
     geometry: THREE.BufferGeometry,
     threshold: number = 0.001
   ): boolean {
-    // Ray casting algorithm for point-in-mesh test
+    // Ray casting algorithm for point-in-mesh test. Both sides count, so
+    // the ray's exit through an outward-facing wall is a hit too.
     const raycaster = new THREE.Raycaster();
     const direction = new THREE.Vector3(1, 0, 0); // Cast ray in x direction
     const position = new THREE.Vector3(point[0], point[1], point[2]);
 
     raycaster.set(position, direction);
     const intersects = raycaster.intersectObject(
-      new THREE.Mesh(geometry),
+      new THREE.Mesh(
+        geometry,
+        new THREE.MeshBasicMaterial({ side: THREE.DoubleSide })
+      ),
       false
     );
 
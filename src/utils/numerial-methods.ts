@@ -0,0 +1,208 @@
+/**
+ * Matrix-free operator: writes A x into `result`. Both arrays have one
+ * entry per unknown.
+ */
+export type LinearOperator = (x: Float64Array, result: Float64Array) => void;
+
+/**
+ * Iterative schemes for A x = b:
+ * - jacobi: x += (b - A x) / diag(A); converges for diagonally dominant A
+ * - relaxed-jacobi: the same update scaled by the relaxation factor, which
+ *   also converges for the symmetric positive definite systems of SPH
+ *   pressure solves
+ * - conjugate-gradient: Jacobi-preconditioned, for symmetric positive
+ *   definite A; the fastest of the three but it cannot clamp unknowns
+ */
+export type LinearSolverType =
+  | "jacobi"
+  | "relaxed-jacobi"
+  | "conjugate-gradient";
+
+export const LINEAR_SOLVERS: LinearSolverType[] = [
+  "jacobi",
+  "relaxed-jacobi",
+  "conjugate-gradient",
+];
+
+export interface LinearSolverOptions {
+  // Stop once the root mean square residual is at most this
+  tolerance?: number;
+  maxIterations?: number;
+  // Scale on each relaxed Jacobi update, in (0, 1]. Defaults to 0.5.
+  relaxation?: number;
+  // Jacobi variants clamp every unknown to at least this after each update,
+  // such as zero for pressures that may not pull
+  lowerBound?: number;
+  // Weights w of the inner product sum w_i x_i y_i under which A is
+  // symmetric, for conjugate gradient. Unweighted when omitted.
+  weights?: Float64Array;
+}
+
+export interface LinearSolverResult {
+  iterations: number;
+  // Root mean square of b - A x at the returned x, leaving out unknowns
+  // held at the lower bound
+  residual: number;
+  converged: boolean;
+}
+
+const DEFAULT_TOLERANCE = 1e-8;
+const DEFAULT_MAX_ITERATIONS = 100;
+const DEFAULT_RELAXATION = 0.5;
+
+export class NumericalMethods {
+  /**
+   * Improve the guess in `x` in place until the residual is within the
+   * tolerance or the iterations run out. `diagonal` holds diag(A), which
+   * must be non-zero.
+   */
+  static solve(
+    type: LinearSolverType,
+    apply: LinearOperator,
+    diagonal: Float64Array,
+    rhs: Float64Array,
+    x: Float64Array,
+    options: LinearSolverOptions = {}
+  ): LinearSolverResult {
+    switch (type) {
+      case "jacobi":
+        return this.jacobi(apply, diagonal, rhs, x, options);
+      case "relaxed-jacobi":
+        return this.relaxedJacobi(apply, diagonal, rhs, x, options);
+      case "conjugate-gradient":
+        return this.conjugateGradient(apply, diagonal, rhs, x, options);
+      default:
+        throw new Error(`Unknown linear solver: ${type}`);
+    }
+  }
+
+  static jacobi(
+    apply: LinearOperator,
+    diagonal: Float64Array,
+    rhs: Float64Array,
+    x: Float64Array,
+    options: LinearSolverOptions = {}
+  ): LinearSolverResult {
+    return this.relaxedJacobi(apply, diagonal, rhs, x, {
+      ...options,
+      relaxation: 1,
+    });
+  }
+
+  static relaxedJacobi(
+    apply: LinearOperator,
+    diagonal: Float64Array,
+    rhs: Float64Array,
+    x: Float64Array,
+    options: LinearSolverOptions = {}
+  ): LinearSolverResult {
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+    const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const relaxation = options.relaxation ?? DEFAULT_RELAXATION;
+    const lowerBound = options.lowerBound ?? -Infinity;
+    if (!(relaxation > 0 && relaxation <= 1)) {
+      throw new Error("Jacobi relaxation must be in (0, 1]");
+    }
+    const n = rhs.length;
+    const product = new Float64Array(n);
+
+    for (let iteration = 0; ; iteration++) {
+      apply(x, product);
+      // Unknowns held at the bound by a residual pushing them below it are
+      // as good as they can get
+      let squared = 0;
+      for (let i = 0; i < n; i++) {
+        const residual = rhs[i] - product[i];
+        if (x[i] <= lowerBound && residual < 0) continue;
+        squared += residual * residual;
+      }
+      const residual = n > 0 ? Math.sqrt(squared / n) : 0;
+      if (residual <= tolerance || iteration === maxIterations) {
+        return {
+          iterations: iteration,
+          residual,
+          converged: residual <= tolerance,
+        };
+      }
+
+      for (let i = 0; i < n; i++) {
+        x[i] = Math.max(
+          lowerBound,
+          x[i] + (relaxation * (rhs[i] - product[i])) / diagonal[i]
+        );
+      }
+    }
+  }
+
+  /**
+   * Preconditioned conjugate gradient. The residual is tracked by the
+   * recurrence rather than recomputed, which is exact up to rounding.
+   */
+  static conjugateGradient(
+    apply: LinearOperator,
+    diagonal: Float64Array,
+    rhs: Float64Array,
+    x: Float64Array,
+    options: LinearSolverOptions = {}
+  ): LinearSolverResult {
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+    const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const weights = options.weights;
+    const n = rhs.length;
+    const dot = (a: Float64Array, b: Float64Array): number => {
+      let sum = 0;
+      for (let i = 0; i < n; i++) {
+        sum += (weights ? weights[i] : 1) * a[i] * b[i];
+      }
+      return sum;
+    };
+    const rms = (a: Float64Array): number => {
+      let sum = 0;
+      for (let i = 0; i < n; i++) sum += a[i] * a[i];
+      return n > 0 ? Math.sqrt(sum / n) : 0;
+    };
+
+    const residual = new Float64Array(n);
+    const preconditioned = new Float64Array(n);
+    const direction = new Float64Array(n);
+    const product = new Float64Array(n);
+    apply(x, product);
+    for (let i = 0; i < n; i++) {
+      residual[i] = rhs[i] - product[i];
+      preconditioned[i] = residual[i] / diagonal[i];
+    }
+    direction.set(preconditioned);
+    let alignment = dot(residual, preconditioned);
+
+    for (let iteration = 0; ; iteration++) {
+      const norm = rms(residual);
+      if (norm <= tolerance || iteration === maxIterations) {
+        return {
+          iterations: iteration,
+          residual: norm,
+          converged: norm <= tolerance,
+        };
+      }
+
+      apply(direction, product);
+      const curvature = dot(direction, product);
+      // Only a singular or indefinite operator gets here
+      if (!(curvature > 0)) {
+        return { iterations: iteration, residual: norm, converged: false };
+      }
+      const step = alignment / curvature;
+      for (let i = 0; i < n; i++) {
+        x[i] += step * direction[i];
+        residual[i] -= step * product[i];
+        preconditioned[i] = residual[i] / diagonal[i];
+      }
+
+      const nextAlignment = dot(residual, preconditioned);
+      const beta = nextAlignment / alignment;
+      alignment = nextAlignment;
+      for (let i = 0; i < n; i++) {
+        direction[i] = preconditioned[i] + beta * direction[i];
+      }
+    }
+  }
+}
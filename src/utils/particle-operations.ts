@@ -1,4 +1,5 @@
 import { vec3 } from "gl-matrix";
+import { SpatialHashGrid } from "./spatial-hash";
 
 export interface Particle {
   position: vec3;
@@ -18,13 +19,37 @@ export class ParticleOperations {
   }
 
   static kernelSpikyGradient(r: vec3, h: number): vec3 {
-    const rlen = vec3.length(r);
-    if (rlen > h || rlen === 0) return vec3.create();
+    const result = vec3.create();
+    return vec3.scale(
+      result,
+      r,
+      this.kernelSpikyGradientScale(vec3.length(r), h)
+    );
+  }
+
+  // Factor s such that the spiky gradient is s * r, for allocation-free loops
+  static kernelSpikyGradientScale(rlen: number, h: number): number {
+    if (rlen > h || rlen === 0) return 0;
 
     const coefficient =
       (-45.0 / (Math.PI * Math.pow(h, 6))) * Math.pow(h - rlen, 2);
-    const result = vec3.create();
-    return vec3.scale(result, r, coefficient / rlen);
+    return coefficient / rlen;
+  }
+
+  static kernelViscosityLaplacian(r: number, h: number): number {
+    if (r > h) return 0;
+    return (45.0 / (Math.PI * Math.pow(h, 6))) * (h - r);
+  }
+
+  // Tait equation of state for weakly-compressible SPH
+  static taitPressure(
+    density: number,
+    restDensity: number,
+    speedOfSound: number,
+    gamma: number = 7
+  ): number {
+    const stiffness = (restDensity * speedOfSound * speedOfSound) / gamma;
+    return stiffness * (Math.pow(density / restDensity, gamma) - 1);
   }
 
   static calculateDensity(
@@ -138,15 +163,35 @@ export class ParticleOperations {
     }
   }
 
+  /**
+   * Build a spatial hash over the particles, to be shared by every
+   * findNeighbors call until the particles move again.
+   */
+  static buildNeighborGrid(
+    allParticles: Particle[],
+    searchRadius: number
+  ): SpatialHashGrid {
+    const grid = new SpatialHashGrid(searchRadius);
+    grid.build(allParticles.length, (i) => allParticles[i].position);
+    return grid;
+  }
+
+  /**
+   * Particles within the search radius, looked up in a grid from
+   * buildNeighborGrid. The grid is required so that a loop over every
+   * particle builds it once rather than once per particle.
+   */
   static findNeighbors(
     particle: Particle,
     allParticles: Particle[],
-    searchRadius: number
+    searchRadius: number,
+    grid: SpatialHashGrid
   ): Particle[] {
-    return allParticles.filter((other) => {
-      if (other === particle) return false;
-      const dist = vec3.distance(particle.position, other.position);
-      return dist < searchRadius;
+    const neighbors: Particle[] = [];
+    grid.forEachNeighbor(particle.position, searchRadius, (index) => {
+      const other = allParticles[index];
+      if (other !== particle) neighbors.push(other);
     });
+    return neighbors;
   }
 }
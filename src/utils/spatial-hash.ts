@@ -0,0 +1,261 @@
+/**
+ * Compressed neighbor lists: the neighbors of particle i are
+ * indices[offsets[i]] .. indices[offsets[i + 1] - 1].
+ */
+export interface NeighborList {
+  offsets: Int32Array;
+  indices: Int32Array;
+  // Only for a periodic domain: the amount added to particle i's coordinate
+  // on the periodic axis to reach the image next to neighbor j, per pair.
+  // Zero for pairs that do not straddle the seam.
+  shifts?: Float32Array;
+}
+
+/**
+ * An axis along which the indexed points repeat with the given period
+ */
+export interface Periodicity {
+  axis: number;
+  min: number;
+  length: number;
+}
+
+const HASH_PRIME_X = 73856093;
+const HASH_PRIME_Y = 19349663;
+const HASH_PRIME_Z = 83492791;
+
+export class SpatialHashGrid {
+  private cellSize: number;
+  private count: number = 0;
+  private positions: Float64Array = new Float64Array(0);
+  private tableSize: number = 1;
+  private cellStart: Int32Array = new Int32Array(2);
+  private cellEntries: Int32Array = new Int32Array(0);
+  private neighborIndices: Int32Array = new Int32Array(0);
+  private neighborShifts: Float32Array = new Float32Array(0);
+  private visitedBuckets: number[] = [];
+
+  constructor(cellSize: number) {
+    this.cellSize = cellSize;
+  }
+
+  public setCellSize(cellSize: number): void {
+    this.cellSize = cellSize;
+  }
+
+  public getCellSize(): number {
+    return this.cellSize;
+  }
+
+  public getCount(): number {
+    return this.count;
+  }
+
+  /**
+   * Rebuild the hash from scratch for the given points using a counting sort
+   * over hashed cell ids, so each cell's entries are contiguous in memory.
+   */
+  public build(
+    count: number,
+    positionOf: (index: number) => ArrayLike<number>
+  ): void {
+    this.reservePositions(count);
+    for (let i = 0; i < count; i++) {
+      const p = positionOf(i);
+      this.positions[i * 3] = p[0];
+      this.positions[i * 3 + 1] = p[1];
+      this.positions[i * 3 + 2] = p[2];
+    }
+    this.buildTable(count);
+  }
+
+  /**
+   * Same as build, reading the first `count` points from a packed xyz array
+   */
+  public buildFromArray(count: number, positions: ArrayLike<number>): void {
+    this.reservePositions(count);
+    for (let i = 0; i < count * 3; i++) {
+      this.positions[i] = positions[i];
+    }
+    this.buildTable(count);
+  }
+
+  /**
+   * Visit every indexed point within `radius` of `point`. The callback
+   * receives the point index and the squared distance.
+   */
+  public forEachNeighbor(
+    point: ArrayLike<number>,
+    radius: number,
+    callback: (index: number, distanceSquared: number) => void
+  ): void {
+    if (this.count === 0) return;
+
+    const radiusSquared = radius * radius;
+    const reach = Math.max(1, Math.ceil(radius / this.cellSize));
+    const cx = Math.floor(point[0] / this.cellSize);
+    const cy = Math.floor(point[1] / this.cellSize);
+    const cz = Math.floor(point[2] / this.cellSize);
+
+    // With few points the table is small, so distinct cells may share a hash
+    // bucket. Track visited buckets to avoid reporting a point twice.
+    const visited = this.visitedBuckets;
+    visited.length = 0;
+
+    for (let dx = -reach; dx <= reach; dx++) {
+      for (let dy = -reach; dy <= reach; dy++) {
+        for (let dz = -reach; dz <= reach; dz++) {
+          const hash = this.hashCell(cx + dx, cy + dy, cz + dz);
+          if (visited.indexOf(hash) !== -1) continue;
+          visited.push(hash);
+
+          const end = this.cellStart[hash + 1];
+          for (let e = this.cellStart[hash]; e < end; e++) {
+            const j = this.cellEntries[e];
+            const rx = this.positions[j * 3] - point[0];
+            const ry = this.positions[j * 3 + 1] - point[1];
+            const rz = this.positions[j * 3 + 2] - point[2];
+            const distanceSquared = rx * rx + ry * ry + rz * rz;
+            if (distanceSquared < radiusSquared) {
+              callback(j, distanceSquared);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  public queryNeighbors(point: ArrayLike<number>, radius: number): number[] {
+    const result: number[] = [];
+    this.forEachNeighbor(point, radius, (index) => result.push(index));
+    return result;
+  }
+
+  /**
+   * Build neighbor lists (excluding self) for every indexed point. With a
+   * periodic axis, points within `radius` of either end also find their
+   * neighbors across the seam. The returned arrays are reused between
+   * calls, so copy them if they need to outlive the next build.
+   */
+  public buildNeighborList(
+    radius: number,
+    periodic?: Periodicity
+  ): NeighborList {
+    if (periodic && periodic.length < 2 * radius) {
+      throw new Error(
+        `Periodic length ${periodic.length} is under twice the neighbor radius ${radius}`
+      );
+    }
+
+    const offsets = new Int32Array(this.count + 1);
+    let indices = this.neighborIndices;
+    let shifts = this.neighborShifts;
+    let cursor = 0;
+    let shift = 0;
+    const point = [0, 0, 0];
+    const addNeighbor = (j: number): void => {
+      if (cursor >= indices.length) {
+        const grown = new Int32Array(Math.max(1024, indices.length * 2));
+        grown.set(indices);
+        indices = grown;
+      }
+      if (periodic && cursor >= shifts.length) {
+        const grown = new Float32Array(indices.length);
+        grown.set(shifts);
+        shifts = grown;
+      }
+      if (periodic) shifts[cursor] = shift;
+      indices[cursor++] = j;
+    };
+
+    for (let i = 0; i < this.count; i++) {
+      offsets[i] = cursor;
+      point[0] = this.positions[i * 3];
+      point[1] = this.positions[i * 3 + 1];
+      point[2] = this.positions[i * 3 + 2];
+
+      shift = 0;
+      this.forEachNeighbor(point, radius, (j) => {
+        if (j !== i) addNeighbor(j);
+      });
+
+      if (periodic) {
+        // The period is over twice the radius, so at most one image of the
+        // point reaches across the seam
+        const coordinate = point[periodic.axis];
+        if (coordinate - periodic.min < radius) {
+          shift = periodic.length;
+        } else if (periodic.min + periodic.length - coordinate < radius) {
+          shift = -periodic.length;
+        } else {
+          continue;
+        }
+        point[periodic.axis] = coordinate + shift;
+        this.forEachNeighbor(point, radius, addNeighbor);
+      }
+    }
+    offsets[this.count] = cursor;
+
+    this.neighborIndices = indices;
+    this.neighborShifts = shifts;
+    return periodic ? { offsets, indices, shifts } : { offsets, indices };
+  }
+
+  private reservePositions(count: number): void {
+    if (this.positions.length < count * 3) {
+      this.positions = new Float64Array(count * 3);
+    }
+  }
+
+  private buildTable(count: number): void {
+    this.count = count;
+    this.tableSize = Math.max(1, count * 2);
+    if (this.cellStart.length < this.tableSize + 1) {
+      this.cellStart = new Int32Array(this.tableSize + 1);
+    } else {
+      this.cellStart.fill(0, 0, this.tableSize + 1);
+    }
+    if (this.cellEntries.length < count) {
+      this.cellEntries = new Int32Array(count);
+    }
+
+    const hashes = new Int32Array(count);
+    for (let i = 0; i < count; i++) {
+      const hash = this.hashPosition(
+        this.positions[i * 3],
+        this.positions[i * 3 + 1],
+        this.positions[i * 3 + 2]
+      );
+      hashes[i] = hash;
+      this.cellStart[hash]++;
+    }
+
+    // Prefix sum, then fill from the back so cellStart ends up at each start
+    let start = 0;
+    for (let h = 0; h < this.tableSize; h++) {
+      start += this.cellStart[h];
+      this.cellStart[h] = start;
+    }
+    this.cellStart[this.tableSize] = start;
+
+    for (let i = count - 1; i >= 0; i--) {
+      this.cellEntries[--this.cellStart[hashes[i]]] = i;
+    }
+  }
+
+  private hashPosition(x: number, y: number, z: number): number {
+    return this.hashCell(
+      Math.floor(x / this.cellSize),
+      Math.floor(y / this.cellSize),
+      Math.floor(z / this.cellSize)
+    );
+  }
+
+  private hashCell(ix: number, iy: number, iz: number): number {
+    const h =
+      Math.imul(ix, HASH_PRIME_X) ^
+      Math.imul(iy, HASH_PRIME_Y) ^
+      Math.imul(iz, HASH_PRIME_Z);
+    return ((h % this.tableSize) + this.tableSize) % this.tableSize;
+  }
+}
@@ -3,7 +3,32 @@
 import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls";
 import { GeometryUtils } from "./geometry-utils";
-import { vec3 } from "gl-matrix";
+import { ParticleTrack, WallImpact } from "../core/particle-tracking";
+import { BoundaryTagMap, BoundaryTags } from "../core/boundary-tags";
+
+export type ParticleColorMode =
+  | "velocity"
+  | "phase"
+  | "viscosity"
+  | "temperature";
+
+// Water, oil, gas, then distinct hues for any further phases
+const PHASE_COLORS = [0x1e88e5, 0xffb300, 0xe0e0e0, 0xe53935, 0x43a047];
+
+// Tagged inlets and outlets, as in the OpenFOAM boundary view; walls keep
+// the model colour
+const BOUNDARY_COLORS = { inlet: 0x00ff00, outlet: 0xff0000, wall: 0x156289 };
+
+// Solid particle tracks by how they ended
+const TRACK_COLORS = { moving: 0xffffff, settled: 0xffb300, escaped: 0x43a047 };
+
+interface ParticleFrame {
+  positions: Float32Array;
+  velocities?: Float32Array;
+  phases?: Uint8Array;
+  viscosities?: Float32Array;
+  temperatures?: Float32Array;
+}
 
 export class Visualizer {
   private scene: THREE.Scene;
@@ -11,7 +36,12 @@ export class Visualizer {
   private renderer: THREE.WebGLRenderer;
   private controls: OrbitControls;
   private particles: THREE.Points | null = null;
+  private particleColors: Float32Array = new Float32Array(0);
+  private colorMode: ParticleColorMode = "velocity";
+  private lastFrame: ParticleFrame | null = null;
   private model: THREE.Object3D | null = null;
+  private pig: THREE.Mesh | null = null;
+  private tracks: THREE.Group | null = null;
 
   constructor(container: HTMLElement) {
     // Scene setup
@@ -64,25 +94,34 @@ export class Visualizer {
     this.renderer.setSize(container.clientWidth, container.clientHeight);
   }
 
-  public setModel(model: THREE.Object3D): void {
+  public setModel(
+    model: THREE.Object3D,
+    tags: BoundaryTagMap = new Map()
+  ): void {
     if (this.model) {
       this.scene.remove(this.model);
     }
 
     this.model = model;
 
-    // Create the material we want to apply
-    const material = new THREE.MeshPhongMaterial({
-      color: 0x156289,
-      transparent: true,
-      opacity: 0.7,
-      wireframe: false,
-    });
+    // One material per boundary type
+    const materials = Object.fromEntries(
+      Object.entries(BOUNDARY_COLORS).map(([type, color]) => [
+        type,
+        new THREE.MeshPhongMaterial({
+          color,
+          transparent: true,
+          opacity: 0.7,
+          wireframe: false,
+        }),
+      ])
+    );
 
-    // Traverse the model and apply material to all meshes
+    // Traverse the model and paint each mesh by its boundary type
     model.traverse((child) => {
       if (child instanceof THREE.Mesh) {
-        child.material = material;
+        const type = BoundaryTags.find(child, tags)?.tag.type ?? "wall";
+        child.material = materials[type];
       }
     });
 
@@ -118,59 +157,260 @@ export class Visualizer {
     this.scene.remove(object);
   }
 
+  /**
+   * Draw the pig as a solid cylinder centred at `center` along `direction`
+   */
+  public showPig(
+    center: THREE.Vector3,
+    direction: THREE.Vector3,
+    radius: number,
+    length: number
+  ): void {
+    if (!this.pig) {
+      // Unit cylinder along y, scaled to the pig's size
+      this.pig = new THREE.Mesh(
+        new THREE.CylinderGeometry(1, 1, 1, 24),
+        new THREE.MeshPhongMaterial({ color: 0xd84315 })
+      );
+      this.scene.add(this.pig);
+    }
+
+    this.pig.position.copy(center);
+    this.pig.quaternion.setFromUnitVectors(
+      new THREE.Vector3(0, 1, 0),
+      direction.clone().normalize()
+    );
+    this.pig.scale.set(radius, length, radius);
+  }
+
+  public hidePig(): void {
+    if (this.pig) {
+      this.scene.remove(this.pig);
+      this.pig.geometry.dispose();
+      (this.pig.material as THREE.Material).dispose();
+      this.pig = null;
+    }
+  }
+
+  /**
+   * Draw solid particle tracks coloured by how they ended, with their wall
+   * impacts as red points, replacing any shown before
+   */
+  public showParticleTracks(
+    tracks: ParticleTrack[],
+    impacts: WallImpact[]
+  ): void {
+    this.hideParticleTracks();
+    this.tracks = new THREE.Group();
+    tracks.forEach((track) => {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute(
+        "position",
+        new THREE.Float32BufferAttribute(track.positions, 3)
+      );
+      this.tracks!.add(
+        new THREE.Line(
+          geometry,
+          new THREE.LineBasicMaterial({ color: TRACK_COLORS[track.state] })
+        )
+      );
+    });
+    if (impacts.length > 0) {
+      const geometry = new THREE.BufferGeometry();
+      geometry.setAttribute(
+        "position",
+        new THREE.Float32BufferAttribute(
+          impacts.flatMap((impact) => impact.position),
+          3
+        )
+      );
+      this.tracks.add(
+        new THREE.Points(
+          geometry,
+          new THREE.PointsMaterial({ size: 0.01, color: 0xe53935 })
+        )
+      );
+    }
+    this.scene.add(this.tracks);
+  }
+
+  public hideParticleTracks(): void {
+    if (this.tracks) {
+      this.scene.remove(this.tracks);
+      this.tracks.traverse((child) => {
+        if (child instanceof THREE.Line || child instanceof THREE.Points) {
+          child.geometry.dispose();
+          (child.material as THREE.Material).dispose();
+        }
+      });
+      this.tracks = null;
+    }
+  }
+
   public updateParticleSize(size: number): void {
     if (this.particles) {
       (this.particles.material as THREE.PointsMaterial).size = size;
     }
   }
 
-  public updateParticles(positions: vec3[], velocities?: vec3[]): void {
-    const geometry = new THREE.BufferGeometry();
-    const positionArray = new Float32Array(positions.length * 3);
-    const colors = new Float32Array(positions.length * 3);
+  /**
+   * Show particles from packed xyz buffers, such as the simulator's storage
+   * views or the frames posted by the simulation worker. The position buffer
+   * is drawn as-is, not copied.
+   */
+  public updateParticles(
+    positions: Float32Array,
+    velocities?: Float32Array,
+    phases?: Uint8Array,
+    viscosities?: Float32Array,
+    temperatures?: Float32Array
+  ): void {
+    const count = positions.length / 3;
+    this.lastFrame = {
+      positions,
+      velocities,
+      phases,
+      viscosities,
+      temperatures,
+    };
+
+    if (!this.particles) {
+      this.particles = new THREE.Points(
+        new THREE.BufferGeometry(),
+        new THREE.PointsMaterial({ size: 0.05, color: 0x00ff00 })
+      );
+      this.scene.add(this.particles);
+    }
 
-    positions.forEach((pos, i) => {
-      positionArray[i * 3] = pos[0];
-      positionArray[i * 3 + 1] = pos[1];
-      positionArray[i * 3 + 2] = pos[2];
+    // Reuse the GPU buffer while the same storage is being redrawn; a new
+    // array needs a new geometry so the old buffer is released
+    let geometry = this.particles.geometry;
+    const current = geometry.getAttribute("position");
+    const sameStorage =
+      current?.array.buffer === positions.buffer &&
+      current.array.byteOffset === positions.byteOffset &&
+      current.array.length === positions.length;
+    if (sameStorage) {
+      current.needsUpdate = true;
+    } else {
+      geometry.dispose();
+      geometry = new THREE.BufferGeometry();
+      geometry.setAttribute(
+        "position",
+        new THREE.BufferAttribute(positions, 3)
+      );
+      this.particles.geometry = geometry;
+    }
 
-      // Color based on velocity if available
-      if (velocities) {
-        const velocity = velocities[i];
-        const speed = Math.sqrt(
-          velocity[0] * velocity[0] +
-            velocity[1] * velocity[1] +
-            velocity[2] * velocity[2]
-        );
-        const hue = Math.min(speed / 10, 1); // Normalize speed to 0-1
-        const color = new THREE.Color().setHSL(hue, 1, 0.5);
+    // Color by the selected quantity if it was supplied
+    const material = this.particles.material as THREE.PointsMaterial;
+    const colored =
+      this.colorMode === "phase"
+        ? !!phases
+        : this.colorMode === "viscosity"
+          ? !!viscosities
+          : this.colorMode === "temperature"
+            ? !!temperatures
+            : !!velocities;
+    if (colored) {
+      if (this.particleColors.length < count * 3) {
+        this.particleColors = new Float32Array(count * 6);
+      }
+      const colors = this.particleColors;
+      const color = new THREE.Color();
+      // Viscosity spans decades in shear-thinning and yield-stress fluids,
+      // so it is coloured on a log scale between the frame's extremes
+      let logMin = 0;
+      let logRange = 0;
+      if (this.colorMode === "viscosity") {
+        let min = Infinity;
+        let max = 0;
+        for (let i = 0; i < count; i++) {
+          min = Math.min(min, viscosities![i]);
+          max = Math.max(max, viscosities![i]);
+        }
+        logMin = Math.log10(Math.max(min, 1e-12));
+        logRange = Math.log10(Math.max(max, 1e-12)) - logMin;
+      }
+      let minTemperature = 0;
+      let temperatureRange = 0;
+      if (this.colorMode === "temperature") {
+        let max = -Infinity;
+        minTemperature = Infinity;
+        for (let i = 0; i < count; i++) {
+          minTemperature = Math.min(minTemperature, temperatures![i]);
+          max = Math.max(max, temperatures![i]);
+        }
+        temperatureRange = max - minTemperature;
+      }
+      for (let i = 0; i < count; i++) {
+        if (this.colorMode === "phase") {
+          color.setHex(PHASE_COLORS[phases![i] % PHASE_COLORS.length]);
+        } else if (this.colorMode === "viscosity") {
+          // Blue for the thinnest fluid through to red for the thickest
+          const t =
+            logRange > 0
+              ? (Math.log10(Math.max(viscosities![i], 1e-12)) - logMin) /
+                logRange
+              : 0;
+          color.setHSL(0.66 * (1 - t), 1, 0.5);
+        } else if (this.colorMode === "temperature") {
+          // Blue for the coldest fluid through to red for the hottest
+          const t =
+            temperatureRange > 0
+              ? (temperatures![i] - minTemperature) / temperatureRange
+              : 0;
+          color.setHSL(0.66 * (1 - t), 1, 0.5);
+        } else {
+          const speed = Math.sqrt(
+            velocities![i * 3] * velocities![i * 3] +
+              velocities![i * 3 + 1] * velocities![i * 3 + 1] +
+              velocities![i * 3 + 2] * velocities![i * 3 + 2]
+          );
+          const hue = Math.min(speed / 10, 1); // Normalize speed to 0-1
+          color.setHSL(hue, 1, 0.5);
+        }
         colors[i * 3] = color.r;
         colors[i * 3 + 1] = color.g;
         colors[i * 3 + 2] = color.b;
       }
-    });
 
-    geometry.setAttribute(
-      "position",
-      new THREE.BufferAttribute(positionArray, 3)
-    );
-
-    if (velocities) {
-      geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+      const colorAttribute = geometry.getAttribute("color");
+      if (colorAttribute?.array.buffer === colors.buffer && sameStorage) {
+        colorAttribute.needsUpdate = true;
+      } else {
+        geometry.setAttribute(
+          "color",
+          new THREE.BufferAttribute(colors.subarray(0, count * 3), 3)
+        );
+      }
+    } else {
+      geometry.deleteAttribute("color");
     }
 
-    if (this.particles) {
-      this.scene.remove(this.particles);
+    if (material.vertexColors !== colored) {
+      material.vertexColors = colored;
+      material.color.set(colored ? 0xffffff : 0x00ff00);
+      material.needsUpdate = true;
     }
+  }
 
-    const material = new THREE.PointsMaterial({
-      size: 0.05,
-      vertexColors: !!velocities,
-      color: velocities ? undefined : 0x00ff00,
-    });
-
-    this.particles = new THREE.Points(geometry, material);
-    this.scene.add(this.particles);
+  /**
+   * Choose what particle colours show, redrawing the last particles shown
+   */
+  public setColorMode(mode: ParticleColorMode): void {
+    this.colorMode = mode;
+    if (this.lastFrame) {
+      const { positions, velocities, phases, viscosities, temperatures } =
+        this.lastFrame;
+      this.updateParticles(
+        positions,
+        velocities,
+        phases,
+        viscosities,
+        temperatures
+      );
+    }
   }
 
   private animate = (): void => {
@@ -0,0 +1,114 @@
+import * as THREE from "three";
+import { BoundaryOpening, SignedDistanceField } from "../src/core/boundary-sdf";
+import { SPHSimulator } from "../src/core/sph-simulator";
+
+const BORE = 0.05;
+const OUTSIDE = 0.07;
+const LENGTH = 0.4;
+
+// A pipe-wall solid along y: the annulus between the bore and the outside
+// diameter swept round, with annular faces closing its ends
+const pipeWall = (): THREE.BufferGeometry =>
+  new THREE.LatheGeometry(
+    [
+      new THREE.Vector2(BORE, -LENGTH / 2),
+      new THREE.Vector2(OUTSIDE, -LENGTH / 2),
+      new THREE.Vector2(OUTSIDE, LENGTH / 2),
+      new THREE.Vector2(BORE, LENGTH / 2),
+      new THREE.Vector2(BORE, -LENGTH / 2),
+    ],
+    32
+  );
+
+// Inlet at the bottom and outlet at the top, just inside the ends
+const ends: BoundaryOpening[] = [
+  {
+    center: new THREE.Vector3(0, -LENGTH / 2 + 0.01, 0),
+    direction: new THREE.Vector3(0, -1, 0),
+    radius: BORE,
+  },
+  {
+    center: new THREE.Vector3(0, LENGTH / 2 - 0.01, 0),
+    direction: new THREE.Vector3(0, 1, 0),
+    radius: BORE,
+  },
+];
+
+describe("SignedDistanceField", () => {
+  it("puts the fluid in the bore of a pipe-wall solid", () => {
+    const field = SignedDistanceField.fromGeometry(pipeWall(), {
+      cellSize: 0.005,
+      openings: ends,
+    });
+    // Down the bore, and next to its wall
+    for (const y of [-0.15, 0, 0.15]) {
+      expect(field.sample(0, y, 0)).toBeLessThan(0);
+    }
+    expect(field.sample(0, 0, BORE - 0.005)).toBeLessThan(0);
+    // Not in the wall, nor around the pipe
+    expect(field.sample(0.06, 0, 0)).toBeGreaterThan(0);
+    expect(field.sample(0, 0, -0.09)).toBeGreaterThan(0);
+    expect(field.sample(0.08, 0.1, 0.08)).toBeGreaterThan(0);
+    // The wall normal points from the bore into the wall
+    const normal = [0, 0, 0];
+    expect(field.gradient(0.045, 0, 0, normal)).toBe(true);
+    expect(normal[0]).toBeCloseTo(1, 1);
+  });
+
+  it("keeps the fluid inside a fluid volume, with or without its ends", () => {
+    const closed = SignedDistanceField.fromGeometry(
+      new THREE.CylinderGeometry(BORE, BORE, LENGTH, 32),
+      { cellSize: 0.005 }
+    );
+    expect(closed.sample(0, 0, 0)).toBeLessThan(0);
+    expect(closed.sample(0.06, 0, 0)).toBeGreaterThan(0);
+
+    // With the inlet and outlet faces cut out, the openings stop the far
+    // field from flooding the bore
+    const open = SignedDistanceField.fromGeometry(
+      new THREE.CylinderGeometry(BORE, BORE, LENGTH, 32, 1, true),
+      { cellSize: 0.005, openings: ends }
+    );
+    expect(open.sample(0, 0, 0)).toBeLessThan(0);
+    expect(open.sample(0.06, 0, 0)).toBeGreaterThan(0);
+  });
+
+  it("takes the fluid side as given", () => {
+    const field = SignedDistanceField.fromGeometry(pipeWall(), {
+      cellSize: 0.005,
+      openings: ends,
+      fluidInside: true,
+    });
+    expect(field.sample(0, 0, 0)).toBeGreaterThan(0);
+    expect(field.sample(0.06, 0, 0)).toBeLessThan(0);
+  });
+});
+
+describe("SPHSimulator with a pipe-wall solid", () => {
+  it("fills only the bore", () => {
+    const simulator = new SPHSimulator({
+      bounds: new THREE.Box3(
+        new THREE.Vector3(-OUTSIDE, -LENGTH / 2, -OUTSIDE),
+        new THREE.Vector3(OUTSIDE, LENGTH / 2, OUTSIDE)
+      ),
+      boundaryGeometry: pipeWall(),
+      viscosity: 0.001,
+      density: 1000,
+      flowRate: 0.001,
+      timeStep: 0.001,
+      particleSpacing: 0.01,
+      inlets: [{ ...ends[0], normal: new THREE.Vector3(0, 1, 0) }],
+      outlets: [{ ...ends[1], normal: new THREE.Vector3(0, 1, 0) }],
+    });
+    simulator.resetSimulation();
+
+    const positions = simulator.getParticlePositions();
+    const count = simulator.getParticleCount();
+    expect(count).toBeGreaterThan(100);
+    for (let i = 0; i < count; i++) {
+      const x = positions[i * 3];
+      const z = positions[i * 3 + 2];
+      expect(Math.hypot(x, z)).toBeLessThan(BORE);
+    }
+  });
+});
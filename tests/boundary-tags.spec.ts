@@ -0,0 +1,177 @@
+import * as THREE from "three";
+import { BoundaryTags, UNTAGGED_SURFACE } from "../src/core/boundary-tags";
+import { surfacePatch } from "../src/core/flow-patches";
+import { OpenFOAMCaseWriter } from "../src/adapters/openfoam-case-writer";
+
+// A 0.1 m square facing +x, as the end of a pipe running along x
+const endCap = (name: string, x: number, facing: 1 | -1): THREE.Mesh => {
+  const geometry = new THREE.PlaneGeometry(0.1, 0.1);
+  geometry.rotateY((facing * Math.PI) / 2);
+  const mesh = new THREE.Mesh(geometry);
+  mesh.name = name;
+  mesh.position.x = x;
+  return mesh;
+};
+
+// A pipe along x as Blender would export it: the wall, and end caps named
+// and tagged with custom properties
+const taggedPipe = (): THREE.Group => {
+  const model = new THREE.Group();
+  const wall = new THREE.Mesh(
+    new THREE.CylinderGeometry(0.05, 0.05, 1, 16, 1, true)
+  );
+  wall.name = "Pipe";
+  wall.userData = { roughness: 0.5, boundary: "wall" };
+  const inlet = endCap("Inlet.001", -0.5, -1);
+  inlet.userData = { flowRate: 0.002, temperature: "330" };
+  const outlets = new THREE.Group();
+  outlets.name = "Outlet";
+  outlets.userData = { pressure: 1000 };
+  outlets.add(endCap("Cap", 0.5, 1));
+  const support = new THREE.Mesh(new THREE.BoxGeometry(0.1, 0.1, 0.1));
+  support.name = "Support";
+  model.add(wall, inlet, outlets, support);
+  return model;
+};
+
+describe("BoundaryTags", () => {
+  it("reads tags from object names and custom properties", () => {
+    const tags = BoundaryTags.read(taggedPipe());
+    expect(Array.from(tags)).toEqual([
+      ["Pipe", { type: "wall", roughness: 5e-4 }],
+      ["Inlet.001", { type: "inlet", flowRate: 0.002, temperature: 330 }],
+      ["Outlet", { type: "outlet", pressure: 1000 }],
+    ]);
+  });
+
+  it("lets the boundary property override the name", () => {
+    const model = new THREE.Group();
+    const object = new THREE.Mesh();
+    object.name = "inlet_old";
+    object.userData = { boundary: "Wall" };
+    model.add(object);
+    const wallpaper = new THREE.Mesh();
+    wallpaper.name = "Wallpaper";
+    model.add(wallpaper);
+    expect(Array.from(BoundaryTags.read(model))).toEqual([
+      ["inlet_old", { type: "wall" }],
+    ]);
+  });
+
+  it("rejects unknown types and settings that do not apply", () => {
+    const tagged = (name: string, userData: Record<string, unknown>) => {
+      const object = new THREE.Object3D();
+      object.name = name;
+      object.userData = userData;
+      return () => BoundaryTags.read(object);
+    };
+    expect(tagged("A", { boundary: "symmetry" })).toThrow(
+      'Unknown boundary type "symmetry" on A'
+    );
+    expect(tagged("wall", { flowRate: 1 })).toThrow(
+      "flowRate does not apply to wall wall"
+    );
+    expect(tagged("inlet", { flowRate: "lots" })).toThrow(
+      "flowRate of inlet must be a number"
+    );
+    expect(tagged("wall", { roughness: -1 })).toThrow(
+      "roughness of wall must not be negative"
+    );
+  });
+
+  it("groups meshes by their nearest tagged object", () => {
+    const model = taggedPipe();
+    const tags = BoundaryTags.read(model);
+    const cap = model.getObjectByName("Cap")!;
+    expect(BoundaryTags.find(cap, tags)?.name).toBe("Outlet");
+    expect(BoundaryTags.find(model, tags)).toBeUndefined();
+
+    const surfaces = BoundaryTags.surfaces(model, tags);
+    expect(surfaces.map((s) => [s.name, s.tag.type])).toEqual([
+      ["Pipe", "wall"],
+      ["Inlet.001", "inlet"],
+      ["Outlet", "outlet"],
+      [UNTAGGED_SURFACE, "wall"],
+    ]);
+    // In world space: the outlet cap sits at the far end
+    const outlet = surfaces[2].geometry.getAttribute("position");
+    for (let i = 0; i < outlet.count; i++) {
+      expect(outlet.getX(i)).toBeCloseTo(0.5, 9);
+    }
+  });
+});
+
+describe("surfacePatch", () => {
+  it("fits inlets facing into the pipe and outlets facing out", () => {
+    const model = taggedPipe();
+    const surfaces = BoundaryTags.surfaces(model, BoundaryTags.read(model));
+
+    const inlet = surfacePatch(surfaces[1].geometry, "inlet")!;
+    expect(inlet.center.toArray().map((v) => +v.toFixed(9))).toEqual([
+      -0.5, 0, 0,
+    ]);
+    expect(inlet.normal.x).toBeCloseTo(1, 9);
+    expect(inlet.area).toBeCloseTo(0.01, 9);
+    expect(inlet.radius).toBeCloseTo(Math.sqrt(0.01 / Math.PI), 6);
+
+    const outlet = surfacePatch(surfaces[2].geometry, "outlet")!;
+    expect(outlet.center.x).toBeCloseTo(0.5, 9);
+    expect(outlet.normal.x).toBeCloseTo(1, 9);
+
+    // A closed box faces no way in particular
+    expect(surfacePatch(surfaces[3].geometry, "outlet")).toBeNull();
+  });
+});
+
+describe("OpenFOAMCaseWriter", () => {
+  it("writes each surface as a patch with its settings", () => {
+    const model = taggedPipe();
+    // A second inlet without a flow rate of its own takes the case's
+    model.add(endCap("inlet side", 0, 1));
+    const files = OpenFOAMCaseWriter.write(
+      BoundaryTags.surfaces(model, BoundaryTags.read(model)),
+      { flowRate: 0.005, density: 1000 }
+    );
+
+    expect(Object.keys(files).sort()).toEqual([
+      "0/U",
+      "0/nut",
+      "0/p",
+      "constant/triSurface/Inlet_001.stl",
+      "constant/triSurface/Outlet.stl",
+      "constant/triSurface/Pipe.stl",
+      "constant/triSurface/inlet_side.stl",
+      "constant/triSurface/walls.stl",
+    ]);
+    const stl = files["constant/triSurface/Outlet.stl"];
+    expect(stl.startsWith("solid Outlet\n")).toBe(true);
+    expect(stl.match(/facet normal 1 0 0/g)).toHaveLength(2);
+
+    expect(files["0/U"]).toContain(
+      "    Inlet_001\n" +
+        "    {\n" +
+        "        type            flowRateInletVelocity;\n" +
+        "        volumetricFlowRate 0.002;"
+    );
+    expect(files["0/U"]).toContain("volumetricFlowRate 0.005;");
+    expect(files["0/U"]).toContain(
+      "    walls\n    {\n        type            noSlip;\n    }"
+    );
+    // Kinematic pressure at the outlet
+    expect(files["0/p"]).toContain(
+      "    Outlet\n" +
+        "    {\n" +
+        "        type            fixedValue;\n" +
+        "        value           uniform 1;"
+    );
+    expect(files["0/nut"]).toContain(
+      "    Pipe\n" +
+        "    {\n" +
+        "        type            nutkRoughWallFunction;\n" +
+        "        Ks              uniform 0.0005;"
+    );
+    expect(files["0/nut"]).toContain(
+      "    walls\n    {\n        type            nutkWallFunction;"
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as THREE from "three";
+import { CADReader } from "../src/core/cad-reader";
+
+// Sample models shipped with occt-import-js
+const testFiles = path.join(
+  path.dirname(require.resolve("occt-import-js")),
+  "../test/testfiles"
+);
+const sample = (name: string): string =>
+  fs.readFileSync(path.join(testFiles, name), "latin1");
+const bytes = (text: string): ArrayBuffer =>
+  Uint8Array.from(text, (c) => c.charCodeAt(0)).buffer;
+
+const meshes = (object: THREE.Object3D): THREE.Mesh[] => {
+  const result: THREE.Mesh[] = [];
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh) result.push(child);
+  });
+  return result;
+};
+
+// A 0.3 m cube whose faces #34 to #39 face +x, +y, -x, -y, +z and -z
+const namedCube = (shellOrder: number[]): string =>
+  sample("simple-basic-cube/cube.stp")
+    .replace("#34=ADVANCED_FACE(''", "#34=ADVANCED_FACE('east'")
+    .replace("#38=ADVANCED_FACE(''", "#38=ADVANCED_FACE('inlet'")
+    .replace(
+      "#39=ADVANCED_FACE(''",
+      "#39=ADVANCED_FACE('it''s \\X2\\00E9\\X0\\'"
+    )
+    .replace(
+      /CLOSED_SHELL\('',\([^)]*\)/,
+      `CLOSED_SHELL('',(${shellOrder.map((id) => `#${id}`).join(",")})`
+    );
+
+// Sets the directory entry label of an IGES entity
+const labelIges = (text: string, entry: number, label: string): string =>
+  text.replace(
+    new RegExp(`^(.{56}).{8}(.{8}D${String(entry + 1).padStart(7)})`, "m"),
+    (_, before: string, after: string) => before + label.padEnd(8) + after
+  );
+
+describe("CADReader", () => {
+  it("reads STEP face names in shell order", () => {
+    const [body] = CADReader.stepBodies(namedCube([39, 37, 35, 34, 38, 36]));
+    expect(body.faces).toEqual(["it's é", "", "", "east", "inlet", ""]);
+  });
+
+  it("tessellates a STEP body with its face names", async () => {
+    const object = await CADReader.read(
+      bytes(namedCube([39, 37, 35, 34, 38, 36])),
+      "cube.stp"
+    );
+    const [mesh] = meshes(object);
+    expect(mesh.name).toBe("cube");
+    expect(mesh.geometry.groups).toHaveLength(6);
+    expect(mesh.geometry.userData.faceNames).toEqual([
+      "it's é",
+      "face2",
+      "face3",
+      "east",
+      "inlet",
+      "face6",
+    ]);
+
+    const box = new THREE.Box3().setFromObject(object);
+    const inlet = CADReader.findFaces(object, /^inlet$/)!;
+    const positions = inlet.getAttribute("position");
+    expect(positions.count).toBe(6);
+    for (let i = 0; i < positions.count; i++) {
+      expect(positions.getZ(i)).toBeCloseTo(box.max.z, 6);
+    }
+    expect(CADReader.findFaces(object, /outlet/)).toBeUndefined();
+  });
+
+  it("converts STEP lengths to metres", async () => {
+    for (const name of ["cube-mm.step", "cube-in.step", "cube-m.step"]) {
+      const object = await CADReader.read(
+        bytes(sample(`cube-units/${name}`)),
+        name
+      );
+      const size = new THREE.Box3()
+        .setFromObject(object)
+        .getSize(new THREE.Vector3());
+      expect(size.x).toBeCloseTo(1, 6);
+    }
+  });
+
+  it("tessellates curved faces finer at a smaller chordal tolerance", async () => {
+    const data = bytes(sample("rounded-cube/rounded-cube.step"));
+    const triangles = async (chordalTolerance: number): Promise<number> => {
+      const [mesh] = meshes(
+        await CADReader.read(data, "rounded-cube.step", { chordalTolerance })
+      );
+      return mesh.geometry.index!.count / 3;
+    };
+    expect(await triangles(1e-5)).toBeGreaterThan(await triangles(1e-4));
+  });
+
+  it("reads IGES solids with property names and face labels", async () => {
+    let text = sample("cube-10x10mm/Cube 10x10.igs");
+    text = labelIges(text, 5, "INLET");
+    text = labelIges(text, 15, "OUTLET");
+    // Reverse the shell's faces, which are entries 5 to 15
+    text = text.replace(
+      "514,6,5,1,7,1,9,1,11,1,13,1,15,1",
+      "514,6,15,1,13,1,11,1,9,1,7,1,5,1"
+    );
+
+    expect(CADReader.igesBodies(text)).toEqual([
+      { name: "Solid1", faces: ["OUTLET", "", "", "", "", "INLET"] },
+    ]);
+    const [mesh] = meshes(await CADReader.read(bytes(text), "cube.igs"));
+    expect(mesh.name).toBe("Solid1");
+    expect(mesh.geometry.userData.faceNames).toEqual([
+      "OUTLET",
+      "face2",
+      "face3",
+      "face4",
+      "face5",
+      "INLET",
+    ]);
+  });
+
+  it("rejects other formats and bad tolerances", async () => {
+    await expect(
+      CADReader.read(new ArrayBuffer(0), "pipe.stl")
+    ).rejects.toThrow("Unsupported CAD format .stl");
+    await expect(
+      CADReader.read(new ArrayBuffer(0), "pipe.step", { chordalTolerance: 0 })
+    ).rejects.toThrow("tolerances must be positive");
+  });
+});
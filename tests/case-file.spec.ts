@@ -0,0 +1,132 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import * as THREE from "three";
+import { CaseFile, SimulationCase } from "../src/cli/case-file";
+
+// A 400 × 100 × 100 mm box as OBJ
+const boxOBJ = (): string => {
+  const box = new THREE.BoxGeometry(400, 100, 100);
+  const position = box.getAttribute("position");
+  const index = box.index!;
+  const lines: string[] = [];
+  for (let i = 0; i < position.count; i++) {
+    lines.push(`v ${position.getX(i)} ${position.getY(i)} ${position.getZ(i)}`);
+  }
+  for (let i = 0; i < index.count; i += 3) {
+    lines.push(
+      `f ${index.getX(i) + 1} ${index.getX(i + 1) + 1} ${index.getX(i + 2) + 1}`
+    );
+  }
+  return lines.join("\n");
+};
+
+const baseCase: SimulationCase = {
+  viscosity: 0.001,
+  density: 1000,
+  flowRate: 0.5,
+  particleSpacing: 0.01,
+  duration: 0.5,
+  outputInterval: 0.01,
+};
+
+describe("CaseFile", () => {
+  let directory: string;
+  const writeCase = (simulationCase: object): string => {
+    const casePath = path.join(directory, "case.json");
+    fs.writeFileSync(casePath, JSON.stringify(simulationCase));
+    return casePath;
+  };
+
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "case-file-"));
+    fs.writeFileSync(path.join(directory, "pipe.obj"), boxOBJ());
+  });
+  afterAll(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  it("reads the model in metres and puts the inlet and outlet at its ends", () => {
+    const loaded = CaseFile.load(
+      writeCase({ ...baseCase, model: "pipe.obj", modelScale: 0.001 })
+    );
+    const { config } = loaded;
+    const size = config.bounds.getSize(new THREE.Vector3());
+    expect(size.x).toBeCloseTo(0.4, 6);
+    expect(size.y).toBeCloseTo(0.1, 6);
+    expect(config.bounds.min.x).toBeCloseTo(-0.2, 6);
+    expect(config.boundaryGeometry!.getAttribute("position").count).toBe(36);
+    expect(config.inlets).toHaveLength(1);
+    expect(config.inlets![0].center.x).toBeCloseTo(-0.192, 6);
+    expect(config.inlets![0].area).toBeCloseTo(0.01, 6);
+    expect(config.outlets![0].center.x).toBeCloseTo(0.192, 6);
+    expect(config.viscosity).toBe(0.001);
+    expect(config.flowRate).toBe(0.5);
+
+    expect(loaded).toMatchObject({
+      duration: 0.5,
+      outputInterval: 0.01,
+      adaptive: true,
+      timeStep: 0.001,
+      outputDirectory: path.join(directory, "output"),
+    });
+    expect(loaded.monitors).toBeUndefined();
+  });
+
+  it("takes the settings the case gives over the defaults", () => {
+    const { config, ...loaded } = CaseFile.load(
+      writeCase({
+        ...baseCase,
+        bounds: { min: [0, 0, 0], max: [0.1, 0.2, 0.1] },
+        adaptive: false,
+        timeStep: 0.0005,
+        outputDirectory: "results",
+        integrator: "leapfrog",
+        gravity: [0, 0, -9.81],
+        monitors: { probes: [{ name: "centre", position: [0.05, 0.1, 0.05] }] },
+      })
+    );
+    expect(config.boundaryGeometry).toBeUndefined();
+    expect(config.bounds.max.toArray()).toEqual([0.1, 0.2, 0.1]);
+    expect(config.integrator).toBe("leapfrog");
+    expect(config.gravity!.toArray()).toEqual([0, 0, -9.81]);
+    expect(config.timeStep).toBe(0.0005);
+    expect(loaded).toMatchObject({
+      adaptive: false,
+      timeStep: 0.0005,
+      outputDirectory: path.join(directory, "results"),
+      monitors: {
+        probes: [{ name: "centre", position: [0.05, 0.1, 0.05] }],
+        sections: [],
+      },
+    });
+  });
+
+  it("adds no inlets or outlets to a periodic pipe", () => {
+    const { config } = CaseFile.load(
+      writeCase({
+        ...baseCase,
+        model: "pipe.obj",
+        modelScale: 0.001,
+        periodic: { axis: "x", targetVelocity: 0.5 },
+      })
+    );
+    expect(config.inlets).toBeUndefined();
+    expect(config.outlets).toBeUndefined();
+  });
+
+  it("names the first field it cannot use", () => {
+    expect(() =>
+      CaseFile.load(writeCase({ ...baseCase, viscosity: undefined }))
+    ).toThrow("Case viscosity must be a positive number");
+    expect(() =>
+      CaseFile.load(writeCase({ ...baseCase, flowRate: "fast" }))
+    ).toThrow("Case flowRate must be a number");
+    expect(() =>
+      CaseFile.load(
+        writeCase({ ...baseCase, model: "pipe.obj", modelScale: 0 })
+      )
+    ).toThrow("Case modelScale must be a positive number");
+    expect(() => CaseFile.load(writeCase(baseCase))).toThrow(
+      "A case without a model needs bounds"
+    );
+  });
+});
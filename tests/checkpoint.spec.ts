@@ -0,0 +1,196 @@
+import * as THREE from "three";
+import {
+  CHECKPOINT_VERSION,
+  SimulationCheckpoint,
+} from "../src/core/checkpoint";
+import {
+  IntegratorType,
+  SimulationConfig,
+  SPHSimulator,
+} from "../src/core/sph-simulator";
+
+// A stirred blob of water in a closed box, with the thermal model on
+const createRun = (integrator: IntegratorType = "euler"): SPHSimulator => {
+  const boundary = new THREE.BoxGeometry(0.2, 0.2, 0.2);
+  boundary.translate(0.1, 0.1, 0.1);
+  const config: SimulationConfig = {
+    bounds: new THREE.Box3(
+      new THREE.Vector3(0, 0, 0),
+      new THREE.Vector3(0.2, 0.2, 0.2)
+    ),
+    boundaryGeometry: boundary,
+    viscosity: 0.01,
+    density: 1000,
+    flowRate: 0,
+    timeStep: 0.001,
+    particleSpacing: 0.01,
+    integrator,
+    thermal: {
+      initialTemperature: 20,
+      fluid: { conductivity: 0.6, specificHeat: 4180 },
+    },
+  };
+  const simulator = new SPHSimulator(config);
+  simulator.initializeParticles(
+    new THREE.Box3(
+      new THREE.Vector3(0.07, 0.07, 0.07),
+      new THREE.Vector3(0.13, 0.13, 0.13)
+    ),
+    0.01
+  );
+  const positions = simulator.getParticlePositions();
+  const velocities = simulator.getParticleVelocities();
+  for (let i = 0; i < simulator.getParticleCount(); i++) {
+    velocities[i * 3] = positions[i * 3 + 1] - 0.1;
+    velocities[i * 3 + 1] = 0.1 - positions[i * 3];
+  }
+  return simulator;
+};
+
+// Rewrite a checkpoint as an older version would have written it: with
+// another version number, an edited header and, before version 4, no
+// temperature block
+const rewrite = (
+  buffer: ArrayBuffer,
+  version: number,
+  editHeader: (header: Record<string, unknown>) => void = () => undefined,
+  dropTemperatures = false
+): ArrayBuffer => {
+  const view = new DataView(buffer);
+  const headerLength = view.getUint32(8, true);
+  const bytes = new Uint8Array(buffer);
+  const header = JSON.parse(
+    new TextDecoder().decode(bytes.subarray(12, 12 + headerLength))
+  );
+  let data = bytes.slice(Math.ceil((12 + headerLength) / 4) * 4);
+  if (dropTemperatures) {
+    // The temperature block sits between the masses and the phases
+    const n: number = header.particleCount;
+    const phases = data.slice(data.length - n);
+    data = new Uint8Array([
+      ...data.subarray(0, data.length - n - n * 4),
+      ...phases,
+    ]);
+  }
+  editHeader(header);
+
+  const headerBytes = new TextEncoder().encode(JSON.stringify(header));
+  const dataStart = Math.ceil((12 + headerBytes.length) / 4) * 4;
+  const result = new Uint8Array(dataStart + data.length);
+  result.set(bytes.subarray(0, 4));
+  const resultView = new DataView(result.buffer);
+  resultView.setUint32(4, version, true);
+  resultView.setUint32(8, headerBytes.length, true);
+  result.set(headerBytes, 12);
+  result.set(data, dataStart);
+  return result.buffer;
+};
+
+describe("SimulationCheckpoint", () => {
+  it("reads back the config and state it saved", () => {
+    const simulator = createRun("velocity-verlet");
+    for (let i = 0; i < 5; i++) simulator.step(0.0005);
+    const state = simulator.captureState();
+    expect(state.accelerations).toHaveLength(simulator.getParticleCount() * 3);
+
+    const checkpoint = SimulationCheckpoint.read(
+      SimulationCheckpoint.save(simulator)
+    );
+    expect(checkpoint.version).toBe(CHECKPOINT_VERSION);
+    expect(checkpoint.state).toEqual(state);
+
+    const { config } = checkpoint;
+    expect(config.bounds.equals(simulator.getConfig().bounds)).toBe(true);
+    expect(config.thermal).toEqual(simulator.getConfig().thermal);
+    expect(config.particleSpacing).toBe(0.01);
+    // The boundary mesh comes back as a triangle soup
+    expect(config.boundaryGeometry!.getAttribute("position").array).toEqual(
+      simulator
+        .getConfig()
+        .boundaryGeometry!.toNonIndexed()
+        .getAttribute("position").array
+    );
+  });
+
+  it.each<IntegratorType>([
+    "euler",
+    "leapfrog",
+    "velocity-verlet",
+    "predictor-corrector",
+  ])("continues exactly where the saved run left off with %s", (integrator) => {
+    const simulator = createRun(integrator);
+    for (let i = 0; i < 5; i++) simulator.step(0.0005);
+
+    const restored = SimulationCheckpoint.restore(
+      SimulationCheckpoint.save(simulator)
+    );
+    // And in place, from a captured state
+    const rewound = createRun(integrator);
+    rewound.restoreState(simulator.captureState());
+    for (let i = 0; i < 10; i++) {
+      simulator.step(0.0005);
+      restored.step(0.0005);
+      rewound.step(0.0005);
+    }
+    [restored, rewound].forEach((copy) => {
+      expect(copy.getTime()).toBe(simulator.getTime());
+      expect(copy.getStepCount()).toBe(simulator.getStepCount());
+      expect(copy.getParticlePositions()).toEqual(
+        simulator.getParticlePositions()
+      );
+      expect(copy.getParticleVelocities()).toEqual(
+        simulator.getParticleVelocities()
+      );
+    });
+  });
+
+  it("rejects other files and newer versions", () => {
+    const buffer = SimulationCheckpoint.save(createRun());
+
+    const foreign = buffer.slice(0);
+    new Uint8Array(foreign).set([0x50, 0x4b, 0x03, 0x04]);
+    expect(() => SimulationCheckpoint.read(foreign)).toThrow(
+      "Not a simulation checkpoint"
+    );
+    expect(() => SimulationCheckpoint.read(new ArrayBuffer(4))).toThrow(
+      "Not a simulation checkpoint"
+    );
+
+    expect(() =>
+      SimulationCheckpoint.read(rewrite(buffer, CHECKPOINT_VERSION + 1))
+    ).toThrow(
+      `Checkpoint version ${CHECKPOINT_VERSION + 1} is newer than supported version ${CHECKPOINT_VERSION}`
+    );
+
+    expect(() => SimulationCheckpoint.read(buffer.slice(0, -8))).toThrow(
+      "Checkpoint is truncated"
+    );
+  });
+
+  it("loads a version 1 checkpoint", () => {
+    const simulator = createRun();
+    for (let i = 0; i < 5; i++) simulator.step(0.0005);
+    const legacy = rewrite(
+      SimulationCheckpoint.save(simulator),
+      1,
+      (header) => {
+        delete header.inletEmitted;
+        delete header.periodicDrive;
+      },
+      true
+    );
+
+    const { version, state } = SimulationCheckpoint.read(legacy);
+    expect(version).toBe(1);
+    expect(state.inletEmitted).toEqual([]);
+    // Runs from before the thermal model start at the initial temperature
+    expect(Array.from(state.particles.temperatures)).toEqual(
+      new Array(simulator.getParticleCount()).fill(20)
+    );
+    expect(state.particles.positions).toEqual(simulator.getParticlePositions());
+
+    const restored = SimulationCheckpoint.restore(legacy);
+    expect(restored.getTime()).toBe(simulator.getTime());
+    expect(restored.getParticleCount()).toBe(simulator.getParticleCount());
+  });
+});
@@ -0,0 +1,273 @@
+import * as THREE from "three";
+import { DXFReader } from "../src/core/dxf-reader";
+
+// Group code and value pairs, one per line
+const pairs = (...values: (string | number)[][]): string =>
+  values.map(([code, value]) => `${code}\n${value}`).join("\n");
+
+const dxf = (entities: string, layers = "", units = 4): string =>
+  [
+    pairs([0, "SECTION"], [2, "HEADER"], [9, "$INSUNITS"], [70, units]),
+    pairs(
+      [0, "ENDSEC"],
+      [0, "SECTION"],
+      [2, "TABLES"],
+      [0, "TABLE"],
+      [2, "LAYER"]
+    ),
+    layers,
+    pairs([0, "ENDTAB"], [0, "ENDSEC"], [0, "SECTION"], [2, "ENTITIES"]),
+    entities,
+    pairs([0, "ENDSEC"], [0, "EOF"]),
+  ]
+    .filter((part) => part !== "")
+    .join("\n");
+
+const line = (layer: string, from: number[], to: number[]) =>
+  pairs(
+    [0, "LINE"],
+    [8, layer],
+    [10, from[0]],
+    [20, from[1]],
+    [30, from[2]],
+    [11, to[0]],
+    [21, to[1]],
+    [31, to[2]]
+  );
+
+// Pipes on PIPE-150 are 150 mm across
+const pipeLayer = pairs(
+  [0, "LAYER"],
+  [2, "PIPE-150"],
+  [70, 0],
+  [1001, "PIPE"],
+  [1040, 150]
+);
+
+const find = (object: THREE.Object3D, name: string) =>
+  object.getObjectByName(name) as THREE.Mesh;
+
+// Signed volume enclosed by a triangle mesh; positive when its faces point
+// outwards
+const volume = (geometry: THREE.BufferGeometry): number => {
+  const position = geometry.getAttribute("position");
+  const index = geometry.index!;
+  const [a, b, c] = [0, 1, 2].map(() => new THREE.Vector3());
+  let total = 0;
+  for (let i = 0; i < index.count; i += 3) {
+    a.fromBufferAttribute(position, index.getX(i));
+    b.fromBufferAttribute(position, index.getX(i + 1));
+    c.fromBufferAttribute(position, index.getX(i + 2));
+    total += a.dot(b.clone().cross(c)) / 6;
+  }
+  return total;
+};
+
+// Area of the polygon a pipe's wall is swept from
+const ringArea = (mesh: THREE.Mesh): number => {
+  const { groups } = mesh.geometry;
+  const sides = groups[1] ? groups[1].count / 3 : 0;
+  const radius = mesh.userData.diameter / 2;
+  return (sides / 2) * radius * radius * Math.sin((2 * Math.PI) / sides);
+};
+
+describe("DXFReader", () => {
+  it("sweeps chained centerlines into a closed, mitred pipe", () => {
+    const model = DXFReader.read(
+      dxf(
+        line("PIPE-150", [0, 0, 0], [1000, 0, 0]) +
+          "\n" +
+          line("PIPE-150", [1000, 1000, 0], [1000, 0, 0]),
+        pipeLayer
+      ),
+      "spool.dxf",
+      { pipeLayers: ["pipe*"] }
+    );
+
+    const pipe = find(model, "PIPE-150 pipe 1");
+    expect(model.getObjectByName("PIPE-150 pipe 2")).toBeUndefined();
+    expect(pipe.userData).toEqual({ layer: "PIPE-150", diameter: 0.15 });
+    expect(pipe.geometry.userData.faceNames).toEqual(["wall", "start", "end"]);
+
+    // The mitre keeps each leg's full length, so the elbow holds exactly
+    // two metres of pipe
+    expect(volume(pipe.geometry)).toBeCloseTo(2 * ringArea(pipe), 6);
+
+    // The start cap fans out from the first end to a ring of the pipe's
+    // radius
+    const [, start] = pipe.geometry.groups;
+    const position = pipe.geometry.getAttribute("position");
+    const index = pipe.geometry.index!;
+    for (let i = start.start; i < start.start + start.count; i += 3) {
+      expect(position.getX(index.getX(i))).toBe(0);
+      expect(position.getY(index.getX(i))).toBe(0);
+      const vertex = index.getX(i + 1);
+      expect(position.getX(vertex)).toBeCloseTo(0, 6);
+      expect(
+        Math.hypot(position.getY(vertex), position.getZ(vertex))
+      ).toBeCloseTo(0.075, 6);
+    }
+  });
+
+  it("closes loops without caps", () => {
+    const square = pairs(
+      [0, "LWPOLYLINE"],
+      [8, "PIPE-150"],
+      [90, 4],
+      [70, 1],
+      [10, 0],
+      [20, 0],
+      [10, 1000],
+      [20, 0],
+      [10, 1000],
+      [20, 1000],
+      [10, 0],
+      [20, 1000]
+    );
+    const model = DXFReader.read(dxf(square, pipeLayer), "loop.dxf", {
+      pipeLayers: ["PIPE-150"],
+    });
+    const pipe = find(model, "PIPE-150 pipe 1");
+    expect(pipe.geometry.userData.faceNames).toEqual(["wall"]);
+
+    const radius = 0.075;
+    const sides = pipe.geometry.getAttribute("position").count / 4;
+    const area =
+      (sides / 2) * radius * radius * Math.sin((2 * Math.PI) / sides);
+    expect(volume(pipe.geometry)).toBeCloseTo(4 * area, 6);
+  });
+
+  it("takes a centerline's own XDATA diameter over its layer's", () => {
+    const polyline = [
+      pairs(
+        [0, "POLYLINE"],
+        [8, "PIPE-150"],
+        [66, 1],
+        [70, 8],
+        [1001, "PIPE"],
+        [1040, 50]
+      ),
+      ...[
+        [0, 2000, 0],
+        [0, 2000, 500],
+      ].map(([x, y, z]) =>
+        pairs(
+          [0, "VERTEX"],
+          [8, "PIPE-150"],
+          [10, x],
+          [20, y],
+          [30, z],
+          [70, 32]
+        )
+      ),
+      pairs([0, "SEQEND"]),
+    ].join("\n");
+    const model = DXFReader.read(dxf(polyline, pipeLayer), "riser.dxf", {
+      pipeLayers: ["PIPE-150"],
+    });
+    const pipe = find(model, "PIPE-150 pipe 1");
+    expect(pipe.userData.diameter).toBeCloseTo(0.05, 9);
+    const bounds = new THREE.Box3().setFromObject(pipe);
+    expect(bounds.min.z).toBeCloseTo(0, 6);
+    expect(bounds.max.z).toBeCloseTo(0.5, 6);
+  });
+
+  it("keeps other lines as wireframe, with bulges and arcs in their OCS", () => {
+    const outline = pairs(
+      [0, "LWPOLYLINE"],
+      [8, "Outline"],
+      [90, 2],
+      [70, 0],
+      [10, 0],
+      [20, 0],
+      [42, 1],
+      [10, 200],
+      [20, 0]
+    );
+    // Drawn looking up from below, so OCS x is world -x
+    const arc = pairs(
+      [0, "ARC"],
+      [8, "Outline"],
+      [10, 100],
+      [20, 0],
+      [30, 0],
+      [40, 50],
+      [50, 0],
+      [51, 180],
+      [210, 0],
+      [220, 0],
+      [230, -1]
+    );
+    const model = DXFReader.read(dxf(outline + "\n" + arc), "outline.dxf", {
+      chordalTolerance: 1e-5,
+    });
+    const wires = model.getObjectByName("Outline lines") as THREE.LineSegments;
+    expect(wires).toBeInstanceOf(THREE.LineSegments);
+
+    const position = wires.geometry.getAttribute("position");
+    const point = new THREE.Vector3();
+    let bulgePoints = 0;
+    let arcPoints = 0;
+    for (let i = 0; i < position.count; i++) {
+      point.fromBufferAttribute(position, i);
+      if (point.x >= 0) {
+        // The semicircle from the bulge, centered on (0.1, 0)
+        expect(Math.hypot(point.x - 0.1, point.y)).toBeCloseTo(0.1, 6);
+        expect(point.y).toBeLessThanOrEqual(1e-9);
+        bulgePoints++;
+      } else {
+        expect(Math.hypot(point.x + 0.1, point.y)).toBeCloseTo(0.05, 6);
+        arcPoints++;
+      }
+    }
+    expect(bulgePoints).toBeGreaterThan(8);
+    expect(arcPoints).toBeGreaterThan(8);
+  });
+
+  it("imports 3D faces and polyface meshes per layer", () => {
+    const face = pairs(
+      [0, "3DFACE"],
+      [8, "Steel"],
+      ...[
+        [0, 0, 0],
+        [1, 0, 0],
+        [1, 1, 0],
+        [0, 1, 0],
+      ].flatMap(([x, y, z], k) => [
+        [10 + k, x],
+        [20 + k, y],
+        [30 + k, z],
+      ])
+    );
+    const polyface = [
+      pairs([0, "POLYLINE"], [8, "Steel"], [66, 1], [70, 64]),
+      ...[
+        [0, 0, 1],
+        [1, 0, 1],
+        [0, 1, 1],
+      ].map(([x, y, z]) =>
+        pairs([0, "VERTEX"], [10, x], [20, y], [30, z], [70, 192])
+      ),
+      pairs([0, "VERTEX"], [70, 128], [71, 1], [72, -2], [73, 3]),
+      pairs([0, "SEQEND"]),
+    ].join("\n");
+
+    const model = DXFReader.read(dxf(face + "\n" + polyface, "", 6), "s.dxf");
+    const steel = model.getObjectByName("Steel")!;
+    expect(steel.children.map((child) => child.name)).toEqual(["Steel faces"]);
+    const mesh = steel.children[0] as THREE.Mesh;
+    expect(mesh.geometry.getAttribute("position").count).toBe(9);
+    expect(new THREE.Box3().setFromObject(mesh).max.z).toBe(1);
+  });
+
+  it("rejects pipes without a diameter and binary files", () => {
+    expect(() =>
+      DXFReader.read(dxf(line("PIPE-A", [0, 0, 0], [1, 0, 0])), "a.dxf", {
+        pipeLayers: ["PIPE-*"],
+      })
+    ).toThrow("No pipe diameter for the centerline on layer PIPE-A");
+    expect(() =>
+      DXFReader.read("AutoCAD Binary DXF\r\n\x1a\0", "b.dxf")
+    ).toThrow("binary DXF");
+  });
+});
@@ -0,0 +1,89 @@
+import * as THREE from "three";
+import { vec3 } from "gl-matrix";
+import { InletEmitter } from "../src/core/flow-patches";
+
+const SPACING = 0.01;
+
+const inlet = (phaseFractions?: number[]): InletEmitter =>
+  new InletEmitter(
+    {
+      center: new THREE.Vector3(0, 0, 0),
+      normal: new THREE.Vector3(1, 0, 0),
+      radius: 0.05,
+      phaseFractions,
+    },
+    SPACING
+  );
+
+describe("InletEmitter", () => {
+  it("emits the volume the flow rate carries in", () => {
+    const emitter = inlet();
+    const flowRate = 0.002;
+    const timeStep = 0.0004;
+    // Particles per layer, from another inlet's first layer
+    let layer = 0;
+    const first = inlet();
+    while (layer === 0) first.emit(flowRate, timeStep, () => layer++);
+
+    let particles = 0;
+    for (let step = 1; step <= 2000; step++) {
+      emitter.emit(flowRate, timeStep, () => particles++);
+      // Each particle fills one spacing³, and at most one layer is pending
+      const volume = particles * SPACING ** 3;
+      const carried = flowRate * step * timeStep;
+      expect(volume).toBeLessThanOrEqual(carried + 1e-12);
+      expect(volume).toBeGreaterThan(carried - layer * SPACING ** 3);
+    }
+    // 0.8 s at 0.002 m³/s is over twenty layers
+    expect(particles).toBeGreaterThan(20 * layer);
+  });
+
+  it("emits and buffers at the same speed", () => {
+    const emitter = inlet();
+    const speeds: number[] = [];
+    emitter.emit(0.002, 0.1, (_position, velocity) => speeds.push(velocity[0]));
+    const buffered = vec3.create();
+    emitter.applyInflowVelocity(buffered, 0.002);
+    expect(new Set(speeds)).toEqual(new Set([buffered[0]]));
+    expect(buffered[0]).toBeGreaterThan(0.002 / (Math.PI * 0.05 ** 2));
+  });
+
+  it("mixes the emitted phases in the fractions asked for", () => {
+    const emitter = inlet([3, 1]);
+    const phases: number[] = [];
+    emitter.emit(0.002, 0.6, (_position, _velocity, phase) =>
+      phases.push(phase)
+    );
+    expect(phases.length).toBeGreaterThan(1000);
+
+    // Normalised to a quarter in phase 1, and within a few particles of that
+    // all along, where random draws would stray by tens
+    let second = 0;
+    phases.forEach((phase, n) => {
+      second += phase;
+      expect(Math.abs(second - 0.25 * (n + 1))).toBeLessThan(3);
+    });
+
+    // Resuming from the emitted count carries on with the same sequence
+    const resumed = inlet([3, 1]);
+    resumed.setEmittedCount(emitter.getEmittedCount());
+    resumed.setPendingLength(emitter.getPendingLength());
+    const continued: number[] = [];
+    const next: number[] = [];
+    emitter.emit(0.002, 0.05, (_position, _velocity, phase) =>
+      continued.push(phase)
+    );
+    resumed.emit(0.002, 0.05, (_position, _velocity, phase) =>
+      next.push(phase)
+    );
+    expect(next.length).toBeGreaterThan(0);
+    expect(next).toEqual(continued);
+
+    // Without fractions everything is phase 0
+    const single = new Set<number>();
+    inlet().emit(0.002, 0.1, (_position, _velocity, phase) =>
+      single.add(phase)
+    );
+    expect(single).toEqual(new Set([0]));
+  });
+});
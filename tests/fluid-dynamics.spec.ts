@@ -0,0 +1,88 @@
+import { FluidDynamics } from "../src/models/fluid-dynamics";
+
+describe("FluidDynamics", () => {
+  it("gives a parabolic pipe profile with the requested mean", () => {
+    const radius = 0.05;
+    const meanVelocity = 0.2;
+    expect(FluidDynamics.poiseuilleVelocity(0, radius, meanVelocity)).toBe(0.4);
+    expect(FluidDynamics.poiseuilleVelocity(radius, radius, meanVelocity)).toBe(
+      0
+    );
+
+    // Mean over the cross-section, integrating 2 pi r u dr
+    const steps = 1000;
+    let flow = 0;
+    for (let i = 0; i < steps; i++) {
+      const r = ((i + 0.5) / steps) * radius;
+      flow +=
+        2 *
+        Math.PI *
+        r *
+        FluidDynamics.poiseuilleVelocity(r, radius, meanVelocity) *
+        (radius / steps);
+    }
+    expect(flow / (Math.PI * radius * radius)).toBeCloseTo(meanVelocity, 6);
+  });
+
+  it("agrees between Hagen-Poiseuille and Darcy-Weisbach when laminar", () => {
+    const density = 1000;
+    const viscosity = 0.01;
+    const radius = 0.02;
+    const meanVelocity = 0.3;
+    const reynolds = FluidDynamics.reynoldsNumber(
+      density,
+      meanVelocity,
+      2 * radius,
+      viscosity
+    );
+    expect(reynolds).toBeCloseTo(1200);
+
+    const hagenPoiseuille = FluidDynamics.hagenPoiseuillePressureDrop(
+      viscosity,
+      2,
+      meanVelocity * Math.PI * radius * radius,
+      radius
+    );
+    const darcyWeisbach = FluidDynamics.darcyWeisbachPressureDrop(
+      FluidDynamics.darcyFrictionFactor(reynolds),
+      2,
+      2 * radius,
+      density,
+      meanVelocity
+    );
+    expect(darcyWeisbach).toBeCloseTo(hagenPoiseuille, 6);
+  });
+
+  it("blends the friction factor through the transition", () => {
+    expect(FluidDynamics.darcyFrictionFactor(1000)).toBeCloseTo(0.064);
+    expect(FluidDynamics.darcyFrictionFactor(1e5)).toBeCloseTo(0.0178, 4);
+    const transition = FluidDynamics.darcyFrictionFactor(3000);
+    // Friction rises as the flow turns turbulent
+    expect(transition).toBeGreaterThan(FluidDynamics.darcyFrictionFactor(2300));
+    expect(transition).toBeLessThan(FluidDynamics.darcyFrictionFactor(4000));
+    expect(() => FluidDynamics.darcyFrictionFactor(0)).toThrow();
+  });
+
+  it("balances the lid's drag with return flow in a shallow cavity", () => {
+    const lidVelocity = 0.1;
+    const height = 0.05;
+    const lidFlux = 0.001;
+    const steps = 1000;
+    let flux = 0;
+    for (let i = 0; i < steps; i++) {
+      flux +=
+        (FluidDynamics.shallowCavityVelocity(
+          (i + 0.5) / steps,
+          lidVelocity,
+          height,
+          lidFlux
+        ) *
+          height) /
+        steps;
+    }
+    expect(flux).toBeCloseTo(-lidFlux, 6);
+    expect(
+      FluidDynamics.shallowCavityVelocity(1, lidVelocity, height, lidFlux)
+    ).toBeCloseTo(lidVelocity);
+  });
+});
@@ -0,0 +1,236 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as THREE from "three";
+import { strFromU8, strToU8, unzipSync, zipSync } from "fflate";
+import { FreeCADAdapter } from "../src/adapters/freecad-adapter";
+
+// A 10 mm cube saved by FreeCAD, from the samples shipped with
+// occt-import-js
+const sampleFile = path.join(
+  path.dirname(require.resolve("occt-import-js")),
+  "../test/testfiles/cube-fcstd/cube2.FCStd"
+);
+const cubeShape = (): string =>
+  strFromU8(unzipSync(fs.readFileSync(sampleFile))["PartShape.brp"]);
+
+// The cube with its placement baked in, as FreeCAD saves shapes: turned
+// 90 degrees about z and moved 20 mm along x
+const turnedCubeShape = (): string =>
+  cubeShape().replace(
+    /Locations 1\n1\n.*\n.*\n.*\n/,
+    "Locations 1\n1\n" + "0 -1 0 20 \n" + "1 0 0 0 \n" + "0 0 1 0 \n"
+  );
+
+interface TestObject {
+  name: string;
+  type: string;
+  label: string;
+  placement?: string;
+  shape?: string;
+  visible?: boolean;
+  group?: string[];
+}
+
+const IDENTITY = 'Px="0" Py="0" Pz="0" Q0="0" Q1="0" Q2="0" Q3="1"';
+
+const documentXML = (
+  objects: TestObject[]
+): string => `<?xml version='1.0' encoding='utf-8'?>
+<Document SchemaVersion="4">
+  <Properties Count="1">
+    <Property name="Label" type="App::PropertyString"><String value="spool"/></Property>
+  </Properties>
+  <Objects Count="${objects.length}">
+    ${objects.map((o) => `<Object type="${o.type}" name="${o.name}"/>`).join("\n")}
+  </Objects>
+  <ObjectData Count="${objects.length}">
+    ${objects
+      .map(
+        (o) => `<Object name="${o.name}"><Properties>
+      <Property name="Label" type="App::PropertyString"><String value="${o.label}"/></Property>
+      <Property name="Placement" type="App::PropertyPlacement"><PropertyPlacement ${o.placement ?? IDENTITY}/></Property>
+      ${o.shape ? `<Property name="Shape" type="Part::PropertyPartShape"><Part file="${o.shape}"/></Property>` : ""}
+      ${o.group ? `<Property name="Group" type="App::PropertyLinkList"><LinkList count="${o.group.length}">${o.group.map((link) => `<Link value="${link}"/>`).join("")}</LinkList></Property>` : ""}
+      ${o.visible === undefined ? "" : `<Property name="Visibility" type="App::PropertyBool"><Bool value="${o.visible}"/></Property>`}
+    </Properties></Object>`
+      )
+      .join("\n")}
+  </ObjectData>
+</Document>`;
+
+// Visibility as FreeCAD before 0.19 saved it
+const guiDocumentXML = (
+  hidden: string[]
+): string => `<?xml version='1.0' encoding='utf-8'?>
+<Document SchemaVersion="1">
+  <ViewProviderData Count="${hidden.length}">
+    ${hidden
+      .map(
+        (name) => `<ViewProvider name="${name}"><Properties>
+      <Property name="Visibility" type="App::PropertyBool"><Bool value="false"/></Property>
+    </Properties></ViewProvider>`
+      )
+      .join("\n")}
+  </ViewProviderData>
+</Document>`;
+
+const fcstd = (
+  objects: TestObject[],
+  shapes: Record<string, string>,
+  hidden: string[] = []
+): File =>
+  new File(
+    [
+      zipSync({
+        "Document.xml": strToU8(documentXML(objects)),
+        "GuiDocument.xml": strToU8(guiDocumentXML(hidden)),
+        ...Object.fromEntries(
+          Object.entries(shapes).map(([name, text]) => [name, strToU8(text)])
+        ),
+      }),
+    ],
+    "spool.FCStd"
+  );
+
+describe("FreeCADAdapter", () => {
+  it("imports the sample cube in metres with FreeCAD's face names", async () => {
+    const model = await new FreeCADAdapter().importModel(
+      new File([fs.readFileSync(sampleFile)], "cube2.FCStd")
+    );
+    expect(model.name).toBe("cube2");
+    expect(model.children.map((child) => child.name)).toEqual(["Cube"]);
+
+    const cube = model.children[0] as THREE.Mesh;
+    expect(cube.userData).toEqual({
+      freecadName: "Box",
+      freecadType: "Part::Box",
+    });
+    expect(cube.geometry.userData.faceNames).toEqual([
+      "Face1",
+      "Face2",
+      "Face3",
+      "Face4",
+      "Face5",
+      "Face6",
+    ]);
+    const size = new THREE.Box3()
+      .setFromObject(model)
+      .getSize(new THREE.Vector3());
+    expect(size.x).toBeCloseTo(0.01, 6);
+  });
+
+  it("nests visible parts under their containers with their placements", async () => {
+    const shape = cubeShape();
+    const model = await new FreeCADAdapter().importModel(
+      fcstd(
+        [
+          {
+            name: "Part",
+            type: "App::Part",
+            label: "Spool",
+            placement: 'Px="100" Py="0" Pz="0" Q0="0" Q1="0" Q2="0" Q3="1"',
+            group: ["Box", "Box001", "Box002"],
+            visible: true,
+          },
+          {
+            name: "Box",
+            type: "Part::Box",
+            label: "Inlet leg",
+            placement:
+              'Px="20" Py="0" Pz="0" Q0="0" Q1="0" Q2="0.7071067811865476" Q3="0.7071067811865476"',
+            shape: "PartShape.brp",
+            visible: true,
+          },
+          {
+            name: "Box001",
+            type: "Part::Box",
+            label: "Hidden",
+            shape: "PartShape1.brp",
+            visible: false,
+          },
+          // Saved by an older FreeCAD, hidden in GuiDocument.xml
+          {
+            name: "Box002",
+            type: "Part::Box",
+            label: "Old hidden",
+            shape: "PartShape1.brp",
+          },
+          {
+            name: "Body",
+            type: "PartDesign::Body",
+            label: "Outlet",
+            shape: "PartShape1.brp",
+            group: ["Pad"],
+            visible: true,
+          },
+          {
+            name: "Pad",
+            type: "PartDesign::Pad",
+            label: "Pad",
+            shape: "PartShape1.brp",
+            visible: true,
+          },
+          {
+            name: "Sketch",
+            type: "Sketcher::SketchObject",
+            label: "Sketch",
+            shape: "PartShape1.brp",
+            visible: true,
+          },
+        ],
+        { "PartShape.brp": turnedCubeShape(), "PartShape1.brp": shape },
+        ["Box002"]
+      )
+    );
+
+    expect(model.name).toBe("spool");
+    expect(model.children.map((child) => child.name)).toEqual([
+      "Spool",
+      "Outlet",
+    ]);
+    const spool = model.children[0];
+    expect(spool.position.x).toBeCloseTo(0.1, 9);
+    expect(spool.children.map((child) => child.name)).toEqual(["Inlet leg"]);
+
+    // The leg's geometry is back in its own frame, and its placement turns
+    // and moves it
+    const leg = spool.children[0] as THREE.Mesh;
+    expect(leg.position.x).toBeCloseTo(0.02, 9);
+    expect(leg.quaternion.z).toBeCloseTo(Math.SQRT1_2, 9);
+    leg.geometry.computeBoundingBox();
+    const local = leg.geometry.boundingBox!;
+    expect(local.min.x).toBeCloseTo(0, 6);
+    expect(local.max.x).toBeCloseTo(0.01, 6);
+    expect(local.max.y).toBeCloseTo(0.01, 6);
+    model.updateMatrixWorld(true);
+    const world = new THREE.Box3().setFromObject(leg);
+    expect(world.min.x).toBeCloseTo(0.11, 6);
+    expect(world.max.x).toBeCloseTo(0.12, 6);
+    expect(world.min.y).toBeCloseTo(0, 6);
+    expect(world.max.y).toBeCloseTo(0.01, 6);
+  });
+
+  it("rejects archives without a document or visible shapes", async () => {
+    await expect(
+      new FreeCADAdapter().importModel(
+        new File([zipSync({ "readme.txt": strToU8("no") })], "empty.FCStd")
+      )
+    ).rejects.toThrow("has no Document.xml");
+    await expect(
+      new FreeCADAdapter().importModel(
+        fcstd(
+          [
+            {
+              name: "Box",
+              type: "Part::Box",
+              label: "Box",
+              shape: "PartShape.brp",
+              visible: false,
+            },
+          ],
+          { "PartShape.brp": cubeShape() }
+        )
+      )
+    ).rejects.toThrow("No visible shapes");
+  });
+});
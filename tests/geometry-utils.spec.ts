@@ -0,0 +1,169 @@
+import * as THREE from "three";
+import { GeometryUtils } from "../src/utils/geometry-utils";
+import { detectPipeEnds, traceCenterline } from "../src/core/flow-patches";
+
+const BORE = 0.05;
+const OUTSIDE = 0.07;
+const SEGMENTS = 32;
+
+// Area of the regular polygon a cylinder of that radius is made of
+const polygonArea = (radius: number): number =>
+  (SEGMENTS / 2) * radius * radius * Math.sin((2 * Math.PI) / SEGMENTS);
+
+// A pipe-wall solid along y, 0.4 m long, closed by annular end faces
+const pipeWall = (): THREE.BufferGeometry =>
+  new THREE.LatheGeometry(
+    [
+      new THREE.Vector2(BORE, -0.2),
+      new THREE.Vector2(OUTSIDE, -0.2),
+      new THREE.Vector2(OUTSIDE, 0.2),
+      new THREE.Vector2(BORE, 0.2),
+      new THREE.Vector2(BORE, -0.2),
+    ],
+    SEGMENTS
+  );
+
+describe("GeometryUtils.sliceCrossSection", () => {
+  const across = (geometry: THREE.BufferGeometry, y = 0.05) =>
+    GeometryUtils.sliceCrossSection(
+      geometry,
+      new THREE.Vector3(0, y, 0),
+      new THREE.Vector3(0, 1, 0)
+    );
+
+  it("measures the section of a fluid volume", () => {
+    const section = across(new THREE.CylinderGeometry(BORE, BORE, 0.4, 32));
+    expect(section.area).toBeCloseTo(polygonArea(BORE), 9);
+    expect(
+      section.centroid.distanceTo(new THREE.Vector3(0, 0.05, 0))
+    ).toBeCloseTo(0, 9);
+    expect(section.holes).toEqual([]);
+
+    // Off-centre, a box's section is exact
+    const box = new THREE.BoxGeometry(0.2, 0.4, 0.1).translate(0.3, 0, 0);
+    const { area, centroid } = across(box);
+    expect(area).toBeCloseTo(0.02, 8);
+    expect(centroid.x).toBeCloseTo(0.3, 6);
+  });
+
+  it("takes the bore out of a pipe wall's section", () => {
+    const section = across(pipeWall());
+    expect(section.area).toBeCloseTo(
+      polygonArea(OUTSIDE) - polygonArea(BORE),
+      9
+    );
+    expect(section.holes).toHaveLength(1);
+    expect(section.holes[0].area).toBeCloseTo(polygonArea(BORE), 9);
+    expect(section.holes[0].centroid.length()).toBeCloseTo(0.05, 6);
+
+    expect(
+      GeometryUtils.calculatePipeCrossSection(
+        pipeWall(),
+        new THREE.Vector3(0, 0, 0),
+        new THREE.Vector3(0, 1, 0)
+      )
+    ).toBeCloseTo(polygonArea(BORE), 9);
+  });
+});
+
+describe("detectPipeEnds", () => {
+  it("puts the flow patches over the bore of a pipe wall", () => {
+    const ends = detectPipeEnds(pipeWall(), 0.01)!;
+    expect(ends.inlet.center.y).toBeCloseTo(-0.19, 6);
+    expect(ends.outlet.center.y).toBeCloseTo(0.19, 6);
+    expect(ends.inlet.normal.toArray()).toEqual([0, 1, 0]);
+    expect(ends.inlet.area).toBeCloseTo(polygonArea(BORE), 9);
+    expect(ends.inlet.radius).toBeCloseTo(
+      Math.sqrt(polygonArea(BORE) / Math.PI),
+      9
+    );
+    // The mean inflow speed is that of the bore, not the outside diameter
+    expect(ends.inlet.radius).toBeLessThan(BORE);
+  });
+});
+
+describe("traceCenterline", () => {
+  // An open 0.1 m bore running up y, turning through a bend onto x
+  const elbowPath = (): THREE.CurvePath<THREE.Vector3> => {
+    const path = new THREE.CurvePath<THREE.Vector3>();
+    path.add(
+      new THREE.LineCurve3(
+        new THREE.Vector3(0, -0.3, 0),
+        new THREE.Vector3(0, 0, 0)
+      )
+    );
+    path.add(
+      new THREE.QuadraticBezierCurve3(
+        new THREE.Vector3(0, 0, 0),
+        new THREE.Vector3(0, 0.3, 0),
+        new THREE.Vector3(0.3, 0.3, 0)
+      )
+    );
+    path.add(
+      new THREE.LineCurve3(
+        new THREE.Vector3(0.3, 0.3, 0),
+        new THREE.Vector3(0.6, 0.3, 0)
+      )
+    );
+    return path;
+  };
+
+  const patch = (center: THREE.Vector3, normal: THREE.Vector3) => ({
+    center,
+    normal,
+    radius: BORE,
+  });
+
+  it("follows the bore round a bend", () => {
+    const path = elbowPath();
+    const elbow = new THREE.TubeGeometry(path, 128, BORE, SEGMENTS, false);
+    const inlet = patch(
+      new THREE.Vector3(0, -0.29, 0),
+      new THREE.Vector3(0, 1, 0)
+    );
+    const outlet = patch(
+      new THREE.Vector3(0.59, 0.3, 0),
+      new THREE.Vector3(1, 0, 0)
+    );
+
+    const centerline = traceCenterline(elbow, inlet, outlet, BORE);
+    expect(centerline[0]).toEqual(inlet.center);
+    expect(centerline[centerline.length - 1]).toEqual(outlet.center);
+    const samples = path.getSpacedPoints(1000);
+    centerline.forEach((point) => {
+      const offPath = Math.min(...samples.map((p) => p.distanceTo(point)));
+      expect(offPath).toBeLessThan(0.005);
+    });
+    // Not the chord across the bend
+    const length = centerline
+      .slice(1)
+      .reduce((sum, point, i) => sum + point.distanceTo(centerline[i]), 0);
+    expect(length).toBeCloseTo(path.getLength() - 0.02, 1);
+  });
+
+  it("runs down the bore of a pipe wall", () => {
+    const ends = detectPipeEnds(pipeWall(), 0.01)!;
+    const centerline = traceCenterline(
+      pipeWall(),
+      ends.inlet,
+      ends.outlet,
+      BORE
+    );
+    expect(centerline.length).toBeGreaterThan(5);
+    centerline.forEach((point) => {
+      expect(Math.hypot(point.x, point.z)).toBeLessThan(1e-6);
+    });
+  });
+
+  it("fails for an outlet the bore does not lead to", () => {
+    const elbow = new THREE.TubeGeometry(elbowPath(), 128, BORE, SEGMENTS);
+    expect(() =>
+      traceCenterline(
+        elbow,
+        patch(new THREE.Vector3(0, -0.29, 0), new THREE.Vector3(0, 1, 0)),
+        patch(new THREE.Vector3(0, 0.59, 0), new THREE.Vector3(0, 1, 0)),
+        BORE
+      )
+    ).toThrow("Could not follow the pipe from the inlet to the outlet");
+  });
+});
@@ -0,0 +1,212 @@
+import * as THREE from "three";
+import { vec3 } from "gl-matrix";
+import { MeshHealth } from "../src/core/mesh-health";
+import { GeometryUtils } from "../src/utils/geometry-utils";
+
+// A mesh of separate triangles, nine coordinates each
+const triangleMesh = (triangles: number[][]): THREE.Mesh => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute(
+    "position",
+    new THREE.Float32BufferAttribute(triangles.flat(), 3)
+  );
+  return new THREE.Mesh(geometry);
+};
+
+const modelOf = (...meshes: THREE.Mesh[]): THREE.Group => {
+  const model = new THREE.Group();
+  model.add(...meshes);
+  return model;
+};
+
+// Enclosed volume, negative when the surface faces in
+const volume = (model: THREE.Object3D): number => {
+  const position =
+    GeometryUtils.mergeWorldGeometry(model).getAttribute("position");
+  const [a, b, c] = [0, 1, 2].map(() => new THREE.Vector3());
+  let total = 0;
+  for (let i = 0; i < position.count; i += 3) {
+    a.fromBufferAttribute(position, i);
+    b.fromBufferAttribute(position, i + 1);
+    c.fromBufferAttribute(position, i + 2);
+    total += a.dot(b.cross(c)) / 6;
+  }
+  return total;
+};
+
+// An open 0.1 m pipe along y, with end caps as separate meshes
+const cappedPipe = (): THREE.Mesh[] => {
+  const wall = new THREE.Mesh(
+    new THREE.CylinderGeometry(0.05, 0.05, 1, 16, 1, true)
+  );
+  const cap = (y: number) => {
+    const geometry = new THREE.CircleGeometry(0.05, 16);
+    geometry.rotateX((-Math.sign(y) * Math.PI) / 2);
+    const mesh = new THREE.Mesh(geometry);
+    mesh.position.y = y;
+    return mesh;
+  };
+  return [wall, cap(0.5), cap(-0.5)];
+};
+
+describe("MeshHealth", () => {
+  it("checks separate meshes as one surface", () => {
+    const [wall, top, bottom] = cappedPipe();
+    expect(MeshHealth.check(modelOf(wall, top, bottom))).toEqual({
+      triangles: 32 + 16 + 16,
+      openEdges: 0,
+      holes: 0,
+      nonManifoldEdges: 0,
+      degenerateTriangles: 0,
+      inconsistentEdges: 0,
+      selfIntersections: 0,
+    });
+
+    const open = MeshHealth.check(modelOf(wall, bottom));
+    expect(open.openEdges).toBe(16);
+    expect(open.holes).toBe(1);
+  });
+
+  it("fills holes up to the size given", () => {
+    const [wall, , bottom] = cappedPipe();
+    const model = modelOf(wall, bottom);
+    expect(MeshHealth.repair(model, { maxHoleSize: 0.1 }).filledHoles).toBe(0);
+
+    const repair = MeshHealth.repair(model, { maxHoleSize: 0.2 });
+    expect(repair.filledHoles).toBe(1);
+    expect(repair.after.openEdges).toBe(0);
+    expect(repair.after.holes).toBe(0);
+    // A 16-sided prism
+    expect(volume(model)).toBeCloseTo(
+      8 * 0.05 * 0.05 * Math.sin(Math.PI / 8),
+      6
+    );
+  });
+
+  it("turns triangles over to face out", () => {
+    const box = new THREE.BoxGeometry(1, 1, 1);
+    const index = Array.from(box.index!.array);
+    // One triangle the wrong way round
+    [index[1], index[2]] = [index[2], index[1]];
+    box.setIndex(index);
+    const model = modelOf(new THREE.Mesh(box));
+    expect(MeshHealth.check(model).inconsistentEdges).toBe(3);
+
+    let repair = MeshHealth.repair(model);
+    expect(repair.reoriented).toBe(1);
+    expect(repair.after.inconsistentEdges).toBe(0);
+    expect(volume(model)).toBeCloseTo(1, 6);
+
+    // All of them, inside out
+    const inverted = new THREE.BoxGeometry(1, 1, 1);
+    inverted.setIndex(Array.from(inverted.index!.array).reverse());
+    model.clear().add(new THREE.Mesh(inverted));
+    expect(volume(model)).toBeCloseTo(-1, 6);
+    repair = MeshHealth.repair(model);
+    expect(repair.reoriented).toBe(12);
+    expect(volume(model)).toBeCloseTo(1, 6);
+  });
+
+  it("finds fins and triangles cutting through each other", () => {
+    const box = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1));
+    // Sticks out from the edge between the +x and +y faces
+    const fin = triangleMesh([[0.5, 0.5, 0.5, 0.5, 0.5, -0.5, 1, 1, 0]]);
+    let report = MeshHealth.check(modelOf(box, fin));
+    expect(report.nonManifoldEdges).toBe(1);
+    expect(report.openEdges).toBe(2);
+    expect(report.selfIntersections).toBe(0);
+
+    const overlapping = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1));
+    overlapping.position.set(0.5, 0.25, 0.25);
+    report = MeshHealth.check(modelOf(box.clone(), overlapping));
+    expect(report.selfIntersections).toBeGreaterThan(0);
+    expect(report.openEdges).toBe(0);
+  });
+
+  it("splits slivers into their neighbours", () => {
+    // A unit square whose lower half meets the diagonal at its midpoint,
+    // with a flat sliver along the diagonal closing the gap
+    const square = triangleMesh([
+      [0, 0, 0, 1, 0, 0, 0.5, 0.5, 0],
+      [1, 0, 0, 1, 1, 0, 0.5, 0.5, 0],
+      [0, 0, 0, 0.5, 0.5, 0, 1, 1, 0],
+      [0, 0, 0, 1, 1, 0, 0, 1, 0],
+    ]);
+    const model = modelOf(square);
+    const repair = MeshHealth.repair(model);
+    expect(repair.before.degenerateTriangles).toBe(1);
+    expect(repair.removedTriangles).toBe(1);
+    expect(repair.after).toMatchObject({
+      triangles: 4,
+      openEdges: 4,
+      holes: 1,
+      degenerateTriangles: 0,
+      inconsistentEdges: 0,
+    });
+    // Still the whole square, facing +z
+    const geometry = square.geometry;
+    const normal = geometry.getAttribute("normal");
+    for (let i = 0; i < normal.count; i++) {
+      expect(normal.getZ(i)).toBeCloseTo(1, 6);
+    }
+    geometry.computeBoundingBox();
+    expect(geometry.boundingBox!.getSize(new THREE.Vector3()).x).toBe(1);
+  });
+
+  it("welds near vertices and keeps groups on rebuilt meshes", () => {
+    const box = new THREE.BoxGeometry(1, 1, 1);
+    box.userData = { faceNames: ["a", "b", "c", "d", "e", "f"] };
+    // Open the -z face by a triangle, and nudge one corner off its twins
+    box.setIndex(Array.from(box.index!.array).slice(0, 33));
+    box.groups[5].count = 3;
+    box.getAttribute("position").setX(0, 0.5 + 5e-7);
+    const mesh = new THREE.Mesh(box);
+    const untouched = new THREE.Mesh(new THREE.BoxGeometry(1, 1, 1));
+    untouched.position.x = 3;
+    const geometry = untouched.geometry;
+
+    const repair = MeshHealth.repair(modelOf(mesh, untouched), {
+      maxHoleSize: 2,
+    });
+    // The nudged corner comes first, so its twins on the +y and +z faces
+    // move onto it
+    expect(repair.welded).toBe(2);
+    expect(repair.filledHoles).toBe(1);
+    expect(repair.after.openEdges).toBe(0);
+    expect(untouched.geometry).toBe(geometry);
+
+    const rebuilt = mesh.geometry;
+    expect(rebuilt).not.toBe(box);
+    expect(rebuilt.userData.faceNames).toHaveLength(6);
+    expect(rebuilt.groups.map((g) => g.materialIndex)).toEqual([
+      0, 1, 2, 3, 4, 5,
+    ]);
+    expect(rebuilt.groups.reduce((sum, g) => sum + g.count, 0)).toBe(36);
+    expect(rebuilt.getAttribute("position").getX(0)).toBeCloseTo(0.5, 6);
+  });
+
+  it("formats the report for the model info panel", () => {
+    const box = new THREE.BoxGeometry(1, 1, 1);
+    box.setIndex(Array.from(box.index!.array).slice(3));
+    const model = modelOf(new THREE.Mesh(box));
+    expect(MeshHealth.format(MeshHealth.check(model))).toBe(
+      "Mesh: 11 triangles, 3 open edges in 1 holes"
+    );
+    const repair = MeshHealth.repair(model, { maxHoleSize: 2 });
+    expect(MeshHealth.format(repair.after, repair)).toBe(
+      "Mesh: 12 triangles, watertight\nRepaired: 1 filled holes"
+    );
+  });
+});
+
+describe("GeometryUtils.isPointInsidePipe", () => {
+  it("counts the walls a ray leaves through", () => {
+    const box = new THREE.BoxGeometry(1, 1, 1);
+    expect(
+      GeometryUtils.isPointInsidePipe(vec3.fromValues(0, 0.1, 0.2), box)
+    ).toBe(true);
+    expect(
+      GeometryUtils.isPointInsidePipe(vec3.fromValues(-2, 0.1, 0.2), box)
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+import * as THREE from "three";
+import { FlowField, MonitorSet } from "../src/core/monitors";
+
+const SPACING = 0.01;
+
+// Points on a 0.01 m lattice filling a 0.2 × 0.1 × 0.1 m duct along x, all
+// moving at 0.5 m/s with pressure falling 100 Pa/m along it
+const ductField = (time = 0, withVolumes = true): FlowField => {
+  const positions: number[] = [];
+  for (let i = 0; i < 20; i++) {
+    for (let j = 0; j < 10; j++) {
+      for (let k = 0; k < 10; k++) {
+        positions.push(
+          (i + 0.5) * SPACING,
+          (j - 4.5) * SPACING,
+          (k - 4.5) * SPACING
+        );
+      }
+    }
+  }
+  const count = positions.length / 3;
+  const velocities = new Float32Array(count * 3);
+  const pressures = new Float32Array(count);
+  for (let n = 0; n < count; n++) {
+    velocities[n * 3] = 0.5;
+    pressures[n] = 1000 - 100 * positions[n * 3];
+  }
+  return {
+    time,
+    count,
+    positions: new Float32Array(positions),
+    velocities,
+    pressures,
+    densities: withVolumes ? new Float32Array(count).fill(1000) : undefined,
+    masses: withVolumes
+      ? new Float32Array(count).fill(1000 * SPACING ** 3)
+      : undefined,
+    smoothingLength: 2 * SPACING,
+    density: 1000,
+  };
+};
+
+const duct = (): THREE.BufferGeometry =>
+  new THREE.BoxGeometry(0.2, 0.1, 0.1).translate(0.1, 0, 0);
+
+describe("MonitorSet", () => {
+  it("interpolates probes and reports NaN away from the points", () => {
+    const monitors = new MonitorSet({
+      probes: [
+        { name: "centre", position: [0.105, 0.005, 0.005] },
+        { name: "outside", position: [1, 0, 0] },
+      ],
+      sections: [],
+    });
+    const [centre, outside] = monitors.record(ductField()).probes;
+    expect(centre.velocity[0]).toBeCloseTo(0.5, 6);
+    expect(centre.velocity[1]).toBeCloseTo(0, 6);
+    // The lattice is symmetric about the probe, so a linear field comes
+    // back exactly
+    expect(centre.pressure).toBeCloseTo(1000 - 100 * 0.105, 3);
+    expect(outside.velocity.every(Number.isNaN)).toBe(true);
+    expect(outside.pressure).toBeNaN();
+  });
+
+  it("measures the flow through a section of the pipe", () => {
+    const monitors = new MonitorSet(
+      {
+        probes: [],
+        sections: [
+          {
+            name: "mid",
+            center: [0.105, 0, 0],
+            normal: [1, 0, 0],
+            thickness: SPACING,
+          },
+        ],
+      },
+      duct()
+    );
+    expect(monitors.getAreas()[0]).toBeCloseTo(0.01, 8);
+
+    // ρ u A, from the particle volumes in the slab
+    const [section] = monitors.record(ductField()).sections;
+    expect(section.massFlow).toBeCloseTo(1000 * 0.5 * 0.01, 4);
+    expect(section.meanVelocity).toBeCloseTo(0.5, 6);
+    expect(section.pressure).toBeCloseTo(1000 - 100 * 0.105, 3);
+
+    // Points without volumes are taken to fill the section
+    const [points] = monitors.record(ductField(1, false)).sections;
+    expect(points.massFlow).toBeCloseTo(1000 * 0.5 * 0.01, 4);
+    expect(points.meanVelocity).toBeCloseTo(0.5, 6);
+
+    // Flow against the normal counts as negative
+    const reversed = new MonitorSet(
+      {
+        probes: [],
+        sections: [{ name: "back", center: [0.105, 0, 0], normal: [-1, 0, 0] }],
+      },
+      duct()
+    );
+    expect(reversed.record(ductField()).sections[0].meanVelocity).toBeLessThan(
+      0
+    );
+  });
+
+  it("starts the history again from an earlier time", () => {
+    const monitors = new MonitorSet({
+      probes: [{ name: "centre", position: [0.105, 0.005, 0.005] }],
+      sections: [],
+    });
+    [0, 1, 2, 0.5].forEach((time) => monitors.record(ductField(time)));
+    expect(monitors.getHistory().map((record) => record.time)).toEqual([
+      0, 0.5,
+    ]);
+
+    const [header, first] = monitors.toCSV().split("\n");
+    expect(header).toBe(
+      "time_s,centre_ux_m_s,centre_uy_m_s,centre_uz_m_s,centre_p_pa"
+    );
+    expect(first.split(",").map(Number)[1]).toBeCloseTo(0.5, 6);
+    monitors.clear();
+    expect(monitors.toCSV()).toBe(header);
+  });
+
+  it("needs a direction for every section, and a size without a model", () => {
+    expect(
+      () =>
+        new MonitorSet({
+          probes: [],
+          sections: [{ name: "flat", center: [0, 0, 0], normal: [0, 0, 0] }],
+        })
+    ).toThrow("Section flat needs a non-zero normal");
+    expect(
+      () =>
+        new MonitorSet({
+          probes: [],
+          sections: [{ name: "open", center: [0, 0, 0], normal: [1, 0, 0] }],
+        })
+    ).toThrow("Section open needs a radius without a pipe model");
+    expect(
+      new MonitorSet({
+        probes: [],
+        sections: [
+          { name: "disc", center: [0, 0, 0], normal: [1, 0, 0], radius: 0.1 },
+        ],
+      }).getAreas()[0]
+    ).toBeCloseTo(Math.PI * 0.01, 12);
+  });
+});
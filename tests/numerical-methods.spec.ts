@@ -0,0 +1,138 @@
+import {
+  LinearOperator,
+  LinearSolverType,
+  NumericalMethods,
+} from "../src/utils/numerial-methods";
+
+// Tridiagonal matrix with `diagonal` on the diagonal and -1 beside it
+const tridiagonal =
+  (diagonal: number): LinearOperator =>
+  (x, result) => {
+    for (let i = 0; i < x.length; i++) {
+      result[i] =
+        diagonal * x[i] -
+        (i > 0 ? x[i - 1] : 0) -
+        (i < x.length - 1 ? x[i + 1] : 0);
+    }
+  };
+
+const system = (diagonal: number, size: number) => {
+  const apply = tridiagonal(diagonal);
+  const solution = Float64Array.from({ length: size }, (_, i) =>
+    Math.sin(i + 1)
+  );
+  const rhs = new Float64Array(size);
+  apply(solution, rhs);
+  return {
+    apply,
+    solution,
+    rhs,
+    diagonal: new Float64Array(size).fill(diagonal),
+  };
+};
+
+describe("NumericalMethods", () => {
+  const solvers: LinearSolverType[] = [
+    "jacobi",
+    "relaxed-jacobi",
+    "conjugate-gradient",
+  ];
+
+  it.each(solvers)("solves a diagonally dominant system with %s", (type) => {
+    const { apply, solution, rhs, diagonal } = system(4, 20);
+    const x = new Float64Array(20);
+    const result = NumericalMethods.solve(type, apply, diagonal, rhs, x, {
+      tolerance: 1e-10,
+    });
+
+    expect(result.converged).toBe(true);
+    expect(result.residual).toBeLessThanOrEqual(1e-10);
+    x.forEach((value, i) => expect(value).toBeCloseTo(solution[i], 8));
+  });
+
+  it("takes conjugate gradient no more iterations than unknowns", () => {
+    // The 1D Laplacian, on which Jacobi crawls
+    const { apply, solution, rhs, diagonal } = system(2, 20);
+    const x = new Float64Array(20);
+    const result = NumericalMethods.conjugateGradient(apply, diagonal, rhs, x, {
+      tolerance: 1e-10,
+    });
+    expect(result.converged).toBe(true);
+    expect(result.iterations).toBeLessThanOrEqual(20);
+    x.forEach((value, i) => expect(value).toBeCloseTo(solution[i], 8));
+
+    const jacobi = NumericalMethods.jacobi(
+      apply,
+      diagonal,
+      rhs,
+      new Float64Array(20),
+      { tolerance: 1e-10 }
+    );
+    expect(jacobi.converged).toBe(false);
+    expect(jacobi.iterations).toBe(100);
+  });
+
+  it("uses the weighted inner product the operator is symmetric under", () => {
+    // W^-1 S with S the 1D Laplacian is symmetric only under the weights W
+    const weights = Float64Array.from({ length: 10 }, (_, i) => 1 + i);
+    const laplacian = tridiagonal(2);
+    const apply: LinearOperator = (x, result) => {
+      laplacian(x, result);
+      for (let i = 0; i < x.length; i++) result[i] /= weights[i];
+    };
+    const diagonal = weights.map((weight) => 2 / weight);
+    const solution = Float64Array.from({ length: 10 }, (_, i) => i % 3);
+    const rhs = new Float64Array(10);
+    apply(solution, rhs);
+
+    const x = new Float64Array(10);
+    const result = NumericalMethods.conjugateGradient(apply, diagonal, rhs, x, {
+      tolerance: 1e-10,
+      weights,
+    });
+    expect(result.converged).toBe(true);
+    expect(result.iterations).toBeLessThanOrEqual(10);
+    x.forEach((value, i) => expect(value).toBeCloseTo(solution[i], 8));
+  });
+
+  it("holds unknowns at the lower bound", () => {
+    const apply = tridiagonal(4);
+    const diagonal = new Float64Array(3).fill(4);
+    const rhs = Float64Array.from([3, -8, 3]);
+    const x = new Float64Array(3);
+    const result = NumericalMethods.relaxedJacobi(apply, diagonal, rhs, x, {
+      lowerBound: 0,
+      tolerance: 1e-10,
+    });
+
+    // The middle unknown would go negative, leaving the others uncoupled
+    expect(result.converged).toBe(true);
+    expect(x[1]).toBe(0);
+    expect(x[0]).toBeCloseTo(0.75, 8);
+    expect(x[2]).toBeCloseTo(0.75, 8);
+  });
+
+  it("rejects a relaxation outside (0, 1] and unknown solvers", () => {
+    const { apply, rhs, diagonal } = system(4, 5);
+    expect(() =>
+      NumericalMethods.relaxedJacobi(
+        apply,
+        diagonal,
+        rhs,
+        new Float64Array(5),
+        {
+          relaxation: 1.5,
+        }
+      )
+    ).toThrow("relaxation");
+    expect(() =>
+      NumericalMethods.solve(
+        "gauss-seidel" as unknown as LinearSolverType,
+        apply,
+        diagonal,
+        rhs,
+        new Float64Array(5)
+      )
+    ).toThrow("Unknown linear solver");
+  });
+});
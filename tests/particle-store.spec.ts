@@ -0,0 +1,116 @@
+import { ParticleStore } from "../src/core/particle-store";
+
+// Particle i gets values derived from i in every field, all exact in
+// single precision
+const addParticles = (store: ParticleStore, count: number): void => {
+  for (let i = 0; i < count; i++) {
+    expect(
+      store.add(
+        [i, i + 0.5, -i],
+        [2 * i, 0, -2 * i],
+        1000 + i,
+        i + 1,
+        i % 4,
+        20 + i
+      )
+    ).toBe(i);
+    store.pressures[i] = 10 * i;
+  }
+};
+
+// The fields particle i was added with
+const fieldsOf = (i: number) => ({
+  positions: [i, i + 0.5, -i],
+  velocities: [2 * i, 0, -2 * i],
+  densities: [1000 + i],
+  pressures: [10 * i],
+  masses: [i + 1],
+  phases: [i % 4],
+  temperatures: [20 + i],
+});
+
+// The fields stored at index n, from views trimmed to the count
+const storedAt = (store: ParticleStore, n: number) => {
+  const views = store.getViews();
+  return {
+    positions: Array.from(views.positions.subarray(n * 3, n * 3 + 3)),
+    velocities: Array.from(views.velocities.subarray(n * 3, n * 3 + 3)),
+    densities: [views.densities[n]],
+    pressures: [views.pressures[n]],
+    masses: [views.masses[n]],
+    phases: [views.phases[n]],
+    temperatures: [views.temperatures[n]],
+  };
+};
+
+describe("ParticleStore", () => {
+  it("grows past its capacity and keeps the particles added", () => {
+    const store = new ParticleStore(4);
+    expect(store.positions).toHaveLength(12);
+    addParticles(store, 1500);
+
+    expect(store.getCount()).toBe(1500);
+    expect(store.positions.length).toBeGreaterThanOrEqual(1500 * 3);
+    [0, 3, 4, 1023, 1024, 1499].forEach((i) =>
+      expect(storedAt(store, i)).toEqual(fieldsOf(i))
+    );
+  });
+
+  it("trims its views to the particle count", () => {
+    const store = new ParticleStore(16);
+    addParticles(store, 5);
+    const views = store.getViews();
+    expect(views.positions).toHaveLength(15);
+    expect(views.velocities).toHaveLength(15);
+    [
+      views.densities,
+      views.pressures,
+      views.masses,
+      views.phases,
+      views.temperatures,
+    ].forEach((view) => expect(view).toHaveLength(5));
+    // The backing arrays stay at the capacity
+    expect(store.masses).toHaveLength(16);
+
+    // Views share the store's memory, copies do not
+    const copies = store.copyArrays();
+    views.masses[0] = 42;
+    expect(store.masses[0]).toBe(42);
+    expect(copies.masses[0]).toBe(1);
+
+    store.clear();
+    expect(store.getMassView()).toHaveLength(0);
+  });
+
+  it("compacts every field in order when particles are removed", () => {
+    const store = new ParticleStore(8);
+    addParticles(store, 20);
+    store.removeWhere((i) => i % 3 === 0);
+
+    const kept = Array.from({ length: 20 }, (_, i) => i).filter(
+      (i) => i % 3 !== 0
+    );
+    expect(store.getCount()).toBe(kept.length);
+    expect(store.getPositionView()).toHaveLength(kept.length * 3);
+    kept.forEach((i, n) => expect(storedAt(store, n)).toEqual(fieldsOf(i)));
+
+    // Later particles go after the survivors
+    expect(store.add([0, 0, 0], [0, 0, 0], 1000, 1)).toBe(kept.length);
+    store.removeWhere(() => true);
+    expect(store.getCount()).toBe(0);
+  });
+
+  it("loads arrays of one length only", () => {
+    const source = new ParticleStore();
+    addParticles(source, 3);
+    const arrays = source.copyArrays();
+
+    const store = new ParticleStore(1);
+    store.load(arrays);
+    expect(store.getCount()).toBe(3);
+    expect(storedAt(store, 2)).toEqual(fieldsOf(2));
+    expect(() => store.load({ ...arrays, phases: new Uint8Array(2) })).toThrow(
+      "Particle arrays have inconsistent lengths"
+    );
+  });
+});
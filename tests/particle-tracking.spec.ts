@@ -0,0 +1,189 @@
+import * as THREE from "three";
+import { FlowField } from "../src/core/monitors";
+import {
+  BoundaryRegion,
+  ParticleTracker,
+  formatWallImpacts,
+} from "../src/core/particle-tracking";
+
+// Points every 1 cm through the box [0, 0.2] x [0, 0.1] x [0, 0.1]
+// moving at `velocity`
+const uniformField = (
+  velocity: [number, number, number],
+  time = 0
+): FlowField => {
+  const positions: number[] = [];
+  const velocities: number[] = [];
+  for (let x = 0.005; x < 0.2; x += 0.01) {
+    for (let y = 0.005; y < 0.1; y += 0.01) {
+      for (let z = 0.005; z < 0.1; z += 0.01) {
+        positions.push(x, y, z);
+        velocities.push(...velocity);
+      }
+    }
+  }
+  return {
+    time,
+    count: positions.length / 3,
+    positions: Float32Array.from(positions),
+    velocities: Float32Array.from(velocities),
+    pressures: new Float32Array(positions.length / 3),
+    smoothingLength: 0.02,
+    density: 1000,
+  };
+};
+
+// Quads through four corners each, wound so their normals point out of the
+// box
+const quads = (...corners: number[][][]): THREE.BufferGeometry => {
+  const geometry = new THREE.BufferGeometry();
+  geometry.setAttribute(
+    "position",
+    new THREE.Float32BufferAttribute(
+      corners.flatMap(([a, b, c, d]) => [...a, ...b, ...c, ...a, ...c, ...d]),
+      3
+    )
+  );
+  return geometry;
+};
+
+// The field's box, with an open outlet at x = 0.2
+const boxRegions = (): BoundaryRegion[] => [
+  {
+    name: "floor",
+    geometry: quads([
+      [0, 0, 0],
+      [0.2, 0, 0],
+      [0.2, 0, 0.1],
+      [0, 0, 0.1],
+    ]),
+  },
+  {
+    name: "walls",
+    geometry: quads(
+      [
+        [0, 0.1, 0],
+        [0, 0.1, 0.1],
+        [0.2, 0.1, 0.1],
+        [0.2, 0.1, 0],
+      ],
+      [
+        [0, 0, 0],
+        [0, 0, 0.1],
+        [0, 0.1, 0.1],
+        [0, 0.1, 0],
+      ],
+      [
+        [0, 0, 0],
+        [0, 0.1, 0],
+        [0.2, 0.1, 0],
+        [0.2, 0, 0],
+      ],
+      [
+        [0, 0, 0.1],
+        [0.2, 0, 0.1],
+        [0.2, 0.1, 0.1],
+        [0, 0.1, 0.1],
+      ]
+    ),
+  },
+  {
+    name: "outlet",
+    geometry: quads([
+      [0.2, 0, 0],
+      [0.2, 0.1, 0],
+      [0.2, 0.1, 0.1],
+      [0.2, 0, 0.1],
+    ]),
+    open: true,
+  },
+];
+
+describe("ParticleTracker", () => {
+  it("settles fine sand at the Stokes velocity in still water", () => {
+    const tracker = new ParticleTracker([uniformField([0, 0, 0])], [], {
+      fluidDensity: 1000,
+      fluidViscosity: 0.001,
+      duration: 0.5,
+    });
+    const diameter = 50e-6;
+    const { tracks } = tracker.track([
+      { position: [0.1, 0.08, 0.05], diameter, density: 2650 },
+    ]);
+
+    const { times, positions } = tracks[0];
+    const n = times.length - 1;
+    const fallSpeed =
+      (positions[(n - 1) * 3 + 1] - positions[n * 3 + 1]) /
+      (times[n] - times[n - 1]);
+    // Schiller-Naumann adds about 3% drag at this Reynolds number
+    const stokes = (1650 * 9.81 * diameter * diameter) / (18 * 0.001);
+    expect(fallSpeed).toBeLessThan(stokes);
+    expect(fallSpeed).toBeGreaterThan(0.95 * stokes);
+  });
+
+  it("carries neutrally buoyant particles with the flow", () => {
+    const tracker = new ParticleTracker(
+      [uniformField([0.1, 0, 0], 0), uniformField([0.3, 0, 0], 1)],
+      [],
+      { fluidDensity: 1000, fluidViscosity: 0.001, duration: 0.5 }
+    );
+    expect(tracker.sampleVelocity(0.25, [0.1, 0.05, 0.05])[0]).toBeCloseTo(
+      0.15,
+      6
+    );
+
+    const { tracks } = tracker.track([
+      { position: [0.05, 0.05, 0.05], diameter: 0.001, density: 1000 },
+    ]);
+    // x = 0.05 + 0.1 t + 0.1 t² up to t = 0.5
+    const { positions, state } = tracks[0];
+    expect(state).toBe("moving");
+    expect(positions[positions.length - 3]).toBeCloseTo(0.125, 2);
+    expect(positions[positions.length - 2]).toBeCloseTo(0.05, 4);
+  });
+
+  it("records impacts per wall region and where particles settle", () => {
+    const tracker = new ParticleTracker(
+      [uniformField([0, 0, 0])],
+      boxRegions(),
+      { fluidDensity: 1000, fluidViscosity: 0.001, duration: 1 }
+    );
+    const result = tracker.track([
+      { position: [0.1, 0.09, 0.05], diameter: 0.002, density: 7800 },
+    ]);
+
+    expect(result.impacts.length).toBeGreaterThan(0);
+    const first = result.impacts[0];
+    expect(first.region).toBe("floor");
+    expect(first.angle).toBeCloseTo(90, 0);
+    expect(first.speed).toBeGreaterThan(0.5);
+    expect(first.position[1]).toBeCloseTo(0.001, 3);
+    expect(result.tracks[0].state).toBe("settled");
+    expect(result.tracks[0].region).toBe("floor");
+
+    const summary = tracker.summarize(result);
+    expect(summary.map((region) => region.region)).toEqual(["floor", "walls"]);
+    expect(summary[0].impacts).toBe(result.impacts.length);
+    expect(summary[0].settled).toBe(1);
+    expect(summary[0].maxSpeed).toBe(first.speed);
+    expect(summary[1].impacts).toBe(0);
+    expect(formatWallImpacts(result.impacts).split("\n")[1]).toMatch(
+      /^0,floor,/
+    );
+  });
+
+  it("lets particles escape through open regions", () => {
+    const tracker = new ParticleTracker(
+      [uniformField([0.5, 0, 0])],
+      boxRegions(),
+      { fluidDensity: 1000, fluidViscosity: 0.001, duration: 1 }
+    );
+    const { tracks } = tracker.track([
+      { position: [0.1, 0.05, 0.05], diameter: 0.0005, density: 1000 },
+    ]);
+    expect(tracks[0].state).toBe("escaped");
+    expect(tracks[0].region).toBe("outlet");
+    expect(tracks[0].times[tracks[0].times.length - 1]).toBeCloseTo(0.2, 1);
+  });
+});
@@ -0,0 +1,200 @@
+import * as THREE from "three";
+import { PigBody, PigParameters, PigState } from "../src/core/pig";
+import { SPHSimulator } from "../src/core/sph-simulator";
+
+const NO_GRAVITY = new THREE.Vector3(0, 0, 0);
+
+// A 1 m pig in a straight 10 m line along x
+const createPig = (params: Partial<PigParameters> = {}): PigBody =>
+  new PigBody({
+    centerline: [new THREE.Vector3(0, 0, 0), new THREE.Vector3(10, 0, 0)],
+    radius: 0.1,
+    length: 1,
+    mass: 10,
+    frictionForce: 50,
+    startDistance: 5,
+    ...params,
+  });
+
+const moving = (distance: number, velocity: number): PigState => ({
+  distance,
+  velocity,
+  nextSampleTime: 0,
+  history: [],
+});
+
+// One step with the fluid pushing the pig along x with `force`
+const push = (pig: PigBody, force: number, time = 0.01): void => {
+  pig.beginStep();
+  pig.addReaction([-force, 0, 0], [1, 0, 0], 0);
+  pig.integrate(0.01, NO_GRAVITY, time);
+};
+
+describe("PigBody", () => {
+  it("stays put until the driving force beats the seal friction", () => {
+    const pig = createPig();
+    push(pig, 40);
+    expect(pig.getVelocity()).toBe(0);
+    expect(pig.getLastSample()!.distance).toBe(5);
+    expect(pig.getLastSample()!.fluidForce).toBe(40);
+
+    // (60 - 50) N over 10 kg for 0.01 s
+    push(pig, 60, 0.02);
+    expect(pig.getVelocity()).toBeCloseTo(0.01, 12);
+    expect(pig.getLastSample()!.distance).toBeCloseTo(5.0001, 12);
+
+    // Gravity drives it too, down a slope
+    const downhill = createPig({ frictionForce: 10 });
+    downhill.beginStep();
+    downhill.integrate(0.01, new THREE.Vector3(-9.81, 0, 0), 0.01);
+    expect(downhill.getVelocity()).toBeCloseTo(-((98.1 - 10) / 10) * 0.01, 12);
+  });
+
+  it("comes to rest under friction without turning back", () => {
+    const pig = createPig();
+    pig.setState(moving(5, 0.2));
+    for (let step = 1; step <= 10; step++) push(pig, 0, step * 0.01);
+    // 5 m/s² of friction stops it within the first 0.04 s
+    expect(pig.getVelocity()).toBe(0);
+    expect(pig.getLastSample()!.distance).toBeGreaterThan(5);
+    expect(pig.getLastSample()!.distance).toBeLessThan(5 + 0.2 * 0.05);
+
+    // Moving against a push weaker than friction, it still only stops
+    pig.setState(moving(5, -0.01));
+    push(pig, 30);
+    expect(pig.getVelocity()).toBe(0);
+  });
+
+  it("stops at the receiver and in the launcher", () => {
+    const pig = createPig({ frictionForce: 0 });
+    pig.setState(moving(9.4, 20));
+    push(pig, 0);
+    expect(pig.getVelocity()).toBe(0);
+    expect(pig.getLastSample()!.distance).toBe(9.5);
+    expect(pig.getCenter().x).toBeCloseTo(9.5, 12);
+
+    pig.setState(moving(0.6, -20));
+    push(pig, 0);
+    expect(pig.getVelocity()).toBe(0);
+    expect(pig.getLastSample()!.distance).toBe(0.5);
+  });
+
+  it("averages the pressure on each cup into the differential pressure", () => {
+    const pig = createPig();
+    const contacts: number[][] = [];
+    const record = (_distance: number, normal: ArrayLike<number>): void => {
+      contacts.push(Array.from(normal));
+    };
+    // Behind the rear cup, and ahead of the front one
+    pig.forEachContact([4.45, 0.05, 0], 0.1, record);
+    pig.forEachContact([5.55, 0, 0.05], 0.1, record);
+    const [rear, front] = contacts;
+    expect(rear[0]).toBe(1);
+    expect(front[0]).toBe(-1);
+
+    pig.beginStep();
+    pig.addReaction([-20, 0, 0], rear, 1000);
+    pig.addReaction([-20, 0, 0], rear, 1200);
+    pig.addReaction([5, 0, 0], front, 300);
+    pig.integrate(0.01, NO_GRAVITY, 0.01);
+    const sample = pig.getLastSample()!;
+    expect(sample.differentialPressure).toBeCloseTo(800, 9);
+    expect(sample.fluidForce).toBeCloseTo(35, 9);
+
+    // Each step starts from nothing
+    push(pig, 0, 0.02);
+    expect(pig.getLastSample()!.differentialPressure).toBe(0);
+  });
+});
+
+describe("SPHSimulator with a pig", () => {
+  // Water in a 0.2 m square duct along x, with a light, frictionless pig
+  // sealing it halfway along
+  const createDuct = (): SPHSimulator => {
+    const simulator = new SPHSimulator({
+      bounds: new THREE.Box3(
+        new THREE.Vector3(0, 0, 0),
+        new THREE.Vector3(0.2, 0.04, 0.04)
+      ),
+      viscosity: 0.01,
+      density: 1000,
+      flowRate: 0,
+      timeStep: 0.001,
+      particleSpacing: 0.01,
+      gravity: NO_GRAVITY,
+      pig: {
+        centerline: [
+          new THREE.Vector3(0, 0.02, 0.02),
+          new THREE.Vector3(0.2, 0.02, 0.02),
+        ],
+        radius: 0.03,
+        length: 0.02,
+        mass: 0.02,
+        frictionForce: 0,
+        startDistance: 0.1,
+      },
+    });
+    simulator.initializeParticles(
+      new THREE.Box3(
+        new THREE.Vector3(0.005, 0.005, 0.005),
+        new THREE.Vector3(0.2, 0.04, 0.04)
+      ),
+      0.01
+    );
+    return simulator;
+  };
+
+  // Momentum along x of the fluid ahead of the pig
+  const momentumAhead = (simulator: SPHSimulator): number => {
+    const front = simulator.getPigSample()!.position[0] + 0.01;
+    const positions = simulator.getParticlePositions();
+    const velocities = simulator.getParticleVelocities();
+    const masses = simulator.getParticleMasses();
+    let momentum = 0;
+    for (let i = 0; i < simulator.getParticleCount(); i++) {
+      if (positions[i * 3] > front) momentum += masses[i] * velocities[i * 3];
+    }
+    return momentum;
+  };
+
+  it("is pushed along by the fluid behind it", () => {
+    const simulator = createDuct();
+    const positions = simulator.getParticlePositions();
+    const velocities = simulator.getParticleVelocities();
+    for (let i = 0; i < simulator.getParticleCount(); i++) {
+      if (positions[i * 3] < 0.09) velocities[i * 3] = 0.3;
+    }
+
+    for (let step = 0; step < 40; step++) {
+      simulator.step(simulator.getStableTimeStep());
+    }
+    const sample = simulator.getPigSample()!;
+    expect(sample.velocity).toBeGreaterThan(0);
+    expect(sample.distance).toBeGreaterThan(0.1);
+    expect(simulator.getPigHistory().length).toBeGreaterThan(0);
+  });
+
+  it("pushes the fluid ahead of it", () => {
+    // The same duct with the pig set moving, and with it left at rest
+    const run = (pigVelocity: number): SPHSimulator => {
+      const simulator = createDuct();
+      simulator.step(simulator.getStableTimeStep());
+      const state = simulator.captureState();
+      simulator.restoreState({
+        ...state,
+        pig: { ...state.pig!, velocity: pigVelocity },
+      });
+      for (let step = 0; step < 100; step++) {
+        simulator.step(simulator.getStableTimeStep());
+      }
+      return simulator;
+    };
+    const moved = run(0.3);
+    const still = run(0);
+
+    // Frictionless, the pig hands most of its 0.006 kg m/s to the fluid
+    expect(Math.abs(moved.getPigSample()!.velocity)).toBeLessThan(0.05);
+    expect(momentumAhead(moved)).toBeGreaterThan(0.5 * 0.02 * 0.3);
+    expect(Math.abs(momentumAhead(still))).toBeLessThan(1e-4);
+  });
+});
@@ -0,0 +1,132 @@
+import { DEFAULT_MAX_VISCOSITY, Rheology } from "../src/core/rheology";
+
+describe("Rheology", () => {
+  it("keeps a Newtonian fluid's viscosity at any shear rate", () => {
+    expect(Rheology.apparentViscosity(undefined, 0.001, 50)).toBe(0.001);
+    expect(Rheology.apparentViscosity({ type: "newtonian" }, 0.001, 0)).toBe(
+      0.001
+    );
+    expect(Rheology.isNewtonian(undefined)).toBe(true);
+    expect(Rheology.isNewtonian({ type: "bingham", yieldStress: 1 })).toBe(
+      false
+    );
+  });
+
+  it("thins a power-law fluid as it shears", () => {
+    const model = {
+      type: "power-law" as const,
+      consistency: 2,
+      flowIndex: 0.5,
+    };
+    // K γ̇^(n-1)
+    expect(Rheology.apparentViscosity(model, 0.001, 4)).toBeCloseTo(1, 12);
+    expect(Rheology.apparentViscosity(model, 0.001, 100)).toBeCloseTo(0.2, 12);
+    // Capped at rest
+    expect(Rheology.apparentViscosity(model, 0.001, 0)).toBe(
+      DEFAULT_MAX_VISCOSITY
+    );
+    expect(
+      Rheology.apparentViscosity({ ...model, maxViscosity: 5 }, 0.001, 0.01)
+    ).toBe(5);
+  });
+
+  it("adds the yield stress over the shear rate for yield-stress fluids", () => {
+    expect(
+      Rheology.apparentViscosity({ type: "bingham", yieldStress: 10 }, 0.05, 20)
+    ).toBeCloseTo(0.55, 12);
+    expect(
+      Rheology.apparentViscosity(
+        {
+          type: "herschel-bulkley",
+          yieldStress: 10,
+          consistency: 2,
+          flowIndex: 0.5,
+        },
+        0.05,
+        4
+      )
+    ).toBeCloseTo(3.5, 12);
+    // Unyielded fluid sits at the cap
+    expect(
+      Rheology.apparentViscosity(
+        { type: "bingham", yieldStress: 10, maxViscosity: 50 },
+        0.05,
+        0
+      )
+    ).toBe(50);
+  });
+
+  it("runs a Carreau fluid between its plateaus", () => {
+    const model = {
+      type: "carreau" as const,
+      infiniteShearViscosity: 0.01,
+      relaxationTime: 1,
+      flowIndex: 0.5,
+    };
+    expect(Rheology.apparentViscosity(model, 1, 0)).toBeCloseTo(1, 9);
+    // (1 + 3²)^(-1/4)
+    expect(Rheology.apparentViscosity(model, 1, 3)).toBeCloseTo(
+      0.01 + 0.99 * Math.pow(10, -0.25),
+      12
+    );
+    expect(Rheology.apparentViscosity(model, 1, 1e9)).toBeCloseTo(0.01, 3);
+    expect(Rheology.maxViscosity(model, 1)).toBe(1);
+  });
+
+  it("bounds the viscosity by the cap or the plateau", () => {
+    expect(Rheology.maxViscosity(undefined, 0.001)).toBe(0.001);
+    expect(Rheology.maxViscosity({ type: "bingham", yieldStress: 1 }, 1)).toBe(
+      DEFAULT_MAX_VISCOSITY
+    );
+    expect(
+      Rheology.maxViscosity(
+        {
+          type: "carreau",
+          infiniteShearViscosity: 2,
+          relaxationTime: 1,
+          flowIndex: 0.5,
+        },
+        1
+      )
+    ).toBe(2);
+  });
+
+  it("names the first parameter that is not physical", () => {
+    expect(() =>
+      Rheology.validate({ type: "power-law", consistency: 0, flowIndex: 0.5 })
+    ).toThrow("power-law consistency must be positive");
+    expect(() =>
+      Rheology.validate({ type: "bingham", yieldStress: -1 })
+    ).toThrow("bingham yield stress must not be negative");
+    expect(() =>
+      Rheology.validate({
+        type: "herschel-bulkley",
+        yieldStress: 1,
+        consistency: 1,
+        flowIndex: NaN,
+      })
+    ).toThrow("herschel-bulkley flow index must be positive");
+    expect(() =>
+      Rheology.validate({
+        type: "carreau",
+        infiniteShearViscosity: 0,
+        relaxationTime: -1,
+        flowIndex: 0.5,
+      })
+    ).toThrow("carreau relaxation time must not be negative");
+    expect(() =>
+      Rheology.validate({ type: "bingham", yieldStress: 1, maxViscosity: 0 })
+    ).toThrow("bingham maximum viscosity must be positive");
+
+    expect(() => Rheology.validate({ type: "newtonian" })).not.toThrow();
+    expect(() =>
+      Rheology.validate({
+        type: "herschel-bulkley",
+        yieldStress: 0,
+        consistency: 1,
+        flowIndex: 1,
+        maxViscosity: 10,
+      })
+    ).not.toThrow();
+  });
+});
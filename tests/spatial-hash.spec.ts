@@ -0,0 +1,121 @@
+import { vec3 } from "gl-matrix";
+import { Particle, ParticleOperations } from "../src/utils/particle-operations";
+import { Periodicity, SpatialHashGrid } from "../src/utils/spatial-hash";
+
+const RADIUS = 0.1;
+
+// Reproducible points in the unit cube, from a linear congruential generator
+const randomPoints = (count: number, seed = 1): Float64Array => {
+  let state = seed;
+  const points = new Float64Array(count * 3);
+  for (let i = 0; i < points.length; i++) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    points[i] = state / 2 ** 32;
+  }
+  return points;
+};
+
+// Every pair within the radius, with the image shift on the periodic axis,
+// as sorted "j:shift" keys per point
+const bruteForce = (
+  points: Float64Array,
+  periodic?: Periodicity
+): string[][] => {
+  const count = points.length / 3;
+  const shifts = periodic ? [0, periodic.length, -periodic.length] : [0];
+  const result: string[][] = [];
+  for (let i = 0; i < count; i++) {
+    const neighbors: string[] = [];
+    for (let j = 0; j < count; j++) {
+      shifts.forEach((shift) => {
+        if (j === i && shift === 0) return;
+        let distanceSquared = 0;
+        for (let axis = 0; axis < 3; axis++) {
+          const offset = periodic && axis === periodic.axis ? shift : 0;
+          distanceSquared +=
+            (points[j * 3 + axis] - points[i * 3 + axis] - offset) ** 2;
+        }
+        if (distanceSquared < RADIUS * RADIUS) neighbors.push(`${j}:${shift}`);
+      });
+    }
+    result.push(neighbors.sort());
+  }
+  return result;
+};
+
+const listed = (points: Float64Array, periodic?: Periodicity): string[][] => {
+  const grid = new SpatialHashGrid(RADIUS);
+  grid.buildFromArray(points.length / 3, points);
+  const { offsets, indices, shifts } = grid.buildNeighborList(RADIUS, periodic);
+  const result: string[][] = [];
+  for (let i = 0; i < points.length / 3; i++) {
+    const neighbors: string[] = [];
+    for (let n = offsets[i]; n < offsets[i + 1]; n++) {
+      neighbors.push(`${indices[n]}:${shifts ? shifts[n] : 0}`);
+    }
+    result.push(neighbors.sort());
+  }
+  return result;
+};
+
+describe("SpatialHashGrid", () => {
+  const points = randomPoints(3000);
+
+  it("lists the same neighbors as a brute-force search", () => {
+    const expected = bruteForce(points);
+    expect(expected.some((neighbors) => neighbors.length > 0)).toBe(true);
+    expect(listed(points)).toEqual(expected);
+  });
+
+  it("finds neighbors across the seam of a periodic axis", () => {
+    const periodic: Periodicity = { axis: 0, min: 0, length: 1 };
+    const expected = bruteForce(points, periodic);
+    expect(
+      expected.some((neighbors) => neighbors.some((key) => !key.endsWith(":0")))
+    ).toBe(true);
+    expect(listed(points, periodic)).toEqual(expected);
+  });
+
+  it("rejects a period under twice the radius", () => {
+    const grid = new SpatialHashGrid(RADIUS);
+    grid.buildFromArray(3000, points);
+    expect(() =>
+      grid.buildNeighborList(RADIUS, { axis: 1, min: 0, length: 0.15 })
+    ).toThrow("Periodic length 0.15 is under twice the neighbor radius 0.1");
+  });
+});
+
+describe("ParticleOperations", () => {
+  it("finds a particle's neighbors in the grid, leaving out the particle", () => {
+    // Particle positions are single precision
+    const points = Float64Array.from(new Float32Array(randomPoints(500, 7)));
+    const particles: Particle[] = [];
+    for (let i = 0; i < 500; i++) {
+      particles.push({
+        position: vec3.fromValues(
+          points[i * 3],
+          points[i * 3 + 1],
+          points[i * 3 + 2]
+        ),
+        velocity: vec3.create(),
+        pressure: 0,
+        density: 1000,
+        mass: 1,
+      });
+    }
+    const grid = ParticleOperations.buildNeighborGrid(particles, RADIUS);
+    const expected = bruteForce(points);
+
+    particles.forEach((particle, i) => {
+      const found = ParticleOperations.findNeighbors(
+        particle,
+        particles,
+        RADIUS,
+        grid
+      );
+      expect(
+        found.map((other) => `${particles.indexOf(other)}:0`).sort()
+      ).toEqual(expected[i]);
+    });
+  });
+});
@@ -0,0 +1,722 @@
+import { spawnSync } from "child_process";
+import * as path from "path";
+import * as THREE from "three";
+import {
+  IntegratorType,
+  PhaseProperties,
+  SPHSimulator,
+} from "../src/core/sph-simulator";
+import {
+  ConstraintPlugin,
+  ForcePlugin,
+  InterfaceTensionForce,
+} from "../src/core/force-plugins";
+import { IncompressibleSettings } from "../src/core/pressure-projection";
+import { RheologyModel } from "../src/core/rheology";
+import { WallThermalCondition } from "../src/core/thermal";
+import {
+  ACCEPTANCE_LIMITS,
+  BenchmarkResult,
+  Validation,
+} from "../src/core/validation";
+import { LinearSolverType } from "../src/utils/numerial-methods";
+
+// The full benchmarks run in a child process: under jest's module sandbox
+// every Math call in the solver's loops is a slow global lookup
+const VALIDATION_TIMEOUT = 600000;
+
+describe("SPHSimulator validation", () => {
+  it(
+    "keeps every benchmark within its acceptance limits",
+    () => {
+      const root = path.join(__dirname, "..");
+      const run = spawnSync(
+        path.join(root, "node_modules", ".bin", "ts-node"),
+        [path.join(root, "src", "cli", "validate.ts"), "--json"],
+        { cwd: root, encoding: "utf8", timeout: VALIDATION_TIMEOUT }
+      );
+      // JSON writes NaN as null
+      const results: BenchmarkResult[] = JSON.parse(
+        run.stdout,
+        (_key, value) => (value === null ? NaN : value)
+      );
+      expect(results.map(({ name }) => name)).toEqual(
+        Object.keys(ACCEPTANCE_LIMITS)
+      );
+      expect(Validation.checkLimits(results)).toEqual([]);
+    },
+    VALIDATION_TIMEOUT
+  );
+
+  it("reports errors above the acceptance limits", () => {
+    const result: BenchmarkResult = {
+      name: "Dam break",
+      time: 0.2,
+      particleCount: 10,
+      profiles: {
+        surgeFront: {
+          coordinate: [0],
+          simulated: [1.2],
+          reference: [1],
+          errors: { l1: 0.2, l2: 0.2, lInf: 0.2 },
+        },
+      },
+      scalars: {},
+    };
+    expect(Validation.checkLimits([result])).toEqual([
+      `Dam break surgeFront: error 0.200 exceeds ${ACCEPTANCE_LIMITS["Dam break"].surgeFront}`,
+    ]);
+    result.profiles.surgeFront.errors.l2 = 0.05;
+    expect(Validation.checkLimits([result])).toEqual([]);
+    result.profiles.surgeFront.errors.l2 = NaN;
+    expect(Validation.checkLimits([result])).toHaveLength(1);
+  });
+});
+
+// A stirred blob of fluid clear of the walls, with nothing but
+// particle-pair forces acting on it
+const createBlob = (integrator: IntegratorType = "euler"): SPHSimulator => {
+  const simulator = new SPHSimulator({
+    bounds: new THREE.Box3(
+      new THREE.Vector3(0, 0, 0),
+      new THREE.Vector3(0.2, 0.2, 0.2)
+    ),
+    viscosity: 0.01,
+    density: 1000,
+    flowRate: 0,
+    timeStep: 0.001,
+    particleSpacing: 0.01,
+    gravity: new THREE.Vector3(0, 0, 0),
+    integrator,
+  });
+  simulator.initializeParticles(
+    new THREE.Box3(
+      new THREE.Vector3(0.07, 0.07, 0.07),
+      new THREE.Vector3(0.13, 0.13, 0.13)
+    ),
+    0.01
+  );
+  const positions = simulator.getParticlePositions();
+  const velocities = simulator.getParticleVelocities();
+  for (let i = 0; i < simulator.getParticleCount(); i++) {
+    velocities[i * 3] = positions[i * 3 + 1] - 0.1;
+    velocities[i * 3 + 1] = 0.1 - positions[i * 3];
+  }
+  return simulator;
+};
+
+describe("SPHSimulator integrators", () => {
+  const integrators: IntegratorType[] = [
+    "euler",
+    "leapfrog",
+    "velocity-verlet",
+    "predictor-corrector",
+  ];
+
+  it.each(integrators)("conserves momentum with %s", (integrator) => {
+    const simulator = createBlob(integrator);
+    const initial = simulator.getStepDiagnostics();
+    let diagnostics = initial;
+    for (let i = 0; i < 20; i++) {
+      diagnostics = simulator.step(simulator.getStableTimeStep());
+    }
+
+    const mass = simulator
+      .getParticleMasses()
+      .reduce((sum, mass) => sum + mass, 0);
+    diagnostics.momentum.forEach((momentum, axis) => {
+      expect(Math.abs(momentum - initial.momentum[axis]) / mass).toBeLessThan(
+        1e-5
+      );
+    });
+    // Viscosity only takes energy out
+    expect(diagnostics.kineticEnergy).toBeLessThan(initial.kineticEnergy);
+    expect(diagnostics.kineticEnergy).toBeGreaterThan(
+      0.5 * initial.kineticEnergy
+    );
+  });
+
+  it("tracks the kinetic energy of an inviscid bounce closer with second-order schemes", () => {
+    // The blob squeezed towards its center without any viscosity, so the
+    // pressure throws it back out and it flies apart
+    const createBounce = (integrator: IntegratorType): SPHSimulator => {
+      const simulator = createBlob(integrator);
+      simulator.setSimulationParameters({
+        ...simulator.getConfig(),
+        viscosity: 0,
+        artificialViscosity: 0,
+      });
+      const positions = simulator.getParticlePositions();
+      const velocities = simulator.getParticleVelocities();
+      for (let i = 0; i < simulator.getParticleCount() * 3; i++) {
+        velocities[i] = -5 * (positions[i] - 0.1);
+      }
+      return simulator;
+    };
+    const timeStep = createBounce("euler").getStableTimeStep();
+
+    // Reference energies at every step from a run at a quarter of the step
+    const reference = createBounce("velocity-verlet");
+    const energies: number[] = [];
+    for (let step = 0; step < 80; step++) {
+      const { kineticEnergy } = reference.step(timeStep / 4);
+      if (step % 4 === 3) energies.push(kineticEnergy);
+    }
+
+    const drift = (integrator: IntegratorType): number => {
+      const simulator = createBounce(integrator);
+      let largest = 0;
+      energies.forEach((energy) => {
+        const { kineticEnergy } = simulator.step(timeStep);
+        largest = Math.max(largest, Math.abs(kineticEnergy / energy - 1));
+      });
+      return largest;
+    };
+    // Euler's velocities lag half a step behind its positions
+    const euler = drift("euler");
+    expect(euler).toBeGreaterThan(0.1);
+    expect(drift("leapfrog")).toBeLessThan(0.25 * euler);
+    expect(drift("velocity-verlet")).toBeLessThan(0.25 * euler);
+  });
+
+  it("rejects an unknown integrator", () => {
+    expect(() =>
+      createBlob("runge-kutta" as unknown as IntegratorType)
+    ).toThrow("Unknown integrator");
+  });
+});
+
+describe("SPHSimulator advance", () => {
+  it("covers the frame interval in stable sub-steps", () => {
+    const simulator = createBlob();
+    const stable = simulator.getStableTimeStep();
+    const frameInterval = 4.5 * stable;
+
+    const report = simulator.advance(frameInterval);
+    expect(report.truncated).toBe(false);
+    expect(report.elapsed).toBeCloseTo(frameInterval, 12);
+    expect(simulator.getTime()).toBeCloseTo(frameInterval, 12);
+    expect(report.subSteps).toBe(simulator.getStepCount());
+    expect(report.subSteps).toBeGreaterThanOrEqual(5);
+    // The last sub-step only takes what is left of the interval
+    expect(report.minTimeStep).toBeLessThan(report.maxTimeStep);
+    expect(report.maxTimeStep).toBeLessThanOrEqual(1.01 * stable);
+    expect(report.diagnostics).toEqual(simulator.getStepDiagnostics());
+  });
+
+  it("stops at maxSubSteps and says the frame was cut short", () => {
+    const simulator = createBlob();
+    simulator.setSimulationParameters({
+      ...simulator.getConfig(),
+      maxSubSteps: 3,
+    });
+    const stable = simulator.getStableTimeStep();
+
+    const report = simulator.advance(10 * stable);
+    expect(report.truncated).toBe(true);
+    expect(report.subSteps).toBe(3);
+    expect(report.elapsed).toBeLessThan(10 * stable);
+    expect(simulator.getTime()).toBeCloseTo(report.elapsed, 12);
+
+    // Nothing to cover, nothing stepped
+    const idle = simulator.advance(0);
+    expect(idle).toMatchObject({
+      elapsed: 0,
+      subSteps: 0,
+      minTimeStep: 0,
+      maxTimeStep: 0,
+      truncated: false,
+    });
+  });
+});
+
+describe("SPHSimulator plugins", () => {
+  it("applies the built-in forces in order", () => {
+    expect(
+      createBlob()
+        .getForces()
+        .map((force) => force.name)
+    ).toEqual(["gravity", "pressure", "viscosity"]);
+  });
+
+  it("adds a registered force to every particle", () => {
+    const simulator = createBlob();
+    const push: ForcePlugin = {
+      name: "push",
+      accumulate: (context, accelerations) => {
+        for (let i = 0; i < context.count; i++) accelerations[i * 3 + 2] += 2;
+      },
+    };
+    simulator.addForce(push);
+    const initial = simulator.getStepDiagnostics();
+    let diagnostics = initial;
+    for (let i = 0; i < 20; i++) {
+      diagnostics = simulator.step(0.001);
+    }
+
+    // Pair forces cancel, leaving the push: m a t
+    const mass = simulator
+      .getParticleMasses()
+      .reduce((sum, mass) => sum + mass, 0);
+    expect((diagnostics.momentum[2] - initial.momentum[2]) / mass).toBeCloseTo(
+      0.04,
+      5
+    );
+    expect(() => simulator.addForce(push)).toThrow("already registered");
+    expect(simulator.removeForce(push)).toBe(true);
+    expect(simulator.removeForce(push)).toBe(false);
+  });
+
+  it("applies constraints after every move", () => {
+    const simulator = createBlob("leapfrog");
+    const pinned = Array.from(simulator.getParticlePositions().slice(0, 3));
+    let moves = 0;
+    const pin: ConstraintPlugin = {
+      name: "pin",
+      apply: ({ particles }) => {
+        particles.positions.set(pinned, 0);
+        particles.velocities.fill(0, 0, 3);
+        moves++;
+      },
+    };
+    simulator.addConstraint(pin);
+    for (let i = 0; i < 5; i++) {
+      simulator.step(0.001);
+    }
+
+    // Leapfrog drifts twice per step
+    expect(moves).toBe(10);
+    expect(Array.from(simulator.getParticlePositions().slice(0, 3))).toEqual(
+      pinned
+    );
+  });
+});
+
+describe("SPHSimulator phases", () => {
+  const OIL_AND_WATER: PhaseProperties[] = [
+    { name: "oil", density: 500, viscosity: 0.01 },
+    { name: "water", density: 1000, viscosity: 0.01 },
+  ];
+
+  // Oil in a narrow tank with a block of water on top of it against one
+  // wall, seeded half a spacing off the walls
+  const createLayers = (
+    phases: PhaseProperties[] = OIL_AND_WATER,
+    gravity?: THREE.Vector3
+  ): SPHSimulator => {
+    const simulator = new SPHSimulator({
+      bounds: new THREE.Box3(
+        new THREE.Vector3(0, 0, 0),
+        new THREE.Vector3(0.06, 0.12, 0.06)
+      ),
+      viscosity: 0.01,
+      density: 1000,
+      flowRate: 0,
+      timeStep: 0.001,
+      particleSpacing: 0.01,
+      speedOfSound: 10,
+      gravity,
+      phases,
+      interfaceTension: 0.02,
+    });
+    const fill = (min: number[], max: number[], phase: number): void =>
+      simulator.initializeParticles(
+        new THREE.Box3(new THREE.Vector3(...min), new THREE.Vector3(...max)),
+        0.01,
+        phase
+      );
+    const water = phases.length - 1;
+    fill([0.005, 0.005, 0.005], [0.06, 0.06, 0.06], 0);
+    fill([0.005, 0.065, 0.005], [0.03, 0.1, 0.06], water);
+    fill([0.035, 0.065, 0.005], [0.06, 0.1, 0.06], 0);
+    return simulator;
+  };
+
+  // Mean height of each phase's particles
+  const phaseHeights = (simulator: SPHSimulator): number[] => {
+    const heights = [0, 0];
+    const counts = [0, 0];
+    const positions = simulator.getParticlePositions();
+    simulator.getParticlePhases().forEach((phase, i) => {
+      heights[phase] += positions[i * 3 + 1];
+      counts[phase]++;
+    });
+    return heights.map((height, phase) => height / counts[phase]);
+  };
+
+  it("weighs each phase by its density and keeps one stiffness", () => {
+    const simulator = createLayers(OIL_AND_WATER, new THREE.Vector3(0, 0, 0));
+    const phases = simulator.getParticlePhases();
+    const masses = simulator.getParticleMasses();
+    const water = phases.indexOf(1);
+    expect(phases).toHaveLength(360);
+    expect(phases.filter((phase) => phase === 1)).toHaveLength(72);
+    expect(simulator.getPhaseFractions()).toEqual([0.8, 0.2]);
+    expect(masses[water] / masses[0]).toBeCloseTo(2, 6);
+
+    // Oil has half the density, so sound runs √2 faster through it and
+    // limits the step
+    const waterOnly = createLayers([OIL_AND_WATER[1]], new THREE.Vector3());
+    expect(simulator.getStableTimeStep()).toBeCloseTo(
+      waterOnly.getStableTimeStep() / Math.SQRT2,
+      12
+    );
+    expect(simulator.getForces().map((force) => force.name)).toContain(
+      "interface-tension"
+    );
+  });
+
+  it("pulls only next to the interface and conserves momentum", () => {
+    const simulator = createLayers(OIL_AND_WATER, new THREE.Vector3(0, 0, 0));
+    const tension = new InterfaceTensionForce(0.02);
+    let accelerations = new Float64Array(0);
+    let masses = new Float32Array(0);
+    // Particles with a neighbor of the other phase carry the stress, and it
+    // acts on them and their neighbors
+    let reached: boolean[] = [];
+    simulator.addForce({
+      name: "probe",
+      accumulate: (context) => {
+        const { offsets, indices } = context.neighbors;
+        const { phases } = context.particles;
+        const neighborsOf = (i: number): number[] =>
+          Array.from(indices.subarray(offsets[i], offsets[i + 1]));
+        const stressed = Array.from({ length: context.count }, (_, i) =>
+          neighborsOf(i).some((j) => phases[j] !== phases[i])
+        );
+        reached = stressed.map(
+          (atInterface, i) =>
+            atInterface || neighborsOf(i).some((j) => stressed[j])
+        );
+        accelerations = new Float64Array(context.count * 3);
+        tension.accumulate(context, accelerations);
+        masses = context.particles.masses.slice();
+      },
+    });
+    simulator.step(0.0001);
+
+    const magnitudes = reached.map((_, i) =>
+      Math.hypot(
+        accelerations[i * 3],
+        accelerations[i * 3 + 1],
+        accelerations[i * 3 + 2]
+      )
+    );
+    const far = magnitudes.filter((_, i) => !reached[i]);
+    expect(far.length).toBeGreaterThan(0);
+    expect(far).toEqual(new Array(far.length).fill(0));
+
+    const scale = magnitudes.reduce((sum, a, i) => sum + masses[i] * a, 0);
+    expect(scale).toBeGreaterThan(0);
+    for (let axis = 0; axis < 3; axis++) {
+      const momentum = masses.reduce(
+        (sum, mass, i) => sum + mass * accelerations[i * 3 + axis],
+        0
+      );
+      expect(Math.abs(momentum)).toBeLessThan(1e-9 * scale);
+    }
+  });
+
+  it("sinks the heavier phase through the lighter one", () => {
+    const simulator = createLayers();
+    const [oil, water] = phaseHeights(simulator);
+    const report = simulator.advance(0.1);
+    expect(report.truncated).toBe(false);
+
+    // Both settle as the column compresses, and the water by over a spacing
+    // more than the oil it displaces
+    const [oilAfter, waterAfter] = phaseHeights(simulator);
+    expect(water - waterAfter).toBeGreaterThan(oil - oilAfter + 0.01);
+  });
+});
+
+describe("SPHSimulator rheology", () => {
+  // A cube of power-law fluid, K = 2 and n = 0.5, sheared along x at
+  // `shearRate` across y
+  const createCouette = (
+    shearRate: number,
+    rheology: RheologyModel = {
+      type: "power-law",
+      consistency: 2,
+      flowIndex: 0.5,
+    }
+  ): SPHSimulator => {
+    const simulator = new SPHSimulator({
+      bounds: new THREE.Box3(
+        new THREE.Vector3(0, 0, 0),
+        new THREE.Vector3(0.1, 0.1, 0.1)
+      ),
+      viscosity: 0.001,
+      density: 1000,
+      flowRate: 0,
+      timeStep: 0.001,
+      particleSpacing: 0.01,
+      gravity: new THREE.Vector3(0, 0, 0),
+      rheology,
+    });
+    simulator.initializeParticles(
+      new THREE.Box3(
+        new THREE.Vector3(0.005, 0.005, 0.005),
+        new THREE.Vector3(0.1, 0.1, 0.1)
+      ),
+      0.01
+    );
+    const positions = simulator.getParticlePositions();
+    const velocities = simulator.getParticleVelocities();
+    for (let i = 0; i < simulator.getParticleCount(); i++) {
+      velocities[i * 3] = shearRate * (positions[i * 3 + 1] - 0.05);
+    }
+    return simulator;
+  };
+
+  // Viscosities after one short step of the particles more than a kernel
+  // radius from every wall, which see no wall shear
+  const interiorViscosities = (simulator: SPHSimulator): number[] => {
+    simulator.step(1e-6);
+    const positions = simulator.getParticlePositions();
+    const viscosities = simulator.getParticleViscosities();
+    const reach = 0.05 - simulator.getKernelRadius();
+    const interior: number[] = [];
+    for (let i = 0; i < simulator.getParticleCount(); i++) {
+      if (
+        [0, 1, 2].every(
+          (axis) => Math.abs(positions[i * 3 + axis] - 0.05) < reach
+        )
+      ) {
+        interior.push(viscosities[i]);
+      }
+    }
+    return interior;
+  };
+
+  it("thins a power-law fluid by its shear rate", () => {
+    const slow = createCouette(4);
+    // The phase viscosity until the first step
+    expect(new Set(slow.getParticleViscosities())).toEqual(new Set([0.001]));
+
+    // K γ̇^(n-1) = 1 Pa·s at 4 1/s, within the kernel's gradient error
+    const atFour = interiorViscosities(slow);
+    expect(atFour).toHaveLength(216);
+    atFour.forEach((viscosity) =>
+      expect(Math.abs(viscosity - 1)).toBeLessThan(0.05)
+    );
+
+    // Four times the rate, half the viscosity
+    const atSixteen = interiorViscosities(createCouette(16));
+    atSixteen.forEach((viscosity, n) =>
+      expect(viscosity / atFour[n]).toBeCloseTo(0.5, 6)
+    );
+  });
+
+  it("keeps a Newtonian fluid at its viscosity under shear", () => {
+    const simulator = createCouette(4, { type: "newtonian" });
+    simulator.step(1e-6);
+    expect(new Set(simulator.getParticleViscosities())).toEqual(
+      new Set([0.001])
+    );
+  });
+});
+
+describe("SPHSimulator heat transfer", () => {
+  // A box full of still fluid at 20, conducting fast enough to relax within
+  // a hundred steps: alpha = 0.01 m²/s
+  const createBox = (wall: WallThermalCondition): SPHSimulator => {
+    const simulator = new SPHSimulator({
+      bounds: new THREE.Box3(
+        new THREE.Vector3(0, 0, 0),
+        new THREE.Vector3(0.06, 0.06, 0.06)
+      ),
+      viscosity: 0.01,
+      density: 1000,
+      flowRate: 0,
+      timeStep: 0.001,
+      particleSpacing: 0.01,
+      gravity: new THREE.Vector3(0, 0, 0),
+      thermal: {
+        initialTemperature: 20,
+        fluid: { conductivity: 10, specificHeat: 1 },
+        wall,
+      },
+    });
+    simulator.initializeParticles(
+      new THREE.Box3(
+        new THREE.Vector3(0.005, 0.005, 0.005),
+        new THREE.Vector3(0.06, 0.06, 0.06)
+      ),
+      0.01
+    );
+    return simulator;
+  };
+
+  const total = (values: ArrayLike<number>): number =>
+    Array.from(values).reduce((sum, value) => sum + value, 0);
+
+  it("relaxes towards the wall temperature at the rate of the slowest mode", () => {
+    const simulator = createBox({ type: "temperature", temperature: 80 });
+    const excess = (): number =>
+      80 -
+      total(simulator.getParticleTemperatures()) / simulator.getParticleCount();
+    const history: number[][] = [];
+    for (let step = 0; step < 100; step++) {
+      simulator.step(simulator.getStableTimeStep());
+      history.push([simulator.getTime(), excess()]);
+      const temperatures = simulator.getParticleTemperatures();
+      expect(Math.min(...temperatures)).toBeGreaterThanOrEqual(20);
+      expect(Math.max(...temperatures)).toBeLessThanOrEqual(80);
+    }
+
+    // Once the faster modes have gone, the excess decays as
+    // exp(-3 pi² alpha t / L²) in a cube of side L
+    const [[early, earlyExcess], [late, lateExcess]] = [
+      history[59],
+      history[99],
+    ];
+    const rate = Math.log(earlyExcess / lateExcess) / (late - early);
+    const diffusivity = 10 / (1000 * 1);
+    const expected = (3 * Math.PI ** 2 * diffusivity) / 0.06 ** 2;
+    expect(Math.abs(rate / expected - 1)).toBeLessThan(0.15);
+    expect(lateExcess).toBeLessThan(0.05 * 60);
+  });
+
+  it("takes in the wall heat flux times the wall area", () => {
+    const simulator = createBox({ type: "heat-flux", heatFlux: 1000 });
+    const mass = simulator.getParticleMasses()[0];
+    const initial = total(simulator.getParticleTemperatures());
+    for (let step = 0; step < 20; step++) {
+      simulator.step(simulator.getStableTimeStep());
+    }
+
+    // Specific heat 1 J/(kg·K), over the six faces of the box
+    const heat = (total(simulator.getParticleTemperatures()) - initial) * mass;
+    const supplied = 1000 * 6 * 0.06 ** 2 * simulator.getTime();
+    expect(Math.abs(heat / supplied - 1)).toBeLessThan(0.1);
+  });
+
+  it("conserves heat between particles behind adiabatic walls", () => {
+    const simulator = createBox({ type: "adiabatic" });
+    const positions = simulator.getParticlePositions();
+    const temperatures = simulator.getParticleTemperatures();
+    for (let i = 0; i < simulator.getParticleCount(); i++) {
+      if (positions[i * 3] < 0.03) temperatures[i] = 80;
+    }
+    const initial = total(temperatures);
+    for (let step = 0; step < 100; step++) {
+      simulator.step(simulator.getStableTimeStep());
+    }
+
+    const relaxed = simulator.getParticleTemperatures();
+    expect(total(relaxed) / initial).toBeCloseTo(1, 5);
+    expect(Math.max(...relaxed) - Math.min(...relaxed)).toBeLessThan(40);
+  });
+
+  it("fills from each inlet at its own temperature", () => {
+    // Inflow along x into an empty duct, warmer than the fill or not
+    const emitted = (temperature?: number): number[] => {
+      const simulator = new SPHSimulator({
+        bounds: new THREE.Box3(
+          new THREE.Vector3(0, 0, 0),
+          new THREE.Vector3(0.2, 0.12, 0.12)
+        ),
+        viscosity: 0.01,
+        density: 1000,
+        flowRate: 0.002,
+        timeStep: 0.001,
+        particleSpacing: 0.01,
+        gravity: new THREE.Vector3(0, 0, 0),
+        inlets: [
+          {
+            center: new THREE.Vector3(0, 0.06, 0.06),
+            normal: new THREE.Vector3(1, 0, 0),
+            radius: 0.05,
+            temperature,
+          },
+        ],
+        thermal: {
+          initialTemperature: 20,
+          fluid: { conductivity: 0.6, specificHeat: 4180 },
+        },
+      });
+      simulator.step(0.05);
+      expect(simulator.getParticleCount()).toBeGreaterThan(0);
+      return Array.from(new Set(simulator.getParticleTemperatures()));
+    };
+
+    expect(emitted(60)).toEqual([60]);
+    expect(emitted()).toEqual([20]);
+  });
+});
+
+describe("SPHSimulator incompressible mode", () => {
+  // Water settling in a narrow tank, seeded half a spacing off the walls
+  const createTank = (
+    incompressible?: IncompressibleSettings,
+    integrator: IntegratorType = "euler"
+  ): SPHSimulator => {
+    const simulator = new SPHSimulator({
+      bounds: new THREE.Box3(
+        new THREE.Vector3(0, 0, 0),
+        new THREE.Vector3(0.06, 0.15, 0.06)
+      ),
+      viscosity: 0.001,
+      density: 1000,
+      flowRate: 0,
+      timeStep: 0.001,
+      particleSpacing: 0.01,
+      integrator,
+      incompressible,
+    });
+    simulator.initializeParticles(
+      new THREE.Box3(
+        new THREE.Vector3(0.005, 0.005, 0.005),
+        new THREE.Vector3(0.06, 0.1, 0.06)
+      ),
+      0.01
+    );
+    return simulator;
+  };
+
+  it.each(["relaxed-jacobi", "conjugate-gradient"] as LinearSolverType[])(
+    "keeps a tank of water settled at long steps with %s",
+    (linearSolver) => {
+      const simulator = createTank({ linearSolver });
+      const timeStep = simulator.getStableTimeStep();
+      expect(timeStep).toBeGreaterThanOrEqual(
+        10 * createTank().getStableTimeStep()
+      );
+
+      for (let i = 0; i < 40; i++) {
+        simulator.step(timeStep);
+        const solve = simulator.getPressureSolve()!;
+        expect(solve.converged).toBe(true);
+        expect(solve.densityError).toBeLessThanOrEqual(0.001);
+        // The tolerance bounds the mean error; single particles stray a few
+        // percent at these steps
+        expect(simulator.getMaxCompression()).toBeLessThan(0.1);
+      }
+
+      const positions = simulator.getParticlePositions();
+      const velocities = simulator.getParticleVelocities();
+      let squaredSpeed = 0;
+      for (let i = 0; i < simulator.getParticleCount(); i++) {
+        expect(positions[i * 3 + 1]).toBeLessThan(0.13);
+        squaredSpeed +=
+          velocities[i * 3] ** 2 +
+          velocities[i * 3 + 1] ** 2 +
+          velocities[i * 3 + 2] ** 2;
+      }
+      expect(
+        Math.sqrt(squaredSpeed / simulator.getParticleCount())
+      ).toBeLessThan(0.3);
+    }
+  );
+
+  it("rejects other integrators and unknown solvers", () => {
+    expect(() => createTank({}, "leapfrog")).toThrow("euler steps");
+    expect(() =>
+      createTank({ linearSolver: "multigrid" as unknown as LinearSolverType })
+    ).toThrow("Unknown linear solver");
+    expect(() => createTank({ densityTolerance: 0 })).toThrow(
+      "densityTolerance must be positive"
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import * as THREE from "three";
+import {
+  WorkerCommand,
+  WorkerEvent,
+  serializeConfig,
+} from "../src/core/simulation-protocol";
+
+interface FakeScope {
+  postMessage: jest.Mock<void, [WorkerEvent, ArrayBuffer[]?]>;
+  onmessage: ((event: { data: WorkerCommand }) => void) | null;
+}
+
+// The parentPort of a worker_threads worker
+interface FakePort {
+  postMessage: jest.Mock<void, [WorkerEvent, ArrayBuffer[]?]>;
+  on: jest.Mock<void, ["message", (command: WorkerCommand) => void]>;
+}
+
+// Load a fresh worker module against a stand-in for the worker global
+const loadWorker = async (): Promise<FakeScope> => {
+  const scope: FakeScope = { postMessage: jest.fn(), onmessage: null };
+  (globalThis as unknown as { self: FakeScope }).self = scope;
+  await jest.isolateModulesAsync(async () => {
+    await import("../src/core/sph-worker");
+  });
+  return scope;
+};
+
+const send = (scope: FakeScope, command: WorkerCommand): void =>
+  scope.onmessage!({ data: command });
+
+const frames = (scope: Pick<FakeScope, "postMessage">) =>
+  scope.postMessage.mock.calls
+    .map(([event]) => event)
+    .filter(
+      (event): event is Extract<WorkerEvent, { type: "frame" }> =>
+        event.type === "frame"
+    );
+
+// A small box of fluid, filled on init
+const initCommand = (): WorkerCommand => ({
+  type: "init",
+  config: serializeConfig({
+    bounds: new THREE.Box3(
+      new THREE.Vector3(0, 0, 0),
+      new THREE.Vector3(0.04, 0.04, 0.04)
+    ),
+    viscosity: 0.001,
+    density: 1000,
+    flowRate: 0,
+    timeStep: 0.0005,
+    particleSpacing: 0.01,
+  }),
+});
+
+const init = (scope: FakeScope): void => send(scope, initCommand());
+
+describe("sph-worker", () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => {
+    jest.useRealTimers();
+    delete (globalThis as { self?: unknown }).self;
+  });
+
+  it("holds frames back until the last one is acknowledged", async () => {
+    const scope = await loadWorker();
+    init(scope);
+    expect(frames(scope)).toHaveLength(1);
+
+    send(scope, { type: "start", frameInterval: 0.0005, adaptive: false });
+    for (let i = 0; i < 3; i++) jest.runOnlyPendingTimers();
+    expect(frames(scope)).toHaveLength(1);
+
+    send(scope, { type: "frame-ack" });
+    jest.runOnlyPendingTimers();
+    expect(frames(scope)).toHaveLength(2);
+    expect(frames(scope)[1].time).toBeCloseTo(0.002, 9);
+  });
+
+  it("posts the state paused at once the last frame is acknowledged", async () => {
+    const scope = await loadWorker();
+    init(scope);
+    send(scope, { type: "start", frameInterval: 0.0005, adaptive: false });
+    for (let i = 0; i < 3; i++) jest.runOnlyPendingTimers();
+    send(scope, { type: "pause" });
+    jest.runOnlyPendingTimers();
+    expect(frames(scope)).toHaveLength(1);
+
+    send(scope, { type: "frame-ack" });
+    expect(frames(scope)).toHaveLength(2);
+    expect(frames(scope)[1].time).toBeCloseTo(0.0015, 9);
+
+    // Nothing new to show after that
+    send(scope, { type: "frame-ack" });
+    expect(frames(scope)).toHaveLength(2);
+  });
+
+  it("posts the state paused at straight away once acknowledged", async () => {
+    const scope = await loadWorker();
+    init(scope);
+    send(scope, { type: "start", frameInterval: 0.0005, adaptive: false });
+    for (let i = 0; i < 2; i++) jest.runOnlyPendingTimers();
+    // Acknowledged between frames, so the next one would have gone out
+    send(scope, { type: "frame-ack" });
+    expect(frames(scope)).toHaveLength(1);
+
+    send(scope, { type: "pause" });
+    expect(frames(scope)).toHaveLength(2);
+    expect(frames(scope)[1].time).toBeCloseTo(0.001, 9);
+  });
+
+  it("runs one loop after a pause and a start before the next frame", async () => {
+    const scope = await loadWorker();
+    init(scope);
+    send(scope, { type: "frame-ack" });
+    send(scope, { type: "start", frameInterval: 0.0005, adaptive: false });
+    send(scope, { type: "pause" });
+    send(scope, { type: "start", frameInterval: 0.0005, adaptive: false });
+    jest.runOnlyPendingTimers();
+    expect(frames(scope)).toHaveLength(2);
+    expect(frames(scope)[1].time).toBeCloseTo(0.0005, 9);
+
+    // No second loop stepped on behind the frame posted
+    send(scope, { type: "pause" });
+    send(scope, { type: "frame-ack" });
+    expect(frames(scope)).toHaveLength(2);
+  });
+
+  it("talks through the parent port under worker_threads", async () => {
+    const port: FakePort = { postMessage: jest.fn(), on: jest.fn() };
+    await jest.isolateModulesAsync(async () => {
+      jest.doMock("worker_threads", () => ({ parentPort: port }));
+      await import("../src/core/sph-worker");
+    });
+    jest.dontMock("worker_threads");
+    expect(port.on).toHaveBeenCalledWith("message", expect.any(Function));
+
+    const [[, listener]] = port.on.mock.calls;
+    listener(initCommand());
+    expect(port.postMessage.mock.calls.map(([event]) => event.type)).toEqual([
+      "ready",
+      "frame",
+    ]);
+    expect(port.postMessage.mock.calls[1][1]).toHaveLength(5);
+
+    listener({ type: "frame-ack" });
+    listener({ type: "start", frameInterval: 0.0005, adaptive: false });
+    jest.runOnlyPendingTimers();
+    expect(frames(port)).toHaveLength(2);
+    expect(frames(port)[1].time).toBeCloseTo(0.0005, 9);
+    listener({ type: "pause" });
+  });
+});
@@ -0,0 +1,68 @@
+import { Thermal, ThermalProperties } from "../src/core/thermal";
+
+const oil: ThermalProperties = {
+  conductivity: 0.15,
+  specificHeat: 1900,
+  thermalExpansion: 7e-4,
+  viscosityTemperatureCoefficient: 0.03,
+};
+
+describe("Thermal", () => {
+  it("expands the fluid as it warms", () => {
+    expect(Thermal.restDensity(870, oil, 40, 20)).toBeCloseTo(
+      870 * (1 - 7e-4 * 20),
+      9
+    );
+    expect(Thermal.restDensity(870, oil, 0, 20)).toBeCloseTo(
+      870 * (1 + 7e-4 * 20),
+      9
+    );
+    expect(Thermal.restDensity(870, oil, 20, 20)).toBe(870);
+    // Never below a tenth of the nominal density
+    expect(Thermal.restDensity(870, oil, 5000, 20)).toBeCloseTo(87, 9);
+    // Without an expansion coefficient the density stays put
+    expect(
+      Thermal.restDensity(
+        1000,
+        { conductivity: 0.6, specificHeat: 4180 },
+        80,
+        20
+      )
+    ).toBe(1000);
+  });
+
+  it("thickens the fluid as it cools", () => {
+    expect(Thermal.viscosityFactor(oil, 20, 20)).toBe(1);
+    expect(Thermal.viscosityFactor(oil, 0, 20)).toBeCloseTo(Math.exp(0.6), 12);
+    expect(Thermal.viscosityFactor(oil, 40, 20)).toBeCloseTo(
+      Math.exp(-0.6),
+      12
+    );
+    expect(
+      Thermal.viscosityFactor({ conductivity: 0.6, specificHeat: 4180 }, 80, 20)
+    ).toBe(1);
+  });
+
+  it("takes the reference temperature from the initial one by default", () => {
+    expect(
+      Thermal.referenceTemperature({ initialTemperature: 60, fluid: oil })
+    ).toBe(60);
+    expect(
+      Thermal.referenceTemperature({
+        initialTemperature: 60,
+        referenceTemperature: 15,
+        fluid: oil,
+      })
+    ).toBe(15);
+  });
+
+  it("rejects unphysical properties", () => {
+    expect(() =>
+      Thermal.validate({ conductivity: -1, specificHeat: 4180 })
+    ).toThrow("Thermal conductivity must not be negative");
+    expect(() =>
+      Thermal.validate({ conductivity: 0.6, specificHeat: 0 })
+    ).toThrow("Specific heat must be positive");
+    expect(() => Thermal.validate(oil)).not.toThrow();
+  });
+});
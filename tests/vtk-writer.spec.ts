@@ -0,0 +1,74 @@
+import { VTKWriter } from "../src/adapters/vtk-writer";
+
+describe("VTKWriter", () => {
+  const snapshot = {
+    time: 0.25,
+    positions: new Float32Array([0, 0.5, 1, 2, 3, 4]),
+    velocities: new Float32Array([0.5, 0, 0, 0, -1, 0]),
+    pressures: new Float32Array([100, 200]),
+  };
+
+  it("writes particles as vertices with velocity and pressure", () => {
+    expect(VTKWriter.writeParticles(snapshot).split("\n")).toEqual([
+      "# vtk DataFile Version 3.0",
+      "SPH particles at t=0.25",
+      "ASCII",
+      "DATASET POLYDATA",
+      "POINTS 2 float",
+      "0 0.5 1",
+      "2 3 4",
+      "VERTICES 2 4",
+      "1 0",
+      "1 1",
+      "",
+      "POINT_DATA 2",
+      "VECTORS U float",
+      "0.5 0 0",
+      "0 -1 0",
+      "",
+      "SCALARS p float 1",
+      "LOOKUP_TABLE default",
+      "100",
+      "200",
+      "",
+    ]);
+  });
+
+  it("adds density and temperature when given", () => {
+    const lines = VTKWriter.writeParticles({
+      ...snapshot,
+      densities: new Float32Array([1000, 1001]),
+      temperatures: new Float32Array([20, 21]),
+    }).split("\n");
+    expect(lines.slice(21)).toEqual([
+      "SCALARS rho float 1",
+      "LOOKUP_TABLE default",
+      "1000",
+      "1001",
+      "",
+      "SCALARS T float 1",
+      "LOOKUP_TABLE default",
+      "20",
+      "21",
+      "",
+    ]);
+  });
+
+  it("names time steps and indexes them for ParaView", () => {
+    expect(VTKWriter.timeStepFileName(12)).toBe("pigging-simulation_12.vtk");
+    expect(
+      JSON.parse(
+        VTKWriter.writeSeriesIndex([
+          { name: "pigging-simulation_0.vtk", time: 0 },
+          { name: "pigging-simulation_1.vtk", time: 0.01 },
+        ])
+      )
+    ).toEqual({
+      "file-series-version": "1.0",
+      files: [
+        { name: "pigging-simulation_0.vtk", time: 0 },
+        { name: "pigging-simulation_1.vtk", time: 0.01 },
+      ],
+    });
+  });
+});
@@ -1,7 +1,10 @@
 const path = require('path');
 
 module.exports = {
-    entry: './src/index.ts',
+    entry: {
+        bundle: './src/index.ts',
+        'sph-worker': './src/core/sph-worker.ts',
+    },
     mode: 'development',
     module: {
         rules: [
@@ -14,9 +17,21 @@ module.exports = {
     },
     resolve: {
         extensions: ['.tsx', '.ts', '.js'],
+        // The solver worker only uses worker_threads when run under Node, and
+        // occt-import-js only reads its WebAssembly from disk there. xml2js
+        // only needs the rest to stream or parse asynchronously.
+        fallback: {
+            worker_threads: false,
+            fs: false,
+            path: false,
+            crypto: false,
+            buffer: false,
+            stream: false,
+            timers: false,
+        },
     },
     output: {
-        filename: 'bundle.js',
+        filename: '[name].js',
         path: path.resolve(__dirname, 'dist'),
     },
     devServer: {